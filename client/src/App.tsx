@@ -21,19 +21,12 @@ import AdminDashboard from "@/pages/admin/AdminDashboard";
 import ManageMaterialsPage from "@/pages/admin/ManageMaterialsPage";
 import SupplierApproval from "@/pages/SupplierApproval";
 import MaterialSubmissionApproval from "@/pages/admin/MaterialSubmissionApproval";
+import GstRatesPage from "@/pages/admin/GstRatesPage";
+import EstimatorCoefficientsPage from "@/pages/admin/EstimatorCoefficientsPage";
 
-import CivilWallEstimator from "@/pages/estimators/CivilWallEstimator";
-import FlooringEstimator from "@/pages/estimators/FlooringEstimator";
-import FalseCeilingEstimator from "@/pages/estimators/FalseCeilingEstimator";
-import PaintingEstimator from "@/pages/estimators/PaintingEstimator";
-import DoorsEstimator from "@/pages/estimators/DoorsEstimator";
-import BlindsEstimator from "@/pages/estimators/BlindsEstimator";
-import ElectricalEstimator from "@/pages/estimators/ElectricalEstimator";
-import PlumbingEstimator from "@/pages/estimators/PlumbingEstimator";
-import MSWorkEstimator from "@/pages/estimators/MSWorkEstimator";
-import SSWorkEstimator from "@/pages/estimators/SSWorkEstimator";
-import FireFightingEstimator from "@/pages/estimators/FireFightingEstimator";
 import DynamicEstimator from "@/pages/estimators/DynamicEstimator";
+import EstimatorRuntime from "@/components/estimators/EstimatorRuntime";
+import { ESTIMATOR_DEFINITIONS } from "@/pages/estimators/definitions";
 
 import ItemMaster from "@/pages/ItemMaster";
 import Subscription from "@/pages/Subscription";
@@ -74,23 +67,11 @@ function Router() {
 
       {/* ================= ESTIMATORS ================= */}
       {/* Hardcoded estimators for predefined categories */}
-      <Route path="/estimators/civil-wall" component={CivilWallEstimator} />
-      <Route path="/estimators/flooring" component={FlooringEstimator} />
-      <Route
-        path="/estimators/false-ceiling"
-        component={FalseCeilingEstimator}
-      />
-      <Route path="/estimators/painting" component={PaintingEstimator} />
-      <Route path="/estimators/doors" component={DoorsEstimator} />
-      <Route path="/estimators/blinds" component={BlindsEstimator} />
-      <Route path="/estimators/electrical" component={ElectricalEstimator} />
-      <Route path="/estimators/plumbing" component={PlumbingEstimator} />
-      <Route path="/estimators/ms-work" component={MSWorkEstimator} />
-      <Route path="/estimators/ss-work" component={SSWorkEstimator} />
-      <Route
-        path="/estimators/fire-fighting"
-        component={FireFightingEstimator}
-      />
+      {ESTIMATOR_DEFINITIONS.map((definition) => (
+        <Route key={definition.slug} path={`/estimators/${definition.slug}`}>
+          <EstimatorRuntime key={definition.slug} definition={definition} />
+        </Route>
+      ))}
 
       {/* Dynamic estimator for new database subcategories - fallback route */}
       <Route path="/estimators/:subcategory" component={DynamicEstimator} />
@@ -109,6 +90,11 @@ function Router() {
         path="/admin/material-submissions"
         component={MaterialSubmissionApproval}
       />
+      <Route path="/admin/gst-rates" component={GstRatesPage} />
+      <Route
+        path="/admin/estimator-coefficients"
+        component={EstimatorCoefficientsPage}
+      />
 
       {/* ================= SUPPLIER ================= */}
       <Route path="/supplier/shops" component={SupplierShops} />
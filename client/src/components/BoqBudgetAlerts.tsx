@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { BudgetAlertBadge } from "@/components/BoqBudgetVariance";
+import apiFetch from "@/lib/api";
+import {
+  BUDGET_WARNING_PERCENT,
+  type ProjectBudgetSummary,
+} from "@shared/boq-budget";
+
+type AlertProject = {
+  id: string;
+  name: string;
+  client?: string;
+  budget_summary?: ProjectBudgetSummary;
+};
+
+// Dashboard card listing projects whose latest version is near or over budget;
+// renders nothing when every project is within budget
+export default function BoqBudgetAlerts() {
+  const [projects, setProjects] = useState<AlertProject[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await apiFetch("/api/boq-projects", { headers: {} });
+        if (res.ok) {
+          const data = await res.json();
+          setProjects(data.projects || []);
+        }
+      } catch (e) {
+        console.warn("Failed to load budget alerts", e);
+      }
+    };
+    load();
+  }, []);
+
+  const flagged = projects
+    .filter((p) => {
+      const summary = p.budget_summary;
+      return (
+        summary &&
+        (summary.overBudgetVersions.length > 0 ||
+          summary.latest?.level === "warning" ||
+          summary.latest?.level === "over")
+      );
+    })
+    .sort(
+      (a, b) =>
+        (b.budget_summary?.latest?.usedPercent ?? 0) -
+        (a.budget_summary?.latest?.usedPercent ?? 0),
+    );
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget Alerts</CardTitle>
+        <CardDescription>
+          Projects whose BOQ is above {BUDGET_WARNING_PERCENT}% of budget
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {flagged.map((p) => {
+            const summary = p.budget_summary!;
+            return (
+              <li
+                key={p.id}
+                className="flex items-center justify-between gap-3 py-2"
+              >
+                <div>
+                  <Link
+                    href={`/create-boq?project=${encodeURIComponent(p.id)}`}
+                    className="font-medium hover:underline"
+                  >
+                    {p.name}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    {p.client || "—"}
+                    {summary.latest &&
+                      ` • latest V${summary.latest.versionNumber}`}
+                    {summary.overBudgetVersions.length > 0 &&
+                      ` • over budget: ${summary.overBudgetVersions
+                        .map((n) => `V${n}`)
+                        .join(", ")}`}
+                  </div>
+                </div>
+                {summary.latest && (
+                  <BudgetAlertBadge
+                    level={summary.latest.level}
+                    usedPercent={summary.latest.usedPercent}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+import {
+  BUDGET_LEVEL_LABELS,
+  type BudgetAlertLevel,
+  type BudgetVariance,
+  type TradeBudgetVariance,
+} from "@shared/boq-budget";
+
+const money = (n: number) =>
+  n.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const LEVEL_STYLES: Record<BudgetAlertLevel, string> = {
+  none: "bg-gray-100 text-gray-600",
+  ok: "bg-green-100 text-green-800",
+  warning: "bg-amber-100 text-amber-800",
+  over: "bg-red-100 text-red-800",
+};
+
+export function BudgetAlertBadge({
+  level,
+  usedPercent,
+}: {
+  level: BudgetAlertLevel;
+  usedPercent: number | null;
+}) {
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${LEVEL_STYLES[level]}`}
+      title={BUDGET_LEVEL_LABELS[level]}
+    >
+      {usedPercent === null
+        ? BUDGET_LEVEL_LABELS[level]
+        : `${usedPercent.toFixed(1)}% of budget`}
+    </span>
+  );
+}
+
+type BoqBudgetVarianceProps = {
+  total: BudgetVariance;
+  trades: TradeBudgetVariance[];
+};
+
+// Budget vs quoted amount, overall and per estimator
+export default function BoqBudgetVariance({
+  total,
+  trades,
+}: BoqBudgetVarianceProps) {
+  const rows: (BudgetVariance & { label: string; bold?: boolean })[] = [
+    ...trades.map((t) => ({ ...t, label: t.estimator })),
+    { ...total, label: "Total", bold: true },
+  ];
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <table className="border-collapse text-xs min-w-full">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border px-2 py-1 text-left">Estimator</th>
+            <th className="border px-2 py-1 text-right">Budget</th>
+            <th className="border px-2 py-1 text-right">Quoted</th>
+            <th className="border px-2 py-1 text-right">Variance</th>
+            <th className="border px-2 py-1 text-left">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr
+              key={r.label}
+              className={r.bold ? "bg-gray-50 font-semibold" : undefined}
+            >
+              <td className="border px-2 py-1 capitalize">{r.label}</td>
+              <td className="border px-2 py-1 text-right">
+                {r.budget === null ? "—" : `₹${money(r.budget)}`}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(r.estimate)}
+              </td>
+              <td
+                className={`border px-2 py-1 text-right ${
+                  r.variance !== null && r.variance > 0 ? "text-red-700" : ""
+                }`}
+              >
+                {r.variance === null
+                  ? "—"
+                  : `${r.variance > 0 ? "+" : "−"}₹${money(Math.abs(r.variance))}`}
+              </td>
+              <td className="border px-2 py-1">
+                <BudgetAlertBadge level={r.level} usedPercent={r.usedPercent} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
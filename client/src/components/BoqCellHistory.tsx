@@ -0,0 +1,68 @@
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { History } from "lucide-react";
+
+export type BoqEditHistoryEntry = {
+  id: number;
+  item_id: string;
+  row_index: number;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  edited_by?: string | null;
+  edited_by_username?: string | null;
+  edited_at: string;
+};
+
+type BoqCellHistoryProps = {
+  entries: BoqEditHistoryEntry[];
+  label: string;
+};
+
+const formatValue = (v: string | null) =>
+  v === null || v === "" ? "(empty)" : v;
+
+// Small clock icon next to a BOQ cell; lists previous saved values for that cell.
+export default function BoqCellHistory({
+  entries,
+  label,
+}: BoqCellHistoryProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-blue-600"
+          title={`${entries.length} saved change(s)`}
+        >
+          <History className="h-3 w-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2 text-xs">
+        <div className="font-semibold mb-2">{label} history</div>
+        <ul className="space-y-2 max-h-60 overflow-y-auto">
+          {entries.map((e) => (
+            <li key={e.id} className="border-b pb-1 last:border-b-0">
+              <div>
+                <span className="line-through text-gray-500">
+                  {formatValue(e.old_value)}
+                </span>{" "}
+                →{" "}
+                <span className="font-medium">{formatValue(e.new_value)}</span>
+              </div>
+              <div className="text-gray-500">
+                {e.edited_by_username || "Unknown"} •{" "}
+                {new Date(e.edited_at).toLocaleString()}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,118 @@
+import { supplyTypeLabel, type GstSummary } from "@shared/gst";
+
+const money = (n: number) =>
+  n.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+type BoqGstSummaryProps = {
+  summary: GstSummary;
+  /** State recognised from the project location, if any. */
+  projectState: string | null;
+};
+
+// Rate-wise CGST/SGST/IGST breakdown shown under the BOQ grid
+export default function BoqGstSummary({
+  summary,
+  projectState,
+}: BoqGstSummaryProps) {
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold">GST Summary</h3>
+        <span className="text-xs text-gray-600">
+          Place of supply:{" "}
+          {projectState || (
+            <span className="text-amber-700">
+              not recognised from the project location (CGST + SGST assumed)
+            </span>
+          )}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="border-collapse text-xs min-w-full">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">GST Rate</th>
+              <th className="border px-2 py-1 text-left">Tax Type</th>
+              <th className="border px-2 py-1 text-right">Taxable Value</th>
+              <th className="border px-2 py-1 text-right">CGST</th>
+              <th className="border px-2 py-1 text-right">SGST</th>
+              <th className="border px-2 py-1 text-right">IGST</th>
+              <th className="border px-2 py-1 text-right">Total GST</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.rows.map((r) => (
+              <tr key={`${r.rate}-${r.supplyType}`}>
+                <td className="border px-2 py-1">{r.rate}%</td>
+                <td className="border px-2 py-1">
+                  {supplyTypeLabel(r.supplyType)}
+                </td>
+                <td className="border px-2 py-1 text-right">
+                  ₹{money(r.taxable)}
+                </td>
+                <td className="border px-2 py-1 text-right">
+                  ₹{money(r.cgst)}
+                </td>
+                <td className="border px-2 py-1 text-right">
+                  ₹{money(r.sgst)}
+                </td>
+                <td className="border px-2 py-1 text-right">
+                  ₹{money(r.igst)}
+                </td>
+                <td className="border px-2 py-1 text-right">₹{money(r.tax)}</td>
+              </tr>
+            ))}
+            {summary.unratedLines > 0 && (
+              <tr className="text-amber-700 italic">
+                <td className="border px-2 py-1" colSpan={2}>
+                  No GST rate ({summary.unratedLines} line(s))
+                </td>
+                <td className="border px-2 py-1 text-right">
+                  ₹{money(summary.unrated)}
+                </td>
+                <td className="border px-2 py-1" colSpan={4}>
+                  Add the HSN/SAC code to the material template or a rate for it
+                  under GST Rates
+                </td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="bg-gray-100 font-semibold">
+              <td className="border px-2 py-1 text-right" colSpan={2}>
+                Total
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(summary.taxable)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(summary.cgst)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(summary.sgst)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(summary.igst)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(summary.tax)}
+              </td>
+            </tr>
+            <tr className="bg-gray-50 font-bold">
+              <td className="border px-2 py-1 text-right" colSpan={6}>
+                Grand Total incl. GST
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(summary.total)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+
+const IMPORT_FIELDS = [
+  { key: "s_no", label: "S.No" },
+  { key: "title", label: "Item" },
+  { key: "description", label: "Description" },
+  { key: "location", label: "Location" },
+  { key: "unit", label: "Unit" },
+  { key: "qty", label: "Qty" },
+  { key: "supply_rate", label: "Supply Rate" },
+  { key: "install_rate", label: "Install Rate" },
+] as const;
+
+type ImportFieldKey = (typeof IMPORT_FIELDS)[number]["key"];
+
+type Mapping = Partial<Record<ImportFieldKey, number>>;
+
+type ImportPreview = {
+  sheets: string[];
+  sheet: string;
+  headerRow: number;
+  headers: string[];
+  rows: string[][];
+  rowNumbers: number[];
+  rowCount: number;
+  suggestedMapping: Mapping;
+};
+
+type ValidationResult = {
+  items: any[];
+  errors: { row: number; field: string | null; message: string }[];
+  skipped: number[];
+};
+
+type BoqImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versionId: string;
+  onImported: () => void;
+};
+
+const NOT_MAPPED = "none";
+
+const columnLetter = (idx: number) => {
+  let s = "";
+  for (let n = idx + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  }
+  return s;
+};
+
+export default function BoqImportDialog({
+  open,
+  onOpenChange,
+  versionId,
+  onImported,
+}: BoqImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [productName, setProductName] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [headerRow, setHeaderRow] = useState(1);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setProductName("");
+    setPreview(null);
+    setHeaderRow(1);
+    setMapping({});
+    setValidation(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const loadPreview = async (selected: File, sheet?: string) => {
+    setBusy(true);
+    setValidation(null);
+    try {
+      const params = new URLSearchParams({ filename: selected.name });
+      if (sheet) params.set("sheet", sheet);
+      const response = await apiFetch(`/api/boq-import/preview?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: selected,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Could not read spreadsheet");
+      }
+      setPreview(data);
+      setHeaderRow(data.headerRow);
+      setMapping(data.suggestedMapping || {});
+    } catch (err: any) {
+      console.error("Import preview failed:", err);
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: err?.message || "Could not read spreadsheet",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (!selected) {
+      setPreview(null);
+      return;
+    }
+    if (!productName) setProductName(selected.name.replace(/\.[^.]+$/, ""));
+    loadPreview(selected);
+  };
+
+  // Validation and the actual import run the same server-side checks
+  const submitImport = async (dryRun: boolean) => {
+    if (!file || !preview) return;
+    setBusy(true);
+    try {
+      const params = new URLSearchParams({
+        filename: file.name,
+        header_row: String(headerRow),
+        mapping: JSON.stringify(mapping),
+        product_name: productName,
+        dry_run: String(dryRun),
+      });
+      if (preview.sheet) params.set("sheet", preview.sheet);
+
+      const response = await apiFetch(
+        `/api/boq-versions/${encodeURIComponent(versionId)}/import?${params}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: file,
+        },
+      );
+      const data = await response.json();
+
+      if (dryRun || !response.ok) {
+        if (data.items) setValidation(data);
+        if (!response.ok) throw new Error(data.message || "Import failed");
+        return;
+      }
+
+      toast({
+        title: "Imported",
+        description: `${data.imported} row(s) added to this version`,
+      });
+      onImported();
+      handleOpenChange(false);
+    } catch (err: any) {
+      console.error("Import failed:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Import failed",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const headerIndex = preview
+    ? preview.rowNumbers.findIndex((n) => n === headerRow)
+    : -1;
+  const headers = preview && headerIndex >= 0 ? preview.rows[headerIndex] : [];
+  const columnCount = preview
+    ? Math.max(0, ...preview.rows.map((r) => r.length))
+    : 0;
+  const sampleRows = preview
+    ? preview.rows
+        .map((row, i) => ({ row, number: preview.rowNumbers[i] }))
+        .filter((r) => r.number > headerRow)
+        .slice(0, 8)
+    : [];
+
+  const updateMapping = (field: ImportFieldKey, value: string) => {
+    setValidation(null);
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const canImport =
+    !!validation &&
+    validation.errors.length === 0 &&
+    validation.items.length > 0 &&
+    !busy;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import BOQ from Excel / CSV</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Spreadsheet (.xlsx or .csv)</Label>
+              <Input
+                type="file"
+                accept=".xlsx,.csv"
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Section name in BOQ</Label>
+              <Input
+                value={productName}
+                onChange={(e) => setProductName(e.target.value)}
+                placeholder="e.g. Client BOQ – Civil"
+              />
+            </div>
+          </div>
+
+          {busy && !preview && (
+            <div className="text-sm text-gray-500">Reading file...</div>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap items-end gap-4">
+                {preview.sheets.length > 1 && (
+                  <div className="space-y-1">
+                    <Label>Sheet</Label>
+                    <Select
+                      value={preview.sheet}
+                      onValueChange={(sheet) =>
+                        file && loadPreview(file, sheet)
+                      }
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {preview.sheets.map((s) => (
+                          <SelectItem key={s} value={s}>
+                            {s}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label>Header row</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={headerRow}
+                    onChange={(e) => {
+                      setValidation(null);
+                      setHeaderRow(Math.max(1, Number(e.target.value) || 1));
+                    }}
+                  />
+                </div>
+                <div className="text-xs text-gray-500 pb-2">
+                  {preview.rowCount} non-empty row(s) found
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="font-semibold">Map columns</Label>
+                <div className="grid grid-cols-4 gap-3">
+                  {IMPORT_FIELDS.map((f) => (
+                    <div key={f.key} className="space-y-1">
+                      <Label className="text-xs">{f.label}</Label>
+                      <Select
+                        value={
+                          mapping[f.key] === undefined
+                            ? NOT_MAPPED
+                            : String(mapping[f.key])
+                        }
+                        onValueChange={(v) => updateMapping(f.key, v)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>
+                            — Not mapped —
+                          </SelectItem>
+                          {Array.from({ length: columnCount }, (_, idx) => (
+                            <SelectItem key={idx} value={String(idx)}>
+                              {columnLetter(idx)}
+                              {headers[idx] ? ` – ${headers[idx]}` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border rounded">
+                <table className="border-collapse text-xs min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border px-2 py-1">Row</th>
+                      {IMPORT_FIELDS.filter(
+                        (f) => mapping[f.key] !== undefined,
+                      ).map((f) => (
+                        <th key={f.key} className="border px-2 py-1 text-left">
+                          {f.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sampleRows.map(({ row, number }) => (
+                      <tr key={number}>
+                        <td className="border px-2 py-1 text-gray-500">
+                          {number}
+                        </td>
+                        {IMPORT_FIELDS.filter(
+                          (f) => mapping[f.key] !== undefined,
+                        ).map((f) => (
+                          <td key={f.key} className="border px-2 py-1">
+                            {row[mapping[f.key]!] || ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {validation && (
+                <div className="space-y-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-green-700">
+                      {validation.items.length} row(s) ready
+                    </span>
+                    {validation.skipped.length > 0 && (
+                      <span className="text-gray-500">
+                        {" "}
+                        • {validation.skipped.length} heading row(s) skipped
+                      </span>
+                    )}
+                    {validation.errors.length > 0 && (
+                      <span className="text-red-700">
+                        {" "}
+                        • {validation.errors.length} error(s)
+                      </span>
+                    )}
+                  </div>
+                  {validation.errors.length > 0 && (
+                    <ul className="text-xs text-red-700 border border-red-200 bg-red-50 rounded p-2 max-h-40 overflow-y-auto space-y-1">
+                      {validation.errors.map((e, idx) => (
+                        <li key={idx}>
+                          {e.row > 0 ? `Row ${e.row}: ` : ""}
+                          {e.field
+                            ? `${IMPORT_FIELDS.find((f) => f.key === e.field)?.label || e.field} – `
+                            : ""}
+                          {e.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => submitImport(true)}
+            disabled={!preview || busy}
+          >
+            Validate
+          </Button>
+          <Button onClick={() => submitImport(false)} disabled={!canImport}>
+            {validation && validation.items.length > 0
+              ? `Import ${validation.items.length} Row(s)`
+              : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+import {
+  PRICING_ADJUSTMENT_KINDS,
+  PRICING_BASIS_LABELS,
+  PRICING_KIND_LABELS,
+  type PricingAdjustment,
+  type PricingAdjustmentBasis,
+  type PricingAdjustmentKind,
+  type PricingAdjustmentMode,
+  type PricingResult,
+} from "@shared/boq-pricing";
+
+const money = (n: number) =>
+  n.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+type BoqPricingAdjustmentsProps = {
+  versionId: string;
+  /** Working copy shown and edited here; CreateBoq uses it for live totals. */
+  adjustments: PricingAdjustment[];
+  savedAdjustments: PricingAdjustment[];
+  pricing: PricingResult;
+  locked: boolean;
+  onChange: (adjustments: PricingAdjustment[]) => void;
+  onSaved: (adjustments: PricingAdjustment[]) => void;
+};
+
+// Overhead / contingency / margin / discount layers for a BOQ version
+export default function BoqPricingAdjustments({
+  versionId,
+  adjustments,
+  savedAdjustments,
+  pricing,
+  locked,
+  onChange,
+  onSaved,
+}: BoqPricingAdjustmentsProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+  const dirty =
+    JSON.stringify(adjustments) !== JSON.stringify(savedAdjustments);
+
+  const update = (idx: number, patch: Partial<PricingAdjustment>) =>
+    onChange(adjustments.map((a, i) => (i === idx ? { ...a, ...patch } : a)));
+
+  const addAdjustment = () => {
+    const used = new Set(adjustments.map((a) => a.kind));
+    const kind =
+      PRICING_ADJUSTMENT_KINDS.find((k) => !used.has(k)) || "overhead";
+    onChange([
+      ...adjustments,
+      { kind, label: "", mode: "percent", value: 0, basis: "total" },
+    ]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await apiFetch(
+        `/api/boq-versions/${encodeURIComponent(versionId)}/pricing`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ adjustments }),
+        },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save pricing adjustments");
+      }
+      onSaved(data.pricing_adjustments || adjustments);
+      toast({ title: "Success", description: "Pricing adjustments saved" });
+    } catch (err: any) {
+      console.error("Failed to save pricing adjustments:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Failed to save pricing adjustments",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (locked && adjustments.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">Pricing Adjustments</h3>
+        {!locked && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={addAdjustment}>
+              Add Adjustment
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!dirty || saving}>
+              {saving ? "Saving..." : "Save Adjustments"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="border-collapse text-xs min-w-full">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Adjustment</th>
+              <th className="border px-2 py-1 text-left">Label</th>
+              <th className="border px-2 py-1 text-left w-24">Type</th>
+              <th className="border px-2 py-1 text-right w-24">Value</th>
+              <th className="border px-2 py-1 text-left w-36">Applied On</th>
+              <th className="border px-2 py-1 text-right">Supply</th>
+              <th className="border px-2 py-1 text-right">Install</th>
+              <th className="border px-2 py-1 text-right">Total</th>
+              {!locked && <th className="border px-2 py-1 w-16"></th>}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="text-gray-600">
+              <td className="border px-2 py-1" colSpan={5}>
+                BOQ amount
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(pricing.base.supply)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(pricing.base.install)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(pricing.base.supply + pricing.base.install)}
+              </td>
+              {!locked && <td className="border"></td>}
+            </tr>
+            {adjustments.map((a, idx) => {
+              const layer = pricing.layers[idx];
+              return (
+                <tr key={idx}>
+                  <td className="border px-1 py-1">
+                    <Select
+                      value={a.kind}
+                      disabled={locked}
+                      onValueChange={(v) =>
+                        update(idx, { kind: v as PricingAdjustmentKind })
+                      }
+                    >
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PRICING_ADJUSTMENT_KINDS.map((k) => (
+                          <SelectItem key={k} value={k}>
+                            {PRICING_KIND_LABELS[k]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="border px-1 py-1">
+                    <Input
+                      className="h-7 text-xs"
+                      value={a.label}
+                      disabled={locked}
+                      placeholder={PRICING_KIND_LABELS[a.kind]}
+                      onChange={(e) => update(idx, { label: e.target.value })}
+                    />
+                  </td>
+                  <td className="border px-1 py-1">
+                    <Select
+                      value={a.mode}
+                      disabled={locked}
+                      onValueChange={(v) =>
+                        update(idx, { mode: v as PricingAdjustmentMode })
+                      }
+                    >
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="percent">%</SelectItem>
+                        <SelectItem value="lump_sum">Lump sum ₹</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="border px-1 py-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      className="h-7 text-xs text-right"
+                      value={a.value}
+                      disabled={locked}
+                      onChange={(e) =>
+                        update(idx, {
+                          value: Math.max(0, parseFloat(e.target.value) || 0),
+                        })
+                      }
+                    />
+                  </td>
+                  <td className="border px-1 py-1">
+                    <Select
+                      value={a.basis}
+                      disabled={locked}
+                      onValueChange={(v) =>
+                        update(idx, { basis: v as PricingAdjustmentBasis })
+                      }
+                    >
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(
+                          Object.keys(
+                            PRICING_BASIS_LABELS,
+                          ) as PricingAdjustmentBasis[]
+                        ).map((b) => (
+                          <SelectItem key={b} value={b}>
+                            {PRICING_BASIS_LABELS[b]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    ₹{money(layer?.supply || 0)}
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    ₹{money(layer?.install || 0)}
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    ₹{money((layer?.supply || 0) + (layer?.install || 0))}
+                  </td>
+                  {!locked && (
+                    <td className="border px-1 py-1 text-center">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2"
+                        onClick={() =>
+                          onChange(adjustments.filter((_, i) => i !== idx))
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="bg-gray-100 font-semibold">
+              <td className="border px-2 py-1 text-right" colSpan={5}>
+                Quoted amount (before GST)
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(pricing.final.supply)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(pricing.final.install)}
+              </td>
+              <td className="border px-2 py-1 text-right">
+                ₹{money(pricing.final.supply + pricing.final.install)}
+              </td>
+              {!locked && <td className="border"></td>}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      {dirty && !locked && (
+        <div className="text-xs text-amber-700">
+          Unsaved adjustments — exports use the last saved values.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+
+type VersionOption = {
+  id: string;
+  version_number: number;
+  status?: string;
+};
+
+type DiffRow = {
+  description: string;
+  unit: string;
+  qty: number;
+  supplyRate: number;
+  installRate: number;
+  supplyAmount: number;
+  installAmount: number;
+};
+
+type DiffLine = {
+  status: "added" | "removed" | "changed" | "unchanged";
+  estimator: string;
+  productName: string;
+  title: string;
+  location: string;
+  base: DiffRow | null;
+  target: DiffRow | null;
+  changedFields: string[];
+  qtyDelta: number;
+  supplyRateDelta: number;
+  installRateDelta: number;
+  amountDelta: number;
+};
+
+type TotalsDelta = { base: number; target: number; delta: number };
+
+type VersionDiff = {
+  base: VersionOption;
+  target: VersionOption;
+  lines: DiffLine[];
+  estimators: {
+    estimator: string;
+    supply: TotalsDelta;
+    install: TotalsDelta;
+    total: TotalsDelta;
+    added: number;
+    removed: number;
+    changed: number;
+  }[];
+  totals: { supply: TotalsDelta; install: TotalsDelta; total: TotalsDelta };
+};
+
+type BoqVersionDiffProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: VersionOption[];
+  defaultBaseId?: string | null;
+  defaultTargetId?: string | null;
+  projectName?: string;
+};
+
+const STATUS_STYLES: Record<DiffLine["status"], string> = {
+  added: "bg-green-50",
+  removed: "bg-red-50 line-through text-gray-500",
+  changed: "bg-amber-50",
+  unchanged: "",
+};
+
+const money = (n: number) => `₹${n.toFixed(2)}`;
+
+const signed = (n: number) => (n > 0 ? `+${n.toFixed(2)}` : n.toFixed(2));
+
+const deltaClass = (n: number) =>
+  n > 0 ? "text-red-700" : n < 0 ? "text-green-700" : "text-gray-500";
+
+const csvCell = (value: string | number) => {
+  const cell = String(value);
+  if (cell.includes(",") || cell.includes('"') || cell.includes("\n")) {
+    return `"${cell.replace(/"/g, '""')}"`;
+  }
+  return cell;
+};
+
+export default function BoqVersionDiff({
+  open,
+  onOpenChange,
+  versions,
+  defaultBaseId,
+  defaultTargetId,
+  projectName,
+}: BoqVersionDiffProps) {
+  const [baseId, setBaseId] = useState<string | null>(defaultBaseId || null);
+  const [targetId, setTargetId] = useState<string | null>(
+    defaultTargetId || null,
+  );
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setBaseId(defaultBaseId || null);
+      setTargetId(defaultTargetId || null);
+    }
+  }, [open, defaultBaseId, defaultTargetId]);
+
+  useEffect(() => {
+    if (!open || !baseId || !targetId || baseId === targetId) {
+      setDiff(null);
+      return;
+    }
+
+    const loadDiff = async () => {
+      setLoading(true);
+      try {
+        const response = await apiFetch(
+          `/api/boq-versions/${encodeURIComponent(targetId)}/compare/${encodeURIComponent(baseId)}`,
+          { headers: {} },
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to compare versions (${response.status})`);
+        }
+        setDiff(await response.json());
+      } catch (err) {
+        console.error("Failed to load version diff:", err);
+        toast({
+          title: "Error",
+          description: "Failed to compare versions",
+          variant: "destructive",
+        });
+        setDiff(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [open, baseId, targetId]);
+
+  const visibleLines = (diff?.lines || []).filter(
+    (l) => showUnchanged || l.status !== "unchanged",
+  );
+
+  const handleExportCsv = () => {
+    if (!diff) return;
+
+    const headers = [
+      "Status",
+      "Estimator",
+      "Item",
+      "Location",
+      "Unit",
+      `Qty V${diff.base.version_number}`,
+      `Qty V${diff.target.version_number}`,
+      "Qty Delta",
+      `Supply Rate V${diff.base.version_number}`,
+      `Supply Rate V${diff.target.version_number}`,
+      `Install Rate V${diff.base.version_number}`,
+      `Install Rate V${diff.target.version_number}`,
+      "Amount Delta",
+      "Changed Fields",
+    ];
+    const rows: (string | number)[][] = diff.lines.map((l) => [
+      l.status,
+      l.estimator,
+      l.title,
+      l.location,
+      (l.target || l.base)?.unit || "",
+      l.base?.qty ?? "",
+      l.target?.qty ?? "",
+      l.qtyDelta.toFixed(2),
+      l.base?.supplyRate ?? "",
+      l.target?.supplyRate ?? "",
+      l.base?.installRate ?? "",
+      l.target?.installRate ?? "",
+      l.amountDelta.toFixed(2),
+      l.changedFields.join(" "),
+    ]);
+
+    rows.push([]);
+    rows.push(["Estimator", "Base Total", "Target Total", "Delta"]);
+    diff.estimators.forEach((e) =>
+      rows.push([
+        e.estimator,
+        e.total.base.toFixed(2),
+        e.total.target.toFixed(2),
+        e.total.delta.toFixed(2),
+      ]),
+    );
+    rows.push([
+      "Grand Total",
+      diff.totals.total.base.toFixed(2),
+      diff.totals.total.target.toFixed(2),
+      diff.totals.total.delta.toFixed(2),
+    ]);
+
+    const csvContent = [headers, ...rows]
+      .map((row) => row.map(csvCell).join(","))
+      .join("\n");
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    const filename = `${projectName || "BOQ"}_V${diff.base.version_number}_vs_V${diff.target.version_number}.csv`;
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const versionSelect = (
+    value: string | null,
+    onChange: (v: string) => void,
+    placeholder: string,
+  ) => (
+    <Select value={value || ""} onValueChange={onChange}>
+      <SelectTrigger className="w-40">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem value={v.id} key={v.id}>
+            V{v.version_number} {v.status ? `(${v.status})` : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Compare BOQ Versions{projectName ? ` — ${projectName}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            {versionSelect(baseId, setBaseId, "Base version")}
+            <span className="text-sm text-gray-500">→</span>
+            {versionSelect(targetId, setTargetId, "Compare version")}
+            <div className="flex items-center gap-2 ml-auto">
+              <Checkbox
+                id="show-unchanged"
+                checked={showUnchanged}
+                onCheckedChange={(v) => setShowUnchanged(!!v)}
+              />
+              <Label htmlFor="show-unchanged" className="text-sm">
+                Show unchanged lines
+              </Label>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportCsv}
+              disabled={!diff}
+            >
+              Export CSV
+            </Button>
+          </div>
+
+          {baseId && targetId && baseId === targetId && (
+            <div className="text-sm text-gray-500">
+              Select two different versions to compare.
+            </div>
+          )}
+
+          {loading && (
+            <div className="text-center py-6 text-gray-500">Comparing...</div>
+          )}
+
+          {diff && !loading && (
+            <>
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="border-collapse text-xs min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border px-2 py-1 text-left">Estimator</th>
+                      <th className="border px-2 py-1 text-right">
+                        V{diff.base.version_number} Total
+                      </th>
+                      <th className="border px-2 py-1 text-right">
+                        V{diff.target.version_number} Total
+                      </th>
+                      <th className="border px-2 py-1 text-right">Change</th>
+                      <th className="border px-2 py-1 text-center">
+                        Added / Removed / Changed
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.estimators.map((e) => (
+                      <tr key={e.estimator}>
+                        <td className="border px-2 py-1">{e.estimator}</td>
+                        <td className="border px-2 py-1 text-right">
+                          {money(e.total.base)}
+                        </td>
+                        <td className="border px-2 py-1 text-right">
+                          {money(e.total.target)}
+                        </td>
+                        <td
+                          className={`border px-2 py-1 text-right font-medium ${deltaClass(e.total.delta)}`}
+                        >
+                          {signed(e.total.delta)}
+                        </td>
+                        <td className="border px-2 py-1 text-center">
+                          {e.added} / {e.removed} / {e.changed}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="bg-gray-100 font-semibold">
+                      <td className="border px-2 py-1 text-right">
+                        Grand Total
+                      </td>
+                      <td className="border px-2 py-1 text-right">
+                        {money(diff.totals.total.base)}
+                      </td>
+                      <td className="border px-2 py-1 text-right">
+                        {money(diff.totals.total.target)}
+                      </td>
+                      <td
+                        className={`border px-2 py-1 text-right ${deltaClass(diff.totals.total.delta)}`}
+                      >
+                        {signed(diff.totals.total.delta)}
+                      </td>
+                      <td className="border"></td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {visibleLines.length === 0 ? (
+                <div className="text-sm text-gray-500 text-center py-4">
+                  No line changes between these versions.
+                </div>
+              ) : (
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="border-collapse text-xs min-w-full">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="border px-2 py-1 text-left">Status</th>
+                        <th className="border px-2 py-1 text-left">Item</th>
+                        <th className="border px-2 py-1 text-left">Location</th>
+                        <th className="border px-2 py-1 text-center">Unit</th>
+                        <th className="border px-2 py-1 text-right">Qty</th>
+                        <th className="border px-2 py-1 text-right">
+                          Supply Rate
+                        </th>
+                        <th className="border px-2 py-1 text-right">
+                          Install Rate
+                        </th>
+                        <th className="border px-2 py-1 text-right">
+                          Amount Change
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleLines.map((l, idx) => (
+                        <tr key={idx} className={STATUS_STYLES[l.status]}>
+                          <td className="border px-2 py-1 capitalize">
+                            {l.status}
+                          </td>
+                          <td className="border px-2 py-1">
+                            <div className="font-medium">{l.title}</div>
+                            <div className="text-gray-500">{l.estimator}</div>
+                          </td>
+                          <td className="border px-2 py-1">{l.location}</td>
+                          <td className="border px-2 py-1 text-center">
+                            {(l.target || l.base)?.unit}
+                          </td>
+                          <td className="border px-2 py-1 text-right">
+                            {l.base?.qty ?? "—"} → {l.target?.qty ?? "—"}
+                            {l.qtyDelta !== 0 && (
+                              <div className={deltaClass(l.qtyDelta)}>
+                                {signed(l.qtyDelta)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="border px-2 py-1 text-right">
+                            {l.base?.supplyRate ?? "—"} →{" "}
+                            {l.target?.supplyRate ?? "—"}
+                          </td>
+                          <td className="border px-2 py-1 text-right">
+                            {l.base?.installRate ?? "—"} →{" "}
+                            {l.target?.installRate ?? "—"}
+                          </td>
+                          <td
+                            className={`border px-2 py-1 text-right font-medium ${deltaClass(l.amountDelta)}`}
+                          >
+                            {signed(l.amountDelta)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
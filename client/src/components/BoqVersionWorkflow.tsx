@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import apiFetch from "@/lib/api";
+import {
+  BOQ_STATUS_LABELS,
+  type BoqTransition,
+  type BoqTransitionAction,
+  type BoqVersionStatus,
+} from "@shared/boq-workflow";
+import {
+  availableProjectTransitions,
+  type ProjectAccessRole,
+} from "@shared/boq-access";
+
+const STATUS_STYLES: Record<BoqVersionStatus, string> = {
+  draft: "bg-green-100 text-green-800",
+  submitted: "bg-yellow-100 text-yellow-800",
+  under_review: "bg-blue-100 text-blue-800",
+  approved: "bg-emerald-600 text-white",
+  rejected: "bg-red-100 text-red-800",
+  superseded: "bg-gray-200 text-gray-600",
+};
+
+export function BoqStatusBadge({ status }: { status: string }) {
+  const known = status as BoqVersionStatus;
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[known] || "bg-gray-100 text-gray-700"}`}
+    >
+      {BOQ_STATUS_LABELS[known] || status}
+    </span>
+  );
+}
+
+type VersionReview = {
+  id: number;
+  action: string;
+  from_status: string | null;
+  to_status: string;
+  comment: string | null;
+  actor_username: string | null;
+  actor_role: string | null;
+  created_at: string;
+};
+
+type BoqVersionWorkflowProps = {
+  versionId: string;
+  status: string;
+  /** Actions to show disabled, e.g. submit while the version is empty. */
+  disabledActions?: BoqTransitionAction[];
+  /** Caller's role on the project; narrows the actions offered. */
+  projectRole?: ProjectAccessRole | null;
+  onChanged: () => void;
+};
+
+// Review/approval actions for one version plus its status history
+export default function BoqVersionWorkflow({
+  versionId,
+  status,
+  disabledActions = [],
+  projectRole,
+  onChanged,
+}: BoqVersionWorkflowProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<VersionReview[]>([]);
+  const [pending, setPending] = useState<BoqTransition | null>(null);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadReviews = async () => {
+    try {
+      const response = await apiFetch(
+        `/api/boq-versions/${encodeURIComponent(versionId)}/reviews`,
+        { headers: {} },
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setReviews(data.reviews || []);
+      }
+    } catch (err) {
+      console.error("Failed to load review history:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, [versionId, status]);
+
+  const transitions = availableProjectTransitions(
+    status,
+    user?.role,
+    projectRole,
+  );
+
+  const performTransition = async () => {
+    if (!pending) return;
+    if (pending.requiresComment && !comment.trim()) {
+      toast({
+        title: "Comment required",
+        description: "Please explain why this version is being rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiFetch(
+        `/api/boq-versions/${encodeURIComponent(versionId)}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: pending.to, comment }),
+        },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update version");
+      }
+
+      toast({
+        title: "Success",
+        description: `Version is now ${BOQ_STATUS_LABELS[pending.to]}`,
+      });
+      setPending(null);
+      setComment("");
+      onChanged();
+    } catch (err: any) {
+      console.error("Failed to update version status:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Failed to update version",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Status:</span>
+        <BoqStatusBadge status={status} />
+        {transitions.map((t) => (
+          <Button
+            key={t.action}
+            size="sm"
+            variant={t.action === "reject" ? "destructive" : "outline"}
+            disabled={disabledActions.includes(t.action)}
+            onClick={() => {
+              setComment("");
+              setPending(t);
+            }}
+          >
+            {t.label}
+          </Button>
+        ))}
+      </div>
+
+      {reviews.length > 0 && (
+        <ul className="text-xs border rounded divide-y max-h-48 overflow-y-auto">
+          {reviews.map((r) => (
+            <li key={r.id} className="p-2">
+              <div className="flex items-center gap-2">
+                <BoqStatusBadge status={r.to_status} />
+                <span className="text-gray-600">
+                  {r.actor_username || "System"}
+                  {r.actor_role ? ` (${r.actor_role})` : ""} •{" "}
+                  {new Date(r.created_at).toLocaleString()}
+                </span>
+              </div>
+              {r.comment && (
+                <div className="mt-1 text-gray-800 whitespace-pre-wrap">
+                  {r.comment}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.label}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>
+              {pending?.requiresComment
+                ? "Reviewer comments (required)"
+                : "Comments (optional)"}
+            </Label>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button onClick={performTransition} disabled={saving}>
+              {saving ? "Saving..." : pending?.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+import { readProjectBudget, type ProjectBudget } from "@shared/boq-budget";
+
+// Estimator keys as stored on boq_items, offered when splitting the budget
+const ESTIMATOR_SUGGESTIONS = [
+  "civilwall",
+  "doors",
+  "flooring",
+  "falseceiling",
+  "electrical",
+  "plumbing",
+  "painting",
+  "blinds",
+];
+
+type BudgetLine = { estimator: string; amount: string };
+
+type ProjectBudgetDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName: string;
+  budget: ProjectBudget;
+  onSaved: (budget: ProjectBudget) => void;
+};
+
+export default function ProjectBudgetDialog({
+  open,
+  onOpenChange,
+  projectId,
+  projectName,
+  budget,
+  onSaved,
+}: ProjectBudgetDialogProps) {
+  const { toast } = useToast();
+  const [total, setTotal] = useState("");
+  const [lines, setLines] = useState<BudgetLine[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTotal(budget.total === null ? "" : String(budget.total));
+    setLines(
+      Object.keys(budget.breakdown).map((estimator) => ({
+        estimator,
+        amount: String(budget.breakdown[estimator]),
+      })),
+    );
+  }, [open]);
+
+  const splitTotal = lines.reduce(
+    (sum, l) => sum + (parseFloat(l.amount) || 0),
+    0,
+  );
+  const totalAmount = parseFloat(total);
+
+  const updateLine = (idx: number, patch: Partial<BudgetLine>) =>
+    setLines((ls) => ls.map((l, i) => (i === idx ? { ...l, ...patch } : l)));
+
+  const handleSave = async () => {
+    const breakdown: Record<string, string> = {};
+    for (const line of lines) {
+      if (!line.estimator.trim() && !line.amount.trim()) continue;
+      breakdown[line.estimator.trim()] = line.amount;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiFetch(
+        `/api/boq-projects/${encodeURIComponent(projectId)}/budget`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ budget: total, budget_breakdown: breakdown }),
+        },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update budget");
+      }
+      onSaved(readProjectBudget(data.budget_amount, data.budget_breakdown));
+      toast({ title: "Success", description: "Budget updated" });
+      onOpenChange(false);
+    } catch (err: any) {
+      console.error("Failed to update budget:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Failed to update budget",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Budget — {projectName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Total Budget (₹)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={total}
+              onChange={(e) => setTotal(e.target.value)}
+              placeholder="e.g. 2500000"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Split by Estimator (optional)</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  setLines((ls) => [...ls, { estimator: "", amount: "" }])
+                }
+              >
+                Add Line
+              </Button>
+            </div>
+            <datalist id="budget-estimators">
+              {ESTIMATOR_SUGGESTIONS.map((e) => (
+                <option key={e} value={e} />
+              ))}
+            </datalist>
+            {lines.map((line, idx) => (
+              <div key={idx} className="flex gap-2">
+                <Input
+                  list="budget-estimators"
+                  value={line.estimator}
+                  onChange={(e) =>
+                    updateLine(idx, { estimator: e.target.value })
+                  }
+                  placeholder="Estimator"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={line.amount}
+                  onChange={(e) => updateLine(idx, { amount: e.target.value })}
+                  placeholder="Amount"
+                />
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setLines((ls) => ls.filter((_, i) => i !== idx))
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            {lines.length > 0 &&
+              Number.isFinite(totalAmount) &&
+              splitTotal > totalAmount && (
+                <div className="text-xs text-amber-700">
+                  Estimator budgets add up to more than the total budget.
+                </div>
+              )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Budget"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
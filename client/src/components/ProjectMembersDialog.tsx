@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import apiFetch from "@/lib/api";
+import {
+  PROJECT_MEMBER_ROLES,
+  PROJECT_ROLE_LABELS,
+  projectRoleAllows,
+  type ProjectAccessRole,
+  type ProjectMember,
+  type ProjectMemberRole,
+} from "@shared/boq-access";
+
+type ProjectOwner = {
+  user_id: string;
+  username: string;
+  full_name?: string | null;
+};
+
+type ProjectMembersDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName: string;
+  /** Called after ownership changes or the caller leaves the project. */
+  onAccessChanged: () => void;
+};
+
+// Owner, invited members and their roles for one BOQ project
+export default function ProjectMembersDialog({
+  open,
+  onOpenChange,
+  projectId,
+  projectName,
+  onAccessChanged,
+}: ProjectMembersDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [owner, setOwner] = useState<ProjectOwner | null>(null);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [accessRole, setAccessRole] = useState<ProjectAccessRole | null>(null);
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ProjectMemberRole>("viewer");
+  const [newOwner, setNewOwner] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const canManage = projectRoleAllows(accessRole, "manage");
+  const membersUrl = `/api/boq-projects/${encodeURIComponent(projectId)}/members`;
+
+  const loadMembers = async () => {
+    try {
+      const response = await apiFetch(membersUrl, { headers: {} });
+      if (!response.ok) throw new Error("Failed to load project members");
+      const data = await response.json();
+      setOwner(data.owner || null);
+      setMembers(data.members || []);
+      setAccessRole(data.access_role || null);
+    } catch (err) {
+      console.error("Failed to load project members:", err);
+      toast({
+        title: "Error",
+        description: "Failed to load project members",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, projectId]);
+
+  // Shared request/toast handling for the member actions below
+  const send = async (
+    url: string,
+    method: string,
+    body: unknown,
+    success: string,
+  ) => {
+    setSaving(true);
+    try {
+      const response = await apiFetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.message || "Request failed");
+      toast({ title: "Success", description: success });
+      return true;
+    } catch (err: any) {
+      console.error("Project member update failed:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Request failed",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!username.trim()) return;
+    const ok = await send(
+      membersUrl,
+      "POST",
+      { username: username.trim(), role },
+      `${username.trim()} added as ${PROJECT_ROLE_LABELS[role].toLowerCase()}`,
+    );
+    if (ok) {
+      setUsername("");
+      loadMembers();
+    }
+  };
+
+  const handleRoleChange = async (member: ProjectMember, next: string) => {
+    const ok = await send(
+      `${membersUrl}/${encodeURIComponent(member.user_id)}`,
+      "PUT",
+      { role: next },
+      `${member.username} is now ${PROJECT_ROLE_LABELS[next as ProjectMemberRole].toLowerCase()}`,
+    );
+    if (ok) loadMembers();
+  };
+
+  const handleRemove = async (member: ProjectMember) => {
+    const leaving = member.user_id === user?.id;
+    if (
+      !confirm(
+        leaving
+          ? `Leave ${projectName}?`
+          : `Remove ${member.username} from ${projectName}?`,
+      )
+    ) {
+      return;
+    }
+    const ok = await send(
+      `${membersUrl}/${encodeURIComponent(member.user_id)}`,
+      "DELETE",
+      undefined,
+      leaving ? "You left the project" : `${member.username} removed`,
+    );
+    if (!ok) return;
+    if (leaving) {
+      onOpenChange(false);
+      onAccessChanged();
+    } else {
+      loadMembers();
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!newOwner.trim()) return;
+    if (!confirm(`Make ${newOwner.trim()} the owner of ${projectName}?`)) {
+      return;
+    }
+    const ok = await send(
+      `/api/boq-projects/${encodeURIComponent(projectId)}/owner`,
+      "PUT",
+      { username: newOwner.trim() },
+      `${newOwner.trim()} now owns the project`,
+    );
+    if (ok) {
+      setNewOwner("");
+      loadMembers();
+      onAccessChanged();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Members — {projectName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm">
+            <strong>Owner:</strong>{" "}
+            {owner ? (
+              owner.full_name ? (
+                `${owner.full_name} (${owner.username})`
+              ) : (
+                owner.username
+              )
+            ) : (
+              <span className="text-amber-700">
+                none — only admins can open this project until one is assigned
+              </span>
+            )}
+          </div>
+
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="border-collapse text-sm min-w-full">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border px-2 py-1 text-left">User</th>
+                  <th className="border px-2 py-1 text-left w-40">Role</th>
+                  <th className="border px-2 py-1 w-24"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.length === 0 ? (
+                  <tr>
+                    <td className="border px-2 py-2 text-gray-500" colSpan={3}>
+                      No members invited yet
+                    </td>
+                  </tr>
+                ) : (
+                  members.map((m) => (
+                    <tr key={m.user_id}>
+                      <td className="border px-2 py-1">
+                        {m.full_name
+                          ? `${m.full_name} (${m.username})`
+                          : m.username}
+                      </td>
+                      <td className="border px-2 py-1">
+                        {canManage ? (
+                          <Select
+                            value={m.role}
+                            disabled={saving}
+                            onValueChange={(v) => handleRoleChange(m, v)}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PROJECT_MEMBER_ROLES.map((r) => (
+                                <SelectItem key={r} value={r}>
+                                  {PROJECT_ROLE_LABELS[r]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          PROJECT_ROLE_LABELS[m.role]
+                        )}
+                      </td>
+                      <td className="border px-2 py-1 text-center">
+                        {(canManage || m.user_id === user?.id) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={saving}
+                            onClick={() => handleRemove(m)}
+                          >
+                            {m.user_id === user?.id ? "Leave" : "Remove"}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {canManage && (
+            <>
+              <div className="space-y-1">
+                <Label>Invite by Username</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                  />
+                  <Select
+                    value={role}
+                    onValueChange={(v) => setRole(v as ProjectMemberRole)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROJECT_MEMBER_ROLES.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {PROJECT_ROLE_LABELS[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleInvite}
+                    disabled={saving || !username.trim()}
+                  >
+                    Invite
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Viewers can open the BOQ and exports, editors can change items
+                  and submit versions, approvers can start reviews and reject
+                  versions. Approving stays with admins.
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Transfer Ownership</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={newOwner}
+                    onChange={(e) => setNewOwner(e.target.value)}
+                    placeholder="Username of the new owner"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleTransfer}
+                    disabled={saving || !newOwner.trim()}
+                  >
+                    Transfer
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,620 @@
+import { Fragment, useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+import { findWorkingVersionId } from "@/lib/boq-download";
+import type { CartLine, EstimatorCart } from "@/hooks/useEstimatorCart";
+
+type BoqLine = {
+  item: string;
+  location: string;
+  description: string;
+  unit: string;
+  qty: number;
+  supply_rate: number;
+  install_rate: number;
+};
+
+type EstimatorBoqStepsProps = {
+  step: number;
+  setStep: (step: number) => void;
+  cart: EstimatorCart;
+  /** Product name used for the BOQ item when adding to a project. */
+  title: string;
+  /** Start another estimate for the same session. */
+  onAddMore: () => void;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const money = (n: number) =>
+  n.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+/**
+ * Cart lines with the same item, unit and location become one BOQ line;
+ * rates are quantity-weighted so the amounts are unchanged. Lines are kept
+ * together by location, in the order the locations first appear.
+ */
+export function groupCartLines(lines: CartLine[]): BoqLine[] {
+  const groups = new Map<
+    string,
+    BoqLine & { supply: number; install: number }
+  >();
+  for (const l of lines) {
+    const key = `${l.item}||${l.unit}||${l.location}`;
+    const g = groups.get(key) || {
+      item: l.item,
+      location: l.location,
+      description: l.description,
+      unit: l.unit,
+      qty: 0,
+      supply_rate: 0,
+      install_rate: 0,
+      supply: 0,
+      install: 0,
+    };
+    g.qty += l.qty;
+    g.supply += l.qty * l.supplyRate;
+    g.install += l.qty * l.installRate;
+    if (!g.description) g.description = l.description;
+    groups.set(key, g);
+  }
+  const locations = Array.from(new Set(lines.map((l) => l.location)));
+  const ordered = Array.from(groups.values()).sort(
+    (a, b) => locations.indexOf(a.location) - locations.indexOf(b.location),
+  );
+  return ordered.map(({ supply, install, ...g }) => ({
+    ...g,
+    qty: round2(g.qty),
+    supply_rate: g.qty ? round2(supply / g.qty) : 0,
+    install_rate: g.qty ? round2(install / g.qty) : 0,
+  }));
+}
+
+const lineAmounts = (l: BoqLine) => ({
+  supply: l.qty * l.supply_rate,
+  install: l.qty * l.install_rate,
+});
+
+function BoqLinesTable({
+  lines,
+  selected,
+  onToggle,
+}: {
+  lines: BoqLine[];
+  selected?: boolean[];
+  onToggle?: (index: number) => void;
+}) {
+  const sumOf = (indexes: number[]) =>
+    indexes.reduce(
+      (t, i) => {
+        if (selected && !selected[i]) return t;
+        const a = lineAmounts(lines[i]);
+        return { supply: t.supply + a.supply, install: t.install + a.install };
+      },
+      { supply: 0, install: 0 },
+    );
+  const totals = sumOf(lines.map((_, i) => i));
+  // Sub-totals per location (room, surface, wall) when there is more than one
+  const multiLocation = new Set(lines.map((l) => l.location)).size > 1;
+  const locationEnds = (i: number) =>
+    multiLocation &&
+    (i === lines.length - 1 || lines[i + 1].location !== lines[i].location);
+  const locationSubtotal = (i: number) => {
+    const indexes: number[] = [];
+    for (let j = i; j >= 0 && lines[j].location === lines[i].location; j--) {
+      indexes.push(j);
+    }
+    return sumOf(indexes);
+  };
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <table className="min-w-full border-collapse text-sm">
+        <thead>
+          <tr className="bg-gray-100">
+            {onToggle && <th className="border px-2 py-1 w-8"></th>}
+            <th className="border px-2 py-1">S.No</th>
+            <th className="border px-2 py-1 text-left">Item</th>
+            <th className="border px-2 py-1 text-left">Location</th>
+            <th className="border px-2 py-1 text-left">Description</th>
+            <th className="border px-2 py-1">Unit</th>
+            <th className="border px-2 py-1 text-right">Qty</th>
+            <th className="border px-2 py-1 text-right">Supply Rate</th>
+            <th className="border px-2 py-1 text-right">Install Rate</th>
+            <th className="border px-2 py-1 text-right">Supply Amt</th>
+            <th className="border px-2 py-1 text-right">Install Amt</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((l, i) => {
+            const a = lineAmounts(l);
+            const subtotal = locationEnds(i) ? locationSubtotal(i) : null;
+            return (
+              <Fragment key={i}>
+                <tr className={selected && !selected[i] ? "opacity-50" : ""}>
+                  {onToggle && (
+                    <td className="border px-2 py-1 text-center">
+                      <Checkbox
+                        checked={!!selected?.[i]}
+                        onCheckedChange={() => onToggle(i)}
+                      />
+                    </td>
+                  )}
+                  <td className="border px-2 py-1 text-center">{i + 1}</td>
+                  <td className="border px-2 py-1">{l.item}</td>
+                  <td className="border px-2 py-1">{l.location}</td>
+                  <td className="border px-2 py-1 text-xs text-muted-foreground">
+                    {l.description}
+                  </td>
+                  <td className="border px-2 py-1 text-center">{l.unit}</td>
+                  <td className="border px-2 py-1 text-right">{l.qty}</td>
+                  <td className="border px-2 py-1 text-right">
+                    {money(l.supply_rate)}
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    {money(l.install_rate)}
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    {money(a.supply)}
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    {money(a.install)}
+                  </td>
+                </tr>
+                {subtotal && (
+                  <tr className="bg-gray-50 text-muted-foreground">
+                    <td
+                      className="border px-2 py-1 text-right"
+                      colSpan={onToggle ? 9 : 8}
+                    >
+                      Sub-total, {l.location || "unassigned"}: ₹
+                      {money(subtotal.supply + subtotal.install)}
+                    </td>
+                    <td className="border px-2 py-1 text-right">
+                      {money(subtotal.supply)}
+                    </td>
+                    <td className="border px-2 py-1 text-right">
+                      {money(subtotal.install)}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+          <tr className="font-semibold bg-gray-50">
+            <td
+              className="border px-2 py-1 text-right"
+              colSpan={onToggle ? 9 : 8}
+            >
+              Total (before GST): ₹{money(totals.supply + totals.install)}
+            </td>
+            <td className="border px-2 py-1 text-right">
+              {money(totals.supply)}
+            </td>
+            <td className="border px-2 py-1 text-right">
+              {money(totals.install)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Steps 9 (cart), 11 (finalize BOQ) and 12 (QA BOQ) shared by the estimators
+// that build their lines from computed requirements
+export default function EstimatorBoqSteps({
+  step,
+  setStep,
+  cart,
+  title,
+  onAddMore,
+}: EstimatorBoqStepsProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+  const [finalized, setFinalized] = useState<BoqLine[]>([]);
+  const [qaSelected, setQaSelected] = useState<boolean[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const projectId =
+    typeof window === "undefined"
+      ? null
+      : new URLSearchParams(window.location.search).get("project");
+  const sessionQuery = `session_id=${encodeURIComponent(cart.sessionId)}&estimator=${cart.estimator}`;
+
+  // Step 12 works from what Step 11 saved, not from the live cart
+  useEffect(() => {
+    if (step !== 12) return;
+    apiFetch(`/api/estimator-step11-groups?${sessionQuery}`, { headers: {} })
+      .then((res) => (res.ok ? res.json() : { items: [] }))
+      .then((data) => {
+        const rows: BoqLine[] = (data.items || []).map((r: any) => ({
+          item: r.item || "",
+          location: r.location || "",
+          description: r.description || "",
+          unit: r.unit || "",
+          qty: Number(r.qty || 0),
+          supply_rate: Number(r.supply_rate || 0),
+          install_rate: Number(r.install_rate || 0),
+        }));
+        setFinalized(rows);
+        setQaSelected(rows.map(() => true));
+      })
+      .catch((e) => console.warn("Failed to load Step 11 lines", e));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, cart.sessionId]);
+
+  const replaceRows = async (url: string, body: any) => {
+    await apiFetch(url, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        session_id: cart.sessionId,
+        estimator: cart.estimator,
+      }),
+    });
+    const res = await apiFetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error((await res.text()) || res.statusText);
+  };
+
+  const withBusy = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(failure, err);
+      toast({
+        title: "Error",
+        description: err?.message || failure,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveCart = () =>
+    withBusy(async () => {
+      if (!(await cart.save())) throw new Error("Failed to save cart");
+      toast({ title: "Saved", description: "Cart saved" });
+    }, "Failed to save cart");
+
+  const handleDeleteSelected = () =>
+    withBusy(async () => {
+      await cart.removeLines(selectedRows);
+      setSelectedRows([]);
+    }, "Failed to delete items");
+
+  const handleFinalize = () =>
+    withBusy(async () => {
+      if (!(await cart.save())) throw new Error("Failed to save cart");
+      const groups = groupCartLines(cart.lines).map((l, i) => {
+        const a = lineAmounts(l);
+        return {
+          estimator: cart.estimator,
+          session_id: cart.sessionId,
+          s_no: i + 1,
+          item: l.item,
+          location: l.location,
+          description: l.description,
+          unit: l.unit,
+          qty: l.qty,
+          supply_rate: l.supply_rate,
+          install_rate: l.install_rate,
+          supply_amount: round2(a.supply),
+          install_amount: round2(a.install),
+        };
+      });
+      await replaceRows("/api/estimator-step11-groups", { groups });
+      toast({ title: "Saved", description: "Finalized BOQ saved" });
+      setStep(12);
+    }, "Failed to save Step 11");
+
+  const qaLines = finalized.filter((_, i) => qaSelected[i]);
+
+  const handleSaveQa = () =>
+    withBusy(async () => {
+      await replaceRows("/api/estimator-step12-qa-selection", {
+        estimator: cart.estimator,
+        session_id: cart.sessionId,
+        items: qaLines.map((l, i) => {
+          const a = lineAmounts(l);
+          return {
+            ...l,
+            s_no: i + 1,
+            supply_amount: round2(a.supply),
+            install_amount: round2(a.install),
+          };
+        }),
+      });
+      toast({ title: "Saved", description: "QA BOQ saved" });
+    }, "Failed to save QA BOQ");
+
+  const handleAddToBoq = () =>
+    withBusy(async () => {
+      if (!projectId) return;
+      const versionId = await findWorkingVersionId(projectId);
+      if (!versionId) throw new Error("This project has no BOQ version yet");
+      const res = await apiFetch("/api/boq-items", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          project_id: projectId,
+          version_id: versionId,
+          estimator: cart.estimator,
+          session_id: cart.sessionId,
+          table_data: {
+            product_name: title,
+            step11_items: qaLines.map((l) => ({ ...l, title: l.item })),
+            created_at: new Date().toISOString(),
+          },
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || "Failed to add to BOQ");
+      }
+      toast({ title: "Success", description: "Added to BOQ" });
+      setLocation(`/create-boq?project=${encodeURIComponent(projectId)}`);
+    }, "Failed to add to BOQ");
+
+  if (step === 9) {
+    const allSelected =
+      cart.lines.length > 0 && selectedRows.length === cart.lines.length;
+    const total = cart.lines.reduce(
+      (s, l) => s + l.qty * (l.supplyRate + l.installRate),
+      0,
+    );
+    return (
+      <motion.div
+        key="step-9"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="space-y-4"
+      >
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <h3 className="text-xl font-semibold">Step 9: Cart</h3>
+          <div className="w-64 space-y-1">
+            <Label>Bill No</Label>
+            <Input
+              value={cart.sessionId}
+              disabled={!!projectId}
+              onChange={(e) => cart.setSessionId(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {cart.lines.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            The cart is empty. Add an estimate first.
+          </p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border px-2 py-1 w-8">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(v) =>
+                        setSelectedRows(v ? cart.lines.map((l) => l.rowId) : [])
+                      }
+                    />
+                  </th>
+                  <th className="border px-2 py-1 text-left">Item</th>
+                  <th className="border px-2 py-1 text-left">Description</th>
+                  <th className="border px-2 py-1 text-left">Location</th>
+                  <th className="border px-2 py-1">Unit</th>
+                  <th className="border px-2 py-1 w-24">Qty</th>
+                  <th className="border px-2 py-1 w-28">Supply Rate</th>
+                  <th className="border px-2 py-1 w-28">Install Rate</th>
+                  <th className="border px-2 py-1 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cart.lines.map((l) => (
+                  <tr key={l.rowId}>
+                    <td className="border px-2 py-1 text-center">
+                      <Checkbox
+                        checked={selectedRows.includes(l.rowId)}
+                        onCheckedChange={() =>
+                          setSelectedRows((prev) =>
+                            prev.includes(l.rowId)
+                              ? prev.filter((id) => id !== l.rowId)
+                              : [...prev, l.rowId],
+                          )
+                        }
+                      />
+                    </td>
+                    <td className="border px-2 py-1">
+                      <div className="font-medium">{l.item}</div>
+                      {l.shopName && (
+                        <div className="text-xs text-muted-foreground">
+                          {l.shopName}
+                        </div>
+                      )}
+                    </td>
+                    <td className="border px-1 py-1">
+                      <Input
+                        className="h-8"
+                        value={l.description}
+                        onChange={(e) =>
+                          cart.updateLine(l.rowId, {
+                            description: e.target.value,
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="border px-1 py-1">
+                      <Input
+                        className="h-8"
+                        value={l.location}
+                        onChange={(e) =>
+                          cart.updateLine(l.rowId, { location: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="border px-2 py-1 text-center">{l.unit}</td>
+                    {(["qty", "supplyRate", "installRate"] as const).map(
+                      (field) => (
+                        <td key={field} className="border px-1 py-1">
+                          <Input
+                            className="h-8 text-right"
+                            type="number"
+                            min={0}
+                            value={l[field]}
+                            onChange={(e) =>
+                              cart.updateLine(l.rowId, {
+                                [field]: Math.max(
+                                  0,
+                                  parseFloat(e.target.value) || 0,
+                                ),
+                              })
+                            }
+                          />
+                        </td>
+                      ),
+                    )}
+                    <td className="border px-2 py-1 text-right">
+                      {money(l.qty * (l.supplyRate + l.installRate))}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="font-semibold bg-gray-50">
+                  <td className="border px-2 py-1 text-right" colSpan={8}>
+                    Total (before GST)
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    ₹{money(total)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onAddMore}>
+              Add Another Estimate
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={busy || selectedRows.length === 0}
+              onClick={handleDeleteSelected}
+            >
+              Delete Selected
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={busy || cart.saving}
+              onClick={handleSaveCart}
+            >
+              Save Cart
+            </Button>
+            <Button
+              disabled={busy || cart.lines.length === 0}
+              onClick={() => setStep(11)}
+            >
+              Finalize BOQ
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    );
+  }
+
+  if (step === 11) {
+    return (
+      <motion.div
+        key="step-11"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="space-y-4"
+      >
+        <h3 className="text-xl font-semibold">Step 11: Finalize BOQ</h3>
+        <p className="text-sm text-muted-foreground">
+          Bill No {cart.sessionId}. Cart lines with the same item and location
+          are combined.
+        </p>
+        <BoqLinesTable lines={groupCartLines(cart.lines)} />
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep(9)}>
+            Back to Cart
+          </Button>
+          <Button
+            disabled={busy || cart.lines.length === 0}
+            onClick={handleFinalize}
+          >
+            Save &amp; Continue to QA
+          </Button>
+        </div>
+      </motion.div>
+    );
+  }
+
+  if (step === 12) {
+    return (
+      <motion.div
+        key="step-12"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="space-y-4"
+      >
+        <h3 className="text-xl font-semibold">Step 12: QA BOQ</h3>
+        {finalized.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No finalized BOQ lines found. Complete Step 11 first.
+          </p>
+        ) : (
+          <BoqLinesTable
+            lines={finalized}
+            selected={qaSelected}
+            onToggle={(i) =>
+              setQaSelected((prev) => prev.map((v, j) => (j === i ? !v : v)))
+            }
+          />
+        )}
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep(11)}>
+            Back
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={busy || qaLines.length === 0}
+              onClick={handleSaveQa}
+            >
+              Save QA BOQ
+            </Button>
+            {projectId && (
+              <Button
+                disabled={busy || qaLines.length === 0}
+                onClick={handleAddToBoq}
+              >
+                Add to BOQ
+              </Button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,496 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { motion, AnimatePresence } from "framer-motion";
+import { Calculator, ChevronLeft, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useEstimatorCart } from "@/hooks/useEstimatorCart";
+import { useEstimatorNavigation } from "@/hooks/useEstimatorNavigation";
+import { useProjectUnitSystem } from "@/hooks/useProjectUnitSystem";
+import { useEstimatorCoefficients } from "@/hooks/useEstimatorCoefficients";
+import EstimatorBoqSteps from "@/components/estimators/EstimatorBoqSteps";
+import RequiredMaterialsTable, {
+  useRequirementSelection,
+} from "@/components/estimators/RequiredMaterialsTable";
+import type { MaterialRequirement } from "@/lib/estimators/requirements";
+import { localizeDefinition } from "@/lib/estimators/units";
+import { withCoefficients } from "@/lib/estimators/coefficients";
+import {
+  definitionSections,
+  fieldError,
+  fieldOptions,
+  initialInputs,
+  newRowValues,
+  normalizeValues,
+  outcomeRequirements,
+  str,
+  validateInputs,
+  type EstimatorDefinition,
+  type EstimatorField,
+  type EstimatorInputs,
+  type FieldValue,
+  type FieldValues,
+  type RowsSection,
+  type SummaryTable,
+} from "@/lib/estimators/definition";
+
+// Renders an EstimatorDefinition: Step 1 inputs, Step 2 takeoff and
+// materials, then the shared cart and BOQ steps.
+
+const NO_REQUIREMENTS: MaterialRequirement[] = [];
+
+const fieldLabel = (field: EstimatorField) =>
+  field.unit ? `${field.label} (${field.unit})` : field.label;
+
+const readInput = (field: EstimatorField, raw: string): FieldValue => {
+  if (field.kind !== "number") return raw;
+  if (raw.trim() === "") return "";
+  const n = parseFloat(raw);
+  return isFinite(n) ? n : "";
+};
+
+function FieldControl({
+  field,
+  values,
+  compact,
+  onChange,
+}: {
+  field: EstimatorField;
+  values: FieldValues;
+  compact?: boolean;
+  onChange: (value: FieldValue) => void;
+}) {
+  const value = values[field.key];
+  const disabled = field.showWhen ? !field.showWhen(values) : false;
+
+  if (field.kind === "select") {
+    return (
+      <select
+        className={
+          compact
+            ? "border rounded px-2 py-1"
+            : "w-full border rounded px-2 py-2"
+        }
+        disabled={disabled}
+        value={str(value)}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {fieldOptions(field, values).map((o) => (
+          <option key={o.value} value={o.value} disabled={o.disabled}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+  if (field.kind === "checkbox") {
+    return (
+      <label
+        className={`flex items-center gap-2 text-sm ${compact ? "" : "h-10"}`}
+      >
+        <input
+          type="checkbox"
+          disabled={disabled}
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        {compact ? null : field.label}
+      </label>
+    );
+  }
+  return (
+    <Input
+      className={
+        compact
+          ? field.kind === "number"
+            ? "h-8 w-20 text-right"
+            : "h-8 min-w-28"
+          : undefined
+      }
+      type={field.kind === "number" ? "number" : "text"}
+      min={field.kind === "number" ? field.min : undefined}
+      max={field.kind === "number" ? field.max : undefined}
+      step={field.kind === "number" ? field.step : undefined}
+      disabled={disabled}
+      value={value === undefined ? "" : (value as string | number)}
+      onChange={(e) => onChange(readInput(field, e.target.value))}
+    />
+  );
+}
+
+function SummaryTableView({ table }: { table: SummaryTable }) {
+  const align = (a?: string) =>
+    a === "right" ? "text-right" : a === "center" ? "text-center" : "";
+  return (
+    <div className="space-y-2">
+      {table.title && <h3 className="text-lg font-semibold">{table.title}</h3>}
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-100">
+              {table.columns.map((c) => (
+                <th
+                  key={c.label}
+                  className={`border px-2 py-1 ${align(c.align) || "text-left"}`}
+                >
+                  {c.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, i) => (
+              <tr key={i}>
+                {row.map((cell, j) => (
+                  <td
+                    key={j}
+                    className={`border px-2 py-1 ${align(table.columns[j]?.align)}`}
+                  >
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function EstimatorRuntime({
+  definition: baseDefinition,
+}: {
+  definition: EstimatorDefinition;
+}) {
+  const { toast } = useToast();
+  const unitSystem = useProjectUnitSystem();
+  const coefficients = useEstimatorCoefficients();
+  const definition = useMemo(
+    () =>
+      localizeDefinition(
+        withCoefficients(baseDefinition, coefficients.values),
+        unitSystem,
+      ),
+    [baseDefinition, coefficients.values, unitSystem],
+  );
+  const cart = useEstimatorCart(definition.estimator, definition.sessionPrefix);
+  const { step, setStep, reset } = useEstimatorNavigation();
+  const sections = useMemo(() => definitionSections(definition), [definition]);
+  const [inputs, setInputs] = useState<EstimatorInputs>(() =>
+    initialInputs(definition),
+  );
+
+  // The project's units and coefficients load after the first render;
+  // start over with them
+  const inputsDefinition = useRef(definition);
+  useEffect(() => {
+    if (inputsDefinition.current === definition) return;
+    inputsDefinition.current = definition;
+    setInputs(initialInputs(definition));
+  }, [definition]);
+
+  // Create BOQ opens estimators at a given step, e.g. ?step=11
+  useEffect(() => {
+    const stepParam = new URLSearchParams(window.location.search).get("step");
+    const stepNum = stepParam ? parseInt(stepParam, 10) : NaN;
+    if (stepNum >= 1 && stepNum <= 12) setStep(stepNum);
+  }, []);
+
+  const formFields = useMemo(
+    () => sections.flatMap((s) => (s.type === "fields" ? s.fields : [])),
+    [sections],
+  );
+  const errors = useMemo(
+    () => validateInputs(definition, inputs),
+    [definition, inputs],
+  );
+  const outcome = useMemo(
+    () => (errors.length ? null : definition.compute(inputs)),
+    [definition, inputs, errors],
+  );
+  const requirements = useMemo(
+    () =>
+      outcome ? outcomeRequirements(definition, outcome) : NO_REQUIREMENTS,
+    [definition, outcome],
+  );
+  const selection = useRequirementSelection(requirements, unitSystem);
+
+  const setValue = (key: string, value: FieldValue) =>
+    setInputs((prev) => ({
+      ...prev,
+      values: normalizeValues(formFields, { ...prev.values, [key]: value }),
+    }));
+
+  const setRows = (
+    section: RowsSection,
+    update: (rows: FieldValues[]) => FieldValues[],
+  ) =>
+    setInputs((prev) => ({
+      ...prev,
+      rows: { ...prev.rows, [section.key]: update(prev.rows[section.key]) },
+    }));
+
+  const setRowValue = (
+    section: RowsSection,
+    index: number,
+    key: string,
+    value: FieldValue,
+  ) =>
+    setRows(section, (rows) =>
+      rows.map((r, i) =>
+        i === index
+          ? normalizeValues(section.fields, { ...r, [key]: value })
+          : r,
+      ),
+    );
+
+  const calculate = () => {
+    if (errors.length > 0 || !outcome) {
+      toast({
+        title: errors.length > 0 ? "Check the inputs" : "Nothing to estimate",
+        description: errors.length > 0 ? errors[0] : definition.emptyMessage,
+        variant: "destructive",
+      });
+      return;
+    }
+    setStep(2);
+  };
+
+  const handleAddToCart = async () => {
+    if (!outcome) return;
+    const estimate = definition.estimate
+      ? {
+          type: definition.estimate.type,
+          input: definition.estimate.input(inputs),
+        }
+      : null;
+    const ok = await cart.addLines(
+      selection.toCartLines(definition.location(inputs)).map((line) => ({
+        ...line,
+        coefficients: coefficients.stamp,
+        estimate,
+        requirementKey: estimate ? line.requirementKey : null,
+      })),
+    );
+    if (!ok) {
+      toast({
+        title: "Error",
+        description: "Failed to save the cart",
+        variant: "destructive",
+      });
+    }
+    setStep(9);
+  };
+
+  const startNewEstimate = () => {
+    setInputs(initialInputs(definition));
+    selection.reset();
+    reset();
+  };
+
+  const renderRows = (section: RowsSection) => {
+    const rows = inputs.rows[section.key] || [];
+    const minRows = section.minRows ?? 1;
+    return (
+      <>
+        {rows.length > 0 && (
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full border-collapse text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  {section.fields.map((f) => (
+                    <th key={f.key} className="border px-2 py-1">
+                      {fieldLabel(f)}
+                    </th>
+                  ))}
+                  <th className="border px-2 py-1 w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <tr key={i}>
+                    {section.fields.map((f) => (
+                      <td key={f.key} className="border px-1 py-1">
+                        <FieldControl
+                          field={f}
+                          values={row}
+                          compact
+                          onChange={(v) => setRowValue(section, i, f.key, v)}
+                        />
+                      </td>
+                    ))}
+                    <td className="border px-1 py-1 text-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={rows.length <= minRows}
+                        onClick={() =>
+                          setRows(section, (prev) =>
+                            prev.filter((_, j) => j !== i),
+                          )
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Button
+          variant="outline"
+          onClick={() =>
+            setRows(section, (prev) => [
+              ...prev,
+              newRowValues(section, prev.length + 1),
+            ])
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" /> {section.addLabel}
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">
+            {definition.title}
+          </h2>
+          <p className="text-muted-foreground mt-1">{definition.description}</p>
+        </div>
+
+        <Card className="border-border/50">
+          <CardContent className="pt-8 min-h-96">
+            <AnimatePresence mode="wait">
+              {step === 1 && (
+                <motion.div
+                  key="step-inputs"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="space-y-6"
+                >
+                  <div className="space-y-2">
+                    <Label className="text-lg font-semibold">
+                      Step 1: {definition.inputsTitle}
+                    </Label>
+                    {definition.inputsHelp && (
+                      <p className="text-sm text-muted-foreground">
+                        {definition.inputsHelp}
+                      </p>
+                    )}
+                  </div>
+
+                  {sections.map((section, s) => (
+                    <div key={s} className="space-y-2">
+                      {section.title && (
+                        <h3 className="font-semibold">{section.title}</h3>
+                      )}
+                      {section.help && (
+                        <p className="text-sm text-muted-foreground">
+                          {section.help}
+                        </p>
+                      )}
+                      {section.type === "rows" ? (
+                        renderRows(section)
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          {section.fields
+                            .filter(
+                              (f) => !f.showWhen || f.showWhen(inputs.values),
+                            )
+                            .map((f) => {
+                              const error = fieldError(f, inputs.values[f.key]);
+                              return (
+                                <div key={f.key} className="space-y-2">
+                                  <Label>{fieldLabel(f)}</Label>
+                                  <FieldControl
+                                    field={f}
+                                    values={inputs.values}
+                                    onChange={(v) => setValue(f.key, v)}
+                                  />
+                                  {error && (
+                                    <p className="text-xs text-destructive">
+                                      {error}
+                                    </p>
+                                  )}
+                                </div>
+                              );
+                            })}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
+                  <div className="flex justify-end gap-2">
+                    {cart.lines.length > 0 && (
+                      <Button variant="outline" onClick={() => setStep(9)}>
+                        View Cart ({cart.lines.length})
+                      </Button>
+                    )}
+                    <Button onClick={calculate}>
+                      <Calculator className="mr-2 h-4 w-4" /> Calculate
+                    </Button>
+                  </div>
+                </motion.div>
+              )}
+
+              {step === 2 && outcome && (
+                <motion.div
+                  key="step-requirements"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="space-y-6"
+                >
+                  {outcome.heading && (
+                    <h3 className="text-lg font-semibold">{outcome.heading}</h3>
+                  )}
+                  {(outcome.tables || []).map((table, i) => (
+                    <SummaryTableView key={i} table={table} />
+                  ))}
+                  {(outcome.notes || []).map((note, i) => (
+                    <p key={i} className="text-sm text-muted-foreground">
+                      {note}
+                    </p>
+                  ))}
+
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Materials</h3>
+                    <RequiredMaterialsTable selection={selection} />
+                  </div>
+
+                  <div className="flex justify-between">
+                    <Button variant="outline" onClick={() => setStep(1)}>
+                      <ChevronLeft className="mr-2 h-4 w-4" /> Back
+                    </Button>
+                    <Button disabled={cart.saving} onClick={handleAddToCart}>
+                      Add to Cart
+                    </Button>
+                  </div>
+                </motion.div>
+              )}
+
+              {(step === 9 || step === 11 || step === 12) && (
+                <EstimatorBoqSteps
+                  step={step}
+                  setStep={setStep}
+                  cart={cart}
+                  title={definition.boqTitle}
+                  onAddMore={startNewEstimate}
+                />
+              )}
+            </AnimatePresence>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
@@ -3,6 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { motion } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+import { downloadEstimatorProjectPdf } from "@/lib/boq-download";
 
 interface MaterialForBOQ {
   id: string;
@@ -34,6 +36,7 @@ export function FinalizeBoqStep({
   materialDescriptions = {},
   onMaterialDescriptionsChange,
 }: FinalizeBoqStepProps) {
+  const { toast } = useToast();
   const [finalBillNo, setFinalBillNo] = useState<string>("");
   const [finalBillDate, setFinalBillDate] = useState<string>(new Date().toISOString().slice(0, 10));
   const [finalDueDate, setFinalDueDate] = useState<string>("");
@@ -73,30 +76,17 @@ export function FinalizeBoqStep({
   const total = subTotal + sgst + cgst + roundOff;
 
   const handleExportFinalBOQ = async () => {
-    const element = document.getElementById("boq-final-pdf");
-
-    if (!element) {
-      alert("Final BOQ content not found");
-      return;
+    try {
+      const filename = await downloadEstimatorProjectPdf();
+      toast({ title: "Success", description: `Downloaded ${filename}` });
+    } catch (err: any) {
+      console.error("PDF Export Error:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Failed to download BOQ PDF",
+        variant: "destructive",
+      });
     }
-
-    const html2pdf = (await import("html2pdf.js")).default;
-
-    html2pdf()
-      .set({
-        margin: 10,
-        filename: `BOQ-${finalBillNo || new Date().getTime()}.pdf`,
-        image: { type: "jpeg", quality: 0.98 },
-        html2canvas: {
-          scale: 2,
-          useCORS: true,
-          allowTaint: true,
-          backgroundColor: "#ffffff",
-        },
-        jsPDF: { unit: "mm", format: "a4", orientation: "portrait" },
-      })
-      .from(element)
-      .save();
   };
 
   return (
@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { useData, type Material } from "@/lib/store";
+import type { NewCartLine } from "@/hooks/useEstimatorCart";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  convertRatedLine,
+  unitInSystem,
+  type UnitSystem,
+} from "@shared/units";
+import {
+  findMaterialOptions,
+  requirementQuantity,
+  splitByLocation,
+  type MaterialRequirement,
+} from "@/lib/estimators/requirements";
+
+// Requirement lines from an estimator's compute step, each matched to a
+// store material (cheapest by default) with an install rate, ready to be
+// added to the Step 9 cart. Lines are computed in feet and shown, like the
+// cart, in the project's unit system.
+
+export function useRequirementSelection(
+  requirements: MaterialRequirement[],
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM,
+) {
+  const { shops, materials } = useData();
+  // Store material chosen per requirement line; "" means not from the catalogue
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [installRates, setInstallRates] = useState<Record<string, number>>({});
+
+  const options = useMemo(() => {
+    const map: Record<string, Material[]> = {};
+    for (const r of requirements) {
+      map[r.key] = findMaterialOptions(r, materials);
+    }
+    return map;
+  }, [requirements, materials]);
+
+  const chosenMaterial = (key: string) => {
+    const id = choices[key] ?? options[key]?.[0]?.id ?? "";
+    return options[key]?.find((m) => m.id === id) || null;
+  };
+
+  const quantity = (r: MaterialRequirement) =>
+    requirementQuantity(r, chosenMaterial(r.key));
+
+  const installRate = (key: string) =>
+    installRates[key] ??
+    requirements.find((r) => r.key === key)?.installRate ??
+    0;
+
+  const shopName = (shopId?: string | null) =>
+    shops.find((s) => s.id === shopId)?.name || "";
+
+  /** Unit a line is shown in, and the factor from its computed unit. */
+  const displayUnit = (r: MaterialRequirement) =>
+    unitInSystem(r.unit, unitSystem);
+
+  const toCartLines = (location: string): NewCartLine[] =>
+    requirements.flatMap((r) => {
+      const material = chosenMaterial(r.key);
+      return splitByLocation(r, quantity(r)).map((part) =>
+        convertRatedLine<NewCartLine>(
+          {
+            materialId: material?.id || null,
+            item: material?.name || r.item,
+            description: [
+              r.item !== material?.name ? r.item : "",
+              r.description,
+            ]
+              .filter(Boolean)
+              .join(" – "),
+            location: part.location || location,
+            unit: r.unit,
+            qty: part.quantity,
+            supplyRate: material?.rate || 0,
+            installRate: installRate(r.key),
+            shopId: material?.shopId || null,
+            shopName: shopName(material?.shopId),
+            requirementKey: r.key,
+          },
+          unitSystem,
+        ),
+      );
+    });
+
+  const reset = () => {
+    setChoices({});
+    setInstallRates({});
+  };
+
+  return {
+    requirements,
+    options,
+    quantity,
+    installRate,
+    chosenMaterial,
+    shopName,
+    displayUnit,
+    setChoice: (key: string, materialId: string) =>
+      setChoices((prev) => ({ ...prev, [key]: materialId })),
+    setInstallRate: (key: string, rate: number) =>
+      setInstallRates((prev) => ({ ...prev, [key]: rate })),
+    toCartLines,
+    reset,
+  };
+}
+
+export type RequirementSelection = ReturnType<typeof useRequirementSelection>;
+
+export default function RequiredMaterialsTable({
+  selection,
+}: {
+  selection: RequirementSelection;
+}) {
+  const { requirements, options } = selection;
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border px-2 py-1 text-left">Item</th>
+              <th className="border px-2 py-1 text-right">Qty</th>
+              <th className="border px-2 py-1">Unit</th>
+              <th className="border px-2 py-1 text-left">Material / Shop</th>
+              <th className="border px-2 py-1 text-right">Supply Rate</th>
+              <th className="border px-2 py-1 w-28">Install Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {requirements.map((r) => {
+              const material = selection.chosenMaterial(r.key);
+              const shown = selection.displayUnit(r);
+              const inUnit = (n: number) =>
+                Math.round(n * shown.factor * 100) / 100;
+              return (
+                <tr key={r.key}>
+                  <td className="border px-2 py-1">
+                    <div className="font-medium">{r.item}</div>
+                    {r.location && (
+                      <div className="text-xs text-muted-foreground">
+                        {r.location}
+                      </div>
+                    )}
+                    {r.breakdown && (
+                      <div className="text-xs text-muted-foreground">
+                        {r.breakdown
+                          .map((b) => `${b.location}: ${inUnit(b.quantity)}`)
+                          .join(" · ")}
+                      </div>
+                    )}
+                    {r.description && (
+                      <div className="text-xs text-muted-foreground">
+                        {r.description}
+                      </div>
+                    )}
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    {inUnit(selection.quantity(r))}
+                  </td>
+                  <td className="border px-2 py-1 text-center">{shown.unit}</td>
+                  <td className="border px-1 py-1">
+                    <select
+                      className="w-full border rounded px-2 py-1"
+                      value={material?.id || ""}
+                      onChange={(e) =>
+                        selection.setChoice(r.key, e.target.value)
+                      }
+                    >
+                      <option value="">
+                        {options[r.key]?.length
+                          ? "Not from catalogue"
+                          : "No matching material"}
+                      </option>
+                      {options[r.key]?.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name} —{" "}
+                          {selection.shopName(m.shopId) || "Unknown shop"} (₹
+                          {m.rate})
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="border px-2 py-1 text-right">
+                    {material
+                      ? Math.round((material.rate / shown.factor) * 100) / 100
+                      : 0}
+                  </td>
+                  <td className="border px-1 py-1">
+                    <Input
+                      className="h-8 text-right"
+                      type="number"
+                      min={0}
+                      value={
+                        Math.round(
+                          (selection.installRate(r.key) / shown.factor) * 100,
+                        ) / 100
+                      }
+                      onChange={(e) =>
+                        selection.setInstallRate(
+                          r.key,
+                          Math.max(0, parseFloat(e.target.value) || 0) *
+                            shown.factor,
+                        )
+                      }
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Quantities and rates can still be adjusted in the cart.
+      </p>
+    </div>
+  );
+}
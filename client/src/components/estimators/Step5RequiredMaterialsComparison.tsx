@@ -3,7 +3,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { AlertCircle, CheckCircle2, AlertTriangle } from "lucide-react";
-import computeRequired from "../estimators/computeRequired";
+import type { WallType } from "@/lib/constants";
+import { computeRequired } from "@shared/estimators/computeRequired";
 
 interface SelectedMaterial {
   type: string;
@@ -39,14 +40,13 @@ export default function Step5RequiredMaterialsComparison({
   // Compute required materials
   const required = useMemo(() => {
     if (!wallType || !length || !height) return null;
-    return computeRequired(
-      wallType as any,
+    return computeRequired({
+      wallType: wallType as WallType,
+      subOption,
       length,
       height,
-      undefined,
-      subOption,
-      brickWastage
-    );
+      wastagePercent: brickWastage,
+    });
   }, [wallType, length, height, subOption, brickWastage]);
 
   // Build required materials list
@@ -56,7 +56,7 @@ export default function Step5RequiredMaterialsComparison({
     return [
       {
         type: "Bricks",
-        required: required.roundedBricks ?? 0,
+        required: required.bricks ?? 0,
         unit: "pcs",
         validTypes: [
           "Red Clay Brick",
@@ -67,7 +67,7 @@ export default function Step5RequiredMaterialsComparison({
       },
       {
         type: "Cement",
-        required: required.roundedCementBags ?? 0,
+        required: required.cementBags ?? 0,
         unit: "bags",
         validTypes: [
           "Ordinary Portland Cement",
@@ -77,7 +77,7 @@ export default function Step5RequiredMaterialsComparison({
       },
       {
         type: "Sand",
-        required: required.roundedSandCubicFt ?? 0,
+        required: required.sandCft ?? 0,
         unit: "ft³",
         validTypes: ["River Sand", "M-Sand"],
       },
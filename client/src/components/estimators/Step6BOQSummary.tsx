@@ -1,6 +1,7 @@
 import React, { useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Printer, Download } from "lucide-react";
+import { downloadEstimatorProjectPdf } from "@/lib/boq-download";
 
 interface Material {
   type: string;
@@ -84,9 +85,12 @@ export default function Step6BOQSummary({
     window.print();
   };
 
-  const handleDownloadPDF = () => {
-    // This would integrate with a PDF library like jsPDF
-    alert("PDF download feature coming soon!");
+  const handleDownloadPDF = async () => {
+    try {
+      await downloadEstimatorProjectPdf();
+    } catch (err: any) {
+      alert(err?.message || "Failed to download BOQ PDF");
+    }
   };
 
   return (
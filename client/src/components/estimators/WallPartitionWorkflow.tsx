@@ -9,7 +9,7 @@ import Step5Summary from "@/components/estimators/Step5Summary";
 import Step6BOQSummary from "@/components/estimators/Step6BOQSummary";
 
 import { WallType, subOptionsMap } from "@/components/estimators/constants";
-import computeRequired from "@/components/estimators/computeRequired";
+import { computeRequired } from "@shared/estimators/computeRequired";
 import { getMaterialsWithLowestRates } from "@/components/estimators/shopMaterials";
 import { v4 as uuidv4 } from "uuid";
 import { Button } from "@/components/ui/button";
@@ -135,52 +135,29 @@ export function WallPartitionWorkflow({ onAddItem }: Props) {
     if (step === 2 && wallType && !subOptionsMap[wallType]?.length) handleNext();
   }, [step, wallType]);
 
-  // ============ PLYWOOD-GLASS MATERIALS MEMO ============
+  // ============ GLASS PARTITION MATERIALS MEMO ============
   const req = useMemo(() => {
     if (
-      wallType === "gypsum-glass" &&
+      (wallType === "gypsum-glass" || wallType === "plywood-glass") &&
       length != null &&
       height != null &&
-      glassHeight != null &&
-      glassLength != null
+      glassHeight != null
     ) {
-      return computeRequired(
-        "gypsum-glass",
+      return computeRequired({
+        wallType,
+        subOption:
+          wallType === "plywood-glass"
+            ? plywoodSelection.glazing ?? "Single Glazing"
+            : subOption ?? "Single Glazing",
         length,
         height,
-        undefined,
-        subOption ?? "Single Layer",
-        brickWastage,
-        undefined,
         glassHeight,
-        glassLength,
-        undefined
-      );
-    }
-
-    if (
-      wallType === "plywood-glass" &&
-      length != null &&
-      height != null &&
-      glassHeight != null &&
-      plywoodSelection.plywoodType
-    ) {
-      return computeRequired(
-        "plywood-glass",
-        length,
-        height,
-        undefined,
-        plywoodSelection.glazing ?? "Single Glazing",
-        undefined,
-        plywoodSelection.plywoodType,
-        glassHeight,
-        glassLength,
-        plywoodSelection.layering ?? "Single"
-      );
+        wastagePercent: brickWastage,
+      });
     }
 
     return null;
-  }, [wallType, length, height, glassHeight, glassLength, plywoodSelection, subOption, brickWastage]);
+  }, [wallType, length, height, glassHeight, plywoodSelection, subOption, brickWastage]);
 
   // ============ RENDER ============
   return (
@@ -24,6 +24,8 @@ import {
   ShoppingCart,
   AlertCircle,
   Users,
+  Percent,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -415,6 +417,39 @@ export function Sidebar() {
                 </Link>
               )}
 
+              {isAdminOnly && (
+                <Link href="/admin/gst-rates">
+                  <span
+                    className={cn(
+                      "flex items-center gap-3 rounded-md px-3 py-2 text-sm font-medium transition-colors cursor-pointer",
+                      location === "/admin/gst-rates"
+                        ? "bg-sidebar-primary text-sidebar-primary-foreground"
+                        : "text-sidebar-foreground hover:bg-sidebar-accent",
+                    )}
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <Percent className="h-4 w-4" /> GST Rates
+                  </span>
+                </Link>
+              )}
+
+              {isAdminOnly && (
+                <Link href="/admin/estimator-coefficients">
+                  <span
+                    className={cn(
+                      "flex items-center gap-3 rounded-md px-3 py-2 text-sm font-medium transition-colors cursor-pointer",
+                      location === "/admin/estimator-coefficients"
+                        ? "bg-sidebar-primary text-sidebar-primary-foreground"
+                        : "text-sidebar-foreground hover:bg-sidebar-accent",
+                    )}
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <SlidersHorizontal className="h-4 w-4" /> Estimator
+                    Coefficients
+                  </span>
+                </Link>
+              )}
+
               <Link href="/admin/dashboard?tab=messages">
                 <span
                   className={cn(
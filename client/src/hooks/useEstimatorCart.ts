@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import apiFetch from "@/lib/api";
+import {
+  readCoefficientOverrides,
+  type CoefficientStamp,
+} from "@shared/estimators/coefficients";
+
+// Step 9 cart for an estimator session, persisted in estimator_step9_cart.
+// The session is the Bill No, or the BOQ project when the estimator was
+// opened from Create BOQ. Lines keep the coefficient version and overrides
+// they were estimated with, and estimator lines the estimate request and
+// requirement they came from so the server can check their quantities.
+// Editing or removing a line detaches the rest of its requirement from that
+// check.
+
+export interface CartLine {
+  rowId: string;
+  batchId: string;
+  materialId: string | null;
+  item: string;
+  description: string;
+  location: string;
+  unit: string;
+  qty: number;
+  supplyRate: number;
+  installRate: number;
+  shopId: string | null;
+  shopName: string;
+  /** Coefficients the line's estimate was computed with. */
+  coefficients?: CoefficientStamp | null;
+  /** Key of the requirement line the quantity was estimated for. */
+  requirementKey?: string | null;
+  /** The POST /api/estimate/:type request the batch was estimated with. */
+  estimate?: CartEstimate | null;
+}
+
+export interface CartEstimate {
+  type: string;
+  input: unknown;
+}
+
+export type NewCartLine = Omit<CartLine, "rowId" | "batchId">;
+
+// Lines of the same requirement as `changed` no longer add up to the
+// estimate, so they drop out of the server's check
+const detach = (lines: CartLine[], changed: CartLine[]) =>
+  lines.map((l) =>
+    l.requirementKey &&
+    changed.some(
+      (c) => c.batchId === l.batchId && c.requirementKey === l.requirementKey,
+    )
+      ? { ...l, requirementKey: null }
+      : l,
+  );
+
+const sessionFromUrl = () =>
+  typeof window === "undefined"
+    ? ""
+    : new URLSearchParams(window.location.search).get("project") || "";
+
+export function useEstimatorCart(estimator: string, sessionPrefix: string) {
+  const [sessionId, setSessionId] = useState<string>(
+    () => sessionFromUrl() || `${sessionPrefix}-${Date.now()}`,
+  );
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    apiFetch(
+      `/api/estimator-step9-items?session_id=${encodeURIComponent(sessionId)}&estimator=${estimator}`,
+      { headers: {} },
+    )
+      .then((res) => (res.ok ? res.json() : { items: [] }))
+      .then((data) => {
+        if (cancelled) return;
+        // Rows come back newest first
+        const items: any[] = (data.items || []).slice().reverse();
+        setLines(
+          items.map((row, i) => ({
+            rowId: row.rowId || `row-${i}`,
+            batchId: row.batchId || "",
+            materialId: row.id || null,
+            item: row.name || "",
+            description: row.description || "",
+            location: row.location || "",
+            unit: row.unit || "",
+            qty: Number(row.quantity || 0),
+            supplyRate: Number(row.supplyRate || 0),
+            installRate: Number(row.installRate || 0),
+            shopId: row.shopId || null,
+            shopName: row.shop_name || "",
+            coefficients: row.coefficients
+              ? {
+                  version: Number(row.coefficients.version),
+                  overrides: readCoefficientOverrides(
+                    row.coefficients.overrides,
+                  ),
+                }
+              : null,
+            requirementKey: row.requirementKey || null,
+            estimate: row.estimate || null,
+          })),
+        );
+      })
+      .catch((e) => console.warn("Failed to load Step 9 cart", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [estimator, sessionId]);
+
+  const persist = async (next: CartLine[]) => {
+    setSaving(true);
+    try {
+      const res = await apiFetch("/api/estimator-step9-items", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          estimator,
+          session_id: sessionId,
+          replace: true,
+          items: next.map((l, idx) => ({
+            s_no: idx + 1,
+            row_id: l.rowId,
+            batch_id: l.batchId,
+            material_id: l.materialId,
+            name: l.item,
+            description: l.description,
+            location: l.location,
+            unit: l.unit,
+            quantity: l.qty,
+            supply_rate: l.supplyRate,
+            install_rate: l.installRate,
+            shop_id: l.shopId,
+            coefficient_version: l.coefficients?.version ?? null,
+            coefficient_overrides: l.coefficients?.overrides ?? null,
+            requirement_key: l.requirementKey || null,
+            estimate: l.estimate || null,
+          })),
+        }),
+      });
+      return res.ok;
+    } catch (e) {
+      console.warn("Failed to save Step 9 cart", e);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /** Append one estimate's lines as a batch and save the cart. */
+  const addLines = (newLines: NewCartLine[]) => {
+    const batchId = `batch-${Date.now()}`;
+    const next = lines.concat(
+      newLines.map((l, i) => ({ ...l, batchId, rowId: `${batchId}-${i}` })),
+    );
+    setLines(next);
+    return persist(next);
+  };
+
+  const updateLine = (rowId: string, patch: Partial<CartLine>) =>
+    setLines((prev) => {
+      const line = prev.find((l) => l.rowId === rowId);
+      const next = prev.map((l) =>
+        l.rowId === rowId ? { ...l, ...patch } : l,
+      );
+      return line && patch.qty !== undefined && patch.qty !== line.qty
+        ? detach(next, [line])
+        : next;
+    });
+
+  const removeLines = (rowIds: string[]) => {
+    const next = detach(
+      lines.filter((l) => !rowIds.includes(l.rowId)),
+      lines.filter((l) => rowIds.includes(l.rowId)),
+    );
+    setLines(next);
+    return persist(next);
+  };
+
+  return {
+    estimator,
+    sessionId,
+    setSessionId,
+    lines,
+    saving,
+    addLines,
+    updateLine,
+    removeLines,
+    save: () => persist(lines),
+  };
+}
+
+export type EstimatorCart = ReturnType<typeof useEstimatorCart>;
+
+export default useEstimatorCart;
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import apiFetch from "@/lib/api";
+import {
+  DEFAULT_COEFFICIENTS,
+  readCoefficientOverrides,
+  resolveCoefficients,
+  type CoefficientStamp,
+  type Coefficients,
+} from "@shared/estimators/coefficients";
+
+// Coefficients an estimator computes with: the latest published version
+// with the overrides of the BOQ project it was opened from (?project=<id>).
+// Until they load, or when they cannot, the built-in values are used and
+// cart lines carry no stamp.
+
+export interface EstimatorCoefficients {
+  stamp: CoefficientStamp | null;
+  values: Coefficients;
+}
+
+const BUILT_IN: EstimatorCoefficients = {
+  stamp: null,
+  values: DEFAULT_COEFFICIENTS,
+};
+
+export function useEstimatorCoefficients(): EstimatorCoefficients {
+  const [coefficients, setCoefficients] =
+    useState<EstimatorCoefficients>(BUILT_IN);
+
+  useEffect(() => {
+    const projectId = new URLSearchParams(window.location.search).get(
+      "project",
+    );
+    const params = projectId
+      ? `?project_id=${encodeURIComponent(projectId)}`
+      : "";
+    let cancelled = false;
+    apiFetch(`/api/estimator-coefficients/effective${params}`, {
+      headers: {},
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        const overrides = readCoefficientOverrides(data.overrides);
+        setCoefficients({
+          stamp: { version: Number(data.version), overrides },
+          values: resolveCoefficients(data.values),
+        });
+      })
+      .catch((e) => console.warn("Failed to load estimator coefficients", e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return coefficients;
+}
+
+export default useEstimatorCoefficients;
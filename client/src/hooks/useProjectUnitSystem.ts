@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import apiFetch from "@/lib/api";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  parseUnitSystem,
+  type UnitSystem,
+} from "@shared/units";
+
+// Unit system of the BOQ project an estimator was opened from
+// (?project=<id>); estimators opened on their own work in feet.
+
+export function useProjectUnitSystem(): UnitSystem {
+  const [system, setSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+  useEffect(() => {
+    const projectId = new URLSearchParams(window.location.search).get(
+      "project",
+    );
+    if (!projectId) return;
+    let cancelled = false;
+    apiFetch(`/api/boq-projects/${encodeURIComponent(projectId)}`, {
+      headers: {},
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((project) => {
+        if (!cancelled && project) {
+          setSystem(parseUnitSystem(project.unit_system));
+        }
+      })
+      .catch((e) => console.warn("Failed to load project units", e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return system;
+}
+
+export default useProjectUnitSystem;
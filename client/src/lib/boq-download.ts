@@ -0,0 +1,77 @@
+import apiFetch from "./api";
+
+// BOQ documents are rendered server-side from the saved version; these helpers
+// fetch them and hand the file to the browser.
+
+export type BoqExportFormat = "pdf" | "xlsx";
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download a BOQ version as PDF or XLSX. Resolves with the file name the
+ * server chose.
+ */
+export async function downloadBoqVersion(
+  versionId: string,
+  format: BoqExportFormat,
+): Promise<string> {
+  const response = await apiFetch(
+    `/api/boq-versions/${encodeURIComponent(versionId)}/${format}`,
+    { headers: {} },
+  );
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const filename =
+    disposition.match(/filename="([^"]+)"/)?.[1] || `BOQ.${format}`;
+  saveBlob(await response.blob(), filename);
+  return filename;
+}
+
+/**
+ * The version estimators add items to: the project's draft if there is one,
+ * otherwise its latest version.
+ */
+export async function findWorkingVersionId(
+  projectId: string,
+): Promise<string | null> {
+  const response = await apiFetch(
+    `/api/boq-versions/${encodeURIComponent(projectId)}`,
+    { headers: {} },
+  );
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  const versions: any[] = data.versions || [];
+  const draft = versions.find((v) => v.status === "draft");
+  return (draft || versions[0])?.id || null;
+}
+
+/**
+ * Estimator pages are opened with ?project=<id> from Create BOQ; download that
+ * project's BOQ PDF.
+ */
+export async function downloadEstimatorProjectPdf(): Promise<string> {
+  const projectId = new URLSearchParams(window.location.search).get("project");
+  if (!projectId) {
+    throw new Error("Open this estimator from a BOQ project to download a PDF");
+  }
+
+  const versionId = await findWorkingVersionId(projectId);
+  if (!versionId) {
+    throw new Error("This project has no BOQ version yet");
+  }
+  return downloadBoqVersion(versionId, "pdf");
+}
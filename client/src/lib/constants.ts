@@ -1,4 +1,6 @@
-export type WallType = "civil" | "gypsum" | "plywood" | "gypsum-glass" | "plywood-glass" | "gypsum-plywood";
+import type { WallType } from "@shared/estimators/computeRequired";
+
+export type { WallType };
 
 export const wallOptions = [
   { label: "Civil Wall (Brick)", value: "civil" },
@@ -0,0 +1,29 @@
+import type { Coefficients } from "@shared/estimators/coefficients";
+import type { EstimatorDefinition, EstimatorField } from "./definition";
+
+/**
+ * The definition computing with `coefficients`: number fields naming a
+ * coefficient, and the wastage field through wastageCoefficient, start at
+ * its value, and compute receives them.
+ */
+export function withCoefficients(
+  definition: EstimatorDefinition,
+  coefficients: Coefficients,
+): EstimatorDefinition {
+  const { wastageCoefficient } = definition;
+  const field = (f: EstimatorField): EstimatorField =>
+    f.kind === "number" && f.coefficient
+      ? { ...f, default: coefficients[f.coefficient] }
+      : f;
+  return {
+    ...definition,
+    sections: definition.sections.map((s) => ({
+      ...s,
+      fields: s.fields.map(field),
+    })),
+    defaultWastagePercent: wastageCoefficient
+      ? coefficients[wastageCoefficient]
+      : definition.defaultWastagePercent,
+    compute: (inputs) => definition.compute(inputs, coefficients),
+  };
+}
@@ -0,0 +1,356 @@
+import type {
+  CoefficientKey,
+  Coefficients,
+} from "@shared/estimators/coefficients";
+import type { MaterialRequirement } from "./requirements";
+
+// Estimators are declared as data: the inputs they ask for, a compute
+// function that turns them into quantities, and the materials those
+// quantities map to. EstimatorRuntime renders any definition through the
+// usual Step 1 (inputs), Step 2 (materials) and Step 9/11/12 (cart and BOQ)
+// flow.
+
+export type FieldValue = string | number | boolean;
+export type FieldValues = Record<string, FieldValue>;
+
+export interface FieldOption {
+  value: string;
+  label: string;
+  disabled?: boolean;
+}
+
+interface FieldBase {
+  key: string;
+  label: string;
+  /** Unit shown with the label, e.g. "ft" or "%". */
+  unit?: string;
+  /**
+   * Forms hide the field and row tables disable it unless this holds.
+   * Hidden fields are not validated.
+   */
+  showWhen?: (values: FieldValues) => boolean;
+}
+
+export interface NumberField extends FieldBase {
+  kind: "number";
+  default: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  integer?: boolean;
+  /** Empty is allowed unless set; it reads as 0. */
+  required?: boolean;
+  /** Coefficient that replaces default at runtime. */
+  coefficient?: CoefficientKey;
+}
+
+export interface SelectField extends FieldBase {
+  kind: "select";
+  default: string;
+  /** May depend on other inputs; the value falls back to the first enabled option. */
+  options: FieldOption[] | ((values: FieldValues) => FieldOption[]);
+}
+
+export interface TextField extends FieldBase {
+  kind: "text";
+  default: string;
+  required?: boolean;
+}
+
+export interface CheckboxField extends FieldBase {
+  kind: "checkbox";
+  default: boolean;
+}
+
+export type EstimatorField =
+  NumberField | SelectField | TextField | CheckboxField;
+
+/** A grid of single inputs. */
+export interface FieldsSection {
+  type: "fields";
+  title?: string;
+  help?: string;
+  fields: EstimatorField[];
+}
+
+/** A table with one row per room, window, cut-out and so on. */
+export interface RowsSection {
+  type: "rows";
+  key: string;
+  title?: string;
+  help?: string;
+  addLabel: string;
+  fields: EstimatorField[];
+  /** Rows the table starts with and cannot go below; defaults to 1. */
+  minRows?: number;
+  /** Values that differ from the field defaults for the nth (1-based) row. */
+  newRow?: (n: number) => FieldValues;
+}
+
+export type EstimatorSection = FieldsSection | RowsSection;
+
+export interface EstimatorInputs {
+  values: FieldValues;
+  rows: Record<string, FieldValues[]>;
+}
+
+/** Where a quantity's BOQ line comes from. */
+export interface MaterialMapping {
+  item: string;
+  unit: string;
+  category: string;
+  /** Matched against store materials, see findMaterialOptions. */
+  keywords: string[];
+}
+
+export interface QuantityLine {
+  /** Key into the definition's materials. */
+  key: string;
+  quantity: number;
+  description?: string;
+}
+
+export interface SummaryTable {
+  title?: string;
+  columns: { label: string; align?: "left" | "right" | "center" }[];
+  rows: (string | number)[][];
+}
+
+export interface EstimatorOutcome {
+  heading?: string;
+  tables?: SummaryTable[];
+  notes?: string[];
+  /** Quantities resolved through the definition's materials. */
+  quantities?: QuantityLine[];
+  /** Lines that already carry their material, e.g. from a takeoff engine. */
+  requiredMaterials?: MaterialRequirement[];
+}
+
+export interface EstimatorDefinition {
+  /** Route under /estimators/. */
+  slug: string;
+  /** Cart and BOQ key, see useEstimatorCart. */
+  estimator: string;
+  sessionPrefix: string;
+  title: string;
+  description: string;
+  /** Product name of the BOQ item. */
+  boqTitle: string;
+  inputsTitle: string;
+  inputsHelp?: string;
+  sections: EstimatorSection[];
+  /**
+   * Adds a "Wastage" input to the last fields section; compute reads it as
+   * values.wastagePercent.
+   */
+  defaultWastagePercent?: number;
+  /** Coefficient that replaces defaultWastagePercent at runtime. */
+  wastageCoefficient?: CoefficientKey;
+  materials?: Record<string, MaterialMapping>;
+  /**
+   * null when there is nothing to estimate yet. Coefficients are the
+   * project's effective set when the runtime has loaded it.
+   */
+  compute: (
+    inputs: EstimatorInputs,
+    coefficients?: Coefficients,
+  ) => EstimatorOutcome | null;
+  /**
+   * The POST /api/estimate/:type request the inputs make, for estimators
+   * whose engine is in the shared registry. Cart lines carry it so the
+   * server can recompute their quantities when they are saved.
+   */
+  estimate?: {
+    type: string;
+    input: (inputs: EstimatorInputs) => unknown;
+  };
+  /** Shown when compute returns null. */
+  emptyMessage: string;
+  /** Location recorded on the cart lines. */
+  location: (inputs: EstimatorInputs) => string;
+}
+
+export const WASTAGE_FIELD_KEY = "wastagePercent";
+
+/** Numeric input value; empty or invalid reads as 0. */
+export const num = (value: FieldValue | undefined) => {
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return isFinite(n) ? n : 0;
+};
+
+export const str = (value: FieldValue | undefined) =>
+  value === undefined ? "" : String(value);
+
+/** Sections as rendered, with the wastage input added when declared. */
+export function definitionSections(
+  definition: EstimatorDefinition,
+): EstimatorSection[] {
+  if (definition.defaultWastagePercent === undefined) {
+    return definition.sections;
+  }
+  const wastage: NumberField = {
+    key: WASTAGE_FIELD_KEY,
+    label: "Wastage",
+    unit: "%",
+    kind: "number",
+    default: definition.defaultWastagePercent,
+    min: 0,
+    max: 100,
+  };
+  const sections = definition.sections.slice();
+  let last = -1;
+  sections.forEach((s, i) => {
+    if (s.type === "fields") last = i;
+  });
+  if (last === -1) return [...sections, { type: "fields", fields: [wastage] }];
+  const target = sections[last] as FieldsSection;
+  sections[last] = { ...target, fields: [...target.fields, wastage] };
+  return sections;
+}
+
+export function fieldOptions(
+  field: SelectField,
+  values: FieldValues,
+): FieldOption[] {
+  return typeof field.options === "function"
+    ? field.options(values)
+    : field.options;
+}
+
+const isShown = (field: EstimatorField, values: FieldValues) =>
+  !field.showWhen || field.showWhen(values);
+
+const fieldDefaults = (fields: EstimatorField[]): FieldValues => {
+  const values: FieldValues = {};
+  for (const field of fields) values[field.key] = field.default;
+  return values;
+};
+
+/** Moves select values that are no longer offered to the first enabled option. */
+export function normalizeValues(
+  fields: EstimatorField[],
+  values: FieldValues,
+): FieldValues {
+  let next = values;
+  for (const field of fields) {
+    if (field.kind !== "select") continue;
+    const options = fieldOptions(field, next);
+    const current = options.find((o) => o.value === next[field.key]);
+    if (current && !current.disabled) continue;
+    const fallback = options.find((o) => !o.disabled);
+    if (fallback && fallback.value !== next[field.key]) {
+      next = { ...next, [field.key]: fallback.value };
+    }
+  }
+  return next;
+}
+
+export function newRowValues(section: RowsSection, n: number): FieldValues {
+  return normalizeValues(section.fields, {
+    ...fieldDefaults(section.fields),
+    ...(section.newRow ? section.newRow(n) : {}),
+  });
+}
+
+export function initialInputs(
+  definition: EstimatorDefinition,
+): EstimatorInputs {
+  const inputs: EstimatorInputs = { values: {}, rows: {} };
+  for (const section of definitionSections(definition)) {
+    if (section.type === "fields") {
+      Object.assign(inputs.values, fieldDefaults(section.fields));
+    } else {
+      const count = section.minRows ?? 1;
+      inputs.rows[section.key] = [];
+      for (let n = 1; n <= count; n++) {
+        inputs.rows[section.key].push(newRowValues(section, n));
+      }
+    }
+  }
+  for (const section of definitionSections(definition)) {
+    if (section.type === "fields") {
+      inputs.values = normalizeValues(section.fields, inputs.values);
+    }
+  }
+  return inputs;
+}
+
+/** Problem with one field's value, or null when it is acceptable. */
+export function fieldError(
+  field: EstimatorField,
+  value: FieldValue | undefined,
+): string | null {
+  if (field.kind === "text") {
+    return field.required && !str(value).trim()
+      ? `${field.label} is required`
+      : null;
+  }
+  if (field.kind !== "number") return null;
+
+  const label = field.unit ? `${field.label} (${field.unit})` : field.label;
+  const n = typeof value === "number" ? value : parseFloat(str(value));
+  if (!isFinite(n)) return field.required ? `${label} is required` : null;
+  if (field.min !== undefined && n < field.min) {
+    return `${label} must be at least ${field.min}`;
+  }
+  if (field.max !== undefined && n > field.max) {
+    return `${label} must be at most ${field.max}`;
+  }
+  if (field.integer && Math.floor(n) !== n) {
+    return `${label} must be a whole number`;
+  }
+  return null;
+}
+
+/** Every validation problem, prefixed with the row it is in. */
+export function validateInputs(
+  definition: EstimatorDefinition,
+  inputs: EstimatorInputs,
+): string[] {
+  const errors: string[] = [];
+  for (const section of definitionSections(definition)) {
+    if (section.type === "fields") {
+      for (const field of section.fields) {
+        if (!isShown(field, inputs.values)) continue;
+        const error = fieldError(field, inputs.values[field.key]);
+        if (error) errors.push(error);
+      }
+      continue;
+    }
+    (inputs.rows[section.key] || []).forEach((row, i) => {
+      for (const field of section.fields) {
+        if (!isShown(field, row)) continue;
+        const error = fieldError(field, row[field.key]);
+        if (error) {
+          errors.push(`${str(row.name) || `Row ${i + 1}`}: ${error}`);
+        }
+      }
+    });
+  }
+  return errors;
+}
+
+/** The outcome's quantities and ready-made lines as one requirement list. */
+export function outcomeRequirements(
+  definition: EstimatorDefinition,
+  outcome: EstimatorOutcome,
+): MaterialRequirement[] {
+  const lines = (outcome.requiredMaterials || []).slice();
+  for (const q of outcome.quantities || []) {
+    const mapping = definition.materials?.[q.key];
+    if (!mapping) {
+      throw new Error(
+        `Estimator "${definition.estimator}" has no material for "${q.key}"`,
+      );
+    }
+    if (q.quantity > 0) {
+      lines.push({
+        key: q.key,
+        quantity: q.quantity,
+        description: q.description,
+        ...mapping,
+      });
+    }
+  }
+  return lines;
+}
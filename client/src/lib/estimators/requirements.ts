@@ -0,0 +1,37 @@
+import type { Material } from "@/lib/store";
+import type { MaterialRequirement } from "@shared/estimators/requirements";
+
+// Estimators compute what a job needs as requirement lines (see
+// shared/estimators); the store's materials (/api/materials) are then
+// matched against them for rates and shops before the lines go into the
+// Step 9 cart.
+
+export {
+  materialCoverage,
+  requirementQuantity,
+  rollUpRequirements,
+  splitByLocation,
+  type MaterialRequirement,
+} from "@shared/estimators/requirements";
+
+const normalize = (s?: string | null) =>
+  (s || "").toString().toUpperCase().replace(/\s+/g, " ");
+
+/** Store materials that can supply a requirement, cheapest first. */
+export function findMaterialOptions(
+  requirement: MaterialRequirement,
+  materials: Material[],
+): Material[] {
+  const words = requirement.keywords.map(normalize).filter(Boolean);
+  if (words.length === 0) return [];
+
+  return materials
+    .filter((m) => {
+      if (m.disabled) return false;
+      const text = normalize(
+        [m.name, m.product, m.category, m.subCategory].join(" "),
+      );
+      return words.every((w) => text.includes(w));
+    })
+    .sort((a, b) => (a.rate || 0) - (b.rate || 0));
+}
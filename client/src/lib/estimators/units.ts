@@ -0,0 +1,198 @@
+import { convertQuantity, unitInSystem, type UnitSystem } from "@shared/units";
+import type {
+  EstimatorDefinition,
+  EstimatorField,
+  EstimatorInputs,
+  EstimatorOutcome,
+  EstimatorSection,
+  FieldValues,
+  SummaryTable,
+} from "./definition";
+
+// Definitions are written in feet. For a metric project the runtime uses a
+// localized copy: length and area inputs are asked for in metric and
+// converted back before compute, and the takeoff tables and notes are
+// shown in metric. Requirement quantities stay in feet until they become
+// cart lines, where they are converted together with their rates.
+
+const round = (n: number, places = 3) => {
+  const p = Math.pow(10, places);
+  return Math.round(n * p) / p;
+};
+
+const fieldFactor = (field: EstimatorField, system: UnitSystem) =>
+  field.kind === "number" && field.unit
+    ? unitInSystem(field.unit, system)
+    : null;
+
+function localizeField(
+  field: EstimatorField,
+  system: UnitSystem,
+): EstimatorField {
+  const target = fieldFactor(field, system);
+  if (field.kind !== "number" || !target || target.factor === 1) return field;
+  const scale = (n?: number) =>
+    n === undefined ? n : round(n * target.factor);
+  return {
+    ...field,
+    unit: target.unit,
+    default: round(field.default * target.factor, 2),
+    min: scale(field.min),
+    max: scale(field.max),
+    step: scale(field.step),
+  };
+}
+
+/** Values from the localized form back in the definition's own units. */
+function toDefinitionUnits(
+  fields: EstimatorField[],
+  values: FieldValues,
+  system: UnitSystem,
+): FieldValues {
+  const next = { ...values };
+  for (const field of fields) {
+    const target = fieldFactor(field, system);
+    const value = values[field.key];
+    if (!target || target.factor === 1 || typeof value !== "number") continue;
+    next[field.key] = value / target.factor;
+  }
+  return next;
+}
+
+const scaleValues = (
+  fields: EstimatorField[],
+  values: FieldValues,
+  system: UnitSystem,
+): FieldValues => {
+  const next = { ...values };
+  for (const field of fields) {
+    const target = fieldFactor(field, system);
+    const value = values[field.key];
+    if (!target || target.factor === 1 || typeof value !== "number") continue;
+    next[field.key] = round(value * target.factor, 2);
+  }
+  return next;
+};
+
+const UNIT_IN_TEXT = /(\d[\d,]*(?:\.\d+)?)\s*(sqft|cft|rft|ft)\b/g;
+
+/** "120 sqft of walls" → "11.148 sqm of walls". */
+export function localizeText(text: string, system: UnitSystem): string {
+  if (system === "imperial") return text;
+  return text.replace(UNIT_IN_TEXT, (match, value: string, unit: string) => {
+    const n = parseFloat(value.replace(/,/g, ""));
+    if (!isFinite(n)) return match;
+    const converted = convertQuantity(n, unit, system);
+    return `${round(converted.quantity, 2)} ${converted.unit}`;
+  });
+}
+
+const UNIT_IN_LABEL = /\((sqft|cft|rft|ft)\)/;
+const NUMBERS_ONLY = /^\d+(?:\.\d+)?(?:\s*×\s*\d+(?:\.\d+)?)*$/;
+
+/**
+ * Columns labelled with a unit, e.g. "Net (sqft)", are converted when
+ * every cell is a number or a "12 × 10" size.
+ */
+function localizeTable(table: SummaryTable, system: UnitSystem): SummaryTable {
+  const columns = table.columns.map((c) => ({ ...c }));
+  let rows = table.rows;
+  table.columns.forEach((column, j) => {
+    const unit = column.label.match(UNIT_IN_LABEL)?.[1];
+    if (!unit) return;
+    const cells = rows.map((r) => r[j]);
+    if (
+      !cells.every(
+        (c) =>
+          typeof c === "number" ||
+          (typeof c === "string" && NUMBERS_ONLY.test(c)),
+      )
+    ) {
+      return;
+    }
+    const { factor, unit: target } = unitInSystem(unit, system);
+    const scale = (n: number) => round(n * factor, 2);
+    rows = rows.map((r) =>
+      r.map((cell, k) => {
+        if (k !== j) return cell;
+        if (typeof cell === "number") return scale(cell);
+        return String(cell)
+          .split("×")
+          .map((part) => scale(parseFloat(part)))
+          .join(" × ");
+      }),
+    );
+    columns[j].label = column.label.replace(UNIT_IN_LABEL, `(${target})`);
+  });
+  return { ...table, columns, rows };
+}
+
+function localizeOutcome(
+  outcome: EstimatorOutcome,
+  system: UnitSystem,
+): EstimatorOutcome {
+  return {
+    ...outcome,
+    heading: outcome.heading && localizeText(outcome.heading, system),
+    tables: outcome.tables?.map((t) => localizeTable(t, system)),
+    notes: outcome.notes?.map((n) => localizeText(n, system)),
+  };
+}
+
+/** The definition as a project in `system` fills it in. */
+export function localizeDefinition(
+  definition: EstimatorDefinition,
+  system: UnitSystem,
+): EstimatorDefinition {
+  if (system === "imperial") return definition;
+
+  const fieldsOf = (section: EstimatorSection) => section.fields;
+  const formFields = definition.sections
+    .filter((s) => s.type === "fields")
+    .flatMap(fieldsOf);
+  const rowFields: Record<string, EstimatorField[]> = {};
+  for (const s of definition.sections) {
+    if (s.type === "rows") rowFields[s.key] = s.fields;
+  }
+
+  const toDefinitionInputs = (inputs: EstimatorInputs): EstimatorInputs => ({
+    values: toDefinitionUnits(formFields, inputs.values, system),
+    rows: Object.fromEntries(
+      Object.entries(inputs.rows).map(([key, rows]) => [
+        key,
+        rows.map((r) => toDefinitionUnits(rowFields[key] || [], r, system)),
+      ]),
+    ),
+  });
+
+  return {
+    ...definition,
+    inputsHelp:
+      definition.inputsHelp && localizeText(definition.inputsHelp, system),
+    sections: definition.sections.map((section): EstimatorSection => {
+      const fields = section.fields.map((f) => localizeField(f, system));
+      const help = section.help && localizeText(section.help, system);
+      if (section.type === "fields") return { ...section, help, fields };
+      const { newRow } = section;
+      return {
+        ...section,
+        help,
+        fields,
+        newRow:
+          newRow && ((n) => scaleValues(section.fields, newRow(n), system)),
+      };
+    }),
+    compute: (inputs, coefficients) => {
+      const outcome = definition.compute(
+        toDefinitionInputs(inputs),
+        coefficients,
+      );
+      return outcome && localizeOutcome(outcome, system);
+    },
+    estimate: definition.estimate && {
+      type: definition.estimate.type,
+      input: (inputs) => definition.estimate!.input(toDefinitionInputs(inputs)),
+    },
+    location: (inputs) => definition.location(toDefinitionInputs(inputs)),
+  };
+}
@@ -5,7 +5,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import apiFetch from "@/lib/api";
-import html2pdf from "html2pdf.js";
+import { downloadEstimatorProjectPdf } from "@/lib/boq-download";
 import { Download, Trash2 } from "lucide-react";
 
 interface Step9Item {
@@ -111,20 +111,19 @@ export default function BoqReview() {
     });
   };
 
-  const handleExportPDF = () => {
-    const element = document.getElementById("boq-review-pdf");
-    if (!element) return;
-
-    const sessionId = step9Data[0]?.session_id || "BOQ";
-    html2pdf()
-      .set({
-        margin: 10,
-        filename: `BOQ_Review_${sessionId}.pdf`,
-        html2canvas: { scale: 2 },
-        jsPDF: { unit: "mm", format: "a4", orientation: "portrait" },
-      })
-      .from(element)
-      .save();
+  // The PDF comes from the server-rendered version of the ?project= BOQ
+  const handleExportPDF = async () => {
+    try {
+      const filename = await downloadEstimatorProjectPdf();
+      toast({ title: "Success", description: `Downloaded ${filename}` });
+    } catch (err: any) {
+      console.error("PDF Export Error:", err);
+      toast({
+        title: "Error",
+        description: err?.message || "Failed to download BOQ PDF",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -179,7 +178,7 @@ export default function BoqReview() {
                   )}
                 </div>
 
-                <div id="boq-review-pdf" className="space-y-4">
+                <div className="space-y-4">
                   <table className="w-full text-sm border-collapse">
                     <thead>
                       <tr className="border-b bg-gray-100">
@@ -17,14 +17,53 @@ import apiFetch from "@/lib/api";
 import Step9Table from "@/components/estimators/Step9Table";
 import ProductPicker from "@/components/ProductPicker";
 import Step11Preview from "@/components/Step11Preview";
-import jsPDF from "jspdf";
-import autoTable from "jspdf-autotable";
+import BoqCellHistory, {
+  type BoqEditHistoryEntry,
+} from "@/components/BoqCellHistory";
+import BoqVersionDiff from "@/components/BoqVersionDiff";
+import BoqImportDialog from "@/components/BoqImportDialog";
+import BoqVersionWorkflow, {
+  BoqStatusBadge,
+} from "@/components/BoqVersionWorkflow";
+import {
+  BOQ_STATUS_LABELS,
+  isVersionDeletable,
+  isVersionEditable,
+  type BoqVersionStatus,
+} from "@shared/boq-workflow";
+import { downloadBoqVersion, type BoqExportFormat } from "@/lib/boq-download";
+import BoqGstSummary from "@/components/BoqGstSummary";
+import BoqPricingAdjustments from "@/components/BoqPricingAdjustments";
+import BoqBudgetVariance, {
+  BudgetAlertBadge,
+} from "@/components/BoqBudgetVariance";
+import {
+  applyPricingAdjustments,
+  type PricingAdjustment,
+} from "@shared/boq-pricing";
+import {
+  buildVersionBudgetStatus,
+  readProjectBudget,
+} from "@shared/boq-budget";
+import {
+  PROJECT_ROLE_LABELS,
+  projectRoleAllows,
+  type ProjectAccessRole,
+} from "@shared/boq-access";
+import {
+  computeLineTax,
+  summarizeGst,
+  type LineTaxInfo,
+} from "@shared/gst";
 
 type Project = {
   id: string;
   name: string;
   client: string;
   budget: string;
+  budget_amount?: string | number | null;
+  budget_breakdown?: Record<string, number>;
+  access_role?: ProjectAccessRole | null;
   location?: string;
   status?: string;
 };
@@ -33,7 +72,11 @@ type BOQVersion = {
   id: string;
   project_id: string;
   version_number: number;
-  status: "draft" | "submitted";
+  status: BoqVersionStatus;
+  project_name?: string | null;
+  project_client?: string | null;
+  project_location?: string | null;
+  pricing_adjustments?: PricingAdjustment[];
   created_at: string;
   updated_at: string;
 };
@@ -46,6 +89,21 @@ type BOQItem = {
   created_at: string;
 };
 
+type BoqLineTax = LineTaxInfo & { itemId: string; rowIndex: number };
+
+type BoqTax = {
+  projectState: string | null;
+  lines: BoqLineTax[];
+};
+
+const UNRATED_LINE: LineTaxInfo = {
+  codeType: null,
+  codeValue: null,
+  rate: null,
+  supplyType: "intra",
+  supplierState: null,
+};
+
 type Product = {
   id: string;
   name: string;
@@ -87,6 +145,8 @@ export default function CreateBoq() {
     null,
   );
   const [showProductPicker, setShowProductPicker] = useState(false);
+  const [showVersionDiff, setShowVersionDiff] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [showStep11Preview, setShowStep11Preview] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -101,6 +161,19 @@ export default function CreateBoq() {
       install_rate?: number;
     };
   }>({});
+  const [editHistory, setEditHistory] = useState<BoqEditHistoryEntry[]>([]);
+  const [boqTax, setBoqTax] = useState<BoqTax | null>(null);
+  const [pricingAdjustments, setPricingAdjustments] = useState<
+    PricingAdjustment[]
+  >([]);
+  const savedPricingAdjustments =
+    versions.find((v) => v.id === selectedVersionId)?.pricing_adjustments ||
+    [];
+
+  // Reset the pricing editor whenever the stored layers change
+  useEffect(() => {
+    setPricingAdjustments(savedPricingAdjustments);
+  }, [selectedVersionId, JSON.stringify(savedPricingAdjustments)]);
 
   // Load projects from DB on mount
   useEffect(() => {
@@ -176,6 +249,7 @@ export default function CreateBoq() {
     if (!selectedVersionId) {
       setBoqItems([]);
       setEditedFields({});
+      setEditHistory([]);
       return;
     }
 
@@ -243,24 +317,9 @@ export default function CreateBoq() {
           toast({ title: "Error", description: `Failed to load BOQ items (${response.status})`, variant: "destructive" });
         }
 
-        // Load edited fields from this version
-        const editsResponse = await apiFetch(
-          `/api/boq-versions/${encodeURIComponent(selectedVersionId)}/edits`,
-          { headers: {} },
-        );
-        if (editsResponse.ok) {
-          try {
-            const editsData = await safeParseJson(editsResponse as unknown as Response);
-            setEditedFields(editsData.editedFields || {});
-          } catch (e) {
-            // Don't show a destructive toast here — the edits response may be empty
-            // or served without Content-Type in some dev setups. Log warning for diagnostics.
-            console.warn("Edits parse warning (non-fatal):", e);
-          }
-        } else {
-          const body = await editsResponse.text();
-          console.error("Failed to fetch edits:", editsResponse.status, body);
-        }
+        // Saved edits are already merged into the items; start with a clean slate
+        setEditedFields({});
+        await loadEditHistory(selectedVersionId);
       } catch (err) {
         console.error("Failed to load BOQ items or edits:", err);
         toast({ title: "Error", description: "Failed to load BOQ items or edits", variant: "destructive" });
@@ -270,6 +329,60 @@ export default function CreateBoq() {
     loadBoqItemsAndEdits();
   }, [selectedVersionId]);
 
+  // GST codes/rates are resolved server-side; amounts follow unsaved edits
+  useEffect(() => {
+    if (!selectedVersionId) {
+      setBoqTax(null);
+      return;
+    }
+    const loadTax = async () => {
+      try {
+        const response = await apiFetch(
+          `/api/boq-versions/${encodeURIComponent(selectedVersionId)}/tax`,
+          { headers: {} },
+        );
+        if (response.ok) setBoqTax(await response.json());
+      } catch (err) {
+        console.error("Failed to load GST details:", err);
+      }
+    };
+    loadTax();
+  }, [selectedVersionId, boqItems]);
+
+  const reloadBoqItems = async () => {
+    if (!selectedVersionId) return;
+    try {
+      const response = await apiFetch(
+        `/api/boq-items/version/${encodeURIComponent(selectedVersionId)}`,
+        { headers: {} },
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setBoqItems(data.items || []);
+      }
+    } catch (err) {
+      console.error("Failed to reload BOQ items:", err);
+    }
+  };
+
+  const loadEditHistory = async (versionId: string) => {
+    try {
+      const response = await apiFetch(
+        `/api/boq-versions/${encodeURIComponent(versionId)}/edit-history`,
+        { headers: {} },
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setEditHistory(data.history || []);
+      } else {
+        console.warn("Failed to fetch edit history:", response.status);
+      }
+    } catch (e) {
+      // Edit history is informational only; don't block the BOQ grid on it
+      console.warn("Edit history load warning (non-fatal):", e);
+    }
+  };
+
   // If URL contains ?project=, auto-select that project
   // Only auto-select a project from the URL if it exists in the loaded projects.
   useEffect(() => {
@@ -547,6 +660,104 @@ export default function CreateBoq() {
     );
   };
 
+  // Mirrors the server-side comparison in save-edits so the marker matches what gets recorded
+  const isCellDirty = (itemKey: string, field: string, originalValue: any) => {
+    const edited =
+      editedFields[itemKey]?.[
+        field as keyof (typeof editedFields)[keyof typeof editedFields]
+      ];
+    if (edited === undefined) return false;
+    return typeof edited === "number"
+      ? edited !== Number(originalValue || 0)
+      : edited !== (originalValue ?? "");
+  };
+
+  const dirtyCellClass = (itemKey: string, field: string, originalValue: any) =>
+    isCellDirty(itemKey, field, originalValue)
+      ? "border-amber-500 bg-amber-50"
+      : "";
+
+  const getCellHistory = (itemKey: string, field: string) =>
+    editHistory.filter(
+      (h) => `${h.item_id}-${h.row_index}` === itemKey && h.field === field,
+    );
+
+  const dirtyCellCount = boqItems.reduce((count, boqItem) => {
+    const step11Items: Step11Item[] = boqItem.table_data?.step11_items || [];
+    return (
+      count +
+      step11Items.reduce((rowCount, step11Item, itemIdx) => {
+        const itemKey = `${boqItem.id}-${itemIdx}`;
+        return (
+          rowCount +
+          Object.keys(editedFields[itemKey] || {}).filter((field) =>
+            isCellDirty(itemKey, field, step11Item[field]),
+          ).length
+        );
+      }, 0)
+    );
+  }, 0);
+
+  const taxByLine = new Map(
+    (boqTax?.lines || []).map((l) => [`${l.itemId}-${l.rowIndex}`, l]),
+  );
+  const getLineTaxInfo = (itemKey: string): LineTaxInfo =>
+    taxByLine.get(itemKey) || UNRATED_LINE;
+
+  const lineAmounts = (itemKey: string, step11Item: Step11Item) => {
+    const qty = getEditedValue(itemKey, "qty", step11Item.qty || 0);
+    return {
+      supply:
+        qty *
+        getEditedValue(itemKey, "supply_rate", step11Item.supply_rate || 0),
+      install:
+        qty *
+        getEditedValue(itemKey, "install_rate", step11Item.install_rate || 0),
+    };
+  };
+
+  const pricing = applyPricingAdjustments(
+    boqItems
+      .flatMap((boqItem) =>
+        (boqItem.table_data?.step11_items || []).map(
+          (step11Item: Step11Item, itemIdx: number) =>
+            lineAmounts(`${boqItem.id}-${itemIdx}`, step11Item),
+        ),
+      )
+      .reduce(
+        (totals, amounts) => ({
+          supply: totals.supply + amounts.supply,
+          install: totals.install + amounts.install,
+        }),
+        { supply: 0, install: 0 },
+      ),
+    pricingAdjustments,
+  );
+
+  // GST is charged on the quoted value, so spread the pricing layers over lines
+  const taxableAmount = (supplyAmount: number, installAmount: number) =>
+    supplyAmount * pricing.factors.supply +
+    installAmount * pricing.factors.install;
+
+  const lineTaxable = (itemKey: string, step11Item: Step11Item) => {
+    const amounts = lineAmounts(itemKey, step11Item);
+    return taxableAmount(amounts.supply, amounts.install);
+  };
+
+  const gstSummary = summarizeGst(
+    boqItems.flatMap((boqItem) =>
+      (boqItem.table_data?.step11_items || []).map(
+        (step11Item: Step11Item, itemIdx: number) => {
+          const itemKey = `${boqItem.id}-${itemIdx}`;
+          return {
+            taxable: lineTaxable(itemKey, step11Item),
+            info: getLineTaxInfo(itemKey),
+          };
+        },
+      ),
+    ),
+  );
+
   const handleSaveProject = async () => {
     if (!selectedVersionId) return;
     try {
@@ -561,9 +772,23 @@ export default function CreateBoq() {
       );
 
       if (response.ok) {
+        const result = await response.json();
+
+        // Reload items so the grid shows the persisted values, then clear local edits
+        const itemsResponse = await apiFetch(
+          `/api/boq-items/version/${encodeURIComponent(selectedVersionId)}`,
+          { headers: {} },
+        );
+        if (itemsResponse.ok) {
+          const data = await itemsResponse.json();
+          setBoqItems(data.items || []);
+        }
+        setEditedFields({});
+        await loadEditHistory(selectedVersionId);
+
         toast({
           title: "Success",
-          description: "BOQ version saved permanently with all edits",
+          description: `BOQ version saved (${(result.changes || []).length} cell change(s) recorded)`,
         });
       } else {
         throw new Error("Failed to save edits");
@@ -578,36 +803,19 @@ export default function CreateBoq() {
     }
   };
 
-  const handleSubmitVersion = async () => {
-    if (!selectedVersionId) return;
+  const reloadVersions = async () => {
+    if (!selectedProjectId) return;
     try {
-      await apiFetch(`/api/boq-versions/${selectedVersionId}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: "submitted" }),
-      });
-
-      // Reload versions
       const response = await apiFetch(
-        `/api/boq-versions/${encodeURIComponent(selectedProjectId!)}`,
+        `/api/boq-versions/${encodeURIComponent(selectedProjectId)}`,
         { headers: {} },
       );
       if (response.ok) {
         const data = await response.json();
         setVersions(data.versions || []);
       }
-
-      toast({
-        title: "Success",
-        description: "BOQ version submitted and locked",
-      });
     } catch (err) {
-      console.error("Failed to submit version:", err);
-      toast({
-        title: "Error",
-        description: "Failed to submit version",
-        variant: "destructive",
-      });
+      console.error("Failed to reload versions:", err);
     }
   };
 
@@ -646,8 +854,9 @@ export default function CreateBoq() {
     }
   };
 
-  const handleDownloadExcel = () => {
-    if (!selectedProjectId || boqItems.length === 0) {
+  // Downloads are rendered server-side from the saved version
+  const downloadVersionFile = async (format: BoqExportFormat) => {
+    if (!selectedVersionId || boqItems.length === 0) {
       toast({
         title: "Info",
         description: "No BOQ items to download",
@@ -655,135 +864,16 @@ export default function CreateBoq() {
       });
       return;
     }
-
-    try {
-      // Prepare CSV data
-      const headers = [
-        "S.No",
-        "Item",
-        "Description",
-        "Unit",
-        "Qty",
-        "Supply Rate",
-        "Install Rate",
-        "Supply Amount",
-        "Install Amount",
-      ];
-      const rows: string[][] = [];
-
-      let rowNum = 1;
-      let totalSupplyAmount = 0;
-      let totalInstallAmount = 0;
-
-      let displayRowNum = 1;
-      boqItems.forEach((boqItem) => {
-        const tableData = boqItem.table_data || {};
-        const step11Items = tableData.step11_items || [];
-        const productName = tableData.product_name || boqItem.estimator;
-
-        step11Items.forEach((step11Item: Step11Item, itemIdx: number) => {
-          const itemKey = `${boqItem.id}-${itemIdx}`;
-          const qty = getEditedValue(itemKey, "qty", step11Item.qty || 0);
-          const supplyRate = getEditedValue(
-            itemKey,
-            "supply_rate",
-            step11Item.supply_rate || 0,
-          );
-          const installRate = getEditedValue(
-            itemKey,
-            "install_rate",
-            step11Item.install_rate || 0,
-          );
-          const description = getEditedValue(
-            itemKey,
-            "description",
-            step11Item.description || "",
-          );
-          const unit = getEditedValue(
-            itemKey,
-            "unit",
-            step11Item.unit || "pcs",
-          );
-          const location = getEditedValue(
-            itemKey,
-            "location",
-            step11Item.location || "",
-          );
-
-          const supplyAmount = qty * supplyRate;
-          const installAmount = qty * installRate;
-
-          totalSupplyAmount += supplyAmount;
-          totalInstallAmount += installAmount;
-
-          rows.push([
-            displayRowNum.toString(),
-            step11Item.title || productName,
-            description,
-            unit,
-            qty.toString(),
-            supplyRate.toString(),
-            installRate.toString(),
-            supplyAmount.toFixed(2),
-            installAmount.toFixed(2),
-          ]);
-
-          displayRowNum++;
-        });
+    if (dirtyCellCount > 0) {
+      toast({
+        title: "Unsaved changes",
+        description:
+          "The download reflects the last saved version. Save changes to include your edits.",
       });
+    }
 
-      // Add total row
-      rows.push([
-        "",
-        "",
-        "",
-        "",
-        "",
-        "",
-        "Total",
-        totalSupplyAmount.toFixed(2),
-        totalInstallAmount.toFixed(2),
-      ]);
-
-      // Create CSV content
-      const csvContent = [
-        headers.join(","),
-        ...rows.map((row) =>
-          row
-            .map((cell) => {
-              // Escape cells that contain commas or quotes
-              if (
-                cell.includes(",") ||
-                cell.includes('"') ||
-                cell.includes("\n")
-              ) {
-                return `"${cell.replace(/"/g, '""')}"`;
-              }
-              return cell;
-            })
-            .join(","),
-        ),
-      ].join("\n");
-
-      // Create blob and download
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-
-      const projectName = selectedProject?.name || "BOQ";
-      const versionName = selectedVersion
-        ? `V${selectedVersion.version_number}`
-        : "draft";
-      const filename = `${projectName}_${versionName}_BOQ.csv`;
-
-      link.setAttribute("href", url);
-      link.setAttribute("download", filename);
-      link.style.visibility = "hidden";
-
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
+    try {
+      const filename = await downloadBoqVersion(selectedVersionId, format);
       toast({
         title: "Success",
         description: `Downloaded ${filename}`,
@@ -798,168 +888,52 @@ export default function CreateBoq() {
     }
   };
 
-  const handleDownloadPdf = async () => {
-    if (!selectedProjectId || boqItems.length === 0) {
-      toast({
-        title: "Info",
-        description: "No BOQ items to download",
-        variant: "default",
-      });
-      return;
-    }
-
-    try {
-      // Prepare table body
-      const body: any[] = [];
-      let displayRowNum = 1;
-
-      boqItems.forEach((boqItem) => {
-        const tableData = boqItem.table_data || {};
-        const step11Items = tableData.step11_items || [];
-        const productName = tableData.product_name || boqItem.estimator;
-
-        step11Items.forEach((step11Item: Step11Item, itemIdx: number) => {
-          const itemKey = `${boqItem.id}-${itemIdx}`;
-          const qty = getEditedValue(itemKey, "qty", step11Item.qty || 0);
-          const supplyRate = getEditedValue(
-            itemKey,
-            "supply_rate",
-            step11Item.supply_rate || 0,
-          );
-          const installRate = getEditedValue(
-            itemKey,
-            "install_rate",
-            step11Item.install_rate || 0,
-          );
-          const description = getEditedValue(
-            itemKey,
-            "description",
-            step11Item.description || "",
-          );
-          const unit = getEditedValue(
-            itemKey,
-            "unit",
-            step11Item.unit || "pcs",
-          );
-          const location = getEditedValue(
-            itemKey,
-            "location",
-            step11Item.location || "",
-          );
+  const handleDownloadExcel = () => downloadVersionFile("xlsx");
 
-          const supplyAmount = qty * supplyRate;
-          const installAmount = qty * installRate;
-
-          body.push({
-            sno: displayRowNum,
-            item: step11Item.title || productName,
-            description,
-            unit,
-            qty,
-            supply_rate: supplyRate,
-            install_rate: installRate,
-            supply_amount: supplyAmount,
-            install_amount: installAmount,
-          });
-
-          displayRowNum++;
-        });
-      });
-
-      // Fetch logo and convert to data URL
-      const logoPath = "/image.png";
-      let logoDataUrl: string | null = null;
-      try {
-        const resp = await fetch(logoPath);
-        const blob = await resp.blob();
-        const reader = new FileReader();
-        logoDataUrl = await new Promise<string | null>((resolve) => {
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = () => resolve(null);
-          reader.readAsDataURL(blob);
-        });
-      } catch (e) {
-        console.warn("Could not load logo for PDF header", e);
-      }
-
-      const doc = new jsPDF({ orientation: "landscape" });
-      const pageWidth = doc.internal.pageSize.getWidth();
-
-      // Header: logo left, project meta right
-      const headerY = 10;
-      if (logoDataUrl) {
-        // Draw logo at top-left (keep height 24)
-        const imgProps: any = doc.getImageProperties(logoDataUrl);
-        const imgH = 24;
-        const imgW = (imgProps.width / imgProps.height) * imgH;
-        doc.addImage(logoDataUrl, "PNG", 10, headerY, imgW, imgH);
-      }
-
-      const metaX = pageWidth - 10;
-      doc.setFontSize(10);
-      doc.setFont(undefined, "bold");
-      const projectName = selectedProject?.name || "BOQ";
-      const clientName = selectedProject?.client || "-";
-      const budgetText = selectedProject?.budget || "-";
-      doc.text(projectName, metaX, headerY + 6, { align: "right" });
-      doc.setFontSize(9);
-      doc.setFont(undefined, "normal");
-      doc.text(`Client: ${clientName}`, metaX, headerY + 12, {
-        align: "right",
-      });
-      doc.text(`Budget: ${budgetText}`, metaX, headerY + 18, {
-        align: "right",
-      });
-
-      // Table columns for autoTable
-      const columns = [
-        { header: "S.No", dataKey: "sno" },
-        { header: "Item", dataKey: "item" },
-        { header: "Description", dataKey: "description" },
-        { header: "Unit", dataKey: "unit" },
-        { header: "Qty", dataKey: "qty" },
-        { header: "Supply Rate", dataKey: "supply_rate" },
-        { header: "Install Rate", dataKey: "install_rate" },
-        { header: "Supply Amount", dataKey: "supply_amount" },
-        { header: "Install Amount", dataKey: "install_amount" },
-      ];
-
-      // @ts-ignore - autotable types
-      autoTable(doc, {
-        head: [columns.map((c) => c.header)],
-        body: body.map((row) => columns.map((c) => row[c.dataKey])),
-        startY: headerY + 30,
-        styles: { fontSize: 8 },
-        headStyles: {
-          fillColor: [64, 64, 64],
-          textColor: [255, 255, 255],
-          fontStyle: "bold",
-        },
-        theme: "grid",
-        didDrawPage: (data: any) => {
-          // page footer optional
-        },
-      });
-
-      const versionName = selectedVersion
-        ? `V${selectedVersion.version_number}`
-        : "draft";
-      const filename = `${projectName}_${versionName}_BOQ.pdf`;
-      doc.save(filename);
-      toast({ title: "Success", description: `Downloaded ${filename}` });
-    } catch (err) {
-      console.error("Failed to generate PDF", err);
-      toast({
-        title: "Error",
-        description: "Failed to generate PDF",
-        variant: "destructive",
-      });
-    }
-  };
+  const handleDownloadPdf = () => downloadVersionFile("pdf");
 
   const selectedProject = projects.find((p) => p.id === selectedProjectId);
   const selectedVersion = versions.find((v) => v.id === selectedVersionId);
-  const isVersionSubmitted = selectedVersion?.status === "submitted";
+  const canEditProject = projectRoleAllows(
+    selectedProject?.access_role,
+    "edit",
+  );
+  const isVersionLocked =
+    (!!selectedVersion && !isVersionEditable(selectedVersion.status)) ||
+    !canEditProject;
+  // Live variance of the version being edited against the project budget
+  const budgetStatus = buildVersionBudgetStatus(
+    readProjectBudget(
+      selectedProject?.budget_amount,
+      selectedProject?.budget_breakdown,
+    ),
+    {
+      versionId: selectedVersionId || "",
+      versionNumber: selectedVersion?.version_number || 0,
+      total: pricing.final.supply + pricing.final.install,
+      byEstimator: boqItems.reduce(
+        (acc, boqItem) => {
+          (boqItem.table_data?.step11_items || []).forEach(
+            (step11Item: Step11Item, itemIdx: number) => {
+              const amounts = lineAmounts(
+                `${boqItem.id}-${itemIdx}`,
+                step11Item,
+              );
+              acc[boqItem.estimator] =
+                (acc[boqItem.estimator] || 0) +
+                taxableAmount(amounts.supply, amounts.install);
+            },
+          );
+          return acc;
+        },
+        {} as Record<string, number>,
+      ),
+    },
+  );
+  // versions are listed newest first; compare against the one just before
+  const compareBaseVersion = selectedVersion
+    ? versions.find((v) => v.version_number < selectedVersion.version_number)
+    : undefined;
 
   if (loading) {
     return (
@@ -1002,8 +976,17 @@ export default function CreateBoq() {
 
             {selectedProject && (
               <div className="text-sm text-gray-600 space-y-1">
-                <div>
-                  <strong>Budget:</strong> {selectedProject.budget || "—"}
+                <div className="flex items-center gap-2">
+                  <strong>Budget:</strong>
+                  {budgetStatus.budget === null
+                    ? "—"
+                    : `₹${budgetStatus.budget.toLocaleString("en-IN")}`}
+                  {selectedVersionId && budgetStatus.budget !== null && (
+                    <BudgetAlertBadge
+                      level={budgetStatus.level}
+                      usedPercent={budgetStatus.usedPercent}
+                    />
+                  )}
                 </div>
                 <div>
                   <strong>Status:</strong> {selectedProject.status || "draft"}
@@ -1029,12 +1012,14 @@ export default function CreateBoq() {
                           <SelectItem value={v.id} key={v.id}>
                             {v.project_name ? `[${v.project_name}] ` : ""}V
                             {v.version_number} (
-                            {v.status === "submitted" ? "Locked" : "Draft"})
+                            {BOQ_STATUS_LABELS[v.status] || v.status})
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
-                    {selectedVersionId && (
+                    {selectedVersion &&
+                      canEditProject &&
+                      isVersionDeletable(selectedVersion.status) && (
                       <Button
                         onClick={async () => {
                           if (!selectedVersionId) return;
@@ -1093,7 +1078,7 @@ export default function CreateBoq() {
                         Delete Version
                       </Button>
                     )}
-                    {versions.length > 0 && (
+                    {versions.length > 0 && canEditProject && (
                       <Button
                         onClick={() => {
                           const lastVersion = versions[0];
@@ -1112,7 +1097,17 @@ export default function CreateBoq() {
                         + New Version
                       </Button>
                     )}
-                    {versions.length === 0 && selectedProjectId && (
+                    {versions.length > 1 && (
+                      <Button
+                        onClick={() => setShowVersionDiff(true)}
+                        variant="outline"
+                      >
+                        Compare Versions
+                      </Button>
+                    )}
+                    {versions.length === 0 &&
+                      selectedProjectId &&
+                      canEditProject && (
                       <Button
                         onClick={() => handleCreateNewVersion(false)}
                         variant="outline"
@@ -1143,28 +1138,36 @@ export default function CreateBoq() {
                           {selectedVersion.project_location}
                         </div>
                       )}
-                      {isVersionSubmitted && (
-                        <span className="inline-block bg-yellow-100 text-yellow-800 px-2 py-1 rounded text-xs font-semibold">
-                          Submitted (Locked)
-                        </span>
-                      )}
-                      {!isVersionSubmitted && (
-                        <span className="inline-block bg-green-100 text-green-800 px-2 py-1 rounded text-xs font-semibold">
-                          Draft (Editable)
-                        </span>
-                      )}
+                      <BoqStatusBadge status={selectedVersion.status} />
                     </div>
                   )}
                 </div>
 
-                {/* Add Product - Disabled if submitted */}
+                {/* Add Product - Disabled unless draft */}
                 <Button
                   onClick={handleAddProduct}
                   className="w-full"
-                  disabled={isVersionSubmitted}
+                  disabled={isVersionLocked}
                 >
                   Add Product +
                 </Button>
+                <Button
+                  onClick={() => setShowImport(true)}
+                  variant="outline"
+                  className="w-full"
+                  disabled={isVersionLocked || !selectedVersionId}
+                >
+                  Import from Excel / CSV
+                </Button>
+
+                {selectedVersionId && (
+                  <BoqImportDialog
+                    open={showImport}
+                    onOpenChange={setShowImport}
+                    versionId={selectedVersionId}
+                    onImported={reloadBoqItems}
+                  />
+                )}
 
                 <ProductPicker
                   open={showProductPicker}
@@ -1187,6 +1190,15 @@ export default function CreateBoq() {
                     onAddToBoq={handleAddToBoq}
                   />
                 )}
+
+                <BoqVersionDiff
+                  open={showVersionDiff}
+                  onOpenChange={setShowVersionDiff}
+                  versions={versions}
+                  defaultBaseId={compareBaseVersion?.id}
+                  defaultTargetId={selectedVersionId}
+                  projectName={selectedProject?.name}
+                />
               </div>
             )}
           </CardContent>
@@ -1196,7 +1208,14 @@ export default function CreateBoq() {
         {selectedProjectId && (
           <Card>
             <CardContent className="space-y-4 pt-6">
-              <h2 className="text-lg font-semibold">BOQ Items</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">BOQ Items</h2>
+                {dirtyCellCount > 0 && (
+                  <span className="inline-block bg-amber-100 text-amber-800 px-2 py-1 rounded text-xs font-semibold">
+                    {dirtyCellCount} unsaved change(s) since last save
+                  </span>
+                )}
+              </div>
               {boqItems.length === 0 ? (
                 <div className="text-gray-500 text-center py-4">
                   No products added yet. Click Add Product +
@@ -1234,6 +1253,12 @@ export default function CreateBoq() {
                         >
                           Amount
                         </th>
+                        <th
+                          colSpan={2}
+                          className="border px-1 py-2 text-center font-semibold"
+                        >
+                          GST
+                        </th>
                         <th className="border px-2 py-2 text-center font-semibold w-16">
                           Action
                         </th>
@@ -1252,6 +1277,12 @@ export default function CreateBoq() {
                         <th className="border px-1 py-1 text-center text-xs font-medium w-16">
                           Install
                         </th>
+                        <th className="border px-1 py-1 text-center text-xs font-medium w-16">
+                          HSN/SAC
+                        </th>
+                        <th className="border px-1 py-1 text-center text-xs font-medium w-16">
+                          Amount
+                        </th>
                         <th></th>
                       </tr>
                     </thead>
@@ -1301,6 +1332,11 @@ export default function CreateBoq() {
 
                               const supplyAmount = qty * supplyRate;
                               const installAmount = qty * installRate;
+                              const taxInfo = getLineTaxInfo(itemKey);
+                              const lineTax = computeLineTax(
+                                taxableAmount(supplyAmount, installAmount),
+                                taxInfo,
+                              );
 
                               return (
                                 <tr
@@ -1315,82 +1351,112 @@ export default function CreateBoq() {
                                   </td>
 
                                   <td className="border px-2 py-1">
-                                    <textarea
-                                      value={description}
-                                      onChange={(e) =>
-                                        updateEditedField(
-                                          itemKey,
-                                          "description",
-                                          e.target.value,
-                                        )
-                                      }
-                                      disabled={isVersionSubmitted}
-                                      className="w-full border rounded px-1 py-0.5 text-xs min-h-8 resize-none disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                      placeholder="Enter description"
-                                    />
+                                    <div className="flex items-start gap-1">
+                                      <textarea
+                                        value={description}
+                                        onChange={(e) =>
+                                          updateEditedField(
+                                            itemKey,
+                                            "description",
+                                            e.target.value,
+                                          )
+                                        }
+                                        disabled={isVersionLocked}
+                                        className={`w-full border rounded px-1 py-0.5 text-xs min-h-8 resize-none disabled:bg-gray-100 disabled:cursor-not-allowed ${dirtyCellClass(itemKey, "description", step11Item.description)}`}
+                                        placeholder="Enter description"
+                                      />
+                                      <BoqCellHistory
+                                        label="Description"
+                                        entries={getCellHistory(itemKey, "description")}
+                                      />
+                                    </div>
                                   </td>
                                   <td className="border px-2 py-1">
-                                    <input
-                                      type="text"
-                                      value={unit}
-                                      onChange={(e) =>
-                                        updateEditedField(
-                                          itemKey,
-                                          "unit",
-                                          e.target.value,
-                                        )
-                                      }
-                                      disabled={isVersionSubmitted}
-                                      className="w-full border rounded px-1 py-0.5 text-xs text-center disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                      placeholder="pcs"
-                                    />
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="text"
+                                        value={unit}
+                                        onChange={(e) =>
+                                          updateEditedField(
+                                            itemKey,
+                                            "unit",
+                                            e.target.value,
+                                          )
+                                        }
+                                        disabled={isVersionLocked}
+                                        className={`w-full border rounded px-1 py-0.5 text-xs text-center disabled:bg-gray-100 disabled:cursor-not-allowed ${dirtyCellClass(itemKey, "unit", step11Item.unit)}`}
+                                        placeholder="pcs"
+                                      />
+                                      <BoqCellHistory
+                                        label="Unit"
+                                        entries={getCellHistory(itemKey, "unit")}
+                                      />
+                                    </div>
                                   </td>
                                   <td className="border px-2 py-1">
-                                    <input
-                                      type="number"
-                                      value={qty}
-                                      onChange={(e) =>
-                                        updateEditedField(
-                                          itemKey,
-                                          "qty",
-                                          parseFloat(e.target.value) || 0,
-                                        )
-                                      }
-                                      disabled={isVersionSubmitted}
-                                      className="w-full border rounded px-1 py-0.5 text-xs text-center disabled:bg-gray-100 disabled:cursor-not-allowed font-semibold"
-                                    />
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="number"
+                                        value={qty}
+                                        onChange={(e) =>
+                                          updateEditedField(
+                                            itemKey,
+                                            "qty",
+                                            parseFloat(e.target.value) || 0,
+                                          )
+                                        }
+                                        disabled={isVersionLocked}
+                                        className={`w-full border rounded px-1 py-0.5 text-xs text-center disabled:bg-gray-100 disabled:cursor-not-allowed font-semibold ${dirtyCellClass(itemKey, "qty", step11Item.qty)}`}
+                                      />
+                                      <BoqCellHistory
+                                        label="Qty"
+                                        entries={getCellHistory(itemKey, "qty")}
+                                      />
+                                    </div>
                                   </td>
                                   <td className="border px-1 py-1">
-                                    <input
-                                      type="number"
-                                      value={supplyRate}
-                                      onChange={(e) =>
-                                        updateEditedField(
-                                          itemKey,
-                                          "supply_rate",
-                                          parseFloat(e.target.value) || 0,
-                                        )
-                                      }
-                                      disabled={isVersionSubmitted}
-                                      className="w-full border rounded px-0.5 py-0.5 text-xs text-right disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                      placeholder="0"
-                                    />
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="number"
+                                        value={supplyRate}
+                                        onChange={(e) =>
+                                          updateEditedField(
+                                            itemKey,
+                                            "supply_rate",
+                                            parseFloat(e.target.value) || 0,
+                                          )
+                                        }
+                                        disabled={isVersionLocked}
+                                        className={`w-full border rounded px-0.5 py-0.5 text-xs text-right disabled:bg-gray-100 disabled:cursor-not-allowed ${dirtyCellClass(itemKey, "supply_rate", step11Item.supply_rate)}`}
+                                        placeholder="0"
+                                      />
+                                      <BoqCellHistory
+                                        label="Supply rate"
+                                        entries={getCellHistory(itemKey, "supply_rate")}
+                                      />
+                                    </div>
                                   </td>
                                   <td className="border px-1 py-1">
-                                    <input
-                                      type="number"
-                                      value={installRate}
-                                      onChange={(e) =>
-                                        updateEditedField(
-                                          itemKey,
-                                          "install_rate",
-                                          parseFloat(e.target.value) || 0,
-                                        )
-                                      }
-                                      disabled={isVersionSubmitted}
-                                      className="w-full border rounded px-0.5 py-0.5 text-xs text-right disabled:bg-gray-100 disabled:cursor-not-allowed"
-                                      placeholder="0"
-                                    />
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                        type="number"
+                                        value={installRate}
+                                        onChange={(e) =>
+                                          updateEditedField(
+                                            itemKey,
+                                            "install_rate",
+                                            parseFloat(e.target.value) || 0,
+                                          )
+                                        }
+                                        disabled={isVersionLocked}
+                                        className={`w-full border rounded px-0.5 py-0.5 text-xs text-right disabled:bg-gray-100 disabled:cursor-not-allowed ${dirtyCellClass(itemKey, "install_rate", step11Item.install_rate)}`}
+                                        placeholder="0"
+                                      />
+                                      <BoqCellHistory
+                                        label="Install rate"
+                                        entries={getCellHistory(itemKey, "install_rate")}
+                                      />
+                                    </div>
                                   </td>
                                   <td className="border px-1 py-1 text-right font-medium text-xs">
                                     ₹{supplyAmount.toFixed(2)}
@@ -1398,11 +1464,35 @@ export default function CreateBoq() {
                                   <td className="border px-1 py-1 text-right font-medium text-xs">
                                     ₹{installAmount.toFixed(2)}
                                   </td>
+                                  <td
+                                    className="border px-1 py-1 text-center text-xs"
+                                    title={
+                                      taxInfo.supplierState
+                                        ? `Supplier state: ${taxInfo.supplierState}`
+                                        : undefined
+                                    }
+                                  >
+                                    {taxInfo.codeValue ? (
+                                      <>
+                                        <div>{taxInfo.codeValue}</div>
+                                        <div className="text-gray-500">
+                                          {taxInfo.rate !== null
+                                            ? `${taxInfo.rate}% ${taxInfo.supplyType === "inter" ? "IGST" : "C+SGST"}`
+                                            : "no rate"}
+                                        </div>
+                                      </>
+                                    ) : (
+                                      <span className="text-amber-700">—</span>
+                                    )}
+                                  </td>
+                                  <td className="border px-1 py-1 text-right font-medium text-xs">
+                                    ₹{lineTax.tax.toFixed(2)}
+                                  </td>
                                   <td className="border px-2 py-1 text-center">
                                     <Button
                                       variant="outline"
                                       size="xs"
-                                      disabled={isVersionSubmitted}
+                                      disabled={isVersionLocked}
                                       onClick={async () => {
                                         try {
                                           await apiFetch(
@@ -1497,6 +1587,10 @@ export default function CreateBoq() {
                               .reduce((sum, val) => sum + val, 0)
                               .toFixed(2)}
                           </td>
+                          <td className="border px-1 py-1"></td>
+                          <td className="border px-1 py-1 text-right">
+                            ₹{gstSummary.tax.toFixed(2)}
+                          </td>
                           <td></td>
                         </tr>
                       </tfoot>
@@ -1504,6 +1598,32 @@ export default function CreateBoq() {
                   </table>
                 </div>
               )}
+              {boqItems.length > 0 && selectedVersionId && (
+                <BoqPricingAdjustments
+                  versionId={selectedVersionId}
+                  adjustments={pricingAdjustments}
+                  savedAdjustments={savedPricingAdjustments}
+                  pricing={pricing}
+                  locked={isVersionLocked}
+                  onChange={setPricingAdjustments}
+                  onSaved={() => reloadVersions()}
+                />
+              )}
+              {boqItems.length > 0 && budgetStatus.budget !== null && (
+                <div className="mt-4 space-y-2">
+                  <h3 className="text-sm font-semibold">Budget vs Quoted</h3>
+                  <BoqBudgetVariance
+                    total={budgetStatus}
+                    trades={budgetStatus.trades}
+                  />
+                </div>
+              )}
+              {boqItems.length > 0 && (
+                <BoqGstSummary
+                  summary={gstSummary}
+                  projectState={boqTax?.projectState ?? null}
+                />
+              )}
             </CardContent>
           </Card>
         )}
@@ -1512,27 +1632,40 @@ export default function CreateBoq() {
         {selectedProjectId && selectedVersionId && (
           <Card>
             <CardContent className="space-y-3 pt-6">
-              {isVersionSubmitted ? (
+              {!canEditProject ? (
                 <div className="bg-yellow-50 border border-yellow-200 rounded p-4 text-sm text-yellow-800">
-                  <strong>This version is locked.</strong> Submit a new version
-                  to make edits.
+                  <strong>This project is read-only for you.</strong> You have{" "}
+                  {selectedProject?.access_role
+                    ? PROJECT_ROLE_LABELS[selectedProject.access_role]
+                    : "no"}{" "}
+                  access; ask the project owner for editor access to make
+                  changes.
+                </div>
+              ) : isVersionLocked ? (
+                <div className="bg-yellow-50 border border-yellow-200 rounded p-4 text-sm text-yellow-800">
+                  <strong>This version is read-only.</strong> Only draft
+                  versions can be edited; create a new version to make changes.
                 </div>
               ) : null}
+              {selectedVersion && (
+                <BoqVersionWorkflow
+                  versionId={selectedVersion.id}
+                  status={selectedVersion.status}
+                  disabledActions={
+                    boqItems.length === 0 || dirtyCellCount > 0 ? ["submit"] : []
+                  }
+                  projectRole={selectedProject?.access_role}
+                  onChanged={reloadVersions}
+                />
+              )}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                 <Button
                   onClick={handleSaveProject}
                   variant="outline"
-                  disabled={isVersionSubmitted}
+                  disabled={isVersionLocked}
                 >
                   Save Draft
                 </Button>
-                <Button
-                  onClick={handleSubmitVersion}
-                  variant="default"
-                  disabled={isVersionSubmitted || boqItems.length === 0}
-                >
-                  Submit & Lock Version
-                </Button>
                 <Button
                   onClick={handleDownloadExcel}
                   variant="outline"
@@ -4,14 +4,50 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import apiFetch from "@/lib/api";
+import BoqVersionDiff from "@/components/BoqVersionDiff";
+import { BoqStatusBadge } from "@/components/BoqVersionWorkflow";
+import BoqBudgetVariance, {
+  BudgetAlertBadge,
+} from "@/components/BoqBudgetVariance";
+import ProjectBudgetDialog from "@/components/ProjectBudgetDialog";
+import ProjectMembersDialog from "@/components/ProjectMembersDialog";
+import { readProjectBudget } from "@shared/boq-budget";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_SYSTEM_LABELS,
+  parseUnitSystem,
+  type UnitSystem,
+} from "@shared/units";
+import {
+  PROJECT_ROLE_LABELS,
+  projectRoleAllows,
+  type ProjectAccessRole,
+} from "@shared/boq-access";
+
+const money = (n: number) =>
+  n.toLocaleString("en-IN", { maximumFractionDigits: 2 });
+
+const UNIT_SYSTEMS = Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[];
+const UNIT_SYSTEM_NAMES: Record<UnitSystem, string> = {
+  imperial: "Imperial",
+  metric: "Metric",
+};
 
 export default function CreateProject() {
   const [name, setName] = useState("");
   const [client, setClient] = useState("");
   const [budget, setBudget] = useState("");
   const [location, setLocation] = useState("");
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
   const { toast } = useToast();
   const [projects, setProjects] = useState<any[]>([]);
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
@@ -20,20 +56,26 @@ export default function CreateProject() {
   );
   const [versionItems, setVersionItems] = useState<Record<string, any[]>>({});
   const [selectedVersions, setSelectedVersions] = useState<Set<string>>(new Set());
+  const [compareProjectId, setCompareProjectId] = useState<string | null>(null);
+  const [budgetProjectId, setBudgetProjectId] = useState<string | null>(null);
+  const [membersProjectId, setMembersProjectId] = useState<string | null>(
+    null,
+  );
 
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const res = await apiFetch("/api/boq-projects", { headers: {} });
-        if (res.ok) {
-          const data = await res.json();
-          setProjects(data.projects || []);
-        }
-      } catch (e) {
-        console.warn("Failed to load projects", e);
+  const loadProjects = async () => {
+    try {
+      const res = await apiFetch("/api/boq-projects", { headers: {} });
+      if (res.ok) {
+        const data = await res.json();
+        setProjects(data.projects || []);
       }
-    };
-    load();
+    } catch (e) {
+      console.warn("Failed to load projects", e);
+    }
+  };
+
+  useEffect(() => {
+    loadProjects();
   }, []);
 
   const addProject = async () => {
@@ -55,6 +97,7 @@ export default function CreateProject() {
           client: client.trim(),
           budget: budget.trim(),
           location: location.trim(),
+          unit_system: unitSystem,
         }),
       });
 
@@ -64,6 +107,7 @@ export default function CreateProject() {
         setClient("");
         setBudget("");
         setLocation("");
+        setUnitSystem(DEFAULT_UNIT_SYSTEM);
         setProjects((p) => [newProject, ...p]);
         toast({ title: "Success", description: "Project created" });
       } else {
@@ -88,43 +132,90 @@ export default function CreateProject() {
 
     // if expanding and versions not loaded, fetch versions
     if (!expanded[projectId] && !projectVersions[projectId]) {
-      try {
-        const res = await apiFetch(
-          `/api/boq-versions/${encodeURIComponent(projectId)}`,
-          { headers: {} },
-        );
-        if (res.ok) {
-          const data = await res.json();
-          setProjectVersions((pv) => ({
-            ...pv,
-            [projectId]: data.versions || [],
-          }));
+      await loadVersions(projectId);
+    }
+  };
+
+  const loadVersions = async (projectId: string) => {
+    try {
+      const res = await apiFetch(
+        `/api/boq-versions/${encodeURIComponent(projectId)}`,
+        { headers: {} },
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setProjectVersions((pv) => ({
+          ...pv,
+          [projectId]: data.versions || [],
+        }));
 
-          // preload items for all versions (both draft and submitted)
-          (data.versions || []).forEach(async (v: any) => {
-            try {
-              const r = await apiFetch(
-                `/api/boq-items/version/${encodeURIComponent(v.id)}`,
-                { headers: {} },
-              );
-              if (r.ok) {
-                const items = await r.json();
-                setVersionItems((vi) => ({
-                  ...vi,
-                  [v.id]: items.items || [],
-                }));
-              }
-            } catch (e) {
-              console.warn("Failed to load items for version", v.id, e);
+        // preload items for all versions (both draft and submitted)
+        (data.versions || []).forEach(async (v: any) => {
+          try {
+            const r = await apiFetch(
+              `/api/boq-items/version/${encodeURIComponent(v.id)}`,
+              { headers: {} },
+            );
+            if (r.ok) {
+              const items = await r.json();
+              setVersionItems((vi) => ({
+                ...vi,
+                [v.id]: items.items || [],
+              }));
             }
-          });
-        }
-      } catch (e) {
-        console.warn("Failed to load versions", e);
+          } catch (e) {
+            console.warn("Failed to load items for version", v.id, e);
+          }
+        });
       }
+    } catch (e) {
+      console.warn("Failed to load versions", e);
+    }
+  };
+
+  // Estimators opened from the project take and export quantities in these units
+  const changeUnitSystem = async (projectId: string, system: UnitSystem) => {
+    try {
+      const response = await apiFetch(
+        `/api/boq-projects/${encodeURIComponent(projectId)}/units`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ unit_system: system }),
+        },
+      );
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+      setProjects((prev) =>
+        prev.map((p) =>
+          p.id === projectId ? { ...p, unit_system: system } : p,
+        ),
+      );
+      toast({
+        title: "Units updated",
+        description: `Quantities will use ${UNIT_SYSTEM_LABELS[system]}`,
+      });
+    } catch (err) {
+      console.error("Failed to update units:", err);
+      toast({
+        title: "Error",
+        description: "Failed to update the unit system",
+        variant: "destructive",
+      });
     }
   };
 
+  // Budget changed: refresh list alerts and the per-version variance
+  const handleBudgetSaved = (projectId: string) => {
+    loadProjects();
+    if (projectVersions[projectId]) loadVersions(projectId);
+  };
+
+  // checked versions of one project, oldest first (base → compare)
+  const getSelectedForProject = (projectId: string) =>
+    (projectVersions[projectId] || [])
+      .filter((v: any) => selectedVersions.has(v.id))
+      .sort((a: any, b: any) => a.version_number - b.version_number);
+
   const deleteProject = async (projectId: string) => {
     if (!confirm("Are you sure you want to delete this project? This cannot be undone.")) {
       return;
@@ -220,7 +311,7 @@ export default function CreateProject() {
         <Card>
           <CardContent className="space-y-4 pt-6">
             <h2 className="text-lg font-semibold">Create New Project</h2>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               <div className="space-y-2">
                 <Label>Project Name</Label>
                 <Input
@@ -246,13 +337,33 @@ export default function CreateProject() {
                 />
               </div>
               <div className="space-y-2">
-                <Label>Budget</Label>
+                <Label>Budget (₹)</Label>
                 <Input
+                  type="number"
+                  min={0}
                   value={budget}
                   onChange={(e) => setBudget(e.target.value)}
                   placeholder="Budget"
                 />
               </div>
+              <div className="space-y-2">
+                <Label>Units</Label>
+                <Select
+                  value={unitSystem}
+                  onValueChange={(v) => setUnitSystem(parseUnitSystem(v))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNIT_SYSTEMS.map((u) => (
+                      <SelectItem key={u} value={u}>
+                        {UNIT_SYSTEM_LABELS[u]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <Button onClick={addProject}>Create Project</Button>
@@ -280,23 +391,91 @@ export default function CreateProject() {
                           {expanded[p.id] ? "▼" : "▶"}
                         </button>
                         <div>
-                          <div className="font-medium">{p.name}</div>
+                          <div className="font-medium">
+                            {p.name}
+                            {p.access_role && (
+                              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                {PROJECT_ROLE_LABELS[p.access_role as ProjectAccessRole]}
+                                {p.access_role !== "owner" &&
+                                  p.owner_username &&
+                                  ` • owner ${p.owner_username}`}
+                              </span>
+                            )}
+                          </div>
                           <div className="text-xs text-muted-foreground">
-                            {p.client || "—"} • {p.location || "—"} • {p.budget || "—"}
+                            {p.client || "—"} • {p.location || "—"} •{" "}
+                            {p.budget_amount != null
+                              ? `₹${money(Number(p.budget_amount))}`
+                              : "No budget"}
                           </div>
+                          {p.budget_summary?.overBudgetVersions?.length > 0 && (
+                            <div className="text-xs text-red-700">
+                              Over budget:{" "}
+                              {p.budget_summary.overBudgetVersions
+                                .map((n: number) => `V${n}`)
+                                .join(", ")}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
-                        <div className="text-xs text-muted-foreground">
-                          V{p.current_version || "—"}
-                        </div>
+                        {p.budget_summary?.latest && (
+                          <BudgetAlertBadge
+                            level={p.budget_summary.latest.level}
+                            usedPercent={p.budget_summary.latest.usedPercent}
+                          />
+                        )}
+                        {projectRoleAllows(p.access_role, "manage") ? (
+                          <Select
+                            value={parseUnitSystem(p.unit_system)}
+                            onValueChange={(v) =>
+                              changeUnitSystem(p.id, parseUnitSystem(v))
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-28 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {UNIT_SYSTEMS.map((u) => (
+                                <SelectItem key={u} value={u}>
+                                  {UNIT_SYSTEM_NAMES[u]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            {UNIT_SYSTEM_NAMES[parseUnitSystem(p.unit_system)]}
+                          </span>
+                        )}
                         <Button
-                          variant="destructive"
+                          variant="outline"
                           size="sm"
-                          onClick={() => deleteProject(p.id)}
+                          onClick={() => setMembersProjectId(p.id)}
                         >
-                          Delete
+                          Members
                         </Button>
+                        {projectRoleAllows(p.access_role, "manage") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setBudgetProjectId(p.id)}
+                          >
+                            Budget
+                          </Button>
+                        )}
+                        <div className="text-xs text-muted-foreground">
+                          V{p.current_version || "—"}
+                        </div>
+                        {projectRoleAllows(p.access_role, "manage") && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => deleteProject(p.id)}
+                          >
+                            Delete
+                          </Button>
+                        )}
                       </div>
                     </div>
 
@@ -309,6 +488,23 @@ export default function CreateProject() {
                             </div>
                           ) : (
                             <div className="space-y-4">
+                              {projectVersions[p.id].length > 1 && (
+                                <div className="flex items-center justify-end gap-2">
+                                  <span className="text-xs text-muted-foreground">
+                                    Select two versions to compare
+                                  </span>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={
+                                      getSelectedForProject(p.id).length !== 2
+                                    }
+                                    onClick={() => setCompareProjectId(p.id)}
+                                  >
+                                    Compare Selected
+                                  </Button>
+                                </div>
+                              )}
                               {projectVersions[p.id].map((v: any) => (
                                 <div key={v.id} className="border rounded p-3 bg-gray-50 flex items-start gap-3">
                                   <input
@@ -330,12 +526,25 @@ export default function CreateProject() {
                                       <div className="font-medium">
                                         V{v.version_number}
                                       </div>
-                                      <div
-                                        className={`text-xs px-2 py-0.5 rounded ${v.status === "submitted" ? "bg-green-100 text-green-800" : "bg-gray-100 text-muted-foreground"}`}
-                                      >
-                                        {v.status}
+                                      <div className="flex items-center gap-2">
+                                        {v.budget_status && (
+                                          <BudgetAlertBadge
+                                            level={v.budget_status.level}
+                                            usedPercent={v.budget_status.usedPercent}
+                                          />
+                                        )}
+                                        <BoqStatusBadge status={v.status} />
                                       </div>
                                     </div>
+                                    {v.budget_status &&
+                                      v.budget_status.budget !== null && (
+                                        <div className="mb-2">
+                                          <BoqBudgetVariance
+                                            total={v.budget_status}
+                                            trades={v.budget_status.trades}
+                                          />
+                                        </div>
+                                      )}
 
                                     {v.status === "submitted" ? (
                                       <div className="mb-2">
@@ -389,6 +598,50 @@ export default function CreateProject() {
           </CardContent>
         </Card>
       </div>
+
+      {budgetProjectId && (
+        <ProjectBudgetDialog
+          open={!!budgetProjectId}
+          onOpenChange={(open) => !open && setBudgetProjectId(null)}
+          projectId={budgetProjectId}
+          projectName={
+            projects.find((p) => p.id === budgetProjectId)?.name || ""
+          }
+          budget={(() => {
+            const project = projects.find((p) => p.id === budgetProjectId);
+            return readProjectBudget(
+              project?.budget_amount,
+              project?.budget_breakdown,
+            );
+          })()}
+          onSaved={() => handleBudgetSaved(budgetProjectId)}
+        />
+      )}
+
+      {membersProjectId && (
+        <ProjectMembersDialog
+          open={!!membersProjectId}
+          onOpenChange={(open) => !open && setMembersProjectId(null)}
+          projectId={membersProjectId}
+          projectName={
+            projects.find((p) => p.id === membersProjectId)?.name || ""
+          }
+          onAccessChanged={loadProjects}
+        />
+      )}
+
+      {compareProjectId && (
+        <BoqVersionDiff
+          open={!!compareProjectId}
+          onOpenChange={(open) => !open && setCompareProjectId(null)}
+          versions={projectVersions[compareProjectId] || []}
+          defaultBaseId={getSelectedForProject(compareProjectId)[0]?.id}
+          defaultTargetId={getSelectedForProject(compareProjectId)[1]?.id}
+          projectName={
+            projects.find((p) => p.id === compareProjectId)?.name || ""
+          }
+        />
+      )}
     </Layout>
   );
 }
@@ -12,6 +12,7 @@ import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import AdminDashboard from "@/pages/admin/AdminDashboard";
 import SupplierMaterials from "@/pages/supplier/SupplierMaterials";
+import BoqBudgetAlerts from "@/components/BoqBudgetAlerts";
 
 function ClientDashboard() {
   const { toast } = useToast();
@@ -68,6 +69,8 @@ function ClientDashboard() {
           <p className="text-muted-foreground mt-2">Select an estimator to calculate material requirements</p>
         </div>
 
+        <BoqBudgetAlerts />
+
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
           {estimators.map((est) => (
             <Link key={est.href} href={est.href}>
@@ -44,6 +44,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { postJSON, apiFetch } from "@/lib/api";
 import { Link, useLocation } from "wouter";
+import BoqBudgetAlerts from "@/components/BoqBudgetAlerts";
 
 /* 🔴 REQUIRED ASTERISK */
 const Required = () => <span className="text-red-500 ml-1">*</span>;
@@ -743,6 +744,7 @@ export default function AdminDashboard() {
       dimensions: mat.dimensions || "",
       finish: mat.finish || "",
       metalType: mat.metalType || "",
+      attributes: mat.attributes || {},
     });
     // stay on the dashboard and allow inline editing
   };
@@ -1176,6 +1178,8 @@ export default function AdminDashboard() {
           </p>
         </div>
 
+        {activeTab === "dashboard" && <BoqBudgetAlerts />}
+
         {/* Stats Overview (shown only on Dashboard tab) */}
         {activeTab === "dashboard" && (
           <div>
@@ -1355,6 +1359,10 @@ export default function AdminDashboard() {
                                   <Label>Model Number</Label>
                                   <Input value={newMaterial.modelNumber || ''} onChange={(e) => setNewMaterial({ ...newMaterial, modelNumber: e.target.value })} />
                                 </div>
+                                <div>
+                                  <Label>Coverage (sqft per {newMaterial.unit || 'unit'} per coat)</Label>
+                                  <Input type="number" min={0} value={newMaterial.attributes?.coverage ?? ''} onChange={(e) => setNewMaterial({ ...newMaterial, attributes: { ...(newMaterial.attributes || {}), coverage: parseFloat(e.target.value) || undefined } })} placeholder="Paints, primers and putty" />
+                                </div>
                               </div>
                               <div>
                                 <Label>Technical Specification</Label>
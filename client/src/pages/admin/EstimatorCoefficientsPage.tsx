@@ -0,0 +1,475 @@
+import { useEffect, useMemo, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+import {
+  COEFFICIENT_DEFINITIONS,
+  DEFAULT_COEFFICIENTS,
+  readCoefficientOverrides,
+  type CoefficientDefinition,
+  type CoefficientKey,
+  type Coefficients,
+} from "@shared/estimators/coefficients";
+
+type CoefficientVersion = {
+  version: number;
+  values: Coefficients;
+  note: string | null;
+  created_by_username: string | null;
+  created_at: string;
+};
+
+type ProjectOption = {
+  id: string;
+  name: string;
+  coefficient_overrides?: unknown;
+};
+
+/** Inputs keyed by coefficient; blank means "leave as is". */
+type ValueForm = Partial<Record<CoefficientKey, string>>;
+
+const GROUPS = Array.from(new Set(COEFFICIENT_DEFINITIONS.map((d) => d.group)));
+
+const coefficientLabel = (d: CoefficientDefinition) =>
+  d.unit ? `${d.label} (${d.unit})` : d.label;
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+/** Only the inputs that are filled in, as the API expects them. */
+const filledValues = (form: ValueForm) =>
+  Object.fromEntries(
+    Object.entries(form).filter(([, v]) => v !== undefined && v.trim() !== ""),
+  );
+
+export default function EstimatorCoefficientsPage() {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<CoefficientVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ValueForm>({});
+  const [note, setNote] = useState("");
+  const [publishing, setPublishing] = useState(false);
+  const [viewing, setViewing] = useState<number | null>(null);
+
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [projectForm, setProjectForm] = useState<ValueForm>({});
+  const [savingProject, setSavingProject] = useState(false);
+
+  const current = versions[0] || null;
+  const viewed = useMemo(
+    () => versions.find((v) => v.version === viewing) || null,
+    [versions, viewing],
+  );
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/api/estimator-coefficients", {
+        headers: {},
+      });
+      if (!response.ok) throw new Error("Failed to load coefficients");
+      const data = await response.json();
+      setVersions(data.versions || []);
+    } catch (error) {
+      console.error("Error loading estimator coefficients:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load estimator coefficients",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadProjects = async () => {
+    try {
+      const response = await apiFetch("/api/boq-projects", { headers: {} });
+      if (!response.ok) throw new Error("Failed to load projects");
+      const data = await response.json();
+      setProjects(data.projects || []);
+    } catch (error) {
+      console.error("Error loading projects:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+    loadProjects();
+  }, []);
+
+  const selectProject = (id: string) => {
+    setProjectId(id);
+    const project = projects.find((p) => p.id === id);
+    const overrides = readCoefficientOverrides(project?.coefficient_overrides);
+    setProjectForm(
+      Object.fromEntries(
+        Object.entries(overrides).map(([k, v]) => [k, String(v)]),
+      ),
+    );
+  };
+
+  const handlePublish = async () => {
+    const values = filledValues(form);
+    if (Object.keys(values).length === 0) {
+      toast({
+        title: "Nothing to publish",
+        description: "Enter a new value for at least one coefficient",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPublishing(true);
+    try {
+      const response = await apiFetch("/api/estimator-coefficients", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ values, note }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to publish coefficients");
+      }
+
+      toast({
+        title: "Published",
+        description: `Version ${data.version?.version} is now used for new estimates`,
+      });
+      setForm({});
+      setNote("");
+      loadVersions();
+    } catch (error: any) {
+      console.error("Error publishing coefficients:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to publish coefficients",
+        variant: "destructive",
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    if (!projectId) return;
+    setSavingProject(true);
+    try {
+      const response = await apiFetch(
+        `/api/boq-projects/${encodeURIComponent(projectId)}/coefficients`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ overrides: filledValues(projectForm) }),
+        },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save project overrides");
+      }
+
+      toast({ title: "Saved", description: "Project overrides updated" });
+      setProjects((prev) =>
+        prev.map((p) =>
+          p.id === projectId
+            ? { ...p, coefficient_overrides: data.overrides }
+            : p,
+        ),
+      );
+    } catch (error: any) {
+      console.error("Error saving project overrides:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to save project overrides",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingProject(false);
+    }
+  };
+
+  const valueInput = (
+    d: CoefficientDefinition,
+    values: ValueForm,
+    onChange: (next: ValueForm) => void,
+    placeholder: number,
+  ) => (
+    <Input
+      type="number"
+      min={d.min}
+      max={d.max}
+      step={d.integer ? 1 : "any"}
+      className="h-8 w-28 text-right"
+      value={values[d.key] ?? ""}
+      onChange={(e) => onChange({ ...values, [d.key]: e.target.value })}
+      placeholder={String(placeholder)}
+    />
+  );
+
+  const currentValue = (key: CoefficientKey) =>
+    current ? current.values[key] : DEFAULT_COEFFICIENTS[key];
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Estimator Coefficients</h1>
+          <p className="text-gray-600">
+            Consumption rates and wastage used by the estimators. Publishing
+            creates a new version for new estimates; cart lines keep the version
+            they were estimated with.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Publish a New Version
+              {current ? ` (current: v${current.version})` : ""}
+            </CardTitle>
+            <CardDescription>
+              Leave a value blank to carry it over from the current version.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="text-gray-500">Loading...</div>
+            ) : (
+              GROUPS.map((group) => (
+                <div key={group} className="space-y-2">
+                  <h3 className="font-semibold">{group}</h3>
+                  <div className="overflow-x-auto border rounded-lg">
+                    <table className="border-collapse text-sm min-w-full">
+                      <thead>
+                        <tr className="bg-gray-100">
+                          <th className="border px-3 py-2 text-left">
+                            Coefficient
+                          </th>
+                          <th className="border px-3 py-2 text-right">
+                            Built-in
+                          </th>
+                          <th className="border px-3 py-2 text-right">
+                            Current
+                          </th>
+                          <th className="border px-3 py-2 text-right">
+                            New value
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {COEFFICIENT_DEFINITIONS.filter(
+                          (d) => d.group === group,
+                        ).map((d) => (
+                          <tr key={d.key}>
+                            <td className="border px-3 py-2">
+                              {coefficientLabel(d)}
+                            </td>
+                            <td className="border px-3 py-2 text-right text-gray-500">
+                              {DEFAULT_COEFFICIENTS[d.key]}
+                            </td>
+                            <td className="border px-3 py-2 text-right">
+                              {currentValue(d.key)}
+                            </td>
+                            <td className="border px-3 py-1 text-right">
+                              {valueInput(
+                                d,
+                                form,
+                                setForm,
+                                currentValue(d.key),
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))
+            )}
+            <div className="flex flex-col md:flex-row gap-3 md:items-end">
+              <div className="space-y-1 flex-1">
+                <Label>Note</Label>
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Site survey, Oct 2026"
+                />
+              </div>
+              <Button onClick={handlePublish} disabled={publishing || loading}>
+                {publishing ? "Publishing..." : "Publish Version"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Project Overrides</CardTitle>
+            <CardDescription>
+              Values that apply only to one BOQ project, on top of the current
+              version. Clear a value to use the published one again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-w-sm space-y-1">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={selectProject}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {projectId && (
+              <>
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="border-collapse text-sm min-w-full">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="border px-3 py-2 text-left">
+                          Coefficient
+                        </th>
+                        <th className="border px-3 py-2 text-right">
+                          Published
+                        </th>
+                        <th className="border px-3 py-2 text-right">
+                          Project value
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {COEFFICIENT_DEFINITIONS.map((d) => (
+                        <tr key={d.key}>
+                          <td className="border px-3 py-2">
+                            {coefficientLabel(d)}
+                          </td>
+                          <td className="border px-3 py-2 text-right">
+                            {currentValue(d.key)}
+                          </td>
+                          <td className="border px-3 py-1 text-right">
+                            {valueInput(
+                              d,
+                              projectForm,
+                              setProjectForm,
+                              currentValue(d.key),
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <Button onClick={handleSaveProject} disabled={savingProject}>
+                  {savingProject ? "Saving..." : "Save Overrides"}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {versions.length === 0 ? (
+              <div className="text-gray-500">No versions published yet</div>
+            ) : (
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="border-collapse text-sm min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border px-3 py-2 text-left">Version</th>
+                      <th className="border px-3 py-2 text-left">Note</th>
+                      <th className="border px-3 py-2 text-left">By</th>
+                      <th className="border px-3 py-2 text-left">Published</th>
+                      <th className="border px-3 py-2 w-24"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {versions.map((v) => (
+                      <tr key={v.version}>
+                        <td className="border px-3 py-2">v{v.version}</td>
+                        <td className="border px-3 py-2">{v.note || "—"}</td>
+                        <td className="border px-3 py-2">
+                          {v.created_by_username || "—"}
+                        </td>
+                        <td className="border px-3 py-2">
+                          {formatDate(v.created_at)}
+                        </td>
+                        <td className="border px-3 py-2 text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              setViewing(
+                                viewing === v.version ? null : v.version,
+                              )
+                            }
+                          >
+                            {viewing === v.version ? "Hide" : "View"}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {viewed && (
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="border-collapse text-sm min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border px-3 py-2 text-left">
+                        Coefficient (v{viewed.version})
+                      </th>
+                      <th className="border px-3 py-2 text-right">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COEFFICIENT_DEFINITIONS.map((d) => (
+                      <tr key={d.key}>
+                        <td className="border px-3 py-2">
+                          {coefficientLabel(d)}
+                        </td>
+                        <td className="border px-3 py-2 text-right">
+                          {viewed.values[d.key]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
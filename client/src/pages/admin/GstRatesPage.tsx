@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import apiFetch from "@/lib/api";
+import type { GstRate, TaxCodeType } from "@shared/gst";
+
+type RateForm = {
+  code_type: TaxCodeType;
+  code_prefix: string;
+  rate: string;
+  description: string;
+};
+
+const EMPTY_FORM: RateForm = {
+  code_type: "hsn",
+  code_prefix: "",
+  rate: "",
+  description: "",
+};
+
+export default function GstRatesPage() {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<GstRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RateForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [filter, setFilter] = useState("");
+
+  const loadRates = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/api/gst-rates", { headers: {} });
+      if (!response.ok) throw new Error("Failed to load GST rates");
+      const data = await response.json();
+      setRates(data.rates || []);
+    } catch (error) {
+      console.error("Error loading GST rates:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load GST rates",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await apiFetch(
+        editingId === null ? "/api/gst-rates" : `/api/gst-rates/${editingId}`,
+        {
+          method: editingId === null ? "POST" : "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(form),
+        },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to save GST rate");
+      }
+
+      toast({
+        title: "Success",
+        description: editingId === null ? "GST rate added" : "GST rate updated",
+      });
+      resetForm();
+      loadRates();
+    } catch (error: any) {
+      console.error("Error saving GST rate:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to save GST rate",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (rate: GstRate) => {
+    setEditingId(rate.id ?? null);
+    setForm({
+      code_type: rate.code_type,
+      code_prefix: rate.code_prefix,
+      rate: String(rate.rate),
+      description: rate.description || "",
+    });
+  };
+
+  const handleDelete = async (rate: GstRate) => {
+    if (
+      !confirm(
+        `Delete the GST rate for ${rate.code_type.toUpperCase()} ${rate.code_prefix}?`,
+      )
+    ) {
+      return;
+    }
+    try {
+      const response = await apiFetch(`/api/gst-rates/${rate.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to delete GST rate");
+      toast({ title: "Deleted", description: "GST rate removed" });
+      if (editingId === rate.id) resetForm();
+      loadRates();
+    } catch (error) {
+      console.error("Error deleting GST rate:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete GST rate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const visibleRates = rates.filter((r) => {
+    const q = filter.trim().toLowerCase();
+    if (!q) return true;
+    return (
+      r.code_prefix.includes(q) ||
+      (r.description || "").toLowerCase().includes(q)
+    );
+  });
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">GST Rates</h1>
+          <p className="text-gray-600">
+            GST % applied to BOQ lines by HSN/SAC code. A prefix covers every
+            code that starts with it; the longest matching prefix wins.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {editingId === null ? "Add Rate" : "Edit Rate"}
+            </CardTitle>
+            <CardDescription>
+              Intra-state supplies are split into CGST and SGST; inter-state
+              supplies are charged IGST at the full rate.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+              <div className="space-y-1">
+                <Label>Code Type</Label>
+                <Select
+                  value={form.code_type}
+                  onValueChange={(v) =>
+                    setForm((f) => ({ ...f, code_type: v as TaxCodeType }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hsn">HSN (goods)</SelectItem>
+                    <SelectItem value="sac">SAC (services)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Code / Prefix</Label>
+                <Input
+                  value={form.code_prefix}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, code_prefix: e.target.value }))
+                  }
+                  placeholder="e.g. 7214"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>GST %</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={form.rate}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, rate: e.target.value }))
+                  }
+                  placeholder="18"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Description</Label>
+                <Input
+                  value={form.description}
+                  onChange={(e) =>
+                    setForm((f) => ({ ...f, description: e.target.value }))
+                  }
+                  placeholder="e.g. Steel bars and rods"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? "Saving..." : editingId === null ? "Add" : "Update"}
+                </Button>
+                {editingId !== null && (
+                  <Button variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rate Table</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Search by code or description"
+              className="max-w-sm"
+            />
+            {loading ? (
+              <div className="text-gray-500">Loading...</div>
+            ) : visibleRates.length === 0 ? (
+              <div className="text-gray-500">No GST rates defined yet</div>
+            ) : (
+              <div className="overflow-x-auto border rounded-lg">
+                <table className="border-collapse text-sm min-w-full">
+                  <thead>
+                    <tr className="bg-gray-100">
+                      <th className="border px-3 py-2 text-left">Type</th>
+                      <th className="border px-3 py-2 text-left">
+                        Code / Prefix
+                      </th>
+                      <th className="border px-3 py-2 text-right">GST %</th>
+                      <th className="border px-3 py-2 text-left">
+                        Description
+                      </th>
+                      <th className="border px-3 py-2 w-40"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRates.map((r) => (
+                      <tr key={r.id}>
+                        <td className="border px-3 py-2 uppercase">
+                          {r.code_type}
+                        </td>
+                        <td className="border px-3 py-2 font-mono">
+                          {r.code_prefix}
+                        </td>
+                        <td className="border px-3 py-2 text-right">
+                          {r.rate}%
+                        </td>
+                        <td className="border px-3 py-2">
+                          {r.description || "—"}
+                        </td>
+                        <td className="border px-3 py-2 text-right space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleEdit(r)}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDelete(r)}
+                          >
+                            Delete
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
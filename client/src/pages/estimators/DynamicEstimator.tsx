@@ -10,6 +10,7 @@ import {
 
 import { Layout } from "@/components/layout/Layout";
 import apiFetch from "@/lib/api";
+import { downloadEstimatorProjectPdf } from "@/lib/boq-download";
 import { useToast } from "@/hooks/use-toast";
 import { useData } from "@/lib/store";
 import { cn } from "@/lib/utils";
@@ -440,42 +441,16 @@ export default function DynamicEstimator() {
     }
   };
 
-  // ===== Export PDF (same behavior as DoorsEstimator) =====
-  const handleExportPDF = async (elementId: string, filename: string) => {
-    const element = document.getElementById(elementId);
-    if (!element) {
-      toast({
-        title: "Error",
-        description: "PDF content not found",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  // Final BOQ comes from the server-rendered project version
+  const handleExportFinalBOQ = async () => {
     try {
-      const html2pdf = (await import("html2pdf.js")).default;
-      html2pdf()
-        .set({
-          margin: [10, 10, 10, 10],
-          filename,
-          image: { type: "jpeg", quality: 0.98 },
-          html2canvas: {
-            scale: 2,
-            useCORS: true,
-            backgroundColor: "#ffffff",
-            ignoreElements: (el: HTMLElement) =>
-              el.className?.toString().includes("bg-") ||
-              el.className?.toString().includes("text-"),
-          },
-          jsPDF: { unit: "mm", format: "a4", orientation: "portrait" },
-        })
-        .from(element)
-        .save();
-    } catch (err) {
+      const filename = await downloadEstimatorProjectPdf();
+      toast({ title: "Success", description: `Downloaded ${filename}` });
+    } catch (err: any) {
       console.error("PDF Export Error:", err);
       toast({
         title: "Error",
-        description: "PDF export failed. Check console.",
+        description: err?.message || "Failed to download BOQ PDF",
         variant: "destructive",
       });
     }
@@ -1053,7 +1028,6 @@ export default function DynamicEstimator() {
               </div>
 
               <div
-                id="boq-pdf"
                 style={{
                   backgroundColor: "#ffffff",
                   color: "#000000",
@@ -1250,7 +1224,7 @@ export default function DynamicEstimator() {
                 </Button>
 
                 <button
-                  onClick={() => handleExportPDF("boq-pdf", `BOM-${finalBillNo}.pdf`)}
+                  onClick={handleExportFinalBOQ}
                   className="flex items-center gap-2 bg-blue-500 text-white font-semibold px-6 py-2 rounded-lg shadow hover:bg-blue-600 transition"
                 >
                   <Download className="w-5 h-5 rotate-12" />
@@ -1512,7 +1486,7 @@ export default function DynamicEstimator() {
                   </Button>
 
                   <Button
-                    onClick={() => handleExportPDF("boq-pdf", `BOQ-${finalBillNo}.pdf`)}
+                    onClick={handleExportFinalBOQ}
                     className="bg-blue-600 hover:bg-blue-700 px-8"
                   >
                     Export PDF <Download className="ml-2 h-4 w-4" />
@@ -1768,7 +1742,7 @@ export default function DynamicEstimator() {
                   <Button
                     onClick={async () => {
                       await handleSaveStep11();
-                      await handleExportPDF("boq-final-pdf", `BOQ-${finalBillNo}.pdf`);
+                      await handleExportFinalBOQ();
                     }}
                     disabled={loadingStep11 || selectedMaterialObjects.length === 0}
                     className="bg-blue-600 hover:bg-blue-700 px-8"
@@ -0,0 +1,141 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  BLIND_TYPES,
+  BLIND_TYPE_RULES,
+  computeBlindsRequired,
+  type BlindControl,
+  type BlindMount,
+  type BlindType,
+  type BlindWindow,
+} from "@shared/estimators/computeBlindsRequired";
+
+const toWindow = (w: FieldValues): BlindWindow => ({
+  name: str(w.name),
+  widthFt: num(w.widthFt),
+  heightFt: num(w.heightFt),
+  mount: w.mount as BlindMount,
+  type: w.type as BlindType,
+  control: w.control as BlindControl,
+  quantity: num(w.quantity),
+});
+
+export const blindsEstimator: EstimatorDefinition = {
+  slug: "blinds",
+  estimator: "blinds",
+  sessionPrefix: "BLD",
+  title: "Blinds Estimator",
+  description:
+    "Fabric, tracks, brackets, controls and motorisation window by window",
+  boqTitle: "Blinds",
+  inputsTitle: "Windows",
+  inputsHelp:
+    "Enter the opening size. Outside-mount blinds overlap the opening; inside-mount blinds are made to fit the recess.",
+  sections: [
+    {
+      type: "rows",
+      key: "windows",
+      addLabel: "Add Window",
+      newRow: (n) => ({ name: `Window ${n}` }),
+      fields: [
+        { key: "name", label: "Window", kind: "text", default: "Window" },
+        {
+          key: "widthFt",
+          label: "W",
+          unit: "ft",
+          kind: "number",
+          default: 4,
+          min: 0,
+        },
+        {
+          key: "heightFt",
+          label: "H",
+          unit: "ft",
+          kind: "number",
+          default: 5,
+          min: 0,
+        },
+        {
+          key: "mount",
+          label: "Mount",
+          kind: "select",
+          default: "inside",
+          options: [
+            { value: "inside", label: "Inside" },
+            { value: "outside", label: "Outside" },
+          ],
+        },
+        {
+          key: "type",
+          label: "Blind",
+          kind: "select",
+          default: "roller",
+          options: BLIND_TYPES.map((t) => ({
+            value: t,
+            label: BLIND_TYPE_RULES[t].label,
+          })),
+        },
+        {
+          key: "control",
+          label: "Control",
+          kind: "select",
+          default: "manual",
+          options: [
+            { value: "manual", label: "Manual" },
+            { value: "motorised", label: "Motorised" },
+          ],
+        },
+        {
+          key: "quantity",
+          label: "Nos",
+          kind: "number",
+          default: 1,
+          min: 1,
+          integer: true,
+          required: true,
+        },
+      ],
+    },
+  ],
+  estimate: {
+    type: "blinds",
+    input: ({ rows }) => ({ windows: rows.windows.map(toWindow) }),
+  },
+  emptyMessage: "Enter at least one window size.",
+  location: ({ rows }) => rows.windows.map((w) => str(w.name)).join(", "),
+  compute: ({ rows }) => {
+    const result = computeBlindsRequired(rows.windows.map(toWindow));
+    if (!result) return null;
+
+    return {
+      tables: [
+        {
+          title: "Blinds",
+          columns: [
+            { label: "Window" },
+            { label: "Type" },
+            { label: "Blind W × Drop (ft)", align: "right" },
+            { label: "Blinds", align: "right" },
+            { label: "Area (sqft)", align: "right" },
+          ],
+          rows: result.windows.map((w) => [
+            w.name,
+            BLIND_TYPE_RULES[w.type].label,
+            `${w.blindWidthFt} × ${w.dropFt}`,
+            w.blinds,
+            w.areaSqft,
+          ]),
+        },
+      ],
+      notes: result.fabric.map(
+        (f) =>
+          `${BLIND_TYPE_RULES[f.type].label} fabric: ${f.runFt} ft off a ${f.rollWidthFt} ft roll (${f.fabricSqft} sqft)${f.railroaded > 0 ? `, ${f.railroaded} piece(s) turned to fit the roll` : ""}.`,
+      ),
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
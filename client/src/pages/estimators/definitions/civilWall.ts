@@ -0,0 +1,277 @@
+import { subOptionsMap, wallOptions, type WallType } from "@/lib/constants";
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type EstimatorField,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  OPENING_TYPE_LABELS,
+  type OpeningType,
+  type WallOpening,
+} from "@shared/estimators/openings";
+import { DEFAULT_COEFFICIENTS } from "@shared/estimators/coefficients";
+import {
+  DEFAULT_JOINT_MM,
+  DEFAULT_MORTAR_RATIO,
+  computeWallSchedule,
+  type ScheduledWall,
+} from "@shared/estimators/computeRequired";
+
+const MORTAR_RATIOS = [3, 4, 5, 6, 8];
+
+const isCivil = (row: FieldValues) => row.wallType === "civil";
+const isGlass = (row: FieldValues) =>
+  row.wallType === "gypsum-glass" || row.wallType === "plywood-glass";
+
+const dimension = (
+  key: string,
+  label: string,
+  value: number,
+): EstimatorField => ({
+  key,
+  label,
+  unit: "ft",
+  kind: "number",
+  default: value,
+  min: 0,
+});
+
+const wallLabel = (wallType: WallType) =>
+  wallOptions.find((o) => o.value === wallType)?.label || wallType;
+
+const toOpening = (row: FieldValues): WallOpening => ({
+  type: row.type as OpeningType,
+  width: num(row.width),
+  height: num(row.height),
+  count: num(row.count),
+});
+
+const toWall = (
+  row: FieldValues,
+  openings: FieldValues[],
+  values: FieldValues,
+): ScheduledWall => ({
+  tag: str(row.tag),
+  room: str(row.room),
+  wallType: row.wallType as WallType,
+  subOption: str(row.subOption),
+  length: num(row.length),
+  height: num(row.height),
+  glassHeight: num(row.glassHeight),
+  plasterFaces: num(row.plasterFaces),
+  openings: openings.filter((o) => str(o.wall) === str(row.tag)).map(toOpening),
+  mortarRatio: num(values.mortarRatio),
+  jointThicknessMm: num(values.jointMm),
+  wastagePercent: num(values.wastagePercent),
+});
+
+export const civilWallEstimator: EstimatorDefinition = {
+  slug: "civil-wall",
+  estimator: "civilwall",
+  sessionPrefix: "CW",
+  title: "Civil Wall Estimator",
+  description:
+    "Wall schedule of brickwork and framed partitions, with openings, plaster and wastage",
+  boqTitle: "Civil Wall Work",
+  inputsTitle: "Wall Schedule",
+  inputsHelp:
+    "One row per wall; openings are listed against the wall's tag. Openings over 0.1 m² come out of the brickwork or boards, with a lintel over those wider than 1.5 ft. Plaster loses openings over 0.5 m² and gets the reveals of those over 3 m² back.",
+  sections: [
+    {
+      type: "rows",
+      key: "walls",
+      addLabel: "Add Wall",
+      newRow: (n) => ({ tag: `W${n}` }),
+      fields: [
+        { key: "tag", label: "Tag", kind: "text", default: "W1" },
+        { key: "room", label: "Room", kind: "text", default: "" },
+        {
+          key: "wallType",
+          label: "Wall type",
+          kind: "select",
+          default: "civil",
+          options: wallOptions,
+        },
+        {
+          key: "subOption",
+          label: "Thickness / option",
+          kind: "select",
+          default: subOptionsMap.civil[0],
+          options: (row) =>
+            (subOptionsMap[row.wallType as WallType] || []).map((o) => ({
+              value: o,
+              label: o,
+            })),
+        },
+        dimension("length", "Length", 10),
+        dimension("height", "Height", 10),
+        {
+          ...dimension("glassHeight", "Glass band", 4),
+          showWhen: isGlass,
+        },
+        {
+          key: "plasterFaces",
+          label: "Plaster",
+          kind: "select",
+          default: "0",
+          options: [
+            { value: "0", label: "None" },
+            { value: "1", label: "One face" },
+            { value: "2", label: "Both faces" },
+          ],
+          showWhen: isCivil,
+        },
+      ],
+    },
+    {
+      type: "rows",
+      key: "openings",
+      title: "Openings",
+      addLabel: "Add Opening",
+      minRows: 0,
+      fields: [
+        { key: "wall", label: "Wall tag", kind: "text", default: "W1" },
+        {
+          key: "type",
+          label: "Type",
+          kind: "select",
+          default: "door",
+          options: (Object.keys(OPENING_TYPE_LABELS) as OpeningType[]).map(
+            (t) => ({ value: t, label: OPENING_TYPE_LABELS[t] }),
+          ),
+        },
+        dimension("width", "Width", 3),
+        dimension("height", "Height", 7),
+        {
+          key: "count",
+          label: "Nos",
+          kind: "number",
+          default: 1,
+          min: 0,
+          integer: true,
+        },
+      ],
+    },
+    {
+      type: "fields",
+      title: "Brickwork",
+      fields: [
+        {
+          key: "mortarRatio",
+          label: "Mortar (cement : sand)",
+          kind: "select",
+          default: String(DEFAULT_MORTAR_RATIO),
+          options: MORTAR_RATIOS.map((r) => ({
+            value: String(r),
+            label: `1 : ${r}`,
+          })),
+        },
+        {
+          key: "jointMm",
+          label: "Joint thickness",
+          unit: "mm",
+          kind: "number",
+          default: DEFAULT_JOINT_MM,
+          min: 0,
+          max: 25,
+        },
+      ],
+    },
+  ],
+  defaultWastagePercent: DEFAULT_COEFFICIENTS.wallWastagePercent,
+  wastageCoefficient: "wallWastagePercent",
+  estimate: {
+    type: "wall",
+    input: ({ values, rows }) => ({
+      walls: rows.walls.map((w) => {
+        const { mortarRatio, jointThicknessMm, wastagePercent, ...wall } =
+          toWall(w, rows.openings, values);
+        return wall;
+      }),
+      mortarRatio: num(values.mortarRatio),
+      jointMm: num(values.jointMm),
+      wastagePercent: num(values.wastagePercent),
+    }),
+  },
+  emptyMessage: "Enter at least one wall with a length and height.",
+  location: ({ rows }) =>
+    Array.from(new Set(rows.walls.map((w) => str(w.room) || str(w.tag)))).join(
+      ", ",
+    ),
+  compute: ({ values, rows }, coefficients) => {
+    const result = computeWallSchedule(
+      rows.walls.map((w) => toWall(w, rows.openings, values)),
+      coefficients,
+    );
+    if (!result) return null;
+
+    const tags = new Set(rows.walls.map((w) => str(w.tag)));
+    const stray = Array.from(
+      new Set(rows.openings.map((o) => str(o.wall))),
+    ).filter((t) => !tags.has(t));
+
+    const walls = result.walls.length;
+    const notes = [
+      `${walls} wall${walls > 1 ? "s" : ""}: ${result.grossArea} sqft gross, ${result.deductedArea} sqft openings, ${result.area} sqft net; ${num(values.wastagePercent)}% wastage.`,
+    ];
+    if (result.walls.some((w) => w.wallType === "civil")) {
+      const mortar = result.walls.reduce(
+        (sum, w) => sum + (w.result.mortarCft || 0),
+        0,
+      );
+      notes.push(
+        `${Math.round(mortar * 100) / 100} cft wet mortar in CM 1:${num(values.mortarRatio)}.`,
+      );
+    }
+    if (stray.length > 0) {
+      notes.push(`Openings on unknown walls are ignored: ${stray.join(", ")}.`);
+    }
+
+    return {
+      tables: [
+        {
+          title: "Walls",
+          columns: [
+            { label: "Tag" },
+            { label: "Room" },
+            { label: "Type" },
+            { label: "Size (ft)" },
+            { label: "Gross (sqft)", align: "right" },
+            { label: "Openings (sqft)", align: "right" },
+            { label: "Net (sqft)", align: "right" },
+          ],
+          rows: result.walls.map((w) => [
+            w.tag,
+            w.room || "—",
+            `${wallLabel(w.wallType)}${w.subOption ? ` – ${w.subOption}` : ""}`,
+            `${w.length} × ${w.height}`,
+            w.result.grossArea,
+            w.result.deductedArea,
+            w.result.area,
+          ]),
+        },
+        {
+          title: "Rooms",
+          columns: [
+            { label: "Room" },
+            { label: "Walls", align: "right" },
+            { label: "Gross (sqft)", align: "right" },
+            { label: "Openings (sqft)", align: "right" },
+            { label: "Net (sqft)", align: "right" },
+          ],
+          rows: result.rooms.map((r) => [
+            r.room,
+            r.walls,
+            r.grossArea,
+            r.deductedArea,
+            r.area,
+          ]),
+        },
+      ],
+      notes,
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
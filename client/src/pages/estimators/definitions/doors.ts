@@ -0,0 +1,417 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type FieldValues,
+  type QuantityLine,
+} from "@/lib/estimators/definition";
+import { doorFrameLengthLegacyFeet } from "@/lib/estimators/utils";
+
+// Doors are simple enough to declare outright: per-door formulas below and
+// the BOQ item each quantity key maps to.
+
+const DOOR_TYPES = [
+  { value: "flush", label: "Flush Doors" },
+  { value: "wpc", label: "WPC Doors" },
+  { value: "glassdoor", label: "Glass Door" },
+  { value: "teak", label: "Wooden Door" },
+  { value: "stile", label: "Stile Door" },
+];
+
+const DOOR_SUB_OPTIONS: Record<string, string[]> = {
+  flush: ["Without Vision Panel", "With Vision Panel"],
+  wpc: ["Solid Core", "Hollow Core"],
+  glassdoor: ["Frameless", "Framed"],
+  teak: ["Engineered Wood", "Solid Wood"],
+  stile: ["Single Glazing", "Double Glazing"],
+};
+
+const STANDARD_DOOR_SIZES = [
+  { value: "6.5x2.5", label: "6'6\" x 2'6\"", width: 2.5, height: 6.5 },
+  { value: "7x3", label: "7' x 3'", width: 3, height: 7 },
+  { value: "7x3.5", label: "7' x 3'6\"", width: 3.5, height: 7 },
+  { value: "8x4", label: "8' x 4' (Double)", width: 4, height: 8 },
+  { value: "custom", label: "Custom", width: 0, height: 0 },
+];
+
+/** Vision panel glass per flush door. */
+const VISION_PANEL_SQFT = 1;
+/** Share of a stile door's leaf that is glazed; the rest is stile frame. */
+const STILE_GLASS_SHARE = 0.6;
+const FRAME_SCREWS_PER_RFT = 2;
+const FRAME_ANCHORS_PER_RFT = 1.5;
+const SCREWS_PER_HINGE = 6;
+
+const isGlazed = (doorType: string) =>
+  doorType === "glassdoor" || doorType === "stile";
+
+const isCustom = (row: FieldValues) => row.size === "custom";
+
+/** Three hinges, one more above 7 ft and another above 8 ft. */
+const hingesFor = (height: number) => (height > 8 ? 5 : height > 7 ? 4 : 3);
+
+function doorSize(row: FieldValues) {
+  const preset = STANDARD_DOOR_SIZES.find((s) => s.value === row.size);
+  return preset && !isCustom(row)
+    ? { width: preset.width, height: preset.height }
+    : { width: num(row.width), height: num(row.height) };
+}
+
+/** Quantities for one line of identical doors. */
+function doorQuantities(
+  row: FieldValues,
+  wastage: number,
+): Record<string, number> {
+  const { width, height } = doorSize(row);
+  const count = num(row.quantity);
+  const doorType = str(row.doorType);
+  const option = str(row.option);
+  const area = width * height;
+  const hinges = hingesFor(height);
+  const q: Record<string, number> = {};
+  const add = (key: string, n: number) => (q[key] = (q[key] || 0) + n * count);
+
+  if (row.frame === true) {
+    const frameRft = doorFrameLengthLegacyFeet(height, width) * wastage;
+    add("frame", frameRft);
+    add("frame-screws", frameRft * FRAME_SCREWS_PER_RFT);
+    add("frame-anchors", frameRft * FRAME_ANCHORS_PER_RFT);
+  }
+
+  switch (doorType) {
+    case "flush":
+      if (option === "With Vision Panel") {
+        add("flush-shutter-vp", 1);
+        add("vision-glass", VISION_PANEL_SQFT * wastage);
+      } else {
+        add("flush-shutter", 1);
+      }
+      add("hinges-ss", hinges);
+      break;
+    case "wpc":
+      add(option === "Hollow Core" ? "wpc-hollow" : "wpc-solid", 1);
+      add("hinges-ss", hinges);
+      break;
+    case "teak":
+      add(option === "Solid Wood" ? "teak-shutter" : "sal-shutter", 1);
+      add("hinges-brass", hinges);
+      break;
+    case "glassdoor":
+      add(option === "Frameless" ? "glass-12" : "glass-10", area * wastage);
+      add("patch-fitting", 1);
+      add("floor-spring", 1);
+      if (option === "Framed") {
+        add("header-rail", 1);
+        add("side-rail", 2);
+      }
+      break;
+    case "stile":
+      add(
+        option === "Double Glazing" ? "glass-dgu" : "glass-10",
+        area * STILE_GLASS_SHARE * wastage,
+      );
+      add("stile-frame", area * (1 - STILE_GLASS_SHARE));
+      add("patch-fitting", 1);
+      add("floor-spring", 1);
+      break;
+  }
+
+  if (isGlazed(doorType)) {
+    add("glass-lock", 1);
+    add("glass-handle", 1);
+  } else {
+    add("mortise-lock", 1);
+    add("door-handle", 1);
+    add("door-screws", hinges * SCREWS_PER_HINGE);
+  }
+  add("stopper", 1);
+  return q;
+}
+
+export const doorsEstimator: EstimatorDefinition = {
+  slug: "doors",
+  estimator: "doors",
+  sessionPrefix: "DOOR",
+  title: "Doors Estimator",
+  description: "Shutters, frames, glazing and hardware door by door",
+  boqTitle: "Doors",
+  inputsTitle: "Doors",
+  inputsHelp:
+    "Pick a standard size or enter a custom one. Frames are 2 × height + width; glass doors take patch fittings and a floor spring instead of hinges.",
+  sections: [
+    {
+      type: "rows",
+      key: "doors",
+      addLabel: "Add Door",
+      newRow: (n) => ({ name: `Door ${n}` }),
+      fields: [
+        { key: "name", label: "Door", kind: "text", default: "Door" },
+        {
+          key: "doorType",
+          label: "Type",
+          kind: "select",
+          default: "flush",
+          options: DOOR_TYPES,
+        },
+        {
+          key: "option",
+          label: "Option",
+          kind: "select",
+          default: DOOR_SUB_OPTIONS.flush[0],
+          options: (row) =>
+            (DOOR_SUB_OPTIONS[str(row.doorType)] || []).map((o) => ({
+              value: o,
+              label: o,
+            })),
+        },
+        {
+          key: "size",
+          label: "Size",
+          kind: "select",
+          default: "7x3",
+          options: STANDARD_DOOR_SIZES,
+        },
+        {
+          key: "width",
+          label: "W",
+          unit: "ft",
+          kind: "number",
+          default: 3,
+          min: 0,
+          showWhen: isCustom,
+        },
+        {
+          key: "height",
+          label: "H",
+          unit: "ft",
+          kind: "number",
+          default: 7,
+          min: 0,
+          max: 12,
+          showWhen: isCustom,
+        },
+        { key: "frame", label: "Frame", kind: "checkbox", default: true },
+        {
+          key: "quantity",
+          label: "Nos",
+          kind: "number",
+          default: 1,
+          min: 1,
+          integer: true,
+          required: true,
+        },
+      ],
+    },
+  ],
+  defaultWastagePercent: 5,
+  materials: {
+    frame: {
+      item: "Door Frame - Wooden",
+      unit: "rft",
+      category: "Frame",
+      keywords: ["DOOR", "FRAME"],
+    },
+    "frame-screws": {
+      item: "Frame Screws",
+      unit: "pcs",
+      category: "Frame",
+      keywords: ["SCREW"],
+    },
+    "frame-anchors": {
+      item: "Wall Plugs / Anchors",
+      unit: "pcs",
+      category: "Frame",
+      keywords: ["ANCHOR"],
+    },
+    "flush-shutter": {
+      item: "Flush Door - BWR",
+      unit: "nos",
+      category: "Door Panel",
+      keywords: ["FLUSH", "DOOR"],
+    },
+    "flush-shutter-vp": {
+      item: "Flush Door - BWR (With VP)",
+      unit: "nos",
+      category: "Door Panel",
+      keywords: ["FLUSH", "DOOR"],
+    },
+    "vision-glass": {
+      item: "Vision Panel Glass",
+      unit: "sqft",
+      category: "Door Panel",
+      keywords: ["GLASS"],
+    },
+    "wpc-solid": {
+      item: "WPC Door - Solid",
+      unit: "nos",
+      category: "Door Panel",
+      keywords: ["WPC", "DOOR"],
+    },
+    "wpc-hollow": {
+      item: "WPC Door - Hollow",
+      unit: "nos",
+      category: "Door Panel",
+      keywords: ["WPC", "DOOR"],
+    },
+    "teak-shutter": {
+      item: "Wooden Door - Teak",
+      unit: "nos",
+      category: "Door Panel",
+      keywords: ["TEAK", "DOOR"],
+    },
+    "sal-shutter": {
+      item: "Wooden Door - Sal",
+      unit: "nos",
+      category: "Door Panel",
+      keywords: ["SAL", "DOOR"],
+    },
+    "glass-10": {
+      item: "Glass - Toughened 10mm",
+      unit: "sqft",
+      category: "Door Panel",
+      keywords: ["TOUGHENED", "GLASS"],
+    },
+    "glass-12": {
+      item: "Glass - Toughened 12mm",
+      unit: "sqft",
+      category: "Door Panel",
+      keywords: ["TOUGHENED", "GLASS"],
+    },
+    "glass-dgu": {
+      item: "Glass - Toughened 12mm (DGU)",
+      unit: "sqft",
+      category: "Door Panel",
+      keywords: ["GLASS", "DGU"],
+    },
+    "stile-frame": {
+      item: "Aluminium Stile Frame",
+      unit: "sqft",
+      category: "Door Panel",
+      keywords: ["ALUMINIUM", "STILE"],
+    },
+    "hinges-ss": {
+      item: "Hinges - SS",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["HINGE"],
+    },
+    "hinges-brass": {
+      item: "Hinges - Brass",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["BRASS", "HINGE"],
+    },
+    "patch-fitting": {
+      item: "Patch Fitting - Standard",
+      unit: "set",
+      category: "Hardware",
+      keywords: ["PATCH"],
+    },
+    "floor-spring": {
+      item: "Floor Spring - Standard",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["FLOOR SPRING"],
+    },
+    "header-rail": {
+      item: "Header Rail",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["HEADER", "RAIL"],
+    },
+    "side-rail": {
+      item: "Side Rail",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["SIDE", "RAIL"],
+    },
+    "mortise-lock": {
+      item: "Mortise Lock - Standard",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["MORTISE", "LOCK"],
+    },
+    "door-handle": {
+      item: "Door Handle - Standard",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["DOOR", "HANDLE"],
+    },
+    "glass-lock": {
+      item: "Glass Door Lock",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["GLASS", "LOCK"],
+    },
+    "glass-handle": {
+      item: "Glass Door Handle - Standard",
+      unit: "pair",
+      category: "Hardware",
+      keywords: ["GLASS", "HANDLE"],
+    },
+    stopper: {
+      item: "Door Stopper - Floor Mount",
+      unit: "nos",
+      category: "Hardware",
+      keywords: ["STOPPER"],
+    },
+    "door-screws": {
+      item: "Door Screws",
+      unit: "pcs",
+      category: "Hardware",
+      keywords: ["SCREW"],
+    },
+  },
+  emptyMessage: "Enter at least one door with a size and count.",
+  location: ({ rows }) => rows.doors.map((d) => str(d.name)).join(", "),
+  compute: ({ values, rows }) => {
+    const doors = rows.doors.filter((d) => {
+      const { width, height } = doorSize(d);
+      return width > 0 && height > 0 && num(d.quantity) > 0;
+    });
+    if (doors.length === 0) return null;
+
+    const wastage = 1 + num(values.wastagePercent) / 100;
+    const totals: Record<string, number> = {};
+    for (const d of doors) {
+      const q = doorQuantities(d, wastage);
+      for (const key of Object.keys(q))
+        totals[key] = (totals[key] || 0) + q[key];
+    }
+    const quantities: QuantityLine[] = Object.keys(totals).map((key) => ({
+      key,
+      quantity: Math.ceil(totals[key]),
+    }));
+
+    return {
+      tables: [
+        {
+          title: "Doors",
+          columns: [
+            { label: "Door" },
+            { label: "Type" },
+            { label: "W × H (ft)", align: "right" },
+            { label: "Nos", align: "right" },
+            { label: "Frame (rft)", align: "right" },
+            { label: "Hinges", align: "right" },
+          ],
+          rows: doors.map((d) => {
+            const { width, height } = doorSize(d);
+            const doorType = str(d.doorType);
+            return [
+              str(d.name),
+              `${DOOR_TYPES.find((t) => t.value === doorType)?.label || doorType} – ${str(d.option)}`,
+              `${width} × ${height}`,
+              num(d.quantity),
+              d.frame === true
+                ? doorFrameLengthLegacyFeet(height, width) * num(d.quantity)
+                : "—",
+              isGlazed(doorType) ? "—" : hingesFor(height) * num(d.quantity),
+            ];
+          }),
+        },
+      ],
+      quantities,
+    };
+  },
+};
@@ -0,0 +1,129 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type EstimatorField,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  CIRCUIT_RULES,
+  ELECTRICAL_POINT_LABELS,
+  ELECTRICAL_POINT_TYPES,
+  computeElectricalRequired,
+  emptyElectricalPoints,
+  type ElectricalRoom,
+} from "@shared/estimators/computeElectricalRequired";
+
+const dimension = (
+  key: string,
+  label: string,
+  value: number,
+): EstimatorField => ({
+  key,
+  label,
+  unit: "ft",
+  kind: "number",
+  default: value,
+  min: 0,
+});
+
+const toRoom = (row: FieldValues): ElectricalRoom => {
+  const points = emptyElectricalPoints();
+  for (const t of ELECTRICAL_POINT_TYPES) points[t] = num(row[t]);
+  return {
+    name: str(row.name),
+    length: num(row.length),
+    width: num(row.width),
+    height: num(row.height),
+    distanceFromDb: num(row.distanceFromDb),
+    points,
+  };
+};
+
+export const electricalEstimator: EstimatorDefinition = {
+  slug: "electrical",
+  estimator: "electrical",
+  sessionPrefix: "ELEC",
+  title: "Electrical Estimator",
+  description:
+    "Point wiring, circuits and DB sizing from room sizes and point counts",
+  boqTitle: "Electrical Work",
+  inputsTitle: "Rooms and Points",
+  inputsHelp:
+    "Room size sets the wiring run to each point; the distance from the distribution board sets the home run.",
+  sections: [
+    {
+      type: "rows",
+      key: "rooms",
+      addLabel: "Add Room",
+      newRow: (n) => ({ name: `Room ${n}` }),
+      fields: [
+        { key: "name", label: "Room", kind: "text", default: "Room" },
+        dimension("length", "L", 12),
+        dimension("width", "W", 10),
+        dimension("height", "H", 10),
+        dimension("distanceFromDb", "From DB", 20),
+        ...ELECTRICAL_POINT_TYPES.map((t): EstimatorField => ({
+          key: t,
+          label: ELECTRICAL_POINT_LABELS[t],
+          kind: "number",
+          default: 0,
+          min: 0,
+          integer: true,
+        })),
+      ],
+    },
+  ],
+  estimate: {
+    type: "electrical",
+    input: ({ rows }) => ({ rooms: rows.rooms.map(toRoom) }),
+  },
+  emptyMessage: "Enter room sizes and at least one point.",
+  location: ({ rows }) => rows.rooms.map((r) => str(r.name)).join(", "),
+  compute: ({ rows }, coefficients) => {
+    const result = computeElectricalRequired(
+      rows.rooms.map(toRoom),
+      coefficients,
+    );
+    if (!result) return null;
+    const { db } = result;
+    const threePhase = db.phase === "three";
+
+    return {
+      tables: [
+        {
+          title: "Circuits",
+          columns: [
+            { label: "Circuit", align: "center" },
+            { label: "Type" },
+            { label: "Rooms" },
+            { label: "Points", align: "right" },
+            { label: "Load (W)", align: "right" },
+            { label: "Route (ft)", align: "right" },
+            { label: "Wiring" },
+            { label: "MCB", align: "center" },
+          ],
+          rows: result.circuits.map((c) => {
+            const rule = CIRCUIT_RULES[c.kind];
+            return [
+              c.id,
+              rule.label,
+              c.rooms.join(", "),
+              c.points,
+              c.loadW,
+              c.routeFt,
+              rule.wireSize === null
+                ? `CAT6 ${c.routeFt} ft`
+                : `2 × ${rule.wireSize} + ${rule.earthSize} E sq mm, ${Math.round(c.routeFt * 3)} ft`,
+              rule.mcbA ? `${rule.mcbA}A` : "—",
+            ];
+          }),
+        },
+      ],
+      notes: [
+        `Connected load ${db.connectedLoadW} W, maximum demand ${db.maxDemandW} W (${threePhase ? "three" : "single"}-phase, ${db.designCurrentA} A). ${db.outgoingCircuits} outgoing circuits on a ${db.ways}-way ${threePhase ? "TPN" : "SPN"} board with ${db.incomerA}A incomer and ${db.rccbA}A 30mA RCCB.`,
+      ],
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
@@ -0,0 +1,221 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type EstimatorInputs,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  CEILING_CUTOUT_KINDS,
+  CEILING_SYSTEM_LABELS,
+  computeFalseCeilingRequired,
+  type CeilingCutoutKind,
+  type CeilingDropKind,
+  type CeilingSystem,
+} from "@shared/estimators/computeFalseCeilingRequired";
+
+const hasArea = (row: FieldValues) => num(row.length) > 0 && num(row.width) > 0;
+
+const toCeiling = ({ values, rows }: EstimatorInputs) => ({
+  system: values.system as CeilingSystem,
+  plenumFt: num(values.plenumFt),
+  areas: rows.areas.map((a) => ({
+    name: str(a.name),
+    length: num(a.length),
+    width: num(a.width),
+  })),
+  cutouts: rows.cutouts.map((c) => ({
+    kind: c.kind as CeilingCutoutKind,
+    count: num(c.count),
+    lengthFt: num(c.lengthFt),
+    widthFt: num(c.widthFt),
+  })),
+  drops: rows.drops.map((d) => ({
+    kind: d.kind as CeilingDropKind,
+    lengthFt: num(d.lengthFt),
+    dropFt: num(d.dropFt),
+    widthFt: num(d.widthFt),
+  })),
+});
+
+export const falseCeilingEstimator: EstimatorDefinition = {
+  slug: "false-ceiling",
+  estimator: "falseceiling",
+  sessionPrefix: "FC",
+  title: "False Ceiling Estimator",
+  description:
+    "Framing, suspension, boards or tiles and jointing for gypsum and grid ceilings",
+  boqTitle: "False Ceiling Work",
+  inputsTitle: "Ceiling Areas",
+  sections: [
+    {
+      type: "fields",
+      fields: [
+        {
+          key: "system",
+          label: "System",
+          kind: "select",
+          default: "gypsum",
+          options: (Object.keys(CEILING_SYSTEM_LABELS) as CeilingSystem[]).map(
+            (s) => ({ value: s, label: CEILING_SYSTEM_LABELS[s] }),
+          ),
+        },
+        {
+          key: "plenumFt",
+          label: "Drop from soffit",
+          unit: "ft",
+          kind: "number",
+          default: 2,
+          min: 0,
+          step: 0.5,
+        },
+      ],
+    },
+    {
+      type: "rows",
+      key: "areas",
+      title: "Areas",
+      addLabel: "Add Area",
+      newRow: (n) => ({ name: `Room ${n}` }),
+      fields: [
+        { key: "name", label: "Room", kind: "text", default: "Room" },
+        {
+          key: "length",
+          label: "L",
+          unit: "ft",
+          kind: "number",
+          default: 12,
+          min: 0,
+        },
+        {
+          key: "width",
+          label: "W",
+          unit: "ft",
+          kind: "number",
+          default: 10,
+          min: 0,
+        },
+      ],
+    },
+    {
+      type: "rows",
+      key: "cutouts",
+      title: "Cut-outs",
+      help: "Deducted from the board or tile area. Gypsum cut-outs are trimmed with ceiling section; AC cut-outs get their own hangers.",
+      addLabel: "Add Cut-out",
+      minRows: 0,
+      fields: [
+        {
+          key: "kind",
+          label: "Type",
+          kind: "select",
+          default: "light",
+          options: (
+            Object.keys(CEILING_CUTOUT_KINDS) as CeilingCutoutKind[]
+          ).map((k) => ({ value: k, label: CEILING_CUTOUT_KINDS[k].label })),
+        },
+        {
+          key: "count",
+          label: "Nos",
+          kind: "number",
+          default: 1,
+          min: 0,
+          integer: true,
+        },
+        {
+          key: "lengthFt",
+          label: "L",
+          unit: "ft",
+          kind: "number",
+          default: 2,
+          min: 0,
+        },
+        {
+          key: "widthFt",
+          label: "W",
+          unit: "ft",
+          kind: "number",
+          default: 2,
+          min: 0,
+        },
+      ],
+    },
+    {
+      type: "rows",
+      key: "drops",
+      title: "Coves and bulkheads",
+      help: "Built in gypsum on their own framing with either system.",
+      addLabel: "Add Cove / Bulkhead",
+      minRows: 0,
+      fields: [
+        {
+          key: "kind",
+          label: "Type",
+          kind: "select",
+          default: "cove",
+          options: [
+            { value: "cove", label: "Cove" },
+            { value: "bulkhead", label: "Bulkhead" },
+          ],
+        },
+        {
+          key: "lengthFt",
+          label: "Length",
+          unit: "ft",
+          kind: "number",
+          default: 10,
+          min: 0,
+        },
+        {
+          key: "dropFt",
+          label: "Drop",
+          unit: "ft",
+          kind: "number",
+          default: 0.5,
+          min: 0,
+          step: 0.25,
+        },
+        {
+          key: "widthFt",
+          label: "Bulkhead width",
+          unit: "ft",
+          kind: "number",
+          default: 0,
+          min: 0,
+          showWhen: (row) => row.kind === "bulkhead",
+        },
+      ],
+    },
+  ],
+  emptyMessage: "Enter at least one ceiling area.",
+  location: ({ rows }) =>
+    rows.areas
+      .filter(hasArea)
+      .map((a) => str(a.name))
+      .join(", "),
+  estimate: { type: "false-ceiling", input: toCeiling },
+  compute: (inputs, coefficients) => {
+    const { areas, system, cutouts, drops, plenumFt } = toCeiling(inputs);
+    const result = computeFalseCeilingRequired(
+      areas,
+      system,
+      cutouts,
+      drops,
+      plenumFt,
+      coefficients,
+    );
+    if (!result) return null;
+
+    const dropBoard =
+      result.dropBoardArea > 0
+        ? `; ${result.dropBoardArea} sqft of cove/bulkhead board`
+        : "";
+    return {
+      heading: CEILING_SYSTEM_LABELS[system],
+      notes: [
+        `${result.grossArea} sqft gross, ${result.cutoutArea} sqft cut-outs, ${result.netArea} sqft net; ${result.perimeterFt} ft perimeter${dropBoard}. ${result.hangers} hangers at ${plenumFt} ft.`,
+      ],
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
@@ -0,0 +1,164 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type EstimatorField,
+  type EstimatorInputs,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  HAZARD_RULES,
+  computeFireFightingRequired,
+  type FireFloor,
+  type HazardClass,
+} from "@shared/estimators/computeFireFightingRequired";
+
+const dimension = (
+  key: string,
+  label: string,
+  value: number,
+): EstimatorField => ({
+  key,
+  label,
+  unit: "ft",
+  kind: "number",
+  default: value,
+  min: 0,
+});
+
+const toFloor = (row: FieldValues): FireFloor => ({
+  name: str(row.name),
+  length: num(row.length),
+  width: num(row.width),
+  distanceFromRiser: num(row.distanceFromRiser),
+  electricalRooms: num(row.electricalRooms),
+});
+
+const toFireFighting = ({ values, rows }: EstimatorInputs) => ({
+  floors: rows.floors.map(toFloor),
+  hazard: values.hazard as HazardClass,
+  floorHeightFt: num(values.floorHeightFt),
+  hydrantSystem: values.hydrantSystem === true,
+});
+
+export const fireFightingEstimator: EstimatorDefinition = {
+  slug: "fire-fighting",
+  estimator: "firefighting",
+  sessionPrefix: "FIRE",
+  title: "Fire-Fighting Estimator",
+  description:
+    "Sprinkler layout and piping, hydrants, hose reels and extinguishers from floor areas and hazard class",
+  boqTitle: "Fire Fighting Work",
+  inputsTitle: "Floors",
+  inputsHelp:
+    "The distance from the riser is the pipe run to the near corner of the floor. Electrical, UPS and server rooms each get a CO2 extinguisher.",
+  sections: [
+    {
+      type: "fields",
+      fields: [
+        {
+          key: "hazard",
+          label: "Hazard class",
+          kind: "select",
+          default: "light",
+          options: (Object.keys(HAZARD_RULES) as HazardClass[]).map((h) => ({
+            value: h,
+            label: HAZARD_RULES[h].label,
+          })),
+        },
+        dimension("floorHeightFt", "Floor-to-floor height", 10),
+        {
+          key: "hydrantSystem",
+          label: "Wet riser with hydrants and hose reels",
+          kind: "checkbox",
+          default: true,
+        },
+      ],
+    },
+    {
+      type: "rows",
+      key: "floors",
+      addLabel: "Add Floor",
+      newRow: (n) => ({ name: n === 1 ? "Ground Floor" : `Floor ${n - 1}` }),
+      fields: [
+        { key: "name", label: "Floor", kind: "text", default: "Ground Floor" },
+        dimension("length", "L", 60),
+        dimension("width", "W", 40),
+        dimension("distanceFromRiser", "From riser", 10),
+        {
+          key: "electricalRooms",
+          label: "Electrical rooms",
+          kind: "number",
+          default: 1,
+          min: 0,
+          integer: true,
+        },
+      ],
+    },
+  ],
+  estimate: { type: "fire-fighting", input: toFireFighting },
+  emptyMessage: "Enter at least one floor with a length and width.",
+  location: ({ rows }) => rows.floors.map((r) => str(r.name)).join(", "),
+  compute: (inputs) => {
+    const { floors, hazard, floorHeightFt, hydrantSystem } =
+      toFireFighting(inputs);
+    const result = computeFireFightingRequired(
+      floors,
+      hazard,
+      floorHeightFt,
+      hydrantSystem,
+    );
+    if (!result) return null;
+    const rule = HAZARD_RULES[hazard];
+
+    return {
+      tables: [
+        {
+          title: "Sprinkler layout",
+          columns: [
+            { label: "Floor" },
+            { label: "Area (sqft)", align: "right" },
+            { label: "Heads", align: "right" },
+            { label: "Branches × heads", align: "right" },
+            { label: "Spacing (ft)", align: "right" },
+            { label: "Feed (mm)", align: "right" },
+            { label: "Hydrants / reels", align: "right" },
+            { label: "Extinguishers", align: "right" },
+          ],
+          rows: result.floors.map((f) => [
+            f.name,
+            f.area,
+            f.heads,
+            `${f.branchLines} × ${f.headsPerBranch}`,
+            `${f.headSpacingFt} × ${f.branchSpacingFt}`,
+            f.feedMm,
+            hydrantSystem ? `${f.hydrants} / ${f.hoseReels}` : "—",
+            f.extinguishers,
+          ]),
+        },
+        {
+          title: "Sprinkler piping",
+          columns: [
+            { label: "Bore (mm)" },
+            { label: "Branch (ft)", align: "right" },
+            { label: "Main and riser (ft)", align: "right" },
+            { label: "Drops (ft)", align: "right" },
+            { label: "Total (ft)", align: "right" },
+          ],
+          rows: result.pipeFt.map((p) => [
+            p.mm,
+            p.byRole.branch,
+            p.byRole.main,
+            p.byRole.drop,
+            p.lengthFt,
+          ]),
+        },
+      ],
+      notes: [
+        `${rule.coverageSqft} sqft per head, ${rule.maxSpacingFt} ft maximum spacing, ${rule.designDensityMmPerMin} mm/min design density.`,
+        `${result.heads} heads over ${result.area} sqft plus ${result.spareHeads} spares; pipes sized from the ${hazard} hazard pipe schedule with a ${result.riserMm} mm sprinkler riser.`,
+      ],
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
@@ -0,0 +1,200 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  FLOORING_PATTERNS,
+  FLOORING_TILE_SIZES,
+  computeFlooringRequired,
+  isPlank,
+  type FlooringPattern,
+  type FlooringRoom,
+  type FlooringRoomShape,
+} from "@shared/estimators/computeFlooringRequired";
+
+const tileFor = (v: FieldValues) =>
+  FLOORING_TILE_SIZES.find((t) => t.id === v.tileId) || FLOORING_TILE_SIZES[0];
+
+const isLShape = (row: FieldValues) => row.shape === "l-shape";
+
+const toRoom = (row: FieldValues): FlooringRoom => ({
+  name: str(row.name),
+  shape: row.shape as FlooringRoomShape,
+  length: num(row.length),
+  width: num(row.width),
+  cutoutLength: num(row.cutoutLength),
+  cutoutWidth: num(row.cutoutWidth),
+  doorOpeningsFt: num(row.doorOpeningsFt),
+});
+
+export const flooringEstimator: EstimatorDefinition = {
+  slug: "flooring",
+  estimator: "flooring",
+  sessionPrefix: "FLR",
+  title: "Flooring Estimator",
+  description:
+    "Tiles, skirting, adhesive, grout and spacers from room outlines",
+  boqTitle: "Flooring Work",
+  inputsTitle: "Rooms",
+  inputsHelp:
+    "For an L-shaped room enter the overall length and width and the size of the corner that is cut out. Skirting runs the full perimeter less the door openings.",
+  sections: [
+    {
+      type: "rows",
+      key: "rooms",
+      addLabel: "Add Room",
+      newRow: (n) => ({ name: `Room ${n}` }),
+      fields: [
+        { key: "name", label: "Room", kind: "text", default: "Room" },
+        {
+          key: "shape",
+          label: "Shape",
+          kind: "select",
+          default: "rectangle",
+          options: [
+            { value: "rectangle", label: "Rectangle" },
+            { value: "l-shape", label: "L-shape" },
+          ],
+        },
+        {
+          key: "length",
+          label: "L",
+          unit: "ft",
+          kind: "number",
+          default: 12,
+          min: 0,
+        },
+        {
+          key: "width",
+          label: "W",
+          unit: "ft",
+          kind: "number",
+          default: 10,
+          min: 0,
+        },
+        {
+          key: "cutoutLength",
+          label: "Cut-out L",
+          unit: "ft",
+          kind: "number",
+          default: 0,
+          min: 0,
+          showWhen: isLShape,
+        },
+        {
+          key: "cutoutWidth",
+          label: "Cut-out W",
+          unit: "ft",
+          kind: "number",
+          default: 0,
+          min: 0,
+          showWhen: isLShape,
+        },
+        {
+          key: "doorOpeningsFt",
+          label: "Door openings",
+          unit: "ft",
+          kind: "number",
+          default: 3,
+          min: 0,
+        },
+      ],
+    },
+    {
+      type: "fields",
+      fields: [
+        {
+          key: "tileId",
+          label: "Tile / plank size",
+          kind: "select",
+          default: FLOORING_TILE_SIZES[1].id,
+          options: FLOORING_TILE_SIZES.map((t) => ({
+            value: t.id,
+            label: `${t.label} (${t.tilesPerBox}/box)`,
+          })),
+        },
+        {
+          key: "pattern",
+          label: "Laying pattern",
+          kind: "select",
+          default: "straight",
+          // Herringbone needs planks
+          options: (v) =>
+            (Object.keys(FLOORING_PATTERNS) as FlooringPattern[]).map((p) => ({
+              value: p,
+              label: FLOORING_PATTERNS[p].label,
+              disabled: FLOORING_PATTERNS[p].planksOnly && !isPlank(tileFor(v)),
+            })),
+        },
+        {
+          key: "jointMm",
+          label: "Joint width",
+          unit: "mm",
+          kind: "number",
+          default: 2,
+          min: 0,
+          max: 25,
+          step: 0.5,
+        },
+        {
+          key: "skirting",
+          label: "Include skirting",
+          kind: "checkbox",
+          default: true,
+        },
+      ],
+    },
+  ],
+  estimate: {
+    type: "flooring",
+    input: ({ values, rows }) => ({
+      rooms: rows.rooms.map(toRoom),
+      tileId: tileFor(values).id,
+      pattern: values.pattern,
+      jointMm: num(values.jointMm),
+      skirting: values.skirting === true,
+    }),
+  },
+  emptyMessage: "Enter at least one room with a floor area.",
+  location: ({ rows }) => rows.rooms.map((r) => str(r.name)).join(", "),
+  compute: ({ values, rows }, coefficients) => {
+    const tile = tileFor(values);
+    const pattern = values.pattern as FlooringPattern;
+    const skirting = values.skirting === true;
+    const result = computeFlooringRequired(
+      rows.rooms.map(toRoom),
+      tile,
+      pattern,
+      num(values.jointMm),
+      skirting,
+      coefficients,
+    );
+    if (!result) return null;
+
+    return {
+      tables: [
+        {
+          title: "Rooms",
+          columns: [
+            { label: "Room" },
+            { label: "Area (sqft)", align: "right" },
+            { label: "Perimeter (ft)", align: "right" },
+            { label: "Skirting (ft)", align: "right" },
+          ],
+          rows: result.rooms.map((r) => [
+            r.name,
+            r.area,
+            r.perimeter,
+            skirting ? r.skirtingFt : "—",
+          ]),
+        },
+      ],
+      notes: [
+        `${result.area} sqft laid ${FLOORING_PATTERNS[pattern].label.toLowerCase()} in ${tile.label}: ${result.tiles} pieces with ${result.wastagePercent}% wastage, ${result.boxes} boxes.`,
+      ],
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
@@ -0,0 +1,26 @@
+import type { EstimatorDefinition } from "@/lib/estimators/definition";
+import { blindsEstimator } from "./blinds";
+import { civilWallEstimator } from "./civilWall";
+import { doorsEstimator } from "./doors";
+import { electricalEstimator } from "./electrical";
+import { falseCeilingEstimator } from "./falseCeiling";
+import { fireFightingEstimator } from "./fireFighting";
+import { flooringEstimator } from "./flooring";
+import { paintingEstimator } from "./painting";
+import { plumbingEstimator } from "./plumbing";
+import { msWorkEstimator, ssWorkEstimator } from "./steelWork";
+
+/** Estimators rendered by EstimatorRuntime, each at /estimators/<slug>. */
+export const ESTIMATOR_DEFINITIONS: EstimatorDefinition[] = [
+  civilWallEstimator,
+  flooringEstimator,
+  falseCeilingEstimator,
+  doorsEstimator,
+  blindsEstimator,
+  electricalEstimator,
+  paintingEstimator,
+  plumbingEstimator,
+  fireFightingEstimator,
+  msWorkEstimator,
+  ssWorkEstimator,
+];
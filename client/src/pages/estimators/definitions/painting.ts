@@ -0,0 +1,214 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type EstimatorField,
+  type EstimatorInputs,
+  type FieldValues,
+  type FieldsSection,
+} from "@/lib/estimators/definition";
+import {
+  FINISH_PAINTS,
+  PAINT_PRODUCTS,
+  PAINT_SURFACE_LABELS,
+  computePaintingRequired,
+  type PaintProductId,
+  type PaintRoom,
+  type PaintSurface,
+  type PaintSystem,
+} from "@shared/estimators/computePaintingRequired";
+
+const dimension = (
+  key: string,
+  label: string,
+  value: number,
+): EstimatorField => ({
+  key,
+  label,
+  unit: "ft",
+  kind: "number",
+  default: value,
+  min: 0,
+});
+
+const coats = (key: string, label: string, value: number): EstimatorField => ({
+  key,
+  label,
+  kind: "number",
+  default: value,
+  min: 0,
+  max: 5,
+  integer: true,
+});
+
+const systemSection = (
+  surface: PaintSurface,
+  defaults: PaintSystem,
+): FieldsSection => ({
+  type: "fields",
+  title: `${PAINT_SURFACE_LABELS[surface]} system`,
+  fields: [
+    coats(`${surface}PrimerCoats`, "Primer coats", defaults.primerCoats),
+    coats(`${surface}PuttyCoats`, "Putty coats", defaults.puttyCoats),
+    {
+      key: `${surface}Finish`,
+      label: "Finish",
+      kind: "select",
+      default: defaults.finish,
+      options: FINISH_PAINTS.map((p) => ({
+        value: p,
+        label: PAINT_PRODUCTS[p].item,
+      })),
+    },
+    coats(`${surface}FinishCoats`, "Finish coats", defaults.finishCoats),
+  ],
+});
+
+const toSystem = (values: FieldValues, surface: PaintSurface): PaintSystem => ({
+  primerCoats: num(values[`${surface}PrimerCoats`]),
+  puttyCoats: num(values[`${surface}PuttyCoats`]),
+  finish: values[`${surface}Finish`] as PaintProductId,
+  finishCoats: num(values[`${surface}FinishCoats`]),
+});
+
+const toRoom = (row: FieldValues): PaintRoom => ({
+  name: str(row.name),
+  length: num(row.length),
+  width: num(row.width),
+  height: num(row.height),
+  doors: num(row.doors),
+  windows: num(row.windows),
+  ceiling: row.ceiling === true,
+});
+
+const toPainting = ({ values, rows }: EstimatorInputs) => ({
+  rooms: rows.rooms.map(toRoom),
+  systems: {
+    walls: toSystem(values, "walls"),
+    ceiling: toSystem(values, "ceiling"),
+  },
+  door: {
+    widthFt: num(values.doorWidthFt),
+    heightFt: num(values.doorHeightFt),
+  },
+  window: {
+    widthFt: num(values.windowWidthFt),
+    heightFt: num(values.windowHeightFt),
+  },
+  revealDepthFt: num(values.revealDepthFt),
+});
+
+export const paintingEstimator: EstimatorDefinition = {
+  slug: "painting",
+  estimator: "painting",
+  sessionPrefix: "PNT",
+  title: "Painting Estimator",
+  description:
+    "Primer, putty and finish coats room by room, using each paint's coverage",
+  boqTitle: "Painting Work",
+  inputsTitle: "Rooms",
+  inputsHelp:
+    "Walls are the room perimeter times the height. Doors and windows up to 0.5 m² are not deducted; those over 3 m² have their reveals added back. Quantities use the coverage recorded on the chosen paint, or a typical figure when it has none.",
+  sections: [
+    {
+      type: "rows",
+      key: "rooms",
+      addLabel: "Add Room",
+      newRow: (n) => ({ name: `Room ${n}` }),
+      fields: [
+        { key: "name", label: "Room", kind: "text", default: "Room" },
+        dimension("length", "L", 12),
+        dimension("width", "W", 10),
+        dimension("height", "H", 10),
+        {
+          key: "doors",
+          label: "Doors",
+          kind: "number",
+          default: 1,
+          min: 0,
+          integer: true,
+        },
+        {
+          key: "windows",
+          label: "Windows",
+          kind: "number",
+          default: 1,
+          min: 0,
+          integer: true,
+        },
+        {
+          key: "ceiling",
+          label: "Paint ceiling",
+          kind: "checkbox",
+          default: true,
+        },
+      ],
+    },
+    {
+      type: "fields",
+      title: "Openings",
+      fields: [
+        dimension("doorWidthFt", "Door width", 3),
+        dimension("doorHeightFt", "Door height", 7),
+        dimension("windowWidthFt", "Window width", 4),
+        dimension("windowHeightFt", "Window height", 4),
+        dimension("revealDepthFt", "Wall thickness at reveals", 0.75),
+      ],
+    },
+    systemSection("walls", {
+      primerCoats: 1,
+      puttyCoats: 2,
+      finish: "emulsion",
+      finishCoats: 2,
+    }),
+    systemSection("ceiling", {
+      primerCoats: 1,
+      puttyCoats: 1,
+      finish: "ceiling-white",
+      finishCoats: 2,
+    }),
+  ],
+  emptyMessage: "Enter at least one room with a length, width and height.",
+  location: ({ rows }) => rows.rooms.map((r) => str(r.name)).join(", "),
+  estimate: { type: "painting", input: toPainting },
+  compute: (inputs, coefficients) => {
+    const { rooms, systems, door, window, revealDepthFt } = toPainting(inputs);
+    const result = computePaintingRequired(
+      rooms,
+      systems,
+      door,
+      window,
+      revealDepthFt,
+      coefficients,
+    );
+    if (!result) return null;
+
+    return {
+      tables: [
+        {
+          title: "Surfaces",
+          columns: [
+            { label: "Room" },
+            { label: "Surface" },
+            { label: "Gross (sqft)", align: "right" },
+            { label: "Openings (sqft)", align: "right" },
+            { label: "Reveals (sqft)", align: "right" },
+            { label: "Net (sqft)", align: "right" },
+          ],
+          rows: result.surfaces.map((s) => [
+            s.room,
+            PAINT_SURFACE_LABELS[s.surface],
+            s.grossArea,
+            s.deductedArea,
+            s.addedArea,
+            s.netArea,
+          ]),
+        },
+      ],
+      notes: [
+        `${result.areaBySurface.walls} sqft of walls and ${result.areaBySurface.ceiling} sqft of ceiling. Each room's surfaces go to the BOQ as separate locations with their own sub-totals.`,
+      ],
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
@@ -0,0 +1,202 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type EstimatorField,
+  type EstimatorInputs,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import { DEFAULT_COEFFICIENTS } from "@shared/estimators/coefficients";
+import {
+  DEFAULT_FITTING_RATIOS,
+  FIXTURE_RULES,
+  FIXTURE_TYPES,
+  SUPPLY_MATERIALS,
+  computePlumbingRequired,
+  emptyFixtures,
+  type FittingRatios,
+  type SupplyMaterial,
+  type WetArea,
+} from "@shared/estimators/computePlumbingRequired";
+
+const RATIO_LABELS: Record<keyof FittingRatios, [string, string?]> = {
+  supplyBranchFt: ["Supply branch per fixture", "ft"],
+  drainBranchFt: ["Drain branch per fixture", "ft"],
+  supplyElbowsPer10Ft: ["Supply elbows per 10 ft"],
+  drainBendsPer10Ft: ["Drain bends per 10 ft"],
+  supplyPipeLengthFt: ["Supply pipe length", "ft"],
+  jointsPerSolventTin: ["Joints per solvent tin"],
+};
+
+const run = (key: string, label: string, value: number): EstimatorField => ({
+  key,
+  label,
+  unit: "ft",
+  kind: "number",
+  default: value,
+  min: 0,
+});
+
+const toWetArea = (row: FieldValues): WetArea => {
+  const fixtures = emptyFixtures();
+  for (const t of FIXTURE_TYPES) fixtures[t] = num(row[t]);
+  return {
+    name: str(row.name),
+    fixtures,
+    supplyRunFt: num(row.supplyRunFt),
+    drainRunFt: num(row.drainRunFt),
+  };
+};
+
+const toPlumbing = ({ values, rows }: EstimatorInputs) => {
+  const ratios = { ...DEFAULT_FITTING_RATIOS };
+  for (const key of Object.keys(ratios) as (keyof FittingRatios)[]) {
+    ratios[key] = num(values[key]);
+  }
+  // Zero ratios that divide fall back to the defaults
+  ratios.supplyPipeLengthFt =
+    ratios.supplyPipeLengthFt || DEFAULT_FITTING_RATIOS.supplyPipeLengthFt;
+  ratios.jointsPerSolventTin =
+    ratios.jointsPerSolventTin || DEFAULT_FITTING_RATIOS.jointsPerSolventTin;
+
+  return {
+    areas: rows.areas.map(toWetArea),
+    supplyMaterial: values.supplyMaterial as SupplyMaterial,
+    hotWater: values.hotWater === true,
+    riserFt: num(values.riserFt),
+    stackFt: num(values.stackFt),
+    ratios,
+    wastagePercent: num(values.wastagePercent),
+  };
+};
+
+export const plumbingEstimator: EstimatorDefinition = {
+  slug: "plumbing",
+  estimator: "plumbing",
+  sessionPrefix: "PLB",
+  title: "Plumbing Estimator",
+  description:
+    "Supply and drainage pipes sized on fixture units, with fittings, valves and traps",
+  boqTitle: "Plumbing Work",
+  inputsTitle: "Wet Areas",
+  inputsHelp:
+    "Enter the fixtures in each bathroom, kitchen or utility. The supply run is from the riser to the room; the drain run is from the room to the stack.",
+  sections: [
+    {
+      type: "rows",
+      key: "areas",
+      addLabel: "Add Wet Area",
+      newRow: (n) => ({ name: `Bathroom ${n}` }),
+      fields: [
+        { key: "name", label: "Area", kind: "text", default: "Bathroom" },
+        ...FIXTURE_TYPES.map((t): EstimatorField => ({
+          key: t,
+          label: FIXTURE_RULES[t].label,
+          kind: "number",
+          default: t === "wc" || t === "basin" || t === "shower" ? 1 : 0,
+          min: 0,
+          integer: true,
+        })),
+        run("supplyRunFt", "Supply run", 15),
+        run("drainRunFt", "Drain run", 10),
+      ],
+    },
+    {
+      type: "fields",
+      title: "Fitting ratios",
+      help: "Defaults follow typical residential layouts; adjust them to match the drawings.",
+      fields: (Object.keys(RATIO_LABELS) as (keyof FittingRatios)[]).map(
+        (key): EstimatorField => ({
+          key,
+          label: RATIO_LABELS[key][0],
+          unit: RATIO_LABELS[key][1],
+          kind: "number",
+          default: DEFAULT_FITTING_RATIOS[key],
+          coefficient: key,
+          min: 0,
+          step: 0.5,
+          required: true,
+        }),
+      ),
+    },
+    {
+      type: "fields",
+      title: "Supply and drainage",
+      fields: [
+        {
+          key: "supplyMaterial",
+          label: "Supply pipe",
+          kind: "select",
+          default: "cpvc",
+          options: (Object.keys(SUPPLY_MATERIALS) as SupplyMaterial[]).map(
+            (m) => ({ value: m, label: SUPPLY_MATERIALS[m].label }),
+          ),
+        },
+        {
+          key: "hotWater",
+          label: "Hot water lines",
+          kind: "checkbox",
+          default: true,
+        },
+        run("riserFt", "Riser", 10),
+        run("stackFt", "Soil stack", 10),
+      ],
+    },
+  ],
+  defaultWastagePercent: DEFAULT_COEFFICIENTS.plumbingWastagePercent,
+  wastageCoefficient: "plumbingWastagePercent",
+  emptyMessage: "Enter at least one wet area with fixtures.",
+  location: ({ rows }) => rows.areas.map((a) => str(a.name)).join(", "),
+  estimate: { type: "plumbing", input: toPlumbing },
+  compute: (inputs) => {
+    const { areas, ...options } = toPlumbing(inputs);
+    const result = computePlumbingRequired(areas, options);
+    if (!result) return null;
+
+    const runRows = (
+      system: string,
+      runs: { mm: number; lengthFt: number }[],
+    ) => runs.map((r) => [system, r.mm, r.lengthFt]);
+    return {
+      tables: [
+        {
+          title: "Wet areas",
+          columns: [
+            { label: "Area" },
+            { label: "Fixtures", align: "right" },
+            { label: "Supply FU", align: "right" },
+            { label: "Drain FU", align: "right" },
+            { label: "Cold (mm)", align: "right" },
+            { label: "Hot (mm)", align: "right" },
+            { label: "Drain (mm)", align: "right" },
+          ],
+          rows: result.areas.map((a) => [
+            a.name,
+            a.fixtures,
+            a.supplyFu,
+            a.drainFu,
+            a.supplyMm,
+            a.hotMm ?? "—",
+            a.drainMm,
+          ]),
+        },
+        {
+          title: "Pipe runs",
+          columns: [
+            { label: "System" },
+            { label: "Size (mm)", align: "right" },
+            { label: "Length (ft)", align: "right" },
+          ],
+          rows: [
+            ...runRows("Supply", result.supplyPipes),
+            ...runRows("Drainage", result.drainPipes),
+          ],
+        },
+      ],
+      notes: [
+        `${result.supplyFu} supply fixture units on a ${result.riserMm}mm riser; ${result.drainFu} drainage fixture units on a ${result.stackMm}mm stack.`,
+      ],
+      requiredMaterials: result.requiredMaterials,
+    };
+  },
+};
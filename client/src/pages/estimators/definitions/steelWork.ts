@@ -0,0 +1,247 @@
+import {
+  num,
+  str,
+  type EstimatorDefinition,
+  type FieldValues,
+} from "@/lib/estimators/definition";
+import {
+  SECTION_SHAPE_LABELS,
+  STEEL_GRADES,
+  sectionWeight,
+  sectionsFor,
+  steelGrade,
+  type SectionShape,
+  type SteelMaterial,
+} from "@shared/estimators/steelSections";
+import {
+  BASE_PLATE_SIZES,
+  STEEL_MATERIAL_RULES,
+  computeSteelFabricationRequired,
+  type SteelMember,
+} from "@shared/estimators/computeSteelFabricationRequired";
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const toMember = (row: FieldValues): SteelMember => ({
+  name: str(row.name),
+  sectionId: str(row.sectionId),
+  lengthFt: num(row.lengthFt),
+  widthFt: num(row.widthFt),
+  count: num(row.count),
+  basePlates: num(row.basePlates),
+});
+
+const steelOptions = (values: FieldValues) => ({
+  gradeId: steelGrade(str(values.gradeId)).id,
+  basePlateId: str(values.basePlateId),
+  fabricationRatePerKg: num(values.fabricationRatePerKg),
+  erectionRatePerKg: num(values.erectionRatePerKg),
+  wastagePercent: num(values.wastagePercent),
+});
+
+const steelWorkEstimator = (
+  material: SteelMaterial,
+  details: {
+    slug: string;
+    estimator: string;
+    title: string;
+    description: string;
+    boqTitle: string;
+    defaultShape: SectionShape;
+  },
+): EstimatorDefinition => {
+  const rule = STEEL_MATERIAL_RULES[material];
+  const grades = STEEL_GRADES.filter((g) => g.material === material);
+  const shapes = (Object.keys(SECTION_SHAPE_LABELS) as SectionShape[]).filter(
+    (s) => sectionsFor(material, s).length > 0,
+  );
+
+  return {
+    slug: details.slug,
+    estimator: details.estimator,
+    sessionPrefix: rule.prefix,
+    title: details.title,
+    description: details.description,
+    boqTitle: details.boqTitle,
+    inputsTitle: "Members",
+    inputsHelp:
+      "One row per member type. Sheets are entered as length × width; base plates are per piece, e.g. 1 under each post.",
+    sections: [
+      {
+        type: "rows",
+        key: "members",
+        addLabel: "Add Member",
+        newRow: (n) => ({ name: `M${n}` }),
+        fields: [
+          { key: "name", label: "Mark", kind: "text", default: "M1" },
+          {
+            key: "shape",
+            label: "Section",
+            kind: "select",
+            default: details.defaultShape,
+            options: shapes.map((s) => ({
+              value: s,
+              label: SECTION_SHAPE_LABELS[s],
+            })),
+          },
+          {
+            key: "sectionId",
+            label: "Size",
+            kind: "select",
+            default: "",
+            options: (row) =>
+              sectionsFor(material, row.shape as SectionShape).map((s) => ({
+                value: s.id,
+                label: s.size,
+              })),
+          },
+          {
+            key: "lengthFt",
+            label: "Length",
+            unit: "ft",
+            kind: "number",
+            default: 10,
+            min: 0,
+          },
+          {
+            key: "widthFt",
+            label: "Width",
+            unit: "ft",
+            kind: "number",
+            default: 4,
+            min: 0,
+            showWhen: (row) => row.shape === "sheet",
+          },
+          {
+            key: "count",
+            label: "Nos",
+            kind: "number",
+            default: 1,
+            min: 0,
+            integer: true,
+          },
+          {
+            key: "basePlates",
+            label: "Base plates",
+            kind: "number",
+            default: 0,
+            min: 0,
+            integer: true,
+          },
+        ],
+      },
+      {
+        type: "fields",
+        fields: [
+          {
+            key: "gradeId",
+            label: "Grade",
+            kind: "select",
+            default: rule.defaultGradeId,
+            options: grades.map((g) => ({ value: g.id, label: g.label })),
+          },
+          {
+            key: "basePlateId",
+            label: "Base plate",
+            kind: "select",
+            default: BASE_PLATE_SIZES[1].id,
+            options: BASE_PLATE_SIZES.map((p) => ({
+              value: p.id,
+              label: `${p.label} with ${p.anchor} anchors`,
+            })),
+          },
+          {
+            key: "fabricationRatePerKg",
+            label: "Fabrication rate",
+            unit: "₹/kg",
+            kind: "number",
+            default: rule.fabricationRatePerKg,
+            min: 0,
+          },
+          {
+            key: "erectionRatePerKg",
+            label: "Erection rate",
+            unit: "₹/kg",
+            kind: "number",
+            default: rule.erectionRatePerKg,
+            min: 0,
+          },
+        ],
+      },
+    ],
+    defaultWastagePercent: 5,
+    emptyMessage: "Enter at least one member with a length and count.",
+    location: ({ rows }) => rows.members.map((m) => str(m.name)).join(", "),
+    estimate: {
+      type: `${material}-work`,
+      input: ({ values, rows }) => ({
+        members: rows.members.map(toMember),
+        ...steelOptions(values),
+      }),
+    },
+    compute: ({ values, rows }) => {
+      const grade = steelGrade(str(values.gradeId));
+      const result = computeSteelFabricationRequired(
+        rows.members.map(toMember),
+        { material, ...steelOptions(values) },
+      );
+      if (!result) return null;
+
+      const plates =
+        result.basePlates > 0
+          ? ` including ${result.basePlates} base plates (${round1(result.basePlateWeightKg)} kg)`
+          : "";
+      return {
+        heading: grade.label,
+        tables: [
+          {
+            title: "Members",
+            columns: [
+              { label: "Mark" },
+              { label: "Section" },
+              { label: "Nos", align: "right" },
+              { label: "m / m²", align: "right" },
+              { label: "kg/m", align: "right" },
+              { label: "Weight (kg)", align: "right" },
+            ],
+            rows: result.members.map((m) => [
+              m.name,
+              `${SECTION_SHAPE_LABELS[m.section.shape]} ${m.section.size}`,
+              m.pieces,
+              round1(m.quantity),
+              Math.round(sectionWeight(m.section, grade) * 100) / 100,
+              round1(m.weightKg),
+            ]),
+          },
+        ],
+        notes: [
+          `Total weight ${round1(result.totalWeightKg)} kg${plates}. Fabrication ₹${Math.round(result.fabricationCharge)} and erection ₹${Math.round(result.erectionCharge)}.`,
+          material === "ms"
+            ? `${Math.ceil(result.surfaceSqft)} sqft of primer and paint.`
+            : `${Math.ceil(result.surfaceSqft)} sqft of buffing and polishing.`,
+        ],
+        requiredMaterials: result.requiredMaterials,
+      };
+    },
+  };
+};
+
+export const msWorkEstimator = steelWorkEstimator("ms", {
+  slug: "ms-work",
+  estimator: "mswork",
+  title: "MS Work Estimator",
+  description:
+    "Mild steel fabrication by weight from a member list, with consumables, paint and base plates",
+  boqTitle: "MS Fabrication Work",
+  defaultShape: "box",
+});
+
+export const ssWorkEstimator = steelWorkEstimator("ss", {
+  slug: "ss-work",
+  estimator: "sswork",
+  title: "SS Work Estimator",
+  description:
+    "Stainless steel fabrication by weight from a member list, with consumables, polishing and base plates",
+  boqTitle: "SS Fabrication Work",
+  defaultShape: "pipe",
+});
@@ -20,5 +20,10 @@ CREATE TABLE IF NOT EXISTS estimator_step9_cart (
   panel_type TEXT,
   sub_option TEXT,
   glazing_type TEXT,
+  location TEXT,
+  coefficient_version INTEGER,
+  coefficient_overrides JSONB,
+  requirement_key TEXT,
+  estimate JSONB,
   created_at TIMESTAMPTZ DEFAULT now()
 );
\ No newline at end of file
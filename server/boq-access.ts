@@ -0,0 +1,112 @@
+import { query } from "./db/client";
+import {
+  PROJECT_ROLE_LABELS,
+  projectRoleAllows,
+  type ProjectAccessRole,
+  type ProjectPermission,
+} from "@shared/boq-access";
+
+// Server-side checks for per-project access. Every /api/boq-projects,
+// /api/boq-versions and /api/boq-items route resolves the project it touches
+// and asks findAccessDenial before doing anything else.
+
+export interface AccessUser {
+  id: string;
+  role: string;
+}
+
+export interface AccessDenial {
+  status: 403 | 404;
+  message: string;
+}
+
+/**
+ * Role of every non-admin on a project created before ownership existed
+ * (owner_id NULL): such projects stay as open as they were until an admin
+ * assigns an owner, but only admins can manage them.
+ */
+export const UNOWNED_PROJECT_ROLE: ProjectAccessRole = "editor";
+
+/** The caller's role on a project, or null when they cannot see it. */
+export async function getProjectRole(
+  user: AccessUser | undefined,
+  projectId: string,
+): Promise<ProjectAccessRole | null> {
+  if (!user) return null;
+  if (user.role === "admin") return "admin";
+
+  const result = await query(
+    `SELECT p.owner_id, m.role AS member_role
+     FROM boq_projects p
+     LEFT JOIN boq_project_members m ON m.project_id = p.id AND m.user_id = $2
+     WHERE p.id = $1`,
+    [projectId, user.id],
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  if (row.owner_id && row.owner_id === user.id) return "owner";
+  if (row.member_role) return row.member_role;
+  return row.owner_id ? null : UNOWNED_PROJECT_ROLE;
+}
+
+export async function projectIdForVersion(
+  versionId: string | null | undefined,
+): Promise<string | null> {
+  if (!versionId) return null;
+  const result = await query(
+    `SELECT project_id FROM boq_versions WHERE id = $1`,
+    [versionId],
+  );
+  return result.rows[0]?.project_id || null;
+}
+
+export async function projectIdForItem(itemId: string): Promise<string | null> {
+  const result = await query(`SELECT project_id FROM boq_items WHERE id = $1`, [
+    itemId,
+  ]);
+  return result.rows[0]?.project_id || null;
+}
+
+/**
+ * Null when the caller may proceed. Projects the caller cannot see at all are
+ * reported as not found so their existence is not leaked; a missing project id
+ * is left to the route's own 404 handling.
+ */
+export async function findAccessDenial(
+  user: AccessUser | undefined,
+  projectId: string | null,
+  permission: ProjectPermission,
+): Promise<AccessDenial | null> {
+  if (!projectId) return null;
+  const role = await getProjectRole(user, projectId);
+  if (!projectRoleAllows(role, "view")) {
+    const exists = await query(`SELECT 1 FROM boq_projects WHERE id = $1`, [
+      projectId,
+    ]);
+    if (exists.rows.length === 0) return null;
+    return { status: 404, message: "Project not found" };
+  }
+  if (!projectRoleAllows(role, permission)) {
+    return {
+      status: 403,
+      message: `${PROJECT_ROLE_LABELS[role!]} access does not allow you to ${permission} this project`,
+    };
+  }
+  return null;
+}
+
+/**
+ * WHERE fragment limiting boq_projects (aliased `alias`) to the ones the user
+ * owns, was invited to or that have no owner yet; `param` is the placeholder
+ * holding the user id.
+ */
+export function accessibleProjectsFilter(
+  user: AccessUser | undefined,
+  alias: string,
+  param: string,
+): string {
+  if (user?.role === "admin") return "TRUE";
+  return `(${alias}.owner_id = ${param} OR ${alias}.owner_id IS NULL OR EXISTS (
+    SELECT 1 FROM boq_project_members m
+    WHERE m.project_id = ${alias}.id AND m.user_id = ${param}))`;
+}
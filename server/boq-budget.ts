@@ -0,0 +1,109 @@
+import { query } from "./db/client";
+import { flattenBoqItems, type BoqItemRecord } from "./boq-rows";
+import {
+  applyPricingAdjustments,
+  readPricingAdjustments,
+} from "@shared/boq-pricing";
+import {
+  buildVersionBudgetStatus,
+  readProjectBudget,
+  summarizeProjectBudget,
+  type ProjectBudget,
+  type ProjectBudgetSummary,
+  type VersionBudgetStatus,
+  type VersionEstimate,
+} from "@shared/boq-budget";
+
+// Budget-vs-estimate figures for the project list and version list. Estimates
+// are the quoted amount before GST, i.e. after the version's pricing layers.
+
+/** Per-project version estimates, newest version first. */
+async function loadVersionEstimates(
+  projectIds: string[],
+): Promise<Map<string, VersionEstimate[]>> {
+  const byProject = new Map<string, VersionEstimate[]>();
+  if (projectIds.length === 0) return byProject;
+
+  const versions = await query(
+    `SELECT id, project_id, version_number, pricing_adjustments
+     FROM boq_versions WHERE project_id = ANY($1::varchar[])
+     ORDER BY version_number DESC`,
+    [projectIds],
+  );
+  const items = await query(
+    `SELECT id, estimator, table_data, version_id FROM boq_items
+     WHERE project_id = ANY($1::varchar[]) AND user_added = true
+     ORDER BY created_at ASC`,
+    [projectIds],
+  );
+
+  const itemsByVersion = new Map<string, BoqItemRecord[]>();
+  for (const item of items.rows) {
+    if (!itemsByVersion.has(item.version_id)) {
+      itemsByVersion.set(item.version_id, []);
+    }
+    itemsByVersion.get(item.version_id)!.push(item);
+  }
+
+  for (const v of versions.rows) {
+    const rows = flattenBoqItems(itemsByVersion.get(v.id) || []);
+    const base = { supply: 0, install: 0 };
+    for (const r of rows) {
+      base.supply += r.supplyAmount;
+      base.install += r.installAmount;
+    }
+    const pricing = applyPricingAdjustments(
+      base,
+      readPricingAdjustments(v.pricing_adjustments),
+    );
+
+    // Spread the version-level layers over trades the same way GST does
+    const byEstimator: Record<string, number> = {};
+    for (const r of rows) {
+      byEstimator[r.estimator] =
+        (byEstimator[r.estimator] || 0) +
+        r.supplyAmount * pricing.factors.supply +
+        r.installAmount * pricing.factors.install;
+    }
+
+    if (!byProject.has(v.project_id)) byProject.set(v.project_id, []);
+    byProject.get(v.project_id)!.push({
+      versionId: v.id,
+      versionNumber: Number(v.version_number),
+      total: pricing.final.supply + pricing.final.install,
+      byEstimator,
+    });
+  }
+  return byProject;
+}
+
+/** Budget status of every version of one project, newest first. */
+export async function loadVersionBudgetStatuses(
+  projectId: string,
+  budget: ProjectBudget,
+): Promise<VersionBudgetStatus[]> {
+  const estimates = await loadVersionEstimates([projectId]);
+  return (estimates.get(projectId) || []).map((e) =>
+    buildVersionBudgetStatus(budget, e),
+  );
+}
+
+/** Project-list summaries keyed by project id. */
+export async function loadProjectBudgetSummaries(
+  projects: { id: string; budget_amount: unknown; budget_breakdown: unknown }[],
+): Promise<Map<string, ProjectBudgetSummary>> {
+  const estimates = await loadVersionEstimates(projects.map((p) => p.id));
+  const summaries = new Map<string, ProjectBudgetSummary>();
+  for (const p of projects) {
+    const budget = readProjectBudget(p.budget_amount, p.budget_breakdown);
+    summaries.set(
+      p.id,
+      summarizeProjectBudget(
+        (estimates.get(p.id) || []).map((e) =>
+          buildVersionBudgetStatus(budget, e),
+        ),
+      ),
+    );
+  }
+  return summaries;
+}
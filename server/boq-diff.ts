@@ -0,0 +1,191 @@
+import type { BoqRow } from "./boq-rows";
+
+// Line-by-line comparison of two BOQ versions of the same project
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface DiffLine {
+  status: DiffStatus;
+  estimator: string;
+  productName: string;
+  title: string;
+  location: string;
+  base: BoqRow | null;
+  target: BoqRow | null;
+  changedFields: string[];
+  qtyDelta: number;
+  supplyRateDelta: number;
+  installRateDelta: number;
+  amountDelta: number;
+}
+
+export interface TotalsDelta {
+  base: number;
+  target: number;
+  delta: number;
+}
+
+export interface EstimatorDiffSummary {
+  estimator: string;
+  supply: TotalsDelta;
+  install: TotalsDelta;
+  total: TotalsDelta;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface VersionDiff {
+  lines: DiffLine[];
+  estimators: EstimatorDiffSummary[];
+  totals: { supply: TotalsDelta; install: TotalsDelta; total: TotalsDelta };
+}
+
+const COMPARED_FIELDS: (keyof BoqRow)[] = [
+  "description",
+  "unit",
+  "qty",
+  "supplyRate",
+  "installRate",
+];
+
+const norm = (s: string) => (s || "").trim().toLowerCase();
+
+/**
+ * Items are re-inserted with fresh ids when a version is copied, so lines are
+ * matched on what they describe rather than on ids. Repeated keys are paired
+ * in order of appearance.
+ */
+const matchKey = (r: BoqRow) =>
+  [r.estimator, r.productName, r.title, r.location].map(norm).join("|");
+
+const amount = (r: BoqRow | null) => (r ? r.supplyAmount + r.installAmount : 0);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const delta = (base: number, target: number): TotalsDelta => ({
+  base: round2(base),
+  target: round2(target),
+  delta: round2(target - base),
+});
+
+export function diffBoqRows(
+  baseRows: BoqRow[],
+  targetRows: BoqRow[],
+): VersionDiff {
+  const pending = new Map<string, BoqRow[]>();
+  for (const row of baseRows) {
+    const key = matchKey(row);
+    if (!pending.has(key)) pending.set(key, []);
+    pending.get(key)!.push(row);
+  }
+
+  const lines: DiffLine[] = [];
+  const makeLine = (base: BoqRow | null, target: BoqRow | null): DiffLine => {
+    const ref = (target || base)!;
+    const changedFields =
+      base && target
+        ? COMPARED_FIELDS.filter((f) => base[f] !== target[f]).map(String)
+        : [];
+    return {
+      status: !base
+        ? "added"
+        : !target
+          ? "removed"
+          : changedFields.length
+            ? "changed"
+            : "unchanged",
+      estimator: ref.estimator,
+      productName: ref.productName,
+      title: ref.title,
+      location: ref.location,
+      base,
+      target,
+      changedFields,
+      qtyDelta: round2((target?.qty || 0) - (base?.qty || 0)),
+      supplyRateDelta: round2(
+        (target?.supplyRate || 0) - (base?.supplyRate || 0),
+      ),
+      installRateDelta: round2(
+        (target?.installRate || 0) - (base?.installRate || 0),
+      ),
+      amountDelta: round2(amount(target) - amount(base)),
+    };
+  };
+
+  for (const row of targetRows) {
+    const candidates = pending.get(matchKey(row));
+    const base =
+      candidates && candidates.length > 0 ? candidates.shift()! : null;
+    lines.push(makeLine(base, row));
+  }
+  pending.forEach((rest) =>
+    rest.forEach((row) => lines.push(makeLine(row, null))),
+  );
+
+  const byEstimator = new Map<string, EstimatorDiffSummary>();
+  const sums = {
+    baseSupply: 0,
+    baseInstall: 0,
+    targetSupply: 0,
+    targetInstall: 0,
+  };
+  const perEstimator = new Map<string, typeof sums>();
+
+  for (const line of lines) {
+    if (!perEstimator.has(line.estimator)) {
+      perEstimator.set(line.estimator, {
+        baseSupply: 0,
+        baseInstall: 0,
+        targetSupply: 0,
+        targetInstall: 0,
+      });
+      byEstimator.set(line.estimator, {
+        estimator: line.estimator,
+        supply: delta(0, 0),
+        install: delta(0, 0),
+        total: delta(0, 0),
+        added: 0,
+        removed: 0,
+        changed: 0,
+      });
+    }
+    const acc = perEstimator.get(line.estimator)!;
+    for (const bucket of [acc, sums]) {
+      bucket.baseSupply += line.base?.supplyAmount || 0;
+      bucket.baseInstall += line.base?.installAmount || 0;
+      bucket.targetSupply += line.target?.supplyAmount || 0;
+      bucket.targetInstall += line.target?.installAmount || 0;
+    }
+    const summary = byEstimator.get(line.estimator)!;
+    if (line.status === "added") summary.added++;
+    if (line.status === "removed") summary.removed++;
+    if (line.status === "changed") summary.changed++;
+  }
+
+  const estimators = Array.from(byEstimator.values()).map((summary) => {
+    const acc = perEstimator.get(summary.estimator)!;
+    return {
+      ...summary,
+      supply: delta(acc.baseSupply, acc.targetSupply),
+      install: delta(acc.baseInstall, acc.targetInstall),
+      total: delta(
+        acc.baseSupply + acc.baseInstall,
+        acc.targetSupply + acc.targetInstall,
+      ),
+    };
+  });
+
+  return {
+    lines,
+    estimators,
+    totals: {
+      supply: delta(sums.baseSupply, sums.targetSupply),
+      install: delta(sums.baseInstall, sums.targetInstall),
+      total: delta(
+        sums.baseSupply + sums.baseInstall,
+        sums.targetSupply + sums.targetInstall,
+      ),
+    },
+  };
+}
@@ -0,0 +1,127 @@
+// Helpers for persisting CreateBoq cell edits back into boq_items.table_data
+
+export const EDITABLE_FIELDS = [
+  "description",
+  "unit",
+  "location",
+  "qty",
+  "supply_rate",
+  "install_rate",
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+const NUMERIC_FIELDS: EditableField[] = ["qty", "supply_rate", "install_rate"];
+
+export type RowEdits = Partial<Record<EditableField, unknown>>;
+
+export interface CellChange {
+  itemId: string;
+  rowIndex: number;
+  field: EditableField;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * CreateBoq keys edits as `${boqItem.id}-${rowIndex}`. Item ids contain
+ * hyphens themselves, so split on the last one.
+ */
+export function parseEditKey(
+  key: string,
+): { itemId: string; rowIndex: number } | null {
+  const idx = key.lastIndexOf("-");
+  if (idx <= 0) return null;
+  const rowIndex = Number(key.slice(idx + 1));
+  if (!Number.isInteger(rowIndex) || rowIndex < 0) return null;
+  return { itemId: key.slice(0, idx), rowIndex };
+}
+
+/**
+ * Group the flat editedFields map sent by the client by BOQ item id.
+ */
+export function groupEditsByItem(
+  editedFields: Record<string, RowEdits>,
+): Map<string, Map<number, RowEdits>> {
+  const grouped = new Map<string, Map<number, RowEdits>>();
+
+  for (const [key, edits] of Object.entries(editedFields || {})) {
+    const parsed = parseEditKey(key);
+    if (!parsed || !edits || typeof edits !== "object") continue;
+
+    if (!grouped.has(parsed.itemId)) grouped.set(parsed.itemId, new Map());
+    grouped.get(parsed.itemId)!.set(parsed.rowIndex, edits);
+  }
+
+  return grouped;
+}
+
+const isNumericField = (field: EditableField) => NUMERIC_FIELDS.includes(field);
+
+function normalizeValue(field: EditableField, value: unknown): string | number {
+  if (isNumericField(field)) {
+    const n =
+      typeof value === "number" ? value : parseFloat(String(value ?? ""));
+    return Number.isFinite(n) ? n : 0;
+  }
+  return value == null ? "" : String(value);
+}
+
+function toHistoryValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return String(value);
+}
+
+/**
+ * Apply the edits for one boq_items row to its table_data.step11_items.
+ * Returns the updated table_data and the list of cells that actually changed,
+ * so unchanged values sent by the client do not pollute the edit history.
+ */
+export function applyRowEdits(
+  itemId: string,
+  tableData: any,
+  rowEdits: Map<number, RowEdits>,
+): { tableData: any; changes: CellChange[] } {
+  const data =
+    tableData && typeof tableData === "object" ? { ...tableData } : {};
+  const rows: any[] = Array.isArray(data.step11_items)
+    ? data.step11_items.map((r: any) => ({ ...r }))
+    : [];
+  const changes: CellChange[] = [];
+
+  rowEdits.forEach((edits, rowIndex) => {
+    const row = rows[rowIndex];
+    if (!row) return;
+
+    let amountsDirty = false;
+    for (const field of EDITABLE_FIELDS) {
+      if (!(field in edits)) continue;
+
+      const next = normalizeValue(field, edits[field]);
+      const prev = row[field];
+      const unchanged = isNumericField(field)
+        ? Number(prev || 0) === next
+        : (prev ?? "") === next;
+      if (unchanged) continue;
+
+      changes.push({
+        itemId,
+        rowIndex,
+        field,
+        oldValue: toHistoryValue(prev),
+        newValue: toHistoryValue(next),
+      });
+      row[field] = next;
+      if (isNumericField(field)) amountsDirty = true;
+    }
+
+    if (amountsDirty) {
+      const qty = Number(row.qty || 0);
+      row.supply_amount = qty * Number(row.supply_rate || 0);
+      row.install_amount = qty * Number(row.install_rate || 0);
+    }
+  });
+
+  data.step11_items = rows;
+  return { tableData: data, changes };
+}
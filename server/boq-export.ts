@@ -0,0 +1,540 @@
+import ExcelJS from "exceljs";
+import {
+  groupRowsByProduct,
+  type BoqRow,
+  type VersionHeader,
+} from "./boq-rows";
+import { applyBoqTax, type BoqTaxContext } from "./boq-tax";
+import {
+  supplyTypeLabel,
+  type GstSummary,
+  type LineTax,
+  type LineTaxInfo,
+} from "@shared/gst";
+import {
+  PRICING_BASIS_LABELS,
+  applyPricingAdjustments,
+  pricingAdjustmentLabel,
+  type PricingAmounts,
+  type PricingResult,
+} from "@shared/boq-pricing";
+
+// Native .xlsx export of a BOQ version: summary sheet + one sheet per product
+
+const MONEY_FORMAT = "#,##0.00";
+const QTY_FORMAT = "#,##0.###";
+const PERCENT_FORMAT = '0.##"%"';
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FFE5E7EB" },
+};
+
+const TOTAL_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FFF3F4F6" },
+};
+
+const ITEM_COLUMNS: { header: string; width: number }[] = [
+  { header: "S.No", width: 6 },
+  { header: "Item", width: 28 },
+  { header: "Description", width: 40 },
+  { header: "Location", width: 18 },
+  { header: "Unit", width: 8 },
+  { header: "Qty", width: 10 },
+  { header: "Supply Rate", width: 13 },
+  { header: "Install Rate", width: 13 },
+  { header: "Supply Amount", width: 15 },
+  { header: "Install Amount", width: 15 },
+  { header: "Total Amount", width: 15 },
+  { header: "HSN/SAC", width: 11 },
+  { header: "GST %", width: 8 },
+  { header: "CGST", width: 13 },
+  { header: "SGST", width: 13 },
+  { header: "IGST", width: 13 },
+  { header: "Total incl. GST", width: 16 },
+];
+
+/**
+ * Excel sheet names are limited to 31 chars, cannot contain []:*?/\ and must
+ * be unique within the workbook (case-insensitive).
+ */
+function uniqueSheetName(name: string, used: Set<string>): string {
+  const base =
+    (name || "Sheet")
+      .replace(/[\[\]:*?/\\]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 31) || "Sheet";
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/** Quote a sheet name for use in a cross-sheet formula reference. */
+const sheetRef = (name: string) => `'${name.replace(/'/g, "''")}'`;
+
+/**
+ * Project/version block at the top of every sheet. Returns the next free row.
+ */
+function writeHeaderBlock(
+  ws: ExcelJS.Worksheet,
+  header: VersionHeader,
+  title: string,
+): number {
+  ws.getCell("A1").value = title;
+  ws.getCell("A1").font = { bold: true, size: 14 };
+
+  const details: [string, string][] = [
+    ["Project", header.projectName],
+    ["Client", header.projectClient],
+    ["Location", header.projectLocation],
+    ["Version", `V${header.versionNumber} (${header.status})`],
+  ];
+  details.forEach(([label, value], i) => {
+    const row = ws.getRow(i + 2);
+    row.getCell(1).value = label;
+    row.getCell(1).font = { bold: true };
+    row.getCell(2).value = value || "—";
+  });
+
+  return details.length + 3;
+}
+
+function styleHeaderRow(row: ExcelJS.Row) {
+  row.font = { bold: true };
+  row.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.border = { bottom: { style: "thin" } };
+    cell.alignment = { vertical: "middle", wrapText: true };
+  });
+}
+
+interface SheetTotals {
+  sheetName: string;
+  productName: string;
+  estimator: string;
+  subtotalRow: number;
+  supply: number;
+  install: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  /** Quoted value incl. GST, i.e. the sheet's column Q subtotal. */
+  quoted: number;
+}
+
+function writeProductSheet(
+  ws: ExcelJS.Worksheet,
+  header: VersionHeader,
+  productName: string,
+  rows: BoqRow[],
+  taxes: (LineTaxInfo & LineTax)[],
+  factors: PricingAmounts,
+): Omit<SheetTotals, "sheetName" | "productName" | "estimator"> {
+  const headerRowNum = writeHeaderBlock(ws, header, productName);
+
+  ws.columns = ITEM_COLUMNS.map((c) => ({ width: c.width }));
+  const headerRow = ws.getRow(headerRowNum);
+  headerRow.values = ITEM_COLUMNS.map((c) => c.header);
+  styleHeaderRow(headerRow);
+  ws.views = [{ state: "frozen", ySplit: headerRowNum }];
+
+  const firstDataRow = headerRowNum + 1;
+  let supply = 0;
+  let install = 0;
+  let cgst = 0;
+  let sgst = 0;
+  let igst = 0;
+  let quoted = 0;
+
+  rows.forEach((r, i) => {
+    const n = firstDataRow + i;
+    const row = ws.getRow(n);
+    row.values = [
+      i + 1,
+      r.title,
+      r.description,
+      r.location,
+      r.unit,
+      r.qty,
+      r.supplyRate,
+      r.installRate,
+    ];
+    row.getCell(9).value = { formula: `F${n}*G${n}`, result: r.supplyAmount };
+    row.getCell(10).value = { formula: `F${n}*H${n}`, result: r.installAmount };
+    row.getCell(11).value = {
+      formula: `I${n}+J${n}`,
+      result: r.supplyAmount + r.installAmount,
+    };
+    row.getCell(3).alignment = { wrapText: true, vertical: "top" };
+    supply += r.supplyAmount;
+    install += r.installAmount;
+
+    writeLineTax(row, n, taxes[i], factors);
+    cgst += taxes[i].cgst;
+    sgst += taxes[i].sgst;
+    igst += taxes[i].igst;
+    quoted += taxes[i].taxable + taxes[i].tax;
+  });
+
+  const lastDataRow = firstDataRow + rows.length - 1;
+  const subtotalRowNum = lastDataRow + 1;
+  const subtotal = ws.getRow(subtotalRowNum);
+  subtotal.getCell(8).value = "Subtotal";
+  const sumOf = (col: string, result: number) =>
+    rows.length > 0
+      ? { formula: `SUM(${col}${firstDataRow}:${col}${lastDataRow})`, result }
+      : 0;
+  subtotal.getCell(9).value = sumOf("I", supply);
+  subtotal.getCell(10).value = sumOf("J", install);
+  subtotal.getCell(11).value = sumOf("K", supply + install);
+  subtotal.getCell(14).value = sumOf("N", cgst);
+  subtotal.getCell(15).value = sumOf("O", sgst);
+  subtotal.getCell(16).value = sumOf("P", igst);
+  subtotal.getCell(17).value = sumOf("Q", quoted);
+  subtotal.font = { bold: true };
+  for (let c = 8; c <= 17; c++) {
+    subtotal.getCell(c).fill = TOTAL_FILL;
+    subtotal.getCell(c).border = { top: { style: "thin" } };
+  }
+
+  ws.getColumn(6).numFmt = QTY_FORMAT;
+  ws.getColumn(13).numFmt = PERCENT_FORMAT;
+  for (const c of [7, 8, 9, 10, 11, 14, 15, 16, 17]) {
+    ws.getColumn(c).numFmt = MONEY_FORMAT;
+  }
+
+  return {
+    subtotalRow: subtotalRowNum,
+    supply,
+    install,
+    cgst,
+    sgst,
+    igst,
+    quoted,
+  };
+}
+
+/**
+ * HSN/SAC, rate and CGST/SGST/IGST formulas for one item row (columns L–Q).
+ * GST is charged on the quoted value, i.e. the line amounts scaled by the
+ * version's pricing factors. Lines without a rate leave M blank so tax is 0.
+ */
+function writeLineTax(
+  row: ExcelJS.Row,
+  n: number,
+  tax: LineTaxInfo & LineTax,
+  factors: PricingAmounts,
+) {
+  const factor = (f: number) => Number(f.toFixed(10));
+  const taxable =
+    factors.supply === 1 && factors.install === 1
+      ? `K${n}`
+      : `(I${n}*${factor(factors.supply)}+J${n}*${factor(factors.install)})`;
+  // The supply type decides which GST columns carry a formula
+  const intra = tax.supplyType === "intra";
+
+  row.getCell(12).value = tax.codeValue
+    ? `${(tax.codeType || "").toUpperCase()} ${tax.codeValue}`
+    : "";
+  row.getCell(13).value = tax.rate;
+  row.getCell(14).value = intra
+    ? { formula: `ROUND(${taxable}*M${n}/200,2)`, result: tax.cgst }
+    : 0;
+  row.getCell(15).value = intra
+    ? { formula: `ROUND(${taxable}*M${n}/200,2)`, result: tax.sgst }
+    : 0;
+  row.getCell(16).value = intra
+    ? 0
+    : { formula: `ROUND(${taxable}*M${n}/100,2)`, result: tax.igst };
+  row.getCell(17).value = {
+    formula: `${taxable}+N${n}+O${n}+P${n}`,
+    result: tax.taxable + tax.tax,
+  };
+}
+
+function writeSummarySheet(
+  ws: ExcelJS.Worksheet,
+  header: VersionHeader,
+  sheets: SheetTotals[],
+  pricing: PricingResult,
+  gst: GstSummary,
+  projectState: string | null,
+) {
+  const headerRowNum = writeHeaderBlock(ws, header, "BOQ Summary");
+
+  ws.columns = [
+    { width: 6 },
+    { width: 34 },
+    { width: 20 },
+    { width: 16 },
+    { width: 16 },
+    { width: 16 },
+    { width: 14 },
+    { width: 14 },
+    { width: 14 },
+    { width: 18 },
+  ];
+  const headerRow = ws.getRow(headerRowNum);
+  headerRow.values = [
+    "S.No",
+    "Product",
+    "Estimator",
+    "Supply Amount",
+    "Install Amount",
+    "Total Amount",
+    "CGST",
+    "SGST",
+    "IGST",
+    "Total incl. GST",
+  ];
+  styleHeaderRow(headerRow);
+  ws.views = [{ state: "frozen", ySplit: headerRowNum }];
+
+  const firstDataRow = headerRowNum + 1;
+  sheets.forEach((s, i) => {
+    const n = firstDataRow + i;
+    const row = ws.getRow(n);
+    const ref = sheetRef(s.sheetName);
+    const subtotal = (col: string, result: number) => ({
+      formula: `${ref}!${col}${s.subtotalRow}`,
+      result,
+    });
+    row.getCell(1).value = i + 1;
+    row.getCell(2).value = {
+      text: s.productName,
+      hyperlink: `#${ref}!A1`,
+    };
+    row.getCell(2).font = { color: { argb: "FF1D4ED8" }, underline: true };
+    row.getCell(3).value = s.estimator;
+    row.getCell(4).value = subtotal("I", s.supply);
+    row.getCell(5).value = subtotal("J", s.install);
+    row.getCell(6).value = {
+      formula: `D${n}+E${n}`,
+      result: s.supply + s.install,
+    };
+    row.getCell(7).value = subtotal("N", s.cgst);
+    row.getCell(8).value = subtotal("O", s.sgst);
+    row.getCell(9).value = subtotal("P", s.igst);
+    row.getCell(10).value = subtotal("Q", s.quoted);
+  });
+
+  const lastDataRow = firstDataRow + sheets.length - 1;
+  const totalRow = ws.getRow(lastDataRow + 1);
+  const total = (
+    key: "supply" | "install" | "cgst" | "sgst" | "igst" | "quoted",
+  ) =>
+    sheets.reduce((sum, s) => sum + s[key], 0);
+  const supply = total("supply");
+  const install = total("install");
+  const sumOf = (col: string, result: number) =>
+    sheets.length > 0
+      ? { formula: `SUM(${col}${firstDataRow}:${col}${lastDataRow})`, result }
+      : 0;
+  totalRow.getCell(3).value = "Grand Total";
+  totalRow.getCell(4).value = sumOf("D", supply);
+  totalRow.getCell(5).value = sumOf("E", install);
+  totalRow.getCell(6).value = sumOf("F", supply + install);
+  totalRow.getCell(7).value = sumOf("G", total("cgst"));
+  totalRow.getCell(8).value = sumOf("H", total("sgst"));
+  totalRow.getCell(9).value = sumOf("I", total("igst"));
+  totalRow.getCell(10).value = sumOf("J", total("quoted"));
+  totalRow.font = { bold: true };
+  for (let c = 3; c <= 10; c++) {
+    totalRow.getCell(c).fill = TOTAL_FILL;
+    totalRow.getCell(c).border = { top: { style: "thin" } };
+  }
+
+  const gstRow = writePricingSummary(ws, lastDataRow + 3, pricing);
+  writeGstSummary(ws, gstRow, gst, projectState);
+
+  for (const c of [4, 5, 6, 7, 8, 9, 10]) ws.getColumn(c).numFmt = MONEY_FORMAT;
+}
+
+/**
+ * Overhead/contingency/margin/discount layers below the grand total (values,
+ * not formulas). Returns the next free row; nothing is written without layers.
+ */
+function writePricingSummary(
+  ws: ExcelJS.Worksheet,
+  startRow: number,
+  pricing: PricingResult,
+): number {
+  if (pricing.layers.length === 0) return startRow;
+
+  ws.getCell(`B${startRow}`).value = "Pricing Adjustments";
+  ws.getCell(`B${startRow}`).font = { bold: true, size: 12 };
+
+  const headerRow = ws.getRow(startRow + 1);
+  headerRow.values = [
+    "",
+    "Adjustment",
+    "Applied On",
+    "Supply Amount",
+    "Install Amount",
+    "Total Amount",
+  ];
+  styleHeaderRow(headerRow);
+
+  const writeAmounts = (row: ExcelJS.Row, a: PricingAmounts) => {
+    row.getCell(4).value = a.supply;
+    row.getCell(5).value = a.install;
+    row.getCell(6).value = a.supply + a.install;
+  };
+
+  let n = startRow + 2;
+  const baseRow = ws.getRow(n++);
+  baseRow.getCell(2).value = "BOQ amount";
+  writeAmounts(baseRow, pricing.base);
+
+  for (const layer of pricing.layers) {
+    const a = layer.adjustment;
+    const row = ws.getRow(n++);
+    row.getCell(2).value = pricingAdjustmentLabel(a);
+    row.getCell(3).value =
+      a.mode === "percent"
+        ? `${a.value}% of ${PRICING_BASIS_LABELS[a.basis]}`
+        : `Lump sum on ${PRICING_BASIS_LABELS[a.basis]}`;
+    writeAmounts(row, layer);
+  }
+
+  const totalRow = ws.getRow(n);
+  totalRow.getCell(3).value = "Quoted amount (before GST)";
+  writeAmounts(totalRow, pricing.final);
+  totalRow.font = { bold: true };
+  for (let c = 3; c <= 6; c++) {
+    totalRow.getCell(c).fill = TOTAL_FILL;
+    totalRow.getCell(c).border = { top: { style: "thin" } };
+  }
+
+  return n + 2;
+}
+
+/** Rate-wise GST breakdown below the grand total (values, not formulas). */
+function writeGstSummary(
+  ws: ExcelJS.Worksheet,
+  startRow: number,
+  gst: GstSummary,
+  projectState: string | null,
+) {
+  ws.getCell(`B${startRow}`).value = "GST Summary";
+  ws.getCell(`B${startRow}`).font = { bold: true, size: 12 };
+  ws.getCell(`C${startRow}`).value =
+    `Place of supply: ${projectState || "not recognised"}`;
+
+  const headerRow = ws.getRow(startRow + 1);
+  headerRow.values = [
+    "",
+    "GST Rate",
+    "Tax Type",
+    "Taxable Value",
+    "",
+    "",
+    "CGST",
+    "SGST",
+    "IGST",
+    "Total GST",
+  ];
+  styleHeaderRow(headerRow);
+
+  let n = startRow + 2;
+  for (const r of gst.rows) {
+    const row = ws.getRow(n++);
+    row.getCell(2).value = `${r.rate}%`;
+    row.getCell(3).value = supplyTypeLabel(r.supplyType);
+    row.getCell(4).value = r.taxable;
+    row.getCell(7).value = r.cgst;
+    row.getCell(8).value = r.sgst;
+    row.getCell(9).value = r.igst;
+    row.getCell(10).value = r.tax;
+  }
+  if (gst.unratedLines > 0) {
+    const row = ws.getRow(n++);
+    row.getCell(2).value = "No GST rate";
+    row.getCell(3).value = `${gst.unratedLines} line(s)`;
+    row.getCell(4).value = gst.unrated;
+    row.font = { italic: true, color: { argb: "FFB45309" } };
+  }
+
+  const totalRow = ws.getRow(n);
+  totalRow.getCell(3).value = "Total";
+  totalRow.getCell(4).value = gst.taxable;
+  totalRow.getCell(7).value = gst.cgst;
+  totalRow.getCell(8).value = gst.sgst;
+  totalRow.getCell(9).value = gst.igst;
+  totalRow.getCell(10).value = gst.tax;
+  totalRow.font = { bold: true };
+  for (let c = 3; c <= 10; c++) {
+    totalRow.getCell(c).fill = TOTAL_FILL;
+    totalRow.getCell(c).border = { top: { style: "thin" } };
+  }
+
+  const grandRow = ws.getRow(n + 1);
+  grandRow.getCell(3).value = "Grand Total incl. GST";
+  grandRow.getCell(10).value = gst.total;
+  grandRow.font = { bold: true };
+}
+
+/**
+ * Build the workbook for one BOQ version. Amounts and subtotals are written as
+ * formulas (with cached results) so edits in Excel recalculate.
+ */
+export async function buildBoqWorkbook(
+  header: VersionHeader,
+  rows: BoqRow[],
+  tax: BoqTaxContext,
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "BOQ";
+  workbook.created = header.updatedAt;
+  workbook.modified = header.updatedAt;
+
+  const pricing = applyPricingAdjustments(
+    rows.reduce(
+      (acc, r) => ({
+        supply: acc.supply + r.supplyAmount,
+        install: acc.install + r.installAmount,
+      }),
+      { supply: 0, install: 0 },
+    ),
+    header.pricingAdjustments,
+  );
+  const { lines, summary: gst } = applyBoqTax(rows, tax, pricing.factors);
+  const taxByRow = new Map(rows.map((r, i) => [r, lines[i]]));
+
+  // Summary goes first but is filled last, once the sheet subtotals are known
+  const summary = workbook.addWorksheet("Summary");
+  const usedNames = new Set<string>(["summary"]);
+  const sheets: SheetTotals[] = [];
+
+  for (const group of groupRowsByProduct(rows)) {
+    const sheetName = uniqueSheetName(group.productName, usedNames);
+    const ws = workbook.addWorksheet(sheetName);
+    const totals = writeProductSheet(
+      ws,
+      header,
+      group.productName,
+      group.rows,
+      group.rows.map((r) => taxByRow.get(r)!),
+      pricing.factors,
+    );
+    sheets.push({
+      sheetName,
+      productName: group.productName,
+      estimator: group.estimator,
+      ...totals,
+    });
+  }
+
+  writeSummarySheet(summary, header, sheets, pricing, gst, tax.projectState);
+
+  const data = await workbook.xlsx.writeBuffer();
+  return Buffer.from(data as ArrayBuffer);
+}
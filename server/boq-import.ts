@@ -0,0 +1,345 @@
+import ExcelJS from "exceljs";
+
+// Parsing and validation for client BOQ spreadsheets (.xlsx / .csv) imported
+// into a version as step11_items
+
+export const IMPORT_FIELDS = [
+  "s_no",
+  "title",
+  "description",
+  "location",
+  "unit",
+  "qty",
+  "supply_rate",
+  "install_rate",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Column index (0-based) per field; unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedSheet {
+  sheets: string[];
+  sheet: string;
+  /** All non-empty rows as display strings, header row included. */
+  rows: string[][];
+  /** 1-based spreadsheet row number of each entry in `rows`. */
+  rowNumbers: number[];
+}
+
+export interface ImportError {
+  row: number;
+  field: ImportField | null;
+  message: string;
+}
+
+export interface ImportResult {
+  items: any[];
+  errors: ImportError[];
+  /** Rows that only carry text (section headings) and were left out. */
+  skipped: number[];
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  s_no: ["s.no", "sno", "s no", "sl no", "sl.no", "sr no", "sr.no", "item no"],
+  title: ["item", "item name", "particulars", "name", "title"],
+  description: [
+    "description",
+    "item description",
+    "specification",
+    "specifications",
+    "details",
+  ],
+  location: ["location", "area", "room", "floor"],
+  unit: ["unit", "uom", "units"],
+  qty: ["qty", "quantity", "qnty", "nos"],
+  supply_rate: ["supply rate", "rate", "supply", "material rate", "unit rate"],
+  install_rate: [
+    "install rate",
+    "installation rate",
+    "installation",
+    "labour rate",
+    "labor rate",
+  ],
+};
+
+const normalizeHeader = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[()₹:]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export function isSpreadsheetName(filename: string): "xlsx" | "csv" | null {
+  const ext = filename.toLowerCase().split(".").pop();
+  if (ext === "xlsx") return "xlsx";
+  if (ext === "csv") return "csv";
+  return null;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return value.richText.map((t) => t.text).join("");
+    if ("text" in value) return String(value.text);
+    if ("error" in value) return "";
+  }
+  return String(value).trim();
+}
+
+/**
+ * RFC 4180-ish: quoted fields may contain commas, doubled quotes and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export async function parseSpreadsheet(
+  buffer: Buffer,
+  filename: string,
+  sheetName?: string,
+): Promise<ParsedSheet> {
+  if (isSpreadsheetName(filename) === "csv") {
+    const rows: string[][] = [];
+    const rowNumbers: number[] = [];
+    parseCsv(buffer.toString("utf8")).forEach((r, i) => {
+      if (r.some((c) => c !== "")) {
+        rows.push(r);
+        rowNumbers.push(i + 1);
+      }
+    });
+    return { sheets: [], sheet: "", rows, rowNumbers };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+  const sheets = workbook.worksheets.map((ws) => ws.name);
+  const ws =
+    (sheetName && workbook.getWorksheet(sheetName)) || workbook.worksheets[0];
+  if (!ws) return { sheets, sheet: "", rows: [], rowNumbers: [] };
+
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  ws.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let c = 1; c <= ws.columnCount; c++) {
+      cells.push(cellText(row.getCell(c).value));
+    }
+    if (cells.some((c) => c !== "")) {
+      rows.push(cells);
+      rowNumbers.push(rowNumber);
+    }
+  });
+
+  return { sheets, sheet: ws.name, rows, rowNumbers };
+}
+
+function matchField(header: string): ImportField | null {
+  const h = normalizeHeader(header);
+  if (!h) return null;
+  for (const field of IMPORT_FIELDS) {
+    if (HEADER_ALIASES[field].includes(h)) return field;
+  }
+  return null;
+}
+
+/**
+ * Client BOQs usually start with a title block; the header is the first of the
+ * top rows that names at least two known columns.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  const limit = Math.min(rows.length, 20);
+  for (let i = 0; i < limit; i++) {
+    const matches = rows[i].filter((c) => matchField(c) !== null).length;
+    if (matches >= 2) return i;
+  }
+  return 0;
+}
+
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  headers.forEach((header, idx) => {
+    const field = matchField(header);
+    if (field && mapping[field] === undefined) mapping[field] = idx;
+  });
+  return mapping;
+}
+
+/** Parse "₹1,250.50", "Rs. 300", "12 nos" style cells. */
+function parseNumber(raw: string): number | null {
+  const cleaned = raw
+    .replace(/₹|rs\.?|inr/gi, "")
+    .replace(/,/g, "")
+    .replace(/(\d)\s*[a-z]+\.?$/i, "$1")
+    .trim();
+  if (cleaned === "") return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+const NUMERIC_FIELDS: ImportField[] = ["qty", "supply_rate", "install_rate"];
+
+/**
+ * Turn mapped data rows into step11_items, collecting per-cell errors.
+ * `rowNumbers` are the spreadsheet row numbers used in messages.
+ */
+export function buildImportItems(
+  rows: string[][],
+  mapping: ColumnMapping,
+  rowNumbers: number[],
+): ImportResult {
+  const items: any[] = [];
+  const errors: ImportError[] = [];
+  const skipped: number[] = [];
+  const get = (row: string[], field: ImportField) =>
+    mapping[field] === undefined ? "" : (row[mapping[field]!] ?? "").trim();
+
+  if (mapping.qty === undefined) {
+    errors.push({ row: 0, field: "qty", message: "Qty column is not mapped" });
+  }
+  if (mapping.title === undefined && mapping.description === undefined) {
+    errors.push({
+      row: 0,
+      field: "title",
+      message: "Map an Item or Description column",
+    });
+  }
+  if (errors.length > 0) return { items, errors, skipped };
+
+  rows.forEach((row, idx) => {
+    const rowNumber = rowNumbers[idx] ?? idx + 1;
+    const values = Object.fromEntries(
+      IMPORT_FIELDS.map((f) => [f, get(row, f)]),
+    ) as Record<ImportField, string>;
+
+    if (IMPORT_FIELDS.every((f) => values[f] === "")) return;
+
+    // Heading rows ("A. CIVIL WORKS") have text but no quantities or rates
+    if (NUMERIC_FIELDS.every((f) => values[f] === "")) {
+      skipped.push(rowNumber);
+      return;
+    }
+
+    const numbers: Partial<Record<ImportField, number>> = {};
+    let rowValid = true;
+    for (const field of NUMERIC_FIELDS) {
+      const n = parseNumber(values[field]);
+      if (n === null) {
+        if (field === "qty") {
+          errors.push({ row: rowNumber, field, message: "Qty is required" });
+          rowValid = false;
+        }
+        numbers[field] = 0;
+      } else if (Number.isNaN(n)) {
+        errors.push({
+          row: rowNumber,
+          field,
+          message: `"${values[field]}" is not a number`,
+        });
+        rowValid = false;
+      } else if (n < 0) {
+        errors.push({ row: rowNumber, field, message: "Cannot be negative" });
+        rowValid = false;
+      } else {
+        numbers[field] = n;
+      }
+    }
+
+    if (!values.title && !values.description) {
+      errors.push({
+        row: rowNumber,
+        field: "title",
+        message: "Item or description is required",
+      });
+      rowValid = false;
+    }
+
+    if (!rowValid) return;
+
+    const qty = numbers.qty!;
+    const supplyRate = numbers.supply_rate!;
+    const installRate = numbers.install_rate!;
+    const sNo = parseNumber(values.s_no);
+    items.push({
+      id: `import-${items.length + 1}`,
+      s_no:
+        sNo !== null && !Number.isNaN(sNo)
+          ? sNo
+          : values.s_no || items.length + 1,
+      estimator: "imported",
+      title: values.title || values.description,
+      description: values.title ? values.description : "",
+      location: values.location,
+      unit: values.unit || "pcs",
+      qty,
+      supply_rate: supplyRate,
+      install_rate: installRate,
+      supply_amount: qty * supplyRate,
+      install_amount: qty * installRate,
+    });
+  });
+
+  return { items, errors, skipped };
+}
+
+/**
+ * Mapping arrives as a JSON query param; keep only known fields with sane
+ * column indexes.
+ */
+export function parseMappingParam(raw: unknown): ColumnMapping {
+  if (typeof raw !== "string" || !raw) return {};
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const idx = Number(parsed?.[field]);
+    if (parsed?.[field] !== null && Number.isInteger(idx) && idx >= 0) {
+      mapping[field] = idx;
+    }
+  }
+  return mapping;
+}
@@ -0,0 +1,63 @@
+import type { PoolClient } from "pg";
+import { query } from "./db/client";
+import { BOQ_STATUS_LABELS, isVersionEditable } from "@shared/boq-workflow";
+
+// Guards that keep items of non-draft BOQ versions read-only
+
+export interface VersionLock {
+  versionId: string;
+  status: string;
+  message: string;
+}
+
+const lockFor = (versionId: string, status: string): VersionLock => ({
+  versionId,
+  status,
+  message: `Version is ${(BOQ_STATUS_LABELS as Record<string, string>)[status] || status}; only draft versions can be changed`,
+});
+
+/** Null when the version is a draft (or does not exist). */
+export async function findVersionLock(
+  versionId: string | null | undefined,
+): Promise<VersionLock | null> {
+  if (!versionId) return null;
+  const result = await query(`SELECT status FROM boq_versions WHERE id = $1`, [
+    versionId,
+  ]);
+  const status = result.rows[0]?.status;
+  if (!result.rows[0] || isVersionEditable(status)) return null;
+  return lockFor(versionId, status);
+}
+
+/**
+ * findVersionLock inside a transaction: the version row stays locked until
+ * COMMIT, so a submit or approval cannot land between the check and the
+ * writes that follow it.
+ */
+export async function lockVersionForEdit(
+  client: PoolClient,
+  versionId: string,
+): Promise<VersionLock | null> {
+  const result = await client.query(
+    `SELECT status FROM boq_versions WHERE id = $1 FOR UPDATE`,
+    [versionId],
+  );
+  const status = result.rows[0]?.status;
+  if (!result.rows[0] || isVersionEditable(status)) return null;
+  return lockFor(versionId, status);
+}
+
+/** Lock of the version an existing boq_items row belongs to. */
+export async function findItemLock(
+  itemId: string,
+): Promise<VersionLock | null> {
+  const result = await query(
+    `SELECT v.id, v.status FROM boq_items i
+     JOIN boq_versions v ON v.id = i.version_id
+     WHERE i.id = $1`,
+    [itemId],
+  );
+  const row = result.rows[0];
+  if (!row || isVersionEditable(row.status)) return null;
+  return lockFor(row.id, row.status);
+}
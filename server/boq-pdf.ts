@@ -0,0 +1,501 @@
+import { jsPDF } from "jspdf";
+import autoTable, { type RowInput, type UserOptions } from "jspdf-autotable";
+import {
+  groupRowsByProduct,
+  type BoqRow,
+  type VersionHeader,
+} from "./boq-rows";
+import { applyBoqTax, type BoqTaxContext } from "./boq-tax";
+import {
+  supplyTypeLabel,
+  type GstSummary,
+  type LineTax,
+  type LineTaxInfo,
+} from "@shared/gst";
+import {
+  PRICING_BASIS_LABELS,
+  applyPricingAdjustments,
+  pricingAdjustmentLabel,
+  type PricingResult,
+} from "@shared/boq-pricing";
+import { computeBudgetVariance } from "@shared/boq-budget";
+
+// Server-rendered BOQ PDF. Output depends only on the saved version, so the
+// same version always produces the same document.
+
+const PAGE_MARGIN = 12;
+const HEADER_HEIGHT = 34;
+const FORWARD_LINE_HEIGHT = 7;
+const FOOTER_HEIGHT = 16;
+
+const HEAD = [
+  "S.No",
+  "Item",
+  "Description",
+  "Location",
+  "Unit",
+  "Qty",
+  "Supply Rate",
+  "Install Rate",
+  "Supply Amt",
+  "Install Amt",
+  "Total",
+  "HSN/SAC",
+  "GST",
+];
+
+const AMOUNT_COLUMNS = [8, 9, 10, 12];
+
+interface Totals {
+  supply: number;
+  install: number;
+}
+
+const money = (n: number) =>
+  n.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const qtyText = (n: number) =>
+  n.toLocaleString("en-IN", { maximumFractionDigits: 3 });
+
+/**
+ * jsPDF stamps the current time and a random file id into every document;
+ * pin both to the version so repeated downloads are byte-identical.
+ */
+function makeDeterministic(doc: jsPDF, header: VersionHeader) {
+  doc.setCreationDate(header.updatedAt);
+  const seed = `${header.id}${header.versionNumber}${header.updatedAt.getTime()}`;
+  let hex = "";
+  for (let i = 0; hex.length < 32; i++) {
+    hex += seed.charCodeAt(i % seed.length).toString(16);
+  }
+  doc.setFileId(hex.slice(0, 32).toUpperCase());
+  doc.setDocumentProperties({
+    title: `${header.projectName} V${header.versionNumber} BOQ`,
+    subject: "Bill of Quantities",
+  });
+}
+
+/** "12,00,000.00 (quoted 104.5%, over by 54,000.00)" for the header block. */
+function budgetText(budget: number | null, quoted: number): string {
+  const v = computeBudgetVariance(budget, quoted);
+  if (v.budget === null || v.variance === null) return "";
+  const diff =
+    v.variance > 0
+      ? `over by ${money(v.variance)}`
+      : `${money(-v.variance)} remaining`;
+  return `${money(v.budget)} (quoted ${v.usedPercent}%, ${diff})`;
+}
+
+function drawHeaderBlock(doc: jsPDF, header: VersionHeader, quoted: number) {
+  const width = doc.internal.pageSize.getWidth();
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(15);
+  doc.text("BILL OF QUANTITIES", PAGE_MARGIN, PAGE_MARGIN + 4);
+
+  doc.setFontSize(9);
+  const details: [string, string][] = [
+    ["Project", header.projectName],
+    ["Client", header.projectClient],
+    ["Location", header.projectLocation],
+    ["Budget", budgetText(header.budgetAmount, quoted)],
+  ];
+  details.forEach(([label, value], i) => {
+    const y = PAGE_MARGIN + 11 + i * 5;
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, PAGE_MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(value || "—", PAGE_MARGIN + 20, y);
+  });
+
+  doc.setFont("helvetica", "bold");
+  doc.text(
+    `Version V${header.versionNumber}`,
+    width - PAGE_MARGIN,
+    PAGE_MARGIN + 11,
+    { align: "right" },
+  );
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `Status: ${header.status.toUpperCase()}`,
+    width - PAGE_MARGIN,
+    PAGE_MARGIN + 16,
+    { align: "right" },
+  );
+  doc.text(
+    `Last updated: ${header.updatedAt.toISOString().slice(0, 10)}`,
+    width - PAGE_MARGIN,
+    PAGE_MARGIN + 21,
+    { align: "right" },
+  );
+}
+
+function drawForwardLine(doc: jsPDF, label: string, totals: Totals, y: number) {
+  const width = doc.internal.pageSize.getWidth();
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(8);
+  doc.text(
+    `${label}:  Supply ${money(totals.supply)}   Install ${money(totals.install)}   Total ${money(totals.supply + totals.install)}`,
+    width - PAGE_MARGIN,
+    y,
+    { align: "right" },
+  );
+}
+
+const taxCodeText = (tax: LineTaxInfo) =>
+  tax.codeValue
+    ? `${tax.codeValue}${tax.rate !== null ? ` @${tax.rate}%` : ""}`
+    : "—";
+
+function buildBody(
+  rows: BoqRow[],
+  taxes: Map<BoqRow, LineTaxInfo & LineTax>,
+): {
+  body: RowInput[];
+  amounts: (Totals | null)[];
+} {
+  const body: RowInput[] = [];
+  // amounts[i] is set for item rows only, so section headers and subtotal
+  // rows do not count towards carried-forward totals
+  const amounts: (Totals | null)[] = [];
+  let sno = 1;
+
+  for (const group of groupRowsByProduct(rows)) {
+    body.push([
+      {
+        content: `${group.productName}  (${group.estimator})`,
+        colSpan: HEAD.length,
+        styles: { fontStyle: "bold", fillColor: [229, 231, 235] },
+      },
+    ]);
+    amounts.push(null);
+
+    let supply = 0;
+    let install = 0;
+    let gst = 0;
+    for (const r of group.rows) {
+      const tax = taxes.get(r)!;
+      body.push([
+        String(sno++),
+        r.title,
+        r.description,
+        r.location,
+        r.unit,
+        qtyText(r.qty),
+        money(r.supplyRate),
+        money(r.installRate),
+        money(r.supplyAmount),
+        money(r.installAmount),
+        money(r.supplyAmount + r.installAmount),
+        taxCodeText(tax),
+        tax.rate !== null ? money(tax.tax) : "—",
+      ]);
+      amounts.push({ supply: r.supplyAmount, install: r.installAmount });
+      supply += r.supplyAmount;
+      install += r.installAmount;
+      gst += tax.tax;
+    }
+
+    body.push([
+      {
+        content: `Subtotal – ${group.productName}`,
+        colSpan: 8,
+        styles: { halign: "right", fontStyle: "bold" },
+      },
+      { content: money(supply), styles: { fontStyle: "bold" } },
+      { content: money(install), styles: { fontStyle: "bold" } },
+      { content: money(supply + install), styles: { fontStyle: "bold" } },
+      "",
+      { content: money(gst), styles: { fontStyle: "bold" } },
+    ]);
+    amounts.push(null);
+  }
+
+  return { body, amounts };
+}
+
+const SUMMARY_TABLE_OPTIONS: UserOptions = {
+  margin: {
+    top: PAGE_MARGIN + FORWARD_LINE_HEIGHT,
+    bottom: FOOTER_HEIGHT,
+    left: PAGE_MARGIN,
+    right: PAGE_MARGIN,
+  },
+  tableWidth: 170,
+  theme: "grid",
+  rowPageBreak: "avoid",
+  styles: { fontSize: 7.5, cellPadding: 1.5 },
+  headStyles: { fillColor: [55, 65, 81], textColor: 255, fontSize: 8 },
+  footStyles: { fillColor: [243, 244, 246], textColor: 20, fontSize: 8 },
+};
+
+/**
+ * Overhead/contingency/margin/discount layers after the BOQ. Returns where
+ * the next table should start.
+ */
+function drawPricingSummary(
+  doc: jsPDF,
+  pricing: PricingResult,
+  startY: number,
+): number {
+  if (pricing.layers.length === 0) return startY;
+
+  const amounts = (a: { supply: number; install: number }) => [
+    money(a.supply),
+    money(a.install),
+    money(a.supply + a.install),
+  ];
+  let endY = startY;
+
+  autoTable(doc, {
+    ...SUMMARY_TABLE_OPTIONS,
+    head: [
+      [{ content: "Pricing Adjustments", colSpan: 5 }],
+      ["Adjustment", "Applied On", "Supply", "Install", "Total"],
+    ],
+    body: [
+      ["BOQ amount", "", ...amounts(pricing.base)],
+      ...pricing.layers.map((layer) => {
+        const a = layer.adjustment;
+        return [
+          pricingAdjustmentLabel(a),
+          a.mode === "percent"
+            ? `${a.value}% of ${PRICING_BASIS_LABELS[a.basis]}`
+            : `Lump sum on ${PRICING_BASIS_LABELS[a.basis]}`,
+          ...amounts(layer),
+        ];
+      }),
+    ],
+    foot: [
+      [
+        { content: "Quoted amount (before GST)", colSpan: 2 },
+        ...amounts(pricing.final),
+      ],
+    ],
+    startY,
+    columnStyles: {
+      2: { halign: "right" },
+      3: { halign: "right" },
+      4: { halign: "right" },
+    },
+    didDrawPage: (data) => {
+      endY = data.cursor?.y ?? endY;
+    },
+  });
+
+  return endY + 6;
+}
+
+/** Rate-wise GST table drawn after the BOQ on the last page. */
+function drawGstSummary(
+  doc: jsPDF,
+  gst: GstSummary,
+  projectState: string | null,
+  startY: number,
+) {
+  const body: RowInput[] = gst.rows.map((r) => [
+    `${r.rate}%`,
+    supplyTypeLabel(r.supplyType),
+    money(r.taxable),
+    money(r.cgst),
+    money(r.sgst),
+    money(r.igst),
+    money(r.tax),
+  ]);
+  if (gst.unratedLines > 0) {
+    body.push([
+      {
+        content: `No GST rate (${gst.unratedLines} line(s))`,
+        colSpan: 2,
+        styles: { fontStyle: "italic" },
+      },
+      money(gst.unrated),
+      "—",
+      "—",
+      "—",
+      "—",
+    ]);
+  }
+
+  autoTable(doc, {
+    head: [
+      [
+        {
+          content: `GST Summary — place of supply: ${projectState || "not recognised"}`,
+          colSpan: 7,
+        },
+      ],
+      ["Rate", "Tax Type", "Taxable Value", "CGST", "SGST", "IGST", "Total GST"],
+    ],
+    body,
+    foot: [
+      [
+        { content: "Total", colSpan: 2 },
+        money(gst.taxable),
+        money(gst.cgst),
+        money(gst.sgst),
+        money(gst.igst),
+        money(gst.tax),
+      ],
+      [
+        {
+          content: "Grand Total incl. GST",
+          colSpan: 6,
+          styles: { halign: "right" },
+        },
+        money(gst.total),
+      ],
+    ],
+    startY,
+    ...SUMMARY_TABLE_OPTIONS,
+    columnStyles: {
+      2: { halign: "right" },
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+    },
+  });
+}
+
+export function buildBoqPdf(
+  header: VersionHeader,
+  rows: BoqRow[],
+  tax: BoqTaxContext,
+): Buffer {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "landscape" });
+  makeDeterministic(doc, header);
+
+  const grand: Totals = rows.reduce(
+    (acc, r) => ({
+      supply: acc.supply + r.supplyAmount,
+      install: acc.install + r.installAmount,
+    }),
+    { supply: 0, install: 0 },
+  );
+  const pricing = applyPricingAdjustments(grand, header.pricingAdjustments);
+  const { lines, summary: gst } = applyBoqTax(rows, tax, pricing.factors);
+  const { body, amounts } = buildBody(
+    rows,
+    new Map(rows.map((r, i) => [r, lines[i]])),
+  );
+
+  // Running totals of item rows drawn so far, and the totals / table end
+  // position as of the end of each page
+  const running: Totals = { supply: 0, install: 0 };
+  const pageTotals: Record<number, Totals & { endY: number }> = {};
+
+  drawHeaderBlock(doc, header, pricing.final.supply + pricing.final.install);
+
+  autoTable(doc, {
+    head: [HEAD],
+    body,
+    foot: [
+      [
+        {
+          content: "Grand Total",
+          colSpan: 8,
+          styles: { halign: "right" },
+        },
+        money(grand.supply),
+        money(grand.install),
+        money(grand.supply + grand.install),
+        "",
+        money(gst.tax),
+      ],
+    ],
+    startY: PAGE_MARGIN + HEADER_HEIGHT,
+    margin: {
+      top: PAGE_MARGIN + FORWARD_LINE_HEIGHT,
+      bottom: FOOTER_HEIGHT,
+      left: PAGE_MARGIN,
+      right: PAGE_MARGIN,
+    },
+    theme: "grid",
+    showHead: "everyPage",
+    showFoot: "lastPage",
+    rowPageBreak: "avoid",
+    styles: { fontSize: 7.5, cellPadding: 1.5, valign: "top" },
+    headStyles: { fillColor: [55, 65, 81], textColor: 255, fontSize: 8 },
+    footStyles: { fillColor: [243, 244, 246], textColor: 20, fontSize: 8 },
+    columnStyles: {
+      0: { cellWidth: 9 },
+      1: { cellWidth: 32 },
+      2: { cellWidth: "auto" },
+      3: { cellWidth: 20 },
+      4: { cellWidth: 11 },
+      5: { cellWidth: 13, halign: "right" },
+      6: { cellWidth: 18, halign: "right" },
+      7: { cellWidth: 18, halign: "right" },
+      8: { cellWidth: 21, halign: "right" },
+      9: { cellWidth: 21, halign: "right" },
+      10: { cellWidth: 23, halign: "right" },
+      11: { cellWidth: 20 },
+      12: { cellWidth: 19, halign: "right" },
+    },
+    didParseCell: (data) => {
+      if (
+        data.section !== "body" &&
+        AMOUNT_COLUMNS.includes(data.column.index)
+      ) {
+        data.cell.styles.halign = "right";
+      }
+    },
+    didDrawCell: (data) => {
+      if (data.section !== "body" || data.column.index !== 0) return;
+      const amount = amounts[data.row.index];
+      if (!amount) return;
+      running.supply += amount.supply;
+      running.install += amount.install;
+    },
+    didDrawPage: (data) => {
+      pageTotals[data.pageNumber] = {
+        ...running,
+        endY: data.cursor?.y ?? 0,
+      };
+    },
+  });
+
+  // Forward lines only belong to the BOQ pages, not to a page the pricing or
+  // GST summary spills onto
+  const boqPageCount = doc.getNumberOfPages();
+  const gstStartY = drawPricingSummary(
+    doc,
+    pricing,
+    (pageTotals[boqPageCount]?.endY ?? PAGE_MARGIN + HEADER_HEIGHT) + 8,
+  );
+  drawGstSummary(doc, gst, tax.projectState, gstStartY);
+
+  // Forward lines and page numbers need the final page count
+  const pageCount = doc.getNumberOfPages();
+  const height = doc.internal.pageSize.getHeight();
+  const width = doc.internal.pageSize.getWidth();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    const previous = pageTotals[page - 1];
+    const current = pageTotals[page];
+
+    if (page > 1 && page <= boqPageCount && previous) {
+      drawForwardLine(doc, "Brought forward", previous, PAGE_MARGIN + 4);
+    }
+    if (page < boqPageCount && current) {
+      drawForwardLine(doc, "Carried forward", current, current.endY + 5);
+    }
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(
+      `${header.projectName} — V${header.versionNumber}`,
+      PAGE_MARGIN,
+      height - 6,
+    );
+    doc.text(`Page ${page} of ${pageCount}`, width - PAGE_MARGIN, height - 6, {
+      align: "right",
+    });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { flattenBoqItems, localizeBoqRows, type BoqRow } from "./boq-rows";
+import { applyBoqTax, type BoqTaxContext } from "./boq-tax";
+
+// Exports convert the saved feet lines for metric projects; the amounts,
+// GST and grand total must stay what CreateBoq shows.
+
+const rows = flattenBoqItems([
+  {
+    id: "item-1",
+    estimator: "flooring",
+    table_data: {
+      product_name: "Flooring",
+      step11_items: [
+        { title: "Tile", unit: "sqft", qty: 100, supply_rate: 100 },
+        {
+          title: "Skirting",
+          unit: "rft",
+          qty: 37.5,
+          supply_rate: 48.5,
+          install_rate: 12.25,
+        },
+        { title: "Adhesive", unit: "bag", qty: 7, supply_rate: 420 },
+        { title: "Screed", unit: "cft", qty: 33.33, install_rate: 91 },
+      ],
+    },
+  },
+]);
+
+const tax: BoqTaxContext = {
+  projectState: "Karnataka",
+  lines: rows.map((r) => ({
+    itemId: r.itemId,
+    rowIndex: r.rowIndex,
+    codeType: "hsn",
+    codeValue: "6907",
+    rate: 18,
+    supplyType: "intra",
+    supplierState: "Karnataka",
+  })),
+};
+
+const total = (list: BoqRow[]) =>
+  list.reduce((s, r) => s + r.supplyAmount + r.installAmount, 0);
+
+describe("localizeBoqRows", () => {
+  const metric = localizeBoqRows(rows, "metric");
+
+  it("converts units, quantities and rates", () => {
+    assert.deepEqual(
+      metric.map((r) => r.unit),
+      ["sqm", "rm", "bag", "cum"],
+    );
+    assert.ok(Math.abs(metric[0].qty - 9.290304) < 1e-9);
+    assert.ok(Math.abs(metric[0].supplyRate * metric[0].qty - 10000) < 1e-6);
+    assert.equal(metric[2], rows[2]);
+  });
+
+  it("keeps every line amount", () => {
+    metric.forEach((r, i) => {
+      assert.equal(r.supplyAmount, rows[i].supplyAmount);
+      assert.equal(r.installAmount, rows[i].installAmount);
+    });
+    assert.equal(metric[0].supplyAmount, 10000);
+  });
+
+  it("keeps the imperial grand total", () => {
+    const imperial = applyBoqTax(rows, tax).summary;
+    const localized = applyBoqTax(metric, tax).summary;
+    assert.equal(total(metric), total(rows));
+    assert.equal(localized.tax, imperial.tax);
+    assert.equal(localized.total, imperial.total);
+  });
+
+  it("leaves imperial rows as they are", () => {
+    assert.deepEqual(localizeBoqRows(rows, "imperial"), rows);
+  });
+});
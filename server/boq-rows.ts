@@ -0,0 +1,216 @@
+import { query } from "./db/client";
+import {
+  readPricingAdjustments,
+  type PricingAdjustment,
+} from "@shared/boq-pricing";
+import { parseBudgetAmount } from "@shared/boq-budget";
+import {
+  parseUnitSystem,
+  unitInSystem,
+  type UnitSystem,
+} from "@shared/units";
+
+// Flattened view of boq_items.table_data.step11_items, one entry per BOQ line
+
+export interface BoqRow {
+  itemId: string;
+  rowIndex: number;
+  estimator: string;
+  productName: string;
+  title: string;
+  description: string;
+  location: string;
+  unit: string;
+  qty: number;
+  supplyRate: number;
+  installRate: number;
+  supplyAmount: number;
+  installAmount: number;
+  /** Tax sources carried on the line itself; see boq-tax.ts for fallbacks. */
+  productId: string | null;
+  taxCodeType: string | null;
+  taxCodeValue: string | null;
+  shopId: string | null;
+}
+
+export interface BoqItemRecord {
+  id: string;
+  estimator: string;
+  table_data: any;
+}
+
+const num = (v: unknown) => {
+  const n = typeof v === "number" ? v : parseFloat(String(v ?? ""));
+  return Number.isFinite(n) ? n : 0;
+};
+
+export function parseTableData(raw: unknown): any {
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  return raw || {};
+}
+
+/**
+ * Same row shape CreateBoq renders: amounts are always qty × rate so a stale
+ * supply_amount/install_amount in table_data cannot skew totals.
+ */
+export function flattenBoqItems(items: BoqItemRecord[]): BoqRow[] {
+  const rows: BoqRow[] = [];
+
+  for (const item of items) {
+    const tableData = parseTableData(item.table_data);
+    const step11Items: any[] = tableData.step11_items || [];
+    const productName = tableData.product_name || item.estimator;
+    const productId = tableData.product_id ? String(tableData.product_id) : null;
+
+    step11Items.forEach((s, rowIndex) => {
+      const qty = num(s.qty);
+      const supplyRate = num(s.supply_rate);
+      const installRate = num(s.install_rate);
+      rows.push({
+        itemId: item.id,
+        rowIndex,
+        estimator: item.estimator,
+        productName,
+        title: s.title || productName,
+        description: s.description || "",
+        location: s.location || "",
+        unit: s.unit || "pcs",
+        qty,
+        supplyRate,
+        installRate,
+        supplyAmount: qty * supplyRate,
+        installAmount: qty * installRate,
+        productId,
+        taxCodeType: s.tax_code_type || null,
+        taxCodeValue: s.tax_code_value ? String(s.tax_code_value) : null,
+        shopId: s.shop_id ? String(s.shop_id) : null,
+      });
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Rows in the project's unit system for export. Quantities and rates are
+ * converted unrounded (the documents format them) and the amounts are kept,
+ * so line totals, GST and the budget match CreateBoq in either system.
+ */
+export function localizeBoqRows(
+  rows: BoqRow[],
+  system: UnitSystem,
+): BoqRow[] {
+  return rows.map((row) => {
+    const target = unitInSystem(row.unit, system);
+    if (target.factor === 1) return row;
+    return {
+      ...row,
+      unit: target.unit,
+      qty: row.qty * target.factor,
+      supplyRate: row.supplyRate / target.factor,
+      installRate: row.installRate / target.factor,
+    };
+  });
+}
+
+export async function loadVersionItems(
+  versionId: string,
+): Promise<BoqItemRecord[]> {
+  const result = await query(
+    `SELECT id, estimator, table_data FROM boq_items
+     WHERE version_id = $1 AND user_added = true ORDER BY created_at ASC`,
+    [versionId],
+  );
+  return result.rows;
+}
+
+export async function loadVersionRows(versionId: string): Promise<BoqRow[]> {
+  return flattenBoqItems(await loadVersionItems(versionId));
+}
+
+export interface VersionHeader {
+  id: string;
+  projectId: string;
+  projectName: string;
+  projectClient: string;
+  projectLocation: string;
+  versionNumber: number;
+  status: string;
+  updatedAt: Date;
+  pricingAdjustments: PricingAdjustment[];
+  /** Overall project budget; null when none is set. */
+  budgetAmount: number | null;
+  unitSystem: UnitSystem;
+}
+
+/**
+ * Project/version details printed at the top of exported documents. Older
+ * versions predate the project_* snapshot columns, so fall back to the project.
+ */
+export async function loadVersionHeader(
+  versionId: string,
+): Promise<VersionHeader | null> {
+  const result = await query(
+    `SELECT v.id, v.project_id, v.version_number, v.status, v.updated_at,
+            v.pricing_adjustments, p.budget_amount, p.unit_system,
+            COALESCE(v.project_name, p.name) AS project_name,
+            COALESCE(v.project_client, p.client) AS project_client,
+            COALESCE(v.project_location, p.location) AS project_location
+     FROM boq_versions v
+     LEFT JOIN boq_projects p ON p.id = v.project_id
+     WHERE v.id = $1`,
+    [versionId],
+  );
+  const v = result.rows[0];
+  if (!v) return null;
+  return {
+    id: v.id,
+    projectId: v.project_id,
+    projectName: v.project_name || "",
+    projectClient: v.project_client || "",
+    projectLocation: v.project_location || "",
+    versionNumber: Number(v.version_number),
+    status: v.status || "draft",
+    updatedAt: new Date(v.updated_at),
+    pricingAdjustments: readPricingAdjustments(v.pricing_adjustments),
+    budgetAmount: parseBudgetAmount(v.budget_amount),
+    unitSystem: parseUnitSystem(v.unit_system),
+  };
+}
+
+/**
+ * Group rows by the product they were added from, keeping first-seen order.
+ * Used for per-product sheets/sections in exports.
+ */
+export function groupRowsByProduct(
+  rows: BoqRow[],
+): { estimator: string; productName: string; rows: BoqRow[] }[] {
+  const groups = new Map<
+    string,
+    { estimator: string; productName: string; rows: BoqRow[] }
+  >();
+  for (const row of rows) {
+    const key = `${row.estimator}|${row.productName}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        estimator: row.estimator,
+        productName: row.productName,
+        rows: [],
+      });
+    }
+    groups.get(key)!.rows.push(row);
+  }
+  return Array.from(groups.values());
+}
+
+/** `<Project>_V<n>_BOQ.<ext>`, matching the names CreateBoq used client-side. */
+export function boqFilename(header: VersionHeader, ext: string): string {
+  const project = (header.projectName || "BOQ").replace(/[^\w\- ]+/g, "_");
+  return `${project}_V${header.versionNumber}_BOQ.${ext}`;
+}
@@ -0,0 +1,243 @@
+import { query } from "./db/client";
+import type { BoqRow, VersionHeader } from "./boq-rows";
+import {
+  computeLineTax,
+  determineSupplyType,
+  findGstRate,
+  isTaxCodeType,
+  normalizeTaxCode,
+  resolveIndianState,
+  summarizeGst,
+  type GstRate,
+  type GstSummary,
+  type LineTax,
+  type LineTaxInfo,
+  type TaxCodeType,
+} from "@shared/gst";
+import type { PricingAmounts } from "@shared/boq-pricing";
+
+// Resolves the HSN/SAC code and supplier state of every BOQ line and applies
+// the gst_rates table to it
+
+export interface BoqLineTaxInfo extends LineTaxInfo {
+  itemId: string;
+  rowIndex: number;
+}
+
+export interface BoqTaxContext {
+  projectState: string | null;
+  lines: BoqLineTaxInfo[];
+}
+
+interface TaxSource {
+  codeType: TaxCodeType | null;
+  codeValue: string | null;
+  state: string | null;
+}
+
+const lineKey = (itemId: string, rowIndex: number) => `${itemId}:${rowIndex}`;
+
+export async function loadGstRates(): Promise<GstRate[]> {
+  const result = await query(
+    `SELECT id, code_type, code_prefix, rate, description
+     FROM gst_rates ORDER BY code_type, code_prefix`,
+  );
+  return result.rows.map((r: any) => ({
+    id: r.id,
+    code_type: r.code_type,
+    code_prefix: r.code_prefix,
+    rate: Number(r.rate),
+    description: r.description,
+  }));
+}
+
+const sourceFrom = (row: any): TaxSource => ({
+  codeType: isTaxCodeType(row.tax_code_type) ? row.tax_code_type : null,
+  codeValue: row.tax_code_value || null,
+  state: row.state || null,
+});
+
+/**
+ * BOQ lines are copied from Step 11 by name, so the supplying material is
+ * matched the same way. Materials whose template has a tax code win.
+ */
+async function loadMaterialSources(
+  names: string[],
+): Promise<Map<string, TaxSource>> {
+  const sources = new Map<string, TaxSource>();
+  if (names.length === 0) return sources;
+
+  const result = await query(
+    `SELECT LOWER(TRIM(m.name)) AS name, LOWER(TRIM(t.name)) AS template_name,
+            t.tax_code_type, t.tax_code_value, s.state
+     FROM materials m
+     LEFT JOIN material_templates t ON t.id = m.template_id
+     LEFT JOIN shops s ON s.id = m.shop_id
+     WHERE LOWER(TRIM(m.name)) = ANY($1) OR LOWER(TRIM(t.name)) = ANY($1)
+     ORDER BY (t.tax_code_value IS NULL), m.created_at ASC`,
+    [names],
+  );
+  for (const row of result.rows) {
+    for (const name of [row.name, row.template_name]) {
+      if (name && !sources.has(name)) sources.set(name, sourceFrom(row));
+    }
+  }
+  return sources;
+}
+
+async function loadProductSources(
+  productIds: string[],
+): Promise<Map<string, TaxSource>> {
+  const sources = new Map<string, TaxSource>();
+  if (productIds.length === 0) return sources;
+
+  const result = await query(
+    `SELECT id::text AS id, tax_code_type, tax_code_value
+     FROM products WHERE id::text = ANY($1)`,
+    [productIds],
+  );
+  for (const row of result.rows) sources.set(row.id, sourceFrom(row));
+  return sources;
+}
+
+async function loadShopStates(shopIds: string[]): Promise<Map<string, string>> {
+  const states = new Map<string, string>();
+  if (shopIds.length === 0) return states;
+
+  const result = await query(
+    `SELECT id::text AS id, state FROM shops WHERE id::text = ANY($1)`,
+    [shopIds],
+  );
+  for (const row of result.rows) {
+    if (row.state) states.set(row.id, row.state);
+  }
+  return states;
+}
+
+const unique = (values: (string | null)[]) =>
+  Array.from(new Set(values.filter((v): v is string => !!v)));
+
+/**
+ * Tax code priority: the line's own code, then the matching material's
+ * template, then the product the line was added from. The supplier state
+ * comes from the line's shop, else the matched material's shop; the place of
+ * supply is the project location.
+ */
+export async function resolveBoqTax(
+  header: Pick<VersionHeader, "projectLocation">,
+  rows: BoqRow[],
+): Promise<BoqTaxContext> {
+  const nameOf = (r: BoqRow) => r.title.trim().toLowerCase();
+
+  const [rates, materials, products, shopStates] = await Promise.all([
+    loadGstRates(),
+    loadMaterialSources(unique(rows.map(nameOf))),
+    loadProductSources(unique(rows.map((r) => r.productId))),
+    loadShopStates(unique(rows.map((r) => r.shopId))),
+  ]);
+
+  const projectState = resolveIndianState(header.projectLocation);
+
+  const lines = rows.map((r): BoqLineTaxInfo => {
+    const material = materials.get(nameOf(r));
+    const product = r.productId ? products.get(r.productId) : undefined;
+
+    let codeType: TaxCodeType | null = null;
+    let codeValue: string | null = null;
+    for (const source of [
+      {
+        codeType: isTaxCodeType(r.taxCodeType) ? r.taxCodeType : null,
+        codeValue: r.taxCodeValue,
+      },
+      material,
+      product,
+    ]) {
+      if (source?.codeType && source.codeValue) {
+        codeType = source.codeType;
+        codeValue = source.codeValue;
+        break;
+      }
+    }
+
+    const supplierState = resolveIndianState(
+      (r.shopId && shopStates.get(r.shopId)) || material?.state || null,
+    );
+    const rate = findGstRate(rates, codeType, codeValue);
+
+    return {
+      itemId: r.itemId,
+      rowIndex: r.rowIndex,
+      codeType,
+      codeValue,
+      rate: rate ? rate.rate : null,
+      supplyType: determineSupplyType(supplierState, projectState),
+      supplierState,
+    };
+  });
+
+  return { projectState, lines };
+}
+
+const UNTAXED: LineTaxInfo = {
+  codeType: null,
+  codeValue: null,
+  rate: null,
+  supplyType: "intra",
+  supplierState: null,
+};
+
+/**
+ * Tax info and amounts for each row, in row order, plus the summary. Pricing
+ * factors spread version-level overheads/discounts over the lines so GST is
+ * charged on the quoted value.
+ */
+export function applyBoqTax(
+  rows: BoqRow[],
+  context: BoqTaxContext,
+  factors: PricingAmounts = { supply: 1, install: 1 },
+): { lines: (LineTaxInfo & LineTax)[]; summary: GstSummary } {
+  const byKey = new Map(
+    context.lines.map((l) => [lineKey(l.itemId, l.rowIndex), l]),
+  );
+  const infos = rows.map(
+    (r) => byKey.get(lineKey(r.itemId, r.rowIndex)) || UNTAXED,
+  );
+  const taxable = rows.map(
+    (r) => r.supplyAmount * factors.supply + r.installAmount * factors.install,
+  );
+  const lines = rows.map((_, i) => ({
+    ...infos[i],
+    ...computeLineTax(taxable[i], infos[i]),
+  }));
+  const summary = summarizeGst(
+    rows.map((_, i) => ({ taxable: taxable[i], info: infos[i] })),
+  );
+  return { lines, summary };
+}
+
+/** Validated body of POST/PUT /api/gst-rates, or the reason it was rejected. */
+export function parseGstRateInput(
+  body: any,
+): { value: GstRate } | { error: string } {
+  const codeType = String(body?.code_type || "").toLowerCase();
+  if (!isTaxCodeType(codeType)) {
+    return { error: "code_type must be 'hsn' or 'sac'" };
+  }
+  const codePrefix = normalizeTaxCode(body?.code_prefix);
+  if (codePrefix.length < 2 || codePrefix.length > 8) {
+    return { error: "code_prefix must be 2 to 8 digits" };
+  }
+  const rate = Number(body?.rate);
+  if (body?.rate === "" || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+    return { error: "rate must be a percentage between 0 and 100" };
+  }
+  const description = String(body?.description ?? "").trim();
+  return {
+    value: {
+      code_type: codeType,
+      code_prefix: codePrefix,
+      rate,
+      description: description || null,
+    },
+  };
+}
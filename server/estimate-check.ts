@@ -0,0 +1,189 @@
+import { query } from "./db/client";
+import { resolveEffectiveCoefficients } from "./estimator-coefficients";
+import {
+  readCoefficientOverrides,
+  resolveCoefficients,
+} from "@shared/estimators/coefficients";
+import { estimateRequirements } from "@shared/estimators/registry";
+import {
+  requirementQuantity,
+  type CoverageSource,
+  type MaterialRequirement,
+} from "@shared/estimators/requirements";
+import {
+  UNIT_SYSTEM_LABELS,
+  convertQuantity,
+  type UnitSystem,
+} from "@shared/units";
+
+// Step 9 cart lines from an estimator with a shared engine carry the
+// estimate request they came from (type and JSON input, as for POST
+// /api/estimate/:type) and the key of their requirement line. On save the
+// engine is run again with the coefficients stamped on the lines, and the
+// lines of each requirement must add up to what it gives. Lines whose
+// quantity was changed by hand arrive without a requirement key.
+
+/** A Step 9 item as POST /api/estimator-step9-items receives it. */
+export type CartItemInput = Record<string, any>;
+
+export interface CartEstimate {
+  type: string;
+  input: unknown;
+}
+
+/** The estimate request on an item, or null when it has none. */
+export function readCartEstimate(raw: unknown): CartEstimate | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { type, input } = raw as { type?: unknown; input?: unknown };
+  if (typeof type !== "string" || !type) return null;
+  return { type, input };
+}
+
+const itemQuantity = (item: CartItemInput) =>
+  Number(item.quantity ?? item.qty ?? 0) || 0;
+
+// Split lines are rounded to 0.01 each and stored to two decimals
+const tolerance = (expected: number, lines: number) =>
+  0.02 * lines + Math.abs(expected) * 1e-4;
+
+async function loadCoverageSources(
+  materialIds: string[],
+): Promise<Map<string, CoverageSource>> {
+  const sources = new Map<string, CoverageSource>();
+  if (materialIds.length === 0) return sources;
+  const result = await query(
+    `SELECT id::text AS id, attributes FROM materials WHERE id::text = ANY($1)`,
+    [materialIds],
+  );
+  for (const row of result.rows) {
+    sources.set(row.id, { attributes: row.attributes });
+  }
+  return sources;
+}
+
+/** The requirement's quantity in the unit a cart line was saved in. */
+function expectedIn(
+  requirement: MaterialRequirement,
+  quantity: number,
+  unit: string,
+): number | null {
+  for (const system of Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]) {
+    const converted = convertQuantity(quantity, requirement.unit, system);
+    if (converted.unit === unit) return converted.quantity;
+  }
+  return null;
+}
+
+async function checkBatch(
+  batchId: string,
+  items: CartItemInput[],
+  estimate: CartEstimate,
+): Promise<string[]> {
+  const first = items[0];
+  const overrides = readCoefficientOverrides(first.coefficient_overrides);
+  let coefficients = resolveCoefficients(overrides);
+  if (first.coefficient_version != null) {
+    const version = Number(first.coefficient_version);
+    const effective = Number.isInteger(version)
+      ? await resolveEffectiveCoefficients(overrides, version)
+      : null;
+    if (!effective) {
+      return [`Coefficient version ${first.coefficient_version} not found`];
+    }
+    coefficients = effective.values;
+  }
+
+  const run = estimateRequirements(estimate.type, estimate.input, coefficients);
+  if ("error" in run) return [`Estimate ${batchId}: ${run.error}`];
+  const requirements = new Map(run.value.map((r) => [r.key, r]));
+
+  const byKey = new Map<string, CartItemInput[]>();
+  for (const item of items) {
+    const key = String(item.requirement_key);
+    byKey.set(key, [...(byKey.get(key) || []), item]);
+  }
+
+  const materials = await loadCoverageSources(
+    Array.from(
+      new Set(
+        items
+          .map((i) => i.material_id)
+          .filter(Boolean)
+          .map(String),
+      ),
+    ),
+  );
+
+  const problems: string[] = [];
+  byKey.forEach((lines, key) => {
+    const name = lines[0].name || lines[0].item || key;
+    const requirement = requirements.get(key);
+    if (!requirement) {
+      problems.push(`${name} is not part of the estimate`);
+      return;
+    }
+    const material = materials.get(String(lines[0].material_id)) || null;
+    const unit = String(lines[0].unit || "");
+    const expected = expectedIn(
+      requirement,
+      requirementQuantity(requirement, material),
+      unit,
+    );
+    if (expected === null) {
+      problems.push(`${name}: ${unit || "no unit"} is not ${requirement.unit}`);
+      return;
+    }
+    const saved = lines.reduce((sum, l) => sum + itemQuantity(l), 0);
+    if (Math.abs(saved - expected) > tolerance(expected, lines.length)) {
+      problems.push(
+        `${name}: ${Math.round(saved * 100) / 100} ${unit} does not match the estimate (${Math.round(expected * 100) / 100} ${unit})`,
+      );
+    }
+  });
+  return problems;
+}
+
+/**
+ * Problems with the estimator lines among `items`, one per requirement
+ * that does not add up; empty when every line checks out.
+ */
+export async function checkEstimatedItems(
+  items: CartItemInput[],
+): Promise<string[]> {
+  const batches = new Map<
+    string,
+    { estimate: CartEstimate; items: CartItemInput[] }
+  >();
+  for (const item of items) {
+    const estimate = readCartEstimate(item.estimate);
+    if (!estimate || !item.requirement_key) continue;
+    const batchId = String(item.batch_id || "");
+    const batch = batches.get(batchId) || { estimate, items: [] };
+    batch.items.push(item);
+    batches.set(batchId, batch);
+  }
+
+  const problems: string[] = [];
+  for (const [batchId, batch] of Array.from(batches.entries())) {
+    problems.push(...(await checkBatch(batchId, batch.items, batch.estimate)));
+  }
+  return problems;
+}
+
+/**
+ * checkEstimatedItems over a session's saved Step 9 cart, for BOQ items
+ * built from it. The rows' columns match the items the cart is saved from.
+ */
+export async function checkSavedCart(
+  estimator: string,
+  sessionId: string,
+): Promise<string[]> {
+  const result = await query(
+    `SELECT item, unit, qty, material_id, batch_id, requirement_key, estimate,
+            coefficient_version, coefficient_overrides
+       FROM estimator_step9_cart
+      WHERE estimator = $1 AND bill_no = $2 AND requirement_key IS NOT NULL`,
+    [estimator, sessionId],
+  );
+  return checkEstimatedItems(result.rows);
+}
@@ -0,0 +1,168 @@
+import { query } from "./db/client";
+import { findAccessDenial, type AccessUser } from "./boq-access";
+import {
+  parseCoefficientOverrides,
+  readCoefficientOverrides,
+  resolveCoefficients,
+  type CoefficientOverrides,
+  type CoefficientStamp,
+  type Coefficients,
+} from "@shared/estimators/coefficients";
+
+// Versions of the estimator coefficients (estimator_coefficient_sets) and
+// the per-project overrides layered on them. Each version stores the full
+// set, so a version keeps its values even when the built-in defaults move.
+
+export interface CoefficientVersion {
+  version: number;
+  values: Coefficients;
+  note: string | null;
+  created_by_username: string | null;
+  created_at: string;
+}
+
+const toVersion = (row: any): CoefficientVersion => ({
+  version: Number(row.version),
+  values: resolveCoefficients(readCoefficientOverrides(row.coefficients)),
+  note: row.note || null,
+  created_by_username: row.created_by_username || null,
+  created_at: row.created_at,
+});
+
+const VERSION_COLUMNS = `s.version, s.coefficients, s.note, s.created_at,
+  u.username AS created_by_username`;
+
+/** A published version, or the latest when `version` is omitted. */
+export async function loadCoefficientVersion(
+  version?: number,
+): Promise<CoefficientVersion | null> {
+  const result =
+    version === undefined
+      ? await query(
+          `SELECT ${VERSION_COLUMNS} FROM estimator_coefficient_sets s
+           LEFT JOIN users u ON u.id = s.created_by
+           ORDER BY s.version DESC LIMIT 1`,
+        )
+      : await query(
+          `SELECT ${VERSION_COLUMNS} FROM estimator_coefficient_sets s
+           LEFT JOIN users u ON u.id = s.created_by
+           WHERE s.version = $1`,
+          [version],
+        );
+  return result.rows.length > 0 ? toVersion(result.rows[0]) : null;
+}
+
+/** Every published version, newest first. */
+export async function listCoefficientVersions(): Promise<CoefficientVersion[]> {
+  const result = await query(
+    `SELECT ${VERSION_COLUMNS} FROM estimator_coefficient_sets s
+     LEFT JOIN users u ON u.id = s.created_by
+     ORDER BY s.version DESC`,
+  );
+  return result.rows.map(toVersion);
+}
+
+/** Publishes `values` as the next version. */
+export async function publishCoefficientVersion(
+  values: Coefficients,
+  note: string | null,
+  userId: string | null,
+): Promise<CoefficientVersion> {
+  const result = await query(
+    `INSERT INTO estimator_coefficient_sets (version, coefficients, note, created_by)
+     SELECT COALESCE(MAX(version), 0) + 1, $1::jsonb, $2, $3
+     FROM estimator_coefficient_sets
+     RETURNING version`,
+    [JSON.stringify(values), note, userId],
+  );
+  return (await loadCoefficientVersion(Number(result.rows[0].version)))!;
+}
+
+/** A project's overrides; null when the project does not exist. */
+export async function loadProjectCoefficientOverrides(
+  projectId: string,
+): Promise<CoefficientOverrides | null> {
+  const result = await query(
+    `SELECT coefficient_overrides FROM boq_projects WHERE id = $1`,
+    [projectId],
+  );
+  if (result.rows.length === 0) return null;
+  return readCoefficientOverrides(result.rows[0].coefficient_overrides);
+}
+
+export interface EffectiveCoefficients extends CoefficientStamp {
+  values: Coefficients;
+}
+
+/**
+ * The coefficients an estimate runs with: a version (the latest unless
+ * given) with the project's overrides on top. Null when the version does
+ * not exist.
+ */
+export async function resolveEffectiveCoefficients(
+  overrides: CoefficientOverrides,
+  version?: number,
+): Promise<EffectiveCoefficients | null> {
+  const set = await loadCoefficientVersion(version);
+  if (!set) return null;
+  return {
+    version: set.version,
+    overrides,
+    values: resolveCoefficients(set.values, overrides),
+  };
+}
+
+/**
+ * Coefficients for an API request: `coefficient_version` picks a version,
+ * `project_id` applies that project's overrides (the user needs view
+ * access) and `coefficient_overrides` replaces them, e.g. to recompute an
+ * estimate with the stamp recorded on its cart lines.
+ */
+export async function resolveRequestCoefficients(
+  user: AccessUser | undefined,
+  params: {
+    project_id?: unknown;
+    coefficient_version?: unknown;
+    coefficient_overrides?: unknown;
+  },
+): Promise<
+  { value: EffectiveCoefficients } | { status: number; message: string }
+> {
+  let version: number | undefined;
+  if (
+    params.coefficient_version !== undefined &&
+    params.coefficient_version !== null &&
+    params.coefficient_version !== ""
+  ) {
+    version = Number(params.coefficient_version);
+    if (!Number.isInteger(version) || version < 1) {
+      return { status: 400, message: "Invalid coefficient version" };
+    }
+  }
+
+  let overrides: CoefficientOverrides = {};
+  if (params.project_id) {
+    const projectId = String(params.project_id);
+    const denied = await findAccessDenial(user, projectId, "view");
+    if (denied) return denied;
+    const projectOverrides = await loadProjectCoefficientOverrides(projectId);
+    if (!projectOverrides) {
+      return { status: 404, message: "Project not found" };
+    }
+    overrides = projectOverrides;
+  }
+  if (params.coefficient_overrides !== undefined) {
+    const parsed = parseCoefficientOverrides(params.coefficient_overrides);
+    if ("error" in parsed) return { status: 400, message: parsed.error };
+    overrides = parsed.value;
+  }
+
+  const coefficients = await resolveEffectiveCoefficients(overrides, version);
+  if (!coefficients) {
+    return {
+      status: 404,
+      message: `Coefficient version ${version ?? ""} not found`.trim(),
+    };
+  }
+  return { value: coefficients };
+}
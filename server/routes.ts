@@ -1,10 +1,86 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { comparePasswords, generateToken } from "./auth";
 import { authMiddleware, requireRole } from "./middleware";
 import { randomUUID } from "crypto";
-import { query } from "./db/client";
+import { query, pool } from "./db/client";
+import { applyRowEdits, groupEditsByItem, type CellChange } from "./boq-edits";
+import {
+  boqFilename,
+  loadVersionHeader,
+  loadVersionRows,
+  localizeBoqRows,
+} from "./boq-rows";
+import { diffBoqRows } from "./boq-diff";
+import { buildBoqWorkbook } from "./boq-export";
+import { buildBoqPdf } from "./boq-pdf";
+import { loadGstRates, parseGstRateInput, resolveBoqTax } from "./boq-tax";
+import { parsePricingAdjustments } from "@shared/boq-pricing";
+import { parseUnitSystem } from "@shared/units";
+import {
+  ESTIMATE_TYPES,
+  isEstimateType,
+  runEstimate,
+} from "@shared/estimators/registry";
+import {
+  DEFAULT_COEFFICIENTS,
+  parseCoefficientOverrides,
+  readCoefficientOverrides,
+  resolveCoefficients,
+} from "@shared/estimators/coefficients";
+import {
+  listCoefficientVersions,
+  loadCoefficientVersion,
+  publishCoefficientVersion,
+  resolveRequestCoefficients,
+} from "./estimator-coefficients";
+import {
+  parseBudgetAmount,
+  parseBudgetInput,
+  readProjectBudget,
+} from "@shared/boq-budget";
+import {
+  loadProjectBudgetSummaries,
+  loadVersionBudgetStatuses,
+} from "./boq-budget";
+import {
+  accessibleProjectsFilter,
+  findAccessDenial,
+  getProjectRole,
+  projectIdForItem,
+  projectIdForVersion,
+  UNOWNED_PROJECT_ROLE,
+} from "./boq-access";
+import {
+  canPerformProjectTransition,
+  isProjectMemberRole,
+  projectRoleAllows,
+} from "@shared/boq-access";
+import {
+  findItemLock,
+  findVersionLock,
+  lockVersionForEdit,
+} from "./boq-locks";
+import {
+  BOQ_STATUS_LABELS,
+  findTransition,
+  isBoqVersionStatus,
+  isVersionDeletable,
+} from "@shared/boq-workflow";
+import {
+  buildImportItems,
+  detectHeaderRow,
+  isSpreadsheetName,
+  parseMappingParam,
+  parseSpreadsheet,
+  suggestMapping,
+} from "./boq-import";
+import {
+  checkEstimatedItems,
+  checkSavedCart,
+  readCartEstimate,
+} from "./estimate-check";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -161,6 +237,28 @@ export async function registerRoutes(
       `CREATE INDEX IF NOT EXISTS idx_estimator_step12_qa_boq_estimator ON estimator_step12_qa_boq(estimator)`,
     );
 
+    // Room, wall or surface each cart line was estimated for
+    await query(
+      `ALTER TABLE estimator_step9_cart ADD COLUMN IF NOT EXISTS location TEXT`,
+    );
+
+    // Cart lines record the coefficients their estimate was computed with
+    await query(
+      `ALTER TABLE estimator_step9_cart ADD COLUMN IF NOT EXISTS coefficient_version INTEGER`,
+    );
+    await query(
+      `ALTER TABLE estimator_step9_cart ADD COLUMN IF NOT EXISTS coefficient_overrides JSONB`,
+    );
+
+    // Estimator lines keep the estimate request and requirement they came
+    // from so their quantities can be checked against the engine on save
+    await query(
+      `ALTER TABLE estimator_step9_cart ADD COLUMN IF NOT EXISTS requirement_key TEXT`,
+    );
+    await query(
+      `ALTER TABLE estimator_step9_cart ADD COLUMN IF NOT EXISTS estimate JSONB`,
+    );
+
     console.log(
       "[db] Estimator tables verified/created with correct structure",
     );
@@ -360,6 +458,214 @@ export async function registerRoutes(
     );
   }
 
+  // Ensure boq_edit_history table exists (who changed which BOQ cell and when)
+  try {
+    await query(`
+      CREATE TABLE IF NOT EXISTS boq_edit_history (
+        id SERIAL PRIMARY KEY,
+        version_id VARCHAR(100) NOT NULL,
+        item_id VARCHAR(100) NOT NULL,
+        row_index INTEGER NOT NULL,
+        field VARCHAR(50) NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        edited_by VARCHAR(36),
+        edited_by_username TEXT,
+        edited_at TIMESTAMP DEFAULT NOW(),
+        FOREIGN KEY (version_id) REFERENCES boq_versions(id) ON DELETE CASCADE
+      )
+    `);
+    await query(
+      `CREATE INDEX IF NOT EXISTS idx_boq_edit_history_version_id ON boq_edit_history(version_id)`,
+    );
+    await query(
+      `CREATE INDEX IF NOT EXISTS idx_boq_edit_history_item_cell ON boq_edit_history(item_id, row_index, field)`,
+    );
+    console.log("[db] boq_edit_history table verified/created");
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not create boq_edit_history table:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure boq_version_reviews table exists (status transitions with reviewer comments)
+  try {
+    await query(`
+      CREATE TABLE IF NOT EXISTS boq_version_reviews (
+        id SERIAL PRIMARY KEY,
+        version_id VARCHAR(100) NOT NULL,
+        action VARCHAR(50) NOT NULL,
+        from_status VARCHAR(50),
+        to_status VARCHAR(50) NOT NULL,
+        comment TEXT,
+        actor_id VARCHAR(36),
+        actor_username TEXT,
+        actor_role VARCHAR(50),
+        created_at TIMESTAMP DEFAULT NOW(),
+        FOREIGN KEY (version_id) REFERENCES boq_versions(id) ON DELETE CASCADE
+      )
+    `);
+    await query(
+      `CREATE INDEX IF NOT EXISTS idx_boq_version_reviews_version_id ON boq_version_reviews(version_id)`,
+    );
+    console.log("[db] boq_version_reviews table verified/created");
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not create boq_version_reviews table:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure boq_versions has pricing_adjustments (overhead/contingency/margin/discount layers)
+  try {
+    await query(
+      `ALTER TABLE boq_versions ADD COLUMN IF NOT EXISTS pricing_adjustments JSONB DEFAULT '[]'::jsonb`,
+    );
+    console.log("[db] boq_versions pricing_adjustments column ensured");
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not ensure boq_versions pricing_adjustments column:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure boq_projects has a numeric budget (plus optional per-estimator split)
+  // and carry over amounts typed into the old free-text budget column
+  try {
+    await query(
+      `ALTER TABLE boq_projects ADD COLUMN IF NOT EXISTS budget_amount NUMERIC(15,2)`,
+    );
+    await query(
+      `ALTER TABLE boq_projects ADD COLUMN IF NOT EXISTS budget_breakdown JSONB DEFAULT '{}'::jsonb`,
+    );
+    const legacy = await query(
+      `SELECT id, budget FROM boq_projects
+       WHERE budget_amount IS NULL AND COALESCE(budget, '') <> ''`,
+    );
+    let migrated = 0;
+    for (const row of legacy.rows) {
+      const amount = parseBudgetAmount(row.budget);
+      if (amount === null) continue;
+      await query(`UPDATE boq_projects SET budget_amount = $1 WHERE id = $2`, [
+        amount,
+        row.id,
+      ]);
+      migrated++;
+    }
+    console.log(
+      `[db] boq_projects budget columns ensured (${migrated} legacy budget(s) converted)`,
+    );
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not ensure boq_projects budget columns:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure boq_projects has a unit system for estimator inputs and exports
+  try {
+    await query(
+      `ALTER TABLE boq_projects ADD COLUMN IF NOT EXISTS unit_system TEXT NOT NULL DEFAULT 'imperial'`,
+    );
+    console.log("[db] boq_projects unit_system column ensured");
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not ensure boq_projects unit_system column:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure versioned estimator coefficients, seeded with the built-in
+  // values, and per-project overrides of them
+  try {
+    await query(`
+      CREATE TABLE IF NOT EXISTS estimator_coefficient_sets (
+        version INTEGER PRIMARY KEY,
+        coefficients JSONB NOT NULL,
+        note TEXT,
+        created_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    await query(
+      `INSERT INTO estimator_coefficient_sets (version, coefficients, note)
+       SELECT 1, $1::jsonb, 'Built-in values'
+       WHERE NOT EXISTS (SELECT 1 FROM estimator_coefficient_sets)`,
+      [JSON.stringify(DEFAULT_COEFFICIENTS)],
+    );
+    await query(
+      `ALTER TABLE boq_projects ADD COLUMN IF NOT EXISTS coefficient_overrides JSONB NOT NULL DEFAULT '{}'::jsonb`,
+    );
+    console.log("[db] estimator_coefficient_sets table verified/created");
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not set up estimator coefficients:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure boq_projects has an owner and boq_project_members exists (invited
+  // users with a viewer/editor/approver role on one project)
+  try {
+    await query(
+      `ALTER TABLE boq_projects ADD COLUMN IF NOT EXISTS owner_id VARCHAR(36)`,
+    );
+    await query(
+      `CREATE INDEX IF NOT EXISTS idx_boq_projects_owner_id ON boq_projects(owner_id)`,
+    );
+    await query(`
+      CREATE TABLE IF NOT EXISTS boq_project_members (
+        id SERIAL PRIMARY KEY,
+        project_id VARCHAR(100) NOT NULL REFERENCES boq_projects(id) ON DELETE CASCADE,
+        user_id VARCHAR(36) NOT NULL,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('viewer', 'editor', 'approver')),
+        invited_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (project_id, user_id)
+      )
+    `);
+    await query(
+      `CREATE INDEX IF NOT EXISTS idx_boq_project_members_user_id ON boq_project_members(user_id)`,
+    );
+    // Projects created before ownership existed keep owner_id NULL and stay
+    // open to every user as editors until an admin assigns an owner
+    const unowned = await query(
+      `SELECT COUNT(*)::int AS count FROM boq_projects WHERE owner_id IS NULL`,
+    );
+    console.log(
+      `[db] boq_projects owner_id and boq_project_members verified/created (${unowned.rows[0]?.count || 0} legacy project(s) without an owner)`,
+    );
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not set up BOQ project ownership:",
+      (err as any)?.message || err,
+    );
+  }
+
+  // Ensure gst_rates table exists (HSN/SAC prefix -> GST %, maintained by admins)
+  try {
+    await query(`
+      CREATE TABLE IF NOT EXISTS gst_rates (
+        id SERIAL PRIMARY KEY,
+        code_type VARCHAR(10) NOT NULL CHECK (code_type IN ('hsn', 'sac')),
+        code_prefix VARCHAR(20) NOT NULL,
+        rate NUMERIC(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+        description TEXT,
+        updated_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (code_type, code_prefix)
+      )
+    `);
+    console.log("[db] gst_rates table verified/created");
+  } catch (err: unknown) {
+    console.warn(
+      "[db] Could not create gst_rates table:",
+      (err as any)?.message || err,
+    );
+  }
+
   // Ensure material_templates table has vendor_category, tax_code_type, and tax_code_value columns
   try {
     await query(
@@ -2511,6 +2817,207 @@ export async function registerRoutes(
     },
   );
 
+  // ====== ESTIMATION ROUTES ======
+
+  // POST /api/estimate/:type - Run an estimator engine on JSON inputs (in
+  // feet) and return its quantities in unit_system (default imperial)
+  app.post(
+    "/api/estimate/:type",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { type } = req.params;
+        if (!isEstimateType(type)) {
+          res.status(404).json({
+            message: `Unknown estimate type: ${type}`,
+            types: Object.keys(ESTIMATE_TYPES),
+          });
+          return;
+        }
+
+        const body = req.body || {};
+        const coefficients = await resolveRequestCoefficients(req.user, {
+          project_id: body.project_id ?? req.query.project_id,
+          coefficient_version:
+            body.coefficient_version ?? req.query.coefficient_version,
+          coefficient_overrides: body.coefficient_overrides,
+        });
+        if ("status" in coefficients) {
+          res
+            .status(coefficients.status)
+            .json({ message: coefficients.message });
+          return;
+        }
+        const { values, ...stamp } = coefficients.value;
+
+        const estimate = runEstimate(
+          type,
+          body,
+          parseUnitSystem(body.unit_system ?? req.query.unit_system),
+          values,
+        );
+        if ("error" in estimate) {
+          res.status(400).json({ message: estimate.error });
+          return;
+        }
+        res.json({ ...estimate.value, coefficients: stamp });
+      } catch (err) {
+        console.error("POST /api/estimate error", err);
+        res.status(500).json({ message: "Failed to run estimate" });
+      }
+    },
+  );
+
+  // GET /api/estimator-coefficients - The current coefficient version, the
+  // built-in defaults and every published version
+  app.get(
+    "/api/estimator-coefficients",
+    authMiddleware,
+    async (_req: Request, res: Response) => {
+      try {
+        const versions = await listCoefficientVersions();
+        res.json({
+          current: versions[0] || null,
+          defaults: DEFAULT_COEFFICIENTS,
+          versions,
+        });
+      } catch (err) {
+        console.error("GET /api/estimator-coefficients error", err);
+        res
+          .status(500)
+          .json({ message: "Failed to load estimator coefficients" });
+      }
+    },
+  );
+
+  // GET /api/estimator-coefficients/effective - The values an estimate runs
+  // with, for ?project_id= (its overrides) and ?version= (default latest)
+  app.get(
+    "/api/estimator-coefficients/effective",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const coefficients = await resolveRequestCoefficients(req.user, {
+          project_id: req.query.project_id,
+          coefficient_version: req.query.version,
+        });
+        if ("status" in coefficients) {
+          res
+            .status(coefficients.status)
+            .json({ message: coefficients.message });
+          return;
+        }
+        res.json(coefficients.value);
+      } catch (err) {
+        console.error("GET /api/estimator-coefficients/effective error", err);
+        res
+          .status(500)
+          .json({ message: "Failed to load estimator coefficients" });
+      }
+    },
+  );
+
+  // GET /api/estimator-coefficients/versions/:version - One published version
+  app.get(
+    "/api/estimator-coefficients/versions/:version",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const version = Number(req.params.version);
+        const set = Number.isInteger(version)
+          ? await loadCoefficientVersion(version)
+          : null;
+        if (!set) {
+          res.status(404).json({ message: "Coefficient version not found" });
+          return;
+        }
+        res.json({ version: set });
+      } catch (err) {
+        console.error("GET /api/estimator-coefficients/versions error", err);
+        res
+          .status(500)
+          .json({ message: "Failed to load estimator coefficients" });
+      }
+    },
+  );
+
+  // POST /api/estimator-coefficients - Publish a new version: the current
+  // values with body.values applied. Earlier versions stay as they were.
+  app.post(
+    "/api/estimator-coefficients",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const parsed = parseCoefficientOverrides(req.body?.values);
+        if ("error" in parsed) {
+          res.status(400).json({ message: parsed.error });
+          return;
+        }
+
+        const current = await loadCoefficientVersion();
+        const note = String(req.body?.note || "").trim() || null;
+        const version = await publishCoefficientVersion(
+          resolveCoefficients(current?.values, parsed.value),
+          note,
+          req.user?.id || null,
+        );
+        res.status(201).json({ version });
+      } catch (err: any) {
+        if (err?.code === "23505") {
+          res.status(409).json({
+            message: "Another version was published at the same time; retry",
+          });
+          return;
+        }
+        console.error("POST /api/estimator-coefficients error", err);
+        res
+          .status(500)
+          .json({ message: "Failed to publish estimator coefficients" });
+      }
+    },
+  );
+
+  // PUT /api/boq-projects/:projectId/coefficients - Replace a project's
+  // coefficient overrides; an empty object goes back to the published values
+  app.put(
+    "/api/boq-projects/:projectId/coefficients",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId } = req.params;
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const parsed = parseCoefficientOverrides(req.body?.overrides);
+        if ("error" in parsed) {
+          res.status(400).json({ message: parsed.error });
+          return;
+        }
+
+        const result = await query(
+          `UPDATE boq_projects
+           SET coefficient_overrides = $1::jsonb, updated_at = NOW()
+           WHERE id = $2`,
+          [JSON.stringify(parsed.value), projectId],
+        );
+        if (result.rowCount === 0) {
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+        res.json({ overrides: parsed.value });
+      } catch (err) {
+        console.error("PUT /api/boq-projects/:projectId/coefficients error", err);
+        res
+          .status(500)
+          .json({ message: "Failed to save project coefficients" });
+      }
+    },
+  );
+
   // ====== BOQ PROJECTS ROUTES ======
 
   // POST /api/boq-projects - Create a new BOQ project
@@ -2527,21 +3034,46 @@ export async function registerRoutes(
           return;
         }
 
+        const parsedBudget = parseBudgetInput(req.body);
+        if ("error" in parsedBudget) {
+          res.status(400).json({ message: parsedBudget.error });
+          return;
+        }
+        const { total, breakdown } = parsedBudget.value;
+
+        const unitSystem = parseUnitSystem(req.body.unit_system);
         const projectId = `proj-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
         await query(
-          `INSERT INTO boq_projects (id, name, client, budget, location, status, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())`,
-          [projectId, name.trim(), client || "", budget || "", location || null, "draft"],
+          `INSERT INTO boq_projects (id, name, client, budget, budget_amount, budget_breakdown, location, unit_system, status, owner_id, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, $9, $10, NOW(), NOW())`,
+          [
+            projectId,
+            name.trim(),
+            client || "",
+            total === null ? "" : String(total),
+            total,
+            JSON.stringify(breakdown),
+            location || null,
+            unitSystem,
+            "draft",
+            req.user?.id || null,
+          ],
         );
 
         res.json({
           id: projectId,
           name: name.trim(),
           client: client || "",
-          budget: budget || "",
+          budget: total === null ? "" : String(total),
+          budget_amount: total,
+          budget_breakdown: breakdown,
+          budget_summary: { latest: null, overBudgetVersions: [] },
           location: location || "",
+          unit_system: unitSystem,
           status: "draft",
+          owner_id: req.user?.id || null,
+          access_role: req.user?.role === "admin" ? "admin" : "owner",
         });
       } catch (err) {
         console.error("POST /api/boq-projects error", err);
@@ -2556,11 +3088,32 @@ export async function registerRoutes(
     authMiddleware,
     async (req: Request, res: Response) => {
       try {
+        // Admins see every project; everyone else their own and shared ones
         const result = await query(
-          `SELECT id, name, client, budget, location, status, created_at, updated_at FROM boq_projects ORDER BY created_at DESC`,
+          `SELECT p.id, p.name, p.client, p.budget, p.budget_amount, p.budget_breakdown, p.location, p.unit_system, p.coefficient_overrides, p.status,
+                  p.owner_id, u.username AS owner_username, p.created_at, p.updated_at,
+                  CASE WHEN $2 = 'admin' THEN 'admin'
+                       WHEN p.owner_id = $1 THEN 'owner'
+                       ELSE COALESCE(
+                         (SELECT m.role FROM boq_project_members m
+                          WHERE m.project_id = p.id AND m.user_id = $1),
+                         CASE WHEN p.owner_id IS NULL THEN '${UNOWNED_PROJECT_ROLE}' END)
+                  END AS access_role
+           FROM boq_projects p
+           LEFT JOIN users u ON u.id = p.owner_id
+           WHERE ${accessibleProjectsFilter(req.user, "p", "$1")}
+           ORDER BY p.created_at DESC`,
+          [req.user?.id || null, req.user?.role || null],
         );
+        const projects = result.rows || [];
+        const summaries = await loadProjectBudgetSummaries(projects);
 
-        res.json({ projects: result.rows || [] });
+        res.json({
+          projects: projects.map((p: any) => ({
+            ...p,
+            budget_summary: summaries.get(p.id),
+          })),
+        });
       } catch (err) {
         console.error("GET /api/boq-projects error", err);
         res.status(500).json({ message: "Failed to fetch projects" });
@@ -2575,9 +3128,14 @@ export async function registerRoutes(
     async (req: Request, res: Response) => {
       try {
         const { projectId } = req.params;
+        const denied = await findAccessDenial(req.user, projectId, "view");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
 
         const result = await query(
-          `SELECT id, name, client, budget, location, status, created_at, updated_at FROM boq_projects WHERE id = $1`,
+          `SELECT id, name, client, budget, budget_amount, budget_breakdown, location, unit_system, coefficient_overrides, status, owner_id, created_at, updated_at FROM boq_projects WHERE id = $1`,
           [projectId],
         );
 
@@ -2586,7 +3144,10 @@ export async function registerRoutes(
           return;
         }
 
-        res.json(result.rows[0]);
+        res.json({
+          ...result.rows[0],
+          access_role: await getProjectRole(req.user, projectId),
+        });
       } catch (err) {
         console.error("GET /api/boq-projects/:projectId error", err);
         res.status(500).json({ message: "Failed to fetch project" });
@@ -2603,6 +3164,12 @@ export async function registerRoutes(
         const { projectId } = req.params;
         const { status } = req.body;
 
+        const denied = await findAccessDenial(req.user, projectId, "edit");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
         if (!status || !["draft", "submitted", "finalized"].includes(status)) {
           res.status(400).json({ message: "Invalid status" });
           return;
@@ -2621,167 +3188,1391 @@ export async function registerRoutes(
     },
   );
 
-  // DELETE /api/boq-projects/:projectId - Delete a project
-  app.delete(
-    "/api/boq-projects/:projectId",
+  // PUT /api/boq-projects/:projectId/budget - Set the project budget and per-estimator split
+  app.put(
+    "/api/boq-projects/:projectId/budget",
     authMiddleware,
     async (req: Request, res: Response) => {
       try {
         const { projectId } = req.params;
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        const parsed = parseBudgetInput(req.body || {});
+        if ("error" in parsed) {
+          res.status(400).json({ message: parsed.error });
+          return;
+        }
+        const { total, breakdown } = parsed.value;
+
+        const result = await query(
+          `UPDATE boq_projects
+           SET budget = $1, budget_amount = $2, budget_breakdown = $3::jsonb, updated_at = NOW()
+           WHERE id = $4
+           RETURNING id, budget, budget_amount, budget_breakdown, updated_at`,
+          [
+            total === null ? "" : String(total),
+            total,
+            JSON.stringify(breakdown),
+            projectId,
+          ],
+        );
+
+        if (result.rows.length === 0) {
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+
+        res.json(result.rows[0]);
+      } catch (err) {
+        console.error("PUT /api/boq-projects/:projectId/budget error", err);
+        res.status(500).json({ message: "Failed to update budget" });
+      }
+    },
+  );
+
+  // PUT /api/boq-projects/:projectId/units - Set the project's unit system
+  app.put(
+    "/api/boq-projects/:projectId/units",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId } = req.params;
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        const { unit_system } = req.body || {};
+        if (unit_system !== "imperial" && unit_system !== "metric") {
+          res.status(400).json({ message: "Invalid unit system" });
+          return;
+        }
+
+        const result = await query(
+          `UPDATE boq_projects SET unit_system = $1, updated_at = NOW()
+           WHERE id = $2
+           RETURNING id, unit_system, updated_at`,
+          [unit_system, projectId],
+        );
+
+        if (result.rows.length === 0) {
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+
+        res.json(result.rows[0]);
+      } catch (err) {
+        console.error("PUT /api/boq-projects/:projectId/units error", err);
+        res.status(500).json({ message: "Failed to update unit system" });
+      }
+    },
+  );
+
+  // DELETE /api/boq-projects/:projectId - Delete a project
+  app.delete(
+    "/api/boq-projects/:projectId",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId } = req.params;
+
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
 
         // First, delete all items related to this project
         await query(`DELETE FROM boq_items WHERE project_id = $1`, [projectId]);
 
-        // Then delete all versions related to this project
-        await query(`DELETE FROM boq_versions WHERE project_id = $1`, [projectId]);
+        // Then delete all versions related to this project
+        await query(`DELETE FROM boq_versions WHERE project_id = $1`, [projectId]);
+
+        // Finally delete the project itself
+        const result = await query(
+          `DELETE FROM boq_projects WHERE id = $1`,
+          [projectId],
+        );
+
+        if (result.rowCount === 0) {
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+
+        res.json({ message: "Project deleted successfully" });
+      } catch (err) {
+        console.error("DELETE /api/boq-projects/:projectId error", err);
+        res.status(500).json({ message: "Failed to delete project" });
+      }
+    },
+  );
+
+  // ====== BOQ PROJECT MEMBERS ROUTES ======
+
+  // GET /api/boq-projects/:projectId/members - Owner and invited members of a project
+  app.get(
+    "/api/boq-projects/:projectId/members",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId } = req.params;
+        const denied = await findAccessDenial(req.user, projectId, "view");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const project = await query(
+          `SELECT p.owner_id, u.username, u.full_name
+           FROM boq_projects p LEFT JOIN users u ON u.id = p.owner_id
+           WHERE p.id = $1`,
+          [projectId],
+        );
+        if (project.rows.length === 0) {
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+        const members = await query(
+          `SELECT m.user_id, u.username, u.full_name, m.role, m.created_at
+           FROM boq_project_members m
+           JOIN users u ON u.id = m.user_id
+           WHERE m.project_id = $1
+           ORDER BY m.created_at ASC`,
+          [projectId],
+        );
+
+        const owner = project.rows[0];
+        res.json({
+          owner: owner.owner_id
+            ? {
+                user_id: owner.owner_id,
+                username: owner.username,
+                full_name: owner.full_name,
+              }
+            : null,
+          members: members.rows,
+          access_role: await getProjectRole(req.user, projectId),
+        });
+      } catch (err) {
+        console.error("GET /api/boq-projects/:projectId/members error", err);
+        res.status(500).json({ message: "Failed to fetch project members" });
+      }
+    },
+  );
+
+  // POST /api/boq-projects/:projectId/members - Invite a user by username
+  app.post(
+    "/api/boq-projects/:projectId/members",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId } = req.params;
+        const username = String(req.body?.username || "").trim();
+        const { role } = req.body || {};
+
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        if (!username) {
+          res.status(400).json({ message: "username is required" });
+          return;
+        }
+        if (!isProjectMemberRole(role)) {
+          res
+            .status(400)
+            .json({ message: "role must be viewer, editor or approver" });
+          return;
+        }
+
+        const userResult = await query(
+          `SELECT id, username, full_name FROM users WHERE LOWER(username) = LOWER($1)`,
+          [username],
+        );
+        const user = userResult.rows[0];
+        if (!user) {
+          res.status(404).json({ message: `No user named ${username}` });
+          return;
+        }
+
+        const project = await query(
+          `SELECT owner_id FROM boq_projects WHERE id = $1`,
+          [projectId],
+        );
+        if (project.rows.length === 0) {
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+        if (project.rows[0].owner_id === user.id) {
+          res.status(400).json({ message: `${user.username} owns this project` });
+          return;
+        }
+
+        const result = await query(
+          `INSERT INTO boq_project_members (project_id, user_id, role, invited_by, created_at)
+           VALUES ($1, $2, $3, $4, NOW())
+           ON CONFLICT (project_id, user_id) DO NOTHING
+           RETURNING user_id, role, created_at`,
+          [projectId, user.id, role, req.user?.id || null],
+        );
+        if (result.rows.length === 0) {
+          res
+            .status(409)
+            .json({ message: `${user.username} is already a member` });
+          return;
+        }
+
+        res.json({
+          ...result.rows[0],
+          username: user.username,
+          full_name: user.full_name,
+        });
+      } catch (err) {
+        console.error("POST /api/boq-projects/:projectId/members error", err);
+        res.status(500).json({ message: "Failed to add project member" });
+      }
+    },
+  );
+
+  // PUT /api/boq-projects/:projectId/members/:userId - Change a member's role
+  app.put(
+    "/api/boq-projects/:projectId/members/:userId",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId, userId } = req.params;
+        const { role } = req.body || {};
+
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        if (!isProjectMemberRole(role)) {
+          res
+            .status(400)
+            .json({ message: "role must be viewer, editor or approver" });
+          return;
+        }
+
+        const result = await query(
+          `UPDATE boq_project_members SET role = $1
+           WHERE project_id = $2 AND user_id = $3
+           RETURNING user_id, role`,
+          [role, projectId, userId],
+        );
+        if (result.rows.length === 0) {
+          res.status(404).json({ message: "Member not found" });
+          return;
+        }
+
+        res.json(result.rows[0]);
+      } catch (err) {
+        console.error("PUT /api/boq-projects/:projectId/members/:userId error", err);
+        res.status(500).json({ message: "Failed to update project member" });
+      }
+    },
+  );
+
+  // DELETE /api/boq-projects/:projectId/members/:userId - Remove a member (or leave the project)
+  app.delete(
+    "/api/boq-projects/:projectId/members/:userId",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId, userId } = req.params;
+
+        // Members may always remove themselves
+        if (userId !== req.user?.id) {
+          const denied = await findAccessDenial(req.user, projectId, "manage");
+          if (denied) {
+            res.status(denied.status).json({ message: denied.message });
+            return;
+          }
+        }
+
+        const result = await query(
+          `DELETE FROM boq_project_members WHERE project_id = $1 AND user_id = $2`,
+          [projectId, userId],
+        );
+        if (result.rowCount === 0) {
+          res.status(404).json({ message: "Member not found" });
+          return;
+        }
+
+        res.json({ message: "Member removed" });
+      } catch (err) {
+        console.error("DELETE /api/boq-projects/:projectId/members/:userId error", err);
+        res.status(500).json({ message: "Failed to remove project member" });
+      }
+    },
+  );
+
+  // PUT /api/boq-projects/:projectId/owner - Hand the project to another user
+  app.put(
+    "/api/boq-projects/:projectId/owner",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      const { projectId } = req.params;
+      const username = String(req.body?.username || "").trim();
+
+      const client = await pool.connect();
+      try {
+        const denied = await findAccessDenial(req.user, projectId, "manage");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        if (!username) {
+          res.status(400).json({ message: "username is required" });
+          return;
+        }
+
+        const userResult = await client.query(
+          `SELECT id, username FROM users WHERE LOWER(username) = LOWER($1)`,
+          [username],
+        );
+        const newOwner = userResult.rows[0];
+        if (!newOwner) {
+          res.status(404).json({ message: `No user named ${username}` });
+          return;
+        }
+
+        await client.query("BEGIN");
+        const project = await client.query(
+          `SELECT owner_id FROM boq_projects WHERE id = $1 FOR UPDATE`,
+          [projectId],
+        );
+        if (project.rows.length === 0) {
+          await client.query("ROLLBACK");
+          res.status(404).json({ message: "Project not found" });
+          return;
+        }
+        const previousOwner = project.rows[0].owner_id;
+
+        await client.query(
+          `UPDATE boq_projects SET owner_id = $1, updated_at = NOW() WHERE id = $2`,
+          [newOwner.id, projectId],
+        );
+        await client.query(
+          `DELETE FROM boq_project_members WHERE project_id = $1 AND user_id = $2`,
+          [projectId, newOwner.id],
+        );
+        // The previous owner keeps working on the project as an editor
+        if (previousOwner && previousOwner !== newOwner.id) {
+          await client.query(
+            `INSERT INTO boq_project_members (project_id, user_id, role, invited_by, created_at)
+             VALUES ($1, $2, 'editor', $3, NOW())
+             ON CONFLICT (project_id, user_id) DO UPDATE SET role = 'editor'`,
+            [projectId, previousOwner, req.user?.id || null],
+          );
+        }
+        await client.query("COMMIT");
+
+        res.json({
+          owner_id: newOwner.id,
+          owner_username: newOwner.username,
+          message: `${newOwner.username} now owns the project`,
+        });
+      } catch (err) {
+        try {
+          await client.query("ROLLBACK");
+        } catch (e) {
+          // ignore
+        }
+        console.error("PUT /api/boq-projects/:projectId/owner error", err);
+        res.status(500).json({ message: "Failed to transfer ownership" });
+      } finally {
+        client.release();
+      }
+    },
+  );
+
+  // ====== BOQ VERSIONS ROUTES ======
+
+  // GET /api/boq-versions/:projectId - List all versions of a project
+  app.get(
+    "/api/boq-versions/:projectId",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { projectId } = req.params;
+
+        const denied = await findAccessDenial(req.user, projectId, "view");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const result = await query(
+          `SELECT id, project_id, project_name, project_client, project_location, version_number, status, pricing_adjustments, created_at, updated_at 
+           FROM boq_versions 
+           WHERE project_id = $1 
+           ORDER BY version_number DESC`,
+          [projectId],
+        );
+
+        const project = await query(
+          `SELECT budget_amount, budget_breakdown FROM boq_projects WHERE id = $1`,
+          [projectId],
+        );
+        const budget = readProjectBudget(
+          project.rows[0]?.budget_amount,
+          project.rows[0]?.budget_breakdown,
+        );
+        const statuses = await loadVersionBudgetStatuses(projectId, budget);
+
+        res.json({
+          versions: (result.rows || []).map((v: any) => ({
+            ...v,
+            budget_status: statuses.find((s) => s.versionId === v.id),
+          })),
+        });
+      } catch (err) {
+        console.error("GET /api/boq-versions error", err);
+        res.status(500).json({ message: "Failed to fetch versions" });
+      }
+    },
+  );
+
+  // POST /api/boq-versions - Create a new version
+  app.post(
+    "/api/boq-versions",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { project_id, copy_from_version } = req.body;
+
+        if (!project_id) {
+          res.status(400).json({ message: "project_id is required" });
+          return;
+        }
+
+        const denied = await findAccessDenial(req.user, project_id, "edit");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        // Only a version of the same project can be copied; edit access to
+        // project_id covers viewing it
+        if (copy_from_version) {
+          const source = await loadVersionHeader(String(copy_from_version));
+          if (!source) {
+            res.status(404).json({ message: "Version to copy from not found" });
+            return;
+          }
+          if (source.projectId !== project_id) {
+            res.status(400).json({
+              message: "copy_from_version must be a version of this project",
+            });
+            return;
+          }
+        }
+
+        // Get next version number
+        const versionResult = await query(
+          `SELECT MAX(version_number) as max_version FROM boq_versions WHERE project_id = $1`,
+          [project_id],
+        );
+
+        const nextVersion = (versionResult.rows[0]?.max_version || 0) + 1;
+        const versionId = `ver-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+        // Fetch project name/client/location so we can store them on the version
+        let projectName: string | null = null;
+        let projectClient: string | null = null;
+        let projectLocation: string | null = null;
+        try {
+          const proj = await query(`SELECT name, client, location FROM boq_projects WHERE id = $1`, [project_id]);
+          projectName = proj.rows[0]?.name ?? null;
+          projectClient = proj.rows[0]?.client ?? null;
+          projectLocation = proj.rows[0]?.location ?? null;
+        } catch (err) {
+          // non-fatal: proceed with nulls if lookup fails
+          console.warn("[db] Could not fetch project name/client/location:", (err as any)?.message || err);
+        }
+
+        // Create new version (store project name, client, location for easier querying/version display)
+        await query(
+          `INSERT INTO boq_versions (id, project_id, project_name, project_client, project_location, version_number, status, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
+          [versionId, project_id, projectName, projectClient, projectLocation, nextVersion, "draft"],
+        );
+
+        // Copy items (and the pricing layers on top of them) from previous version if requested
+        if (copy_from_version) {
+          await query(
+            `UPDATE boq_versions
+             SET pricing_adjustments = COALESCE(
+               (SELECT pricing_adjustments FROM boq_versions WHERE id = $2), '[]'::jsonb)
+             WHERE id = $1`,
+            [versionId, copy_from_version],
+          );
+
+          const itemsResult = await query(
+            `SELECT * FROM boq_items WHERE version_id = $1`,
+            [copy_from_version],
+          );
+
+          for (const item of itemsResult.rows) {
+            const newItemId = `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            await query(
+              `INSERT INTO boq_items (id, project_id, estimator, table_data, version_id, created_at)
+               VALUES ($1, $2, $3, $4, $5, NOW())`,
+              [
+                newItemId,
+                project_id,
+                item.estimator,
+                item.table_data,
+                versionId,
+              ],
+            );
+          }
+        }
+
+        res.json({
+          id: versionId,
+          project_id,
+          version_number: nextVersion,
+          status: "draft",
+        });
+      } catch (err) {
+        console.error("POST /api/boq-versions error", err);
+        res.status(500).json({ message: "Failed to create version" });
+      }
+    },
+  );
+
+  // PUT /api/boq-versions/:versionId - Move a version through the review workflow
+  app.put(
+    "/api/boq-versions/:versionId",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      const { versionId } = req.params;
+      const { status } = req.body || {};
+      const comment =
+        typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+
+      if (!isBoqVersionStatus(status)) {
+        res.status(400).json({ message: "Invalid status" });
+        return;
+      }
+
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+
+        const versionResult = await client.query(
+          `SELECT id, project_id, version_number, status FROM boq_versions WHERE id = $1 FOR UPDATE`,
+          [versionId],
+        );
+        const version = versionResult.rows[0];
+        if (!version) {
+          await client.query("ROLLBACK");
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
+
+        const transition = findTransition(version.status || "draft", status);
+        if (!transition) {
+          await client.query("ROLLBACK");
+          res.status(400).json({
+            message: `Cannot move a ${BOQ_STATUS_LABELS[version.status as keyof typeof BOQ_STATUS_LABELS] || version.status} version to ${BOQ_STATUS_LABELS[status]}`,
+          });
+          return;
+        }
+        const projectRole = await getProjectRole(req.user, version.project_id);
+        if (!projectRoleAllows(projectRole, "view")) {
+          await client.query("ROLLBACK");
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
+        if (
+          !canPerformProjectTransition(transition, req.user?.role, projectRole)
+        ) {
+          await client.query("ROLLBACK");
+          res.status(403).json({
+            message: `Your role cannot ${transition.label.toLowerCase()}`,
+          });
+          return;
+        }
+        if (transition.requiresComment && !comment) {
+          await client.query("ROLLBACK");
+          res.status(400).json({ message: "A comment is required" });
+          return;
+        }
+
+        const recordReview = (
+          id: string,
+          action: string,
+          from: string,
+          to: string,
+          note: string | null,
+        ) =>
+          client.query(
+            `INSERT INTO boq_version_reviews (version_id, action, from_status, to_status, comment, actor_id, actor_username, actor_role, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+            [
+              id,
+              action,
+              from,
+              to,
+              note,
+              req.user?.id || null,
+              req.user?.username || null,
+              req.user?.role || null,
+            ],
+          );
+
+        await client.query(
+          `UPDATE boq_versions SET status = $1, updated_at = NOW() WHERE id = $2`,
+          [transition.to, versionId],
+        );
+        await recordReview(
+          versionId,
+          transition.action,
+          version.status,
+          transition.to,
+          comment || null,
+        );
+
+        // Only one approved version per project: approving supersedes the rest
+        if (transition.to === "approved") {
+          const previous = await client.query(
+            `UPDATE boq_versions SET status = 'superseded', updated_at = NOW()
+             WHERE project_id = $1 AND id <> $2 AND status = 'approved'
+             RETURNING id`,
+            [version.project_id, versionId],
+          );
+          for (const row of previous.rows) {
+            await recordReview(
+              row.id,
+              "supersede",
+              "approved",
+              "superseded",
+              `Superseded by V${version.version_number}`,
+            );
+          }
+        }
+
+        await client.query("COMMIT");
+        res.json({ message: "Version updated", status: transition.to });
+      } catch (err) {
+        try {
+          await client.query("ROLLBACK");
+        } catch (e) {
+          // ignore
+        }
+        console.error("PUT /api/boq-versions error", err);
+        res.status(500).json({ message: "Failed to update version" });
+      } finally {
+        client.release();
+      }
+    },
+  );
+
+  // PUT /api/boq-versions/:versionId/pricing - Replace the version's pricing adjustments
+  app.put(
+    "/api/boq-versions/:versionId/pricing",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { versionId } = req.params;
+        const parsed = parsePricingAdjustments(req.body?.adjustments);
+        if ("error" in parsed) {
+          res.status(400).json({ message: parsed.error });
+          return;
+        }
+
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "edit",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const lock = await findVersionLock(versionId);
+        if (lock) {
+          res.status(409).json({ message: lock.message });
+          return;
+        }
+
+        const result = await query(
+          `UPDATE boq_versions
+           SET pricing_adjustments = $1::jsonb, updated_at = NOW()
+           WHERE id = $2
+           RETURNING id, pricing_adjustments, updated_at`,
+          [JSON.stringify(parsed.adjustments), versionId],
+        );
+        if (result.rows.length === 0) {
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
+
+        res.json({
+          id: versionId,
+          pricing_adjustments: parsed.adjustments,
+          updated_at: result.rows[0].updated_at,
+        });
+      } catch (err) {
+        console.error("PUT /api/boq-versions/:versionId/pricing error", err);
+        res.status(500).json({ message: "Failed to save pricing adjustments" });
+      }
+    },
+  );
+
+  // GET /api/boq-versions/:versionId/reviews - Status history with reviewer comments
+  app.get(
+    "/api/boq-versions/:versionId/reviews",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { versionId } = req.params;
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "view",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        const result = await query(
+          `SELECT id, action, from_status, to_status, comment, actor_username, actor_role, created_at
+           FROM boq_version_reviews WHERE version_id = $1 ORDER BY created_at DESC, id DESC`,
+          [versionId],
+        );
+        res.json({ reviews: result.rows });
+      } catch (err) {
+        console.error("GET /api/boq-versions/:versionId/reviews error", err);
+        res.status(500).json({ message: "Failed to load review history" });
+      }
+    },
+  );
+
+  // POST /api/boq-versions/:versionId/save-edits - Persist CreateBoq cell edits into boq_items
+  app.post(
+    "/api/boq-versions/:versionId/save-edits",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      const { versionId } = req.params;
+      const { editedFields } = req.body || {};
+
+      if (!editedFields || typeof editedFields !== "object") {
+        res.status(400).json({ message: "editedFields is required" });
+        return;
+      }
+
+      const grouped = groupEditsByItem(editedFields);
+      if (grouped.size === 0) {
+        res.json({ message: "No changes to save", updated: 0, changes: [] });
+        return;
+      }
+
+      const client = await pool.connect();
+      try {
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "edit",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        await client.query("BEGIN");
+
+        const lock = await lockVersionForEdit(client, versionId);
+        if (lock) {
+          await client.query("ROLLBACK");
+          res.status(409).json({ message: lock.message });
+          return;
+        }
+
+        const itemsResult = await client.query(
+          `SELECT id, table_data FROM boq_items WHERE version_id = $1 AND id = ANY($2) FOR UPDATE`,
+          [versionId, Array.from(grouped.keys())],
+        );
+
+        const allChanges: CellChange[] = [];
+        for (const row of itemsResult.rows) {
+          const tableData =
+            typeof row.table_data === "string"
+              ? JSON.parse(row.table_data)
+              : row.table_data;
+          const { tableData: updated, changes } = applyRowEdits(
+            row.id,
+            tableData,
+            grouped.get(row.id)!,
+          );
+          if (changes.length === 0) continue;
+
+          await client.query(`UPDATE boq_items SET table_data = $1 WHERE id = $2`, [
+            JSON.stringify(updated),
+            row.id,
+          ]);
+          allChanges.push(...changes);
+        }
+
+        for (const change of allChanges) {
+          await client.query(
+            `INSERT INTO boq_edit_history (version_id, item_id, row_index, field, old_value, new_value, edited_by, edited_by_username, edited_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+            [
+              versionId,
+              change.itemId,
+              change.rowIndex,
+              change.field,
+              change.oldValue,
+              change.newValue,
+              req.user?.id || null,
+              req.user?.username || null,
+            ],
+          );
+        }
+
+        if (allChanges.length > 0) {
+          await client.query(
+            `UPDATE boq_versions SET updated_at = NOW() WHERE id = $1`,
+            [versionId],
+          );
+        }
+
+        await client.query("COMMIT");
+
+        res.json({
+          message: "Edits saved",
+          updated: new Set(allChanges.map((c) => c.itemId)).size,
+          changes: allChanges,
+        });
+      } catch (err) {
+        try {
+          await client.query("ROLLBACK");
+        } catch (e) {
+          // ignore
+        }
+        console.error("POST /api/boq-versions/:versionId/save-edits error", err);
+        res.status(500).json({ message: "Failed to save edits" });
+      } finally {
+        client.release();
+      }
+    },
+  );
+
+  // GET /api/boq-versions/:versionId/edit-history - Cell edit history for a version
+  app.get(
+    "/api/boq-versions/:versionId/edit-history",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { versionId } = req.params;
+
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "view",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const result = await query(
+          `SELECT id, item_id, row_index, field, old_value, new_value, edited_by, edited_by_username, edited_at
+           FROM boq_edit_history
+           WHERE version_id = $1
+           ORDER BY edited_at DESC, id DESC`,
+          [versionId],
+        );
+
+        res.json({ history: result.rows || [] });
+      } catch (err) {
+        console.error("GET /api/boq-versions/:versionId/edit-history error", err);
+        res.status(500).json({ message: "Failed to fetch edit history" });
+      }
+    },
+  );
+
+  // GET /api/boq-versions/:versionId/compare/:baseVersionId - Line-by-line diff against an earlier version
+  app.get(
+    "/api/boq-versions/:versionId/compare/:baseVersionId",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { versionId, baseVersionId } = req.params;
+
+        const versionsResult = await query(
+          `SELECT id, project_id, project_name, version_number, status, updated_at
+           FROM boq_versions WHERE id = ANY($1)`,
+          [[versionId, baseVersionId]],
+        );
+        const target = versionsResult.rows.find((v: any) => v.id === versionId);
+        const base = versionsResult.rows.find((v: any) => v.id === baseVersionId);
+
+        if (!target || !base) {
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
+        if (target.project_id !== base.project_id) {
+          res
+            .status(400)
+            .json({ message: "Versions belong to different projects" });
+          return;
+        }
+
+        const denied = await findAccessDenial(
+          req.user,
+          target.project_id,
+          "view",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const [baseRows, targetRows] = await Promise.all([
+          loadVersionRows(baseVersionId),
+          loadVersionRows(versionId),
+        ]);
+
+        res.json({ base, target, ...diffBoqRows(baseRows, targetRows) });
+      } catch (err) {
+        console.error("GET /api/boq-versions/:versionId/compare error", err);
+        res.status(500).json({ message: "Failed to compare versions" });
+      }
+    },
+  );
+
+  // ======================================================================
+  // GST RATES (HSN/SAC -> GST %, ADMIN MAINTAINED)
+  // ======================================================================
+
+  // GET /api/gst-rates - List the GST rate table
+  app.get(
+    "/api/gst-rates",
+    authMiddleware,
+    async (_req: Request, res: Response) => {
+      try {
+        res.json({ rates: await loadGstRates() });
+      } catch (err) {
+        console.error("GET /api/gst-rates error", err);
+        res.status(500).json({ message: "Failed to load GST rates" });
+      }
+    },
+  );
+
+  // POST /api/gst-rates - Add a rate for an HSN/SAC prefix
+  app.post(
+    "/api/gst-rates",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const parsed = parseGstRateInput(req.body);
+        if ("error" in parsed) {
+          res.status(400).json({ message: parsed.error });
+          return;
+        }
+        const { code_type, code_prefix, rate, description } = parsed.value;
+
+        const result = await query(
+          `INSERT INTO gst_rates (code_type, code_prefix, rate, description, updated_by)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (code_type, code_prefix) DO NOTHING
+           RETURNING id, code_type, code_prefix, rate, description`,
+          [code_type, code_prefix, rate, description, req.user?.id || null],
+        );
+        if (result.rows.length === 0) {
+          res.status(409).json({
+            message: `A rate for ${code_type.toUpperCase()} ${code_prefix} already exists`,
+          });
+          return;
+        }
+
+        res.status(201).json({
+          rate: { ...result.rows[0], rate: Number(result.rows[0].rate) },
+        });
+      } catch (err) {
+        console.error("POST /api/gst-rates error", err);
+        res.status(500).json({ message: "Failed to add GST rate" });
+      }
+    },
+  );
 
-        // Finally delete the project itself
-        const result = await query(
-          `DELETE FROM boq_projects WHERE id = $1`,
-          [projectId],
+  // PUT /api/gst-rates/:id - Update a rate
+  app.put(
+    "/api/gst-rates/:id",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const parsed = parseGstRateInput(req.body);
+        if ("error" in parsed) {
+          res.status(400).json({ message: parsed.error });
+          return;
+        }
+        const { code_type, code_prefix, rate, description } = parsed.value;
+
+        const clash = await query(
+          `SELECT id FROM gst_rates WHERE code_type = $1 AND code_prefix = $2 AND id <> $3`,
+          [code_type, code_prefix, req.params.id],
         );
+        if (clash.rows.length > 0) {
+          res.status(409).json({
+            message: `A rate for ${code_type.toUpperCase()} ${code_prefix} already exists`,
+          });
+          return;
+        }
 
-        if (result.rowCount === 0) {
-          res.status(404).json({ message: "Project not found" });
+        const result = await query(
+          `UPDATE gst_rates
+           SET code_type = $1, code_prefix = $2, rate = $3, description = $4,
+               updated_by = $5, updated_at = NOW()
+           WHERE id = $6
+           RETURNING id, code_type, code_prefix, rate, description`,
+          [
+            code_type,
+            code_prefix,
+            rate,
+            description,
+            req.user?.id || null,
+            req.params.id,
+          ],
+        );
+        if (result.rows.length === 0) {
+          res.status(404).json({ message: "GST rate not found" });
           return;
         }
 
-        res.json({ message: "Project deleted successfully" });
+        res.json({
+          rate: { ...result.rows[0], rate: Number(result.rows[0].rate) },
+        });
       } catch (err) {
-        console.error("DELETE /api/boq-projects/:projectId error", err);
-        res.status(500).json({ message: "Failed to delete project" });
+        console.error("PUT /api/gst-rates/:id error", err);
+        res.status(500).json({ message: "Failed to update GST rate" });
       }
     },
   );
 
-  // ====== BOQ VERSIONS ROUTES ======
+  // DELETE /api/gst-rates/:id - Remove a rate
+  app.delete(
+    "/api/gst-rates/:id",
+    authMiddleware,
+    requireRole("admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const result = await query(`DELETE FROM gst_rates WHERE id = $1`, [
+          req.params.id,
+        ]);
+        if (result.rowCount === 0) {
+          res.status(404).json({ message: "GST rate not found" });
+          return;
+        }
+        res.json({ message: "GST rate deleted" });
+      } catch (err) {
+        console.error("DELETE /api/gst-rates/:id error", err);
+        res.status(500).json({ message: "Failed to delete GST rate" });
+      }
+    },
+  );
 
-  // GET /api/boq-versions/:projectId - List all versions of a project
+  // GET /api/boq-versions/:versionId/tax - HSN/SAC code, GST rate and supply type per line
   app.get(
-    "/api/boq-versions/:projectId",
+    "/api/boq-versions/:versionId/tax",
     authMiddleware,
     async (req: Request, res: Response) => {
       try {
-        const { projectId } = req.params;
+        const { versionId } = req.params;
+        const header = await loadVersionHeader(versionId);
+        if (!header) {
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
 
-        const result = await query(
-          `SELECT id, project_id, project_name, project_client, project_location, version_number, status, created_at, updated_at 
-           FROM boq_versions 
-           WHERE project_id = $1 
-           ORDER BY version_number DESC`,
-          [projectId],
+        const denied = await findAccessDenial(
+          req.user,
+          header.projectId,
+          "view",
         );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
 
-        res.json({ versions: result.rows || [] });
+        const rows = await loadVersionRows(versionId);
+        res.json(await resolveBoqTax(header, rows));
       } catch (err) {
-        console.error("GET /api/boq-versions error", err);
-        res.status(500).json({ message: "Failed to fetch versions" });
+        console.error("GET /api/boq-versions/:versionId/tax error", err);
+        res.status(500).json({ message: "Failed to compute GST" });
       }
     },
   );
 
-  // POST /api/boq-versions - Create a new version
-  app.post(
-    "/api/boq-versions",
+  // GET /api/boq-versions/:versionId/xlsx - Download version as an Excel workbook
+  app.get(
+    "/api/boq-versions/:versionId/xlsx",
     authMiddleware,
     async (req: Request, res: Response) => {
       try {
-        const { project_id, copy_from_version } = req.body;
+        const { versionId } = req.params;
+        const header = await loadVersionHeader(versionId);
+        if (!header) {
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
 
-        if (!project_id) {
-          res.status(400).json({ message: "project_id is required" });
+        const denied = await findAccessDenial(
+          req.user,
+          header.projectId,
+          "view",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
           return;
         }
 
-        // Get next version number
-        const versionResult = await query(
-          `SELECT MAX(version_number) as max_version FROM boq_versions WHERE project_id = $1`,
-          [project_id],
+        const rows = localizeBoqRows(
+          await loadVersionRows(versionId),
+          header.unitSystem,
         );
+        const tax = await resolveBoqTax(header, rows);
+        const buffer = await buildBoqWorkbook(header, rows, tax);
+        const filename = boqFilename(header, "xlsx");
 
-        const nextVersion = (versionResult.rows[0]?.max_version || 0) + 1;
-        const versionId = `ver-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        res.setHeader(
+          "Content-Type",
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        );
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}"`,
+        );
+        res.send(buffer);
+      } catch (err) {
+        console.error("GET /api/boq-versions/:versionId/xlsx error", err);
+        res.status(500).json({ message: "Failed to export BOQ" });
+      }
+    },
+  );
 
-        // Fetch project name/client/location so we can store them on the version
-        let projectName: string | null = null;
-        let projectClient: string | null = null;
-        let projectLocation: string | null = null;
-        try {
-          const proj = await query(`SELECT name, client, location FROM boq_projects WHERE id = $1`, [project_id]);
-          projectName = proj.rows[0]?.name ?? null;
-          projectClient = proj.rows[0]?.client ?? null;
-          projectLocation = proj.rows[0]?.location ?? null;
-        } catch (err) {
-          // non-fatal: proceed with nulls if lookup fails
-          console.warn("[db] Could not fetch project name/client/location:", (err as any)?.message || err);
+  // GET /api/boq-versions/:versionId/pdf - Download version as a PDF document
+  app.get(
+    "/api/boq-versions/:versionId/pdf",
+    authMiddleware,
+    async (req: Request, res: Response) => {
+      try {
+        const { versionId } = req.params;
+        const header = await loadVersionHeader(versionId);
+        if (!header) {
+          res.status(404).json({ message: "Version not found" });
+          return;
         }
 
-        // Create new version (store project name, client, location for easier querying/version display)
-        await query(
-          `INSERT INTO boq_versions (id, project_id, project_name, project_client, project_location, version_number, status, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
-          [versionId, project_id, projectName, projectClient, projectLocation, nextVersion, "draft"],
+        const denied = await findAccessDenial(
+          req.user,
+          header.projectId,
+          "view",
         );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
 
-        // Copy items from previous version if requested
-        if (copy_from_version) {
-          const itemsResult = await query(
-            `SELECT * FROM boq_items WHERE version_id = $1`,
-            [copy_from_version],
-          );
+        const rows = localizeBoqRows(
+          await loadVersionRows(versionId),
+          header.unitSystem,
+        );
+        const tax = await resolveBoqTax(header, rows);
+        const buffer = buildBoqPdf(header, rows, tax);
+        const filename = boqFilename(header, "pdf");
+
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}"`,
+        );
+        res.send(buffer);
+      } catch (err) {
+        console.error("GET /api/boq-versions/:versionId/pdf error", err);
+        res.status(500).json({ message: "Failed to generate PDF" });
+      }
+    },
+  );
 
-          for (const item of itemsResult.rows) {
-            const newItemId = `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-            await query(
-              `INSERT INTO boq_items (id, project_id, estimator, table_data, version_id, created_at)
-               VALUES ($1, $2, $3, $4, $5, NOW())`,
-              [
-                newItemId,
-                project_id,
-                item.estimator,
-                item.table_data,
-                versionId,
-              ],
-            );
-          }
+  // Spreadsheet uploads are sent as the raw request body
+  const spreadsheetUpload = express.raw({ type: () => true, limit: "10mb" });
+
+  // POST /api/boq-import/preview - Parse an uploaded .xlsx/.csv and suggest a column mapping
+  app.post(
+    "/api/boq-import/preview",
+    authMiddleware,
+    spreadsheetUpload,
+    async (req: Request, res: Response) => {
+      try {
+        const filename = String(req.query.filename || "");
+        if (!isSpreadsheetName(filename)) {
+          res
+            .status(400)
+            .json({ message: "Only .xlsx and .csv files can be imported" });
+          return;
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          res.status(400).json({ message: "File is empty" });
+          return;
         }
 
+        const parsed = await parseSpreadsheet(
+          req.body,
+          filename,
+          req.query.sheet ? String(req.query.sheet) : undefined,
+        );
+        const headerIndex = detectHeaderRow(parsed.rows);
+        const headers = parsed.rows[headerIndex] || [];
+
         res.json({
-          id: versionId,
-          project_id,
-          version_number: nextVersion,
-          status: "draft",
+          sheets: parsed.sheets,
+          sheet: parsed.sheet,
+          headerRow: parsed.rowNumbers[headerIndex] || 1,
+          headers,
+          rows: parsed.rows.slice(0, 200),
+          rowNumbers: parsed.rowNumbers.slice(0, 200),
+          rowCount: parsed.rows.length,
+          suggestedMapping: suggestMapping(headers),
         });
       } catch (err) {
-        console.error("POST /api/boq-versions error", err);
-        res.status(500).json({ message: "Failed to create version" });
+        console.error("POST /api/boq-import/preview error", err);
+        res.status(400).json({ message: "Could not read spreadsheet" });
       }
     },
   );
 
-  // PUT /api/boq-versions/:versionId - Update version status (lock/submit)
-  app.put(
-    "/api/boq-versions/:versionId",
+  // POST /api/boq-versions/:versionId/import - Validate (dry_run=true) or import a mapped spreadsheet
+  app.post(
+    "/api/boq-versions/:versionId/import",
     authMiddleware,
+    spreadsheetUpload,
     async (req: Request, res: Response) => {
       try {
         const { versionId } = req.params;
-        const { status } = req.body;
+        const filename = String(req.query.filename || "");
+        const dryRun = req.query.dry_run === "true";
+        const headerRow = Number(req.query.header_row) || 1;
+        const mapping = parseMappingParam(req.query.mapping);
+
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "edit",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
 
-        if (!status || !["draft", "submitted"].includes(status)) {
-          res.status(400).json({ message: "Invalid status" });
+        if (!isSpreadsheetName(filename)) {
+          res
+            .status(400)
+            .json({ message: "Only .xlsx and .csv files can be imported" });
+          return;
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          res.status(400).json({ message: "File is empty" });
+          return;
+        }
+
+        const versionResult = await query(
+          `SELECT id, project_id, status FROM boq_versions WHERE id = $1`,
+          [versionId],
+        );
+        const version = versionResult.rows[0];
+        if (!version) {
+          res.status(404).json({ message: "Version not found" });
+          return;
+        }
+        const lock = await findVersionLock(versionId);
+        if (lock) {
+          res.status(409).json({ message: lock.message });
+          return;
+        }
+
+        const parsed = await parseSpreadsheet(
+          req.body,
+          filename,
+          req.query.sheet ? String(req.query.sheet) : undefined,
+        );
+        const dataRows: string[][] = [];
+        const dataRowNumbers: number[] = [];
+        parsed.rows.forEach((row, i) => {
+          if (parsed.rowNumbers[i] > headerRow) {
+            dataRows.push(row);
+            dataRowNumbers.push(parsed.rowNumbers[i]);
+          }
+        });
+
+        const result = buildImportItems(dataRows, mapping, dataRowNumbers);
+
+        if (dryRun) {
+          res.json(result);
+          return;
+        }
+        if (result.errors.length > 0) {
+          res.status(400).json({
+            message: "Fix the highlighted rows before importing",
+            ...result,
+          });
+          return;
+        }
+        if (result.items.length === 0) {
+          res.status(400).json({ message: "No rows to import", ...result });
           return;
         }
 
+        const productName =
+          String(req.query.product_name || "").trim() ||
+          filename.replace(/\.[^.]+$/, "");
+        const tableData = {
+          product_name: productName,
+          source: "import",
+          source_file: filename,
+          source_sheet: parsed.sheet || null,
+          step11_items: result.items,
+          created_at: new Date().toISOString(),
+        };
+
+        const itemId = `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
         await query(
-          `UPDATE boq_versions SET status = $1, updated_at = NOW() WHERE id = $2`,
-          [status, versionId],
+          `INSERT INTO boq_items (id, project_id, estimator, table_data, version_id, user_added, created_at)
+           VALUES ($1, $2, $3, $4, $5, true, NOW())`,
+          [
+            itemId,
+            version.project_id,
+            "imported",
+            JSON.stringify(tableData),
+            versionId,
+          ],
         );
+        await query(`UPDATE boq_versions SET updated_at = NOW() WHERE id = $1`, [
+          versionId,
+        ]);
 
-        res.json({ message: "Version updated" });
+        res.json({
+          message: `Imported ${result.items.length} row(s)`,
+          id: itemId,
+          imported: result.items.length,
+          skipped: result.skipped,
+        });
       } catch (err) {
-        console.error("PUT /api/boq-versions error", err);
-        res.status(500).json({ message: "Failed to update version" });
+        console.error("POST /api/boq-versions/:versionId/import error", err);
+        res.status(500).json({ message: "Failed to import BOQ" });
       }
     },
   );
@@ -2795,6 +4586,28 @@ export async function registerRoutes(
       const { versionId } = req.params;
 
       try {
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "edit",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const versionResult = await query(
+          `SELECT status FROM boq_versions WHERE id = $1`,
+          [versionId],
+        );
+        const status = versionResult.rows[0]?.status;
+        if (versionResult.rows[0] && !isVersionDeletable(status)) {
+          res.status(409).json({
+            message: `${BOQ_STATUS_LABELS[status as keyof typeof BOQ_STATUS_LABELS] || status} versions cannot be deleted`,
+          });
+          return;
+        }
+
         // Use transaction to ensure both deletes succeed together
         await query("BEGIN");
 
@@ -2829,7 +4642,8 @@ export async function registerRoutes(
     authMiddleware,
     async (req: Request, res: Response) => {
       try {
-        const { project_id, version_id, estimator, table_data } = req.body;
+        const { project_id, version_id, estimator, table_data, session_id } =
+          req.body;
         console.log("POST /api/boq-items received:", {
           project_id,
           version_id,
@@ -2849,6 +4663,37 @@ export async function registerRoutes(
           return;
         }
 
+        const denied = await findAccessDenial(req.user, project_id, "edit");
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+        if (
+          version_id &&
+          (await projectIdForVersion(version_id)) !== project_id
+        ) {
+          res
+            .status(400)
+            .json({ message: "version_id does not belong to project_id" });
+          return;
+        }
+
+        const lock = await findVersionLock(version_id);
+        if (lock) {
+          res.status(409).json({ message: lock.message });
+          return;
+        }
+
+        // Lines built from an estimator cart: its saved estimate lines must
+        // still match the shared engine
+        if (session_id) {
+          const problems = await checkSavedCart(estimator, String(session_id));
+          if (problems.length > 0) {
+            res.status(400).json({ message: problems[0], problems });
+            return;
+          }
+        }
+
         const itemId = `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
         console.log("Creating BOQ item with ID:", itemId);
 
@@ -2916,6 +4761,16 @@ export async function registerRoutes(
       try {
         const { versionId } = req.params;
 
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForVersion(versionId),
+          "view",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
         const result = await query(
           `SELECT id, project_id, version_id, estimator, table_data, created_at FROM boq_items 
          WHERE version_id = $1 AND user_added = true ORDER BY created_at ASC`,
@@ -2964,6 +4819,16 @@ export async function registerRoutes(
           return;
         }
 
+        const denied = await findAccessDenial(
+          req.user,
+          String(project_id),
+          "view",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
         const result = await query(
           `SELECT id, project_id, version_id, estimator, table_data, created_at FROM boq_items 
          WHERE project_id = $1 AND user_added = true ORDER BY created_at ASC`,
@@ -3004,6 +4869,22 @@ export async function registerRoutes(
           return;
         }
 
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForItem(itemId),
+          "edit",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const lock = await findItemLock(itemId);
+        if (lock) {
+          res.status(409).json({ message: lock.message });
+          return;
+        }
+
         await query(
           `UPDATE boq_items SET table_data = $1, created_at = NOW() WHERE id = $2`,
           [JSON.stringify(table_data), itemId],
@@ -3025,6 +4906,22 @@ export async function registerRoutes(
       try {
         const { itemId } = req.params;
 
+        const denied = await findAccessDenial(
+          req.user,
+          await projectIdForItem(itemId),
+          "edit",
+        );
+        if (denied) {
+          res.status(denied.status).json({ message: denied.message });
+          return;
+        }
+
+        const lock = await findItemLock(itemId);
+        if (lock) {
+          res.status(409).json({ message: lock.message });
+          return;
+        }
+
         await query(`DELETE FROM boq_items WHERE id = $1`, [itemId]);
 
         res.json({ message: "BOQ item deleted" });
@@ -3071,10 +4968,21 @@ export async function registerRoutes(
           panel_type TEXT,
           sub_option TEXT,
           glazing_type TEXT,
+          location TEXT,
+          coefficient_version INTEGER,
+          coefficient_overrides JSONB,
+          requirement_key TEXT,
+          estimate JSONB,
           created_at TIMESTAMPTZ DEFAULT now()
         )
       `);
 
+        // Estimator lines must still add up to what the shared engine gives
+        const problems = await checkEstimatedItems(items);
+        if (problems.length > 0) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
+
         // If replace is true, delete existing items for this session first
         if (replace) {
           await query(
@@ -3092,8 +5000,9 @@ export async function registerRoutes(
           INSERT INTO estimator_step9_cart (
             estimator, bill_no, s_no, item, description, unit, qty, rate, amount,
             material_id, batch_id, row_id, shop_id, supply_rate, install_rate,
-            door_type, panel_type, sub_option, glazing_type
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+            door_type, panel_type, sub_option, glazing_type, location,
+            coefficient_version, coefficient_overrides, requirement_key, estimate
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
         `,
             [
               estimator,
@@ -3116,6 +5025,13 @@ export async function registerRoutes(
               item.panel_type,
               item.sub_option,
               item.glazing_type,
+              item.location || null,
+              item.coefficient_version ?? null,
+              item.coefficient_overrides
+                ? JSON.stringify(item.coefficient_overrides)
+                : null,
+              item.requirement_key || null,
+              item.estimate ? JSON.stringify(item.estimate) : null,
             ],
           );
         }
@@ -3158,6 +5074,11 @@ export async function registerRoutes(
           panel_type TEXT,
           sub_option TEXT,
           glazing_type TEXT,
+          location TEXT,
+          coefficient_version INTEGER,
+          coefficient_overrides JSONB,
+          requirement_key TEXT,
+          estimate JSONB,
           created_at TIMESTAMPTZ DEFAULT now()
         )
       `);
@@ -3197,6 +5118,17 @@ export async function registerRoutes(
           panelType: row.panel_type,
           subOption: row.sub_option,
           glazingType: row.glazing_type,
+          coefficients:
+            row.coefficient_version != null
+              ? {
+                  version: Number(row.coefficient_version),
+                  overrides: readCoefficientOverrides(
+                    row.coefficient_overrides,
+                  ),
+                }
+              : null,
+          requirementKey: row.requirement_key || null,
+          estimate: readCartEstimate(row.estimate),
           isSaved: true, // Mark as saved since it's from DB
           // Include database ID for deletion
           dbId: row.id,
@@ -3462,6 +5394,11 @@ export async function registerRoutes(
           panel_type TEXT,
           sub_option TEXT,
           glazing_type TEXT,
+          location TEXT,
+          coefficient_version INTEGER,
+          coefficient_overrides JSONB,
+          requirement_key TEXT,
+          estimate JSONB,
           created_at TIMESTAMPTZ DEFAULT now()
         )
       `);
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  availableProjectTransitions,
+  canPerformProjectTransition,
+} from "./boq-access";
+import { BOQ_TRANSITIONS, type BoqTransitionAction } from "./boq-workflow";
+
+const transition = (action: BoqTransitionAction) =>
+  BOQ_TRANSITIONS.find((t) => t.action === action)!;
+
+const actions = (
+  status: string,
+  userRole: string | null,
+  projectRole: Parameters<typeof availableProjectTransitions>[2],
+) =>
+  availableProjectTransitions(status, userRole, projectRole).map(
+    (t) => t.action,
+  );
+
+describe("canPerformProjectTransition", () => {
+  it("lets project approvers start a review and reject, but not approve", () => {
+    assert.deepEqual(actions("submitted", "user", "approver"), [
+      "start_review",
+    ]);
+    assert.deepEqual(actions("under_review", "user", "approver"), ["reject"]);
+    assert.deepEqual(actions("approved", "user", "approver"), []);
+  });
+
+  it("keeps approve and supersede with admins", () => {
+    for (const action of ["approve", "supersede"] as const) {
+      const t = transition(action);
+      assert.equal(canPerformProjectTransition(t, "user", "approver"), false);
+      assert.equal(canPerformProjectTransition(t, "user", "owner"), false);
+      assert.equal(
+        canPerformProjectTransition(t, "purchase_team", "approver"),
+        false,
+      );
+      assert.equal(canPerformProjectTransition(t, "admin", "admin"), true);
+    }
+  });
+
+  it("needs the project to be visible for global reviewer roles", () => {
+    const reject = transition("reject");
+    assert.equal(
+      canPerformProjectTransition(reject, "purchase_team", "viewer"),
+      true,
+    );
+    assert.equal(
+      canPerformProjectTransition(reject, "purchase_team", null),
+      false,
+    );
+  });
+
+  it("needs edit access to submit and recall", () => {
+    assert.deepEqual(actions("draft", "user", "editor"), ["submit"]);
+    assert.deepEqual(actions("submitted", "user", "editor"), ["recall"]);
+    assert.deepEqual(actions("draft", "user", "approver"), []);
+    assert.deepEqual(actions("draft", "user", "viewer"), []);
+  });
+});
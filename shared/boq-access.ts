@@ -0,0 +1,108 @@
+// Per-project access for BOQ projects, shared by the API and the client. A
+// project has one owner and any number of invited members; admins can open
+// every project.
+
+import {
+  BOQ_TRANSITIONS,
+  canPerformTransition,
+  type BoqTransition,
+  type BoqTransitionAction,
+  type BoqVersionStatus,
+} from "./boq-workflow";
+
+export const PROJECT_MEMBER_ROLES = ["viewer", "editor", "approver"] as const;
+
+export type ProjectMemberRole = (typeof PROJECT_MEMBER_ROLES)[number];
+
+/** The caller's standing on a project; "admin" comes from the global role. */
+export type ProjectAccessRole = "admin" | "owner" | ProjectMemberRole;
+
+export type ProjectPermission =
+  /** Open the project, its versions, items and exports. */
+  | "view"
+  /** Add/edit/import items, create versions, submit or recall them. */
+  | "edit"
+  /** Move submitted versions through review (start review, reject). */
+  | "review"
+  /** Budget, members, ownership and deleting the project. */
+  | "manage";
+
+export const PROJECT_ROLE_LABELS: Record<ProjectAccessRole, string> = {
+  admin: "Admin",
+  owner: "Owner",
+  viewer: "Viewer",
+  editor: "Editor",
+  approver: "Approver",
+};
+
+const ROLE_PERMISSIONS: Record<ProjectAccessRole, ProjectPermission[]> = {
+  admin: ["view", "edit", "review", "manage"],
+  owner: ["view", "edit", "manage"],
+  editor: ["view", "edit"],
+  approver: ["view", "review"],
+  viewer: ["view"],
+};
+
+export interface ProjectMember {
+  user_id: string;
+  username: string;
+  full_name?: string | null;
+  role: ProjectMemberRole;
+  created_at?: string;
+}
+
+export function isProjectMemberRole(
+  value: unknown,
+): value is ProjectMemberRole {
+  return PROJECT_MEMBER_ROLES.includes(value as ProjectMemberRole);
+}
+
+export function projectRoleAllows(
+  role: ProjectAccessRole | null | undefined,
+  permission: ProjectPermission,
+): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/** Transitions a project approver may perform without a global role. */
+const PROJECT_REVIEW_ACTIONS: BoqTransitionAction[] = [
+  "start_review",
+  "reject",
+];
+
+/**
+ * Submit/recall need edit access. Starting a review and rejecting are open
+ * to project approvers; every other transition, approve and supersede
+ * included, still needs a global role that allows it (e.g. admin) on top of
+ * being able to see the project.
+ */
+export function canPerformProjectTransition(
+  transition: BoqTransition,
+  userRole: string | null | undefined,
+  projectRole: ProjectAccessRole | null | undefined,
+): boolean {
+  if (transition.roles === null) return projectRoleAllows(projectRole, "edit");
+  if (
+    PROJECT_REVIEW_ACTIONS.includes(transition.action) &&
+    projectRoleAllows(projectRole, "review")
+  ) {
+    return true;
+  }
+  return (
+    projectRoleAllows(projectRole, "view") &&
+    canPerformTransition(transition, userRole)
+  );
+}
+
+/** Transitions out of `status` the caller may perform on this project. */
+export function availableProjectTransitions(
+  status: string,
+  userRole: string | null | undefined,
+  projectRole: ProjectAccessRole | null | undefined,
+): BoqTransition[] {
+  return BOQ_TRANSITIONS.filter(
+    (t) =>
+      t.from.includes(status as BoqVersionStatus) &&
+      canPerformProjectTransition(t, userRole, projectRole),
+  );
+}
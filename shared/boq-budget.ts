@@ -0,0 +1,224 @@
+// Project budgets and budget-vs-estimate variance. A project has an overall
+// budget and optionally a split by estimator/trade (keyed like
+// boq_items.estimator); each version's quoted amount is compared against it.
+
+/** Used-% above which a version is flagged as approaching the budget. */
+export const BUDGET_WARNING_PERCENT = 90;
+/** Used-% above which a version is over budget. */
+export const BUDGET_OVER_PERCENT = 100;
+
+/** "none" when there is no budget to compare against. */
+export type BudgetAlertLevel = "none" | "ok" | "warning" | "over";
+
+export interface ProjectBudget {
+  total: number | null;
+  /** Budget per estimator key, e.g. { electrical: 250000 }. */
+  breakdown: Record<string, number>;
+}
+
+export interface BudgetVariance {
+  budget: number | null;
+  estimate: number;
+  /** estimate − budget; positive means over budget. */
+  variance: number | null;
+  usedPercent: number | null;
+  level: BudgetAlertLevel;
+}
+
+export interface TradeBudgetVariance extends BudgetVariance {
+  estimator: string;
+}
+
+export interface VersionBudgetStatus extends BudgetVariance {
+  versionId: string;
+  versionNumber: number;
+  trades: TradeBudgetVariance[];
+}
+
+export interface ProjectBudgetSummary {
+  /** Variance of the newest version, which is what the project list shows. */
+  latest: VersionBudgetStatus | null;
+  overBudgetVersions: number[];
+}
+
+/** Quoted amount (before GST) of one version, in total and per estimator. */
+export interface VersionEstimate {
+  versionId: string;
+  versionNumber: number;
+  total: number;
+  byEstimator: Record<string, number>;
+}
+
+const MAX_BREAKDOWN_ENTRIES = 50;
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+const UNIT_MULTIPLIERS: { pattern: RegExp; factor: number }[] = [
+  { pattern: /^(cr|crs|crore|crores)$/, factor: 1e7 },
+  { pattern: /^(l|lac|lacs|lakh|lakhs)$/, factor: 1e5 },
+  { pattern: /^(m|mn|million|millions)$/, factor: 1e6 },
+  { pattern: /^(k|thousand|thousands)$/, factor: 1e3 },
+];
+
+/**
+ * Read a budget amount from a number or from text as people used to type it
+ * into the old free-text column ("₹25,00,000", "1.5 Cr", "40 lakhs").
+ * Returns null when the value is empty or not recognisable.
+ */
+export function parseBudgetAmount(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? round2(value) : null;
+  }
+  const text = String(value ?? "")
+    .toLowerCase()
+    .replace(/₹|\binr\b|\brs\.?|\/-/g, "")
+    .replace(/,/g, "")
+    .trim();
+  if (!text) return null;
+
+  const match = text.match(/^(\d+(?:\.\d+)?|\.\d+)\s*([a-z]*)\.?$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  if (!match[2]) return round2(amount);
+  const unit = UNIT_MULTIPLIERS.find((u) => u.pattern.test(match[2]));
+  return unit ? round2(amount * unit.factor) : null;
+}
+
+export function budgetAlertLevel(usedPercent: number | null): BudgetAlertLevel {
+  if (usedPercent === null) return "none";
+  if (usedPercent > BUDGET_OVER_PERCENT) return "over";
+  if (usedPercent > BUDGET_WARNING_PERCENT) return "warning";
+  return "ok";
+}
+
+export function computeBudgetVariance(
+  budget: number | null,
+  estimate: number,
+): BudgetVariance {
+  const amount = round2(estimate);
+  if (budget === null || budget <= 0) {
+    return {
+      budget,
+      estimate: amount,
+      variance: null,
+      usedPercent: null,
+      level: "none",
+    };
+  }
+  const usedPercent = round2((amount / budget) * 100);
+  return {
+    budget,
+    estimate: amount,
+    variance: round2(amount - budget),
+    usedPercent,
+    level: budgetAlertLevel(usedPercent),
+  };
+}
+
+/**
+ * Variance of one version against the project budget. Trades are listed for
+ * every budgeted estimator and every estimator the version uses, budgeted
+ * ones first.
+ */
+export function buildVersionBudgetStatus(
+  budget: ProjectBudget,
+  estimate: VersionEstimate,
+): VersionBudgetStatus {
+  const budgeted = Object.keys(budget.breakdown);
+  const unbudgeted = Object.keys(estimate.byEstimator)
+    .filter((key) => !(key in budget.breakdown))
+    .sort();
+
+  return {
+    versionId: estimate.versionId,
+    versionNumber: estimate.versionNumber,
+    ...computeBudgetVariance(budget.total, estimate.total),
+    trades: budgeted.concat(unbudgeted).map((estimator) => ({
+      estimator,
+      ...computeBudgetVariance(
+        budget.breakdown[estimator] ?? null,
+        estimate.byEstimator[estimator] || 0,
+      ),
+    })),
+  };
+}
+
+/** Summary for the project list; `statuses` is ordered newest first. */
+export function summarizeProjectBudget(
+  statuses: VersionBudgetStatus[],
+): ProjectBudgetSummary {
+  return {
+    latest: statuses[0] || null,
+    overBudgetVersions: statuses
+      .filter((s) => s.level === "over")
+      .map((s) => s.versionNumber)
+      .sort((a, b) => a - b),
+  };
+}
+
+/** Validate a client-supplied budget before it is stored. */
+export function parseBudgetInput(input: {
+  budget?: unknown;
+  budget_breakdown?: unknown;
+}): { value: ProjectBudget } | { error: string } {
+  const rawTotal = input.budget;
+  const hasTotal =
+    rawTotal !== undefined && rawTotal !== null && rawTotal !== "";
+  const total = hasTotal ? parseBudgetAmount(rawTotal) : null;
+  if (hasTotal && total === null) {
+    return { error: "Budget must be a non-negative amount" };
+  }
+
+  const rawBreakdown = input.budget_breakdown ?? {};
+  if (typeof rawBreakdown !== "object" || Array.isArray(rawBreakdown)) {
+    return {
+      error: "budget_breakdown must be an object of estimator → amount",
+    };
+  }
+  const keys = Object.keys(rawBreakdown);
+  if (keys.length > MAX_BREAKDOWN_ENTRIES) {
+    return {
+      error: `At most ${MAX_BREAKDOWN_ENTRIES} budget lines are allowed`,
+    };
+  }
+
+  const breakdown: Record<string, number> = {};
+  for (const key of keys) {
+    const estimator = key.trim().slice(0, 100);
+    const amount = parseBudgetAmount((rawBreakdown as any)[key]);
+    if (!estimator) {
+      return { error: "Budget lines need an estimator" };
+    }
+    if (amount === null) {
+      return { error: `Budget for ${estimator} must be a non-negative amount` };
+    }
+    breakdown[estimator] = amount;
+  }
+  return { value: { total, breakdown } };
+}
+
+/** Stored JSON may be missing or malformed on old rows; never throw on read. */
+export function readProjectBudget(
+  total: unknown,
+  breakdown: unknown,
+): ProjectBudget {
+  let raw = breakdown;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      raw = {};
+    }
+  }
+  const parsed = parseBudgetInput({ budget: total, budget_breakdown: raw });
+  return "value" in parsed
+    ? parsed.value
+    : { total: parseBudgetAmount(total), breakdown: {} };
+}
+
+export const BUDGET_LEVEL_LABELS: Record<BudgetAlertLevel, string> = {
+  none: "No budget",
+  ok: "Within budget",
+  warning: `Over ${BUDGET_WARNING_PERCENT}% of budget`,
+  over: "Over budget",
+};
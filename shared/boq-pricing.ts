@@ -0,0 +1,174 @@
+// Version-level pricing layers (overhead, contingency, margin, discount) added
+// on top of the raw BOQ amounts. Item rates are never modified; the layers are
+// stored on boq_versions.pricing_adjustments and applied at display/export time.
+
+export const PRICING_ADJUSTMENT_KINDS = [
+  "overhead",
+  "contingency",
+  "margin",
+  "discount",
+] as const;
+
+export type PricingAdjustmentKind = (typeof PRICING_ADJUSTMENT_KINDS)[number];
+
+export const PRICING_KIND_LABELS: Record<PricingAdjustmentKind, string> = {
+  overhead: "Contractor Overhead",
+  contingency: "Contingency",
+  margin: "Profit Margin",
+  discount: "Discount",
+};
+
+export type PricingAdjustmentMode = "percent" | "lump_sum";
+
+/** Which amounts the layer applies to; "total" splits pro rata between both. */
+export type PricingAdjustmentBasis = "supply" | "install" | "total";
+
+export const PRICING_BASIS_LABELS: Record<PricingAdjustmentBasis, string> = {
+  supply: "Supply",
+  install: "Install",
+  total: "Supply + Install",
+};
+
+export interface PricingAdjustment {
+  kind: PricingAdjustmentKind;
+  /** Shown in the summary; defaults to the kind's label. */
+  label: string;
+  mode: PricingAdjustmentMode;
+  /** Percentage or rupee amount; always positive, discounts subtract. */
+  value: number;
+  basis: PricingAdjustmentBasis;
+}
+
+export interface PricingAmounts {
+  supply: number;
+  install: number;
+}
+
+export interface PricingLayer extends PricingAmounts {
+  adjustment: PricingAdjustment;
+}
+
+export interface PricingResult {
+  base: PricingAmounts;
+  layers: PricingLayer[];
+  final: PricingAmounts;
+  /**
+   * final / base per side, used to apportion the layers over individual lines
+   * (e.g. so GST is charged on the adjusted value).
+   */
+  factors: PricingAmounts;
+}
+
+const MAX_ADJUSTMENTS = 20;
+
+export const pricingAdjustmentLabel = (a: PricingAdjustment) =>
+  a.label || PRICING_KIND_LABELS[a.kind];
+
+/**
+ * Layers apply in order, each on the running amount left by the previous ones,
+ * so a margin listed after overhead is earned on the overhead too.
+ */
+export function applyPricingAdjustments(
+  base: PricingAmounts,
+  adjustments: PricingAdjustment[],
+): PricingResult {
+  const running = { ...base };
+  const layers: PricingLayer[] = [];
+
+  for (const adjustment of adjustments) {
+    const sign = adjustment.kind === "discount" ? -1 : 1;
+    const onSupply = adjustment.basis !== "install";
+    const onInstall = adjustment.basis !== "supply";
+    const layer: PricingLayer = { adjustment, supply: 0, install: 0 };
+
+    if (adjustment.mode === "percent") {
+      if (onSupply) layer.supply = (running.supply * adjustment.value) / 100;
+      if (onInstall) {
+        layer.install = (running.install * adjustment.value) / 100;
+      }
+    } else if (adjustment.basis === "total") {
+      const total = running.supply + running.install;
+      const supplyShare = total > 0 ? running.supply / total : 0.5;
+      layer.supply = adjustment.value * supplyShare;
+      layer.install = adjustment.value - layer.supply;
+    } else if (onSupply) {
+      layer.supply = adjustment.value;
+    } else {
+      layer.install = adjustment.value;
+    }
+
+    layer.supply *= sign;
+    layer.install *= sign;
+    running.supply += layer.supply;
+    running.install += layer.install;
+    layers.push(layer);
+  }
+
+  return {
+    base,
+    layers,
+    final: running,
+    factors: {
+      supply: base.supply ? running.supply / base.supply : 1,
+      install: base.install ? running.install / base.install : 1,
+    },
+  };
+}
+
+/** Validate a client-supplied adjustment list before it is stored. */
+export function parsePricingAdjustments(
+  input: unknown,
+): { adjustments: PricingAdjustment[] } | { error: string } {
+  if (!Array.isArray(input)) {
+    return { error: "adjustments must be an array" };
+  }
+  if (input.length > MAX_ADJUSTMENTS) {
+    return { error: `At most ${MAX_ADJUSTMENTS} adjustments are allowed` };
+  }
+
+  const adjustments: PricingAdjustment[] = [];
+  for (let idx = 0; idx < input.length; idx++) {
+    const a = input[idx] || {};
+    const where = `Adjustment ${idx + 1}`;
+    if (!PRICING_ADJUSTMENT_KINDS.includes(a.kind)) {
+      return { error: `${where}: unknown kind` };
+    }
+    if (a.mode !== "percent" && a.mode !== "lump_sum") {
+      return { error: `${where}: mode must be 'percent' or 'lump_sum'` };
+    }
+    if (!["supply", "install", "total"].includes(a.basis)) {
+      return { error: `${where}: basis must be supply, install or total` };
+    }
+    const value = Number(a.value);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: `${where}: value must be a non-negative number` };
+    }
+    if (a.mode === "percent" && value > 100) {
+      return { error: `${where}: percentage cannot exceed 100` };
+    }
+    adjustments.push({
+      kind: a.kind,
+      label: String(a.label ?? "")
+        .trim()
+        .slice(0, 100),
+      mode: a.mode,
+      value,
+      basis: a.basis,
+    });
+  }
+  return { adjustments };
+}
+
+/** Stored JSON may be missing or malformed on old rows; never throw on read. */
+export function readPricingAdjustments(raw: unknown): PricingAdjustment[] {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  const parsed = parsePricingAdjustments(value ?? []);
+  return "adjustments" in parsed ? parsed.adjustments : [];
+}
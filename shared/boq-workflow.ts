@@ -0,0 +1,127 @@
+// BOQ version review/approval state machine, shared by the API and CreateBoq
+
+export const BOQ_VERSION_STATUSES = [
+  "draft",
+  "submitted",
+  "under_review",
+  "approved",
+  "rejected",
+  "superseded",
+] as const;
+
+export type BoqVersionStatus = (typeof BOQ_VERSION_STATUSES)[number];
+
+export const BOQ_STATUS_LABELS: Record<BoqVersionStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  under_review: "Under Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  superseded: "Superseded",
+};
+
+export type BoqTransitionAction =
+  "submit" | "recall" | "start_review" | "approve" | "reject" | "supersede";
+
+export interface BoqTransition {
+  action: BoqTransitionAction;
+  label: string;
+  from: BoqVersionStatus[];
+  to: BoqVersionStatus;
+  /** Roles allowed to perform the transition; null means any signed-in user. */
+  roles: string[] | null;
+  requiresComment?: boolean;
+}
+
+const REVIEWER_ROLES = ["pre_sales", "purchase_team", "admin"];
+
+export const BOQ_TRANSITIONS: BoqTransition[] = [
+  {
+    action: "submit",
+    label: "Submit for Review",
+    from: ["draft"],
+    to: "submitted",
+    roles: null,
+  },
+  {
+    action: "recall",
+    label: "Recall to Draft",
+    from: ["submitted"],
+    to: "draft",
+    roles: null,
+  },
+  {
+    action: "start_review",
+    label: "Start Review",
+    from: ["submitted"],
+    to: "under_review",
+    roles: REVIEWER_ROLES,
+  },
+  {
+    action: "approve",
+    label: "Approve",
+    from: ["under_review"],
+    to: "approved",
+    roles: ["admin"],
+  },
+  {
+    action: "reject",
+    label: "Reject",
+    from: ["under_review"],
+    to: "rejected",
+    roles: REVIEWER_ROLES,
+    requiresComment: true,
+  },
+  {
+    action: "supersede",
+    label: "Mark Superseded",
+    from: ["approved", "rejected"],
+    to: "superseded",
+    roles: ["admin"],
+  },
+];
+
+export function isBoqVersionStatus(value: unknown): value is BoqVersionStatus {
+  return BOQ_VERSION_STATUSES.includes(value as BoqVersionStatus);
+}
+
+/** Only drafts may have items added, edited, imported or removed. */
+export function isVersionEditable(status: string | null | undefined): boolean {
+  return (status || "draft") === "draft";
+}
+
+/** Versions that are in review or approved are kept for the record. */
+export function isVersionDeletable(status: string | null | undefined): boolean {
+  return !["submitted", "under_review", "approved"].includes(status || "draft");
+}
+
+export function canPerformTransition(
+  transition: BoqTransition,
+  role: string | null | undefined,
+): boolean {
+  return (
+    transition.roles === null || (!!role && transition.roles.includes(role))
+  );
+}
+
+/** Transitions out of `status` that `role` may perform. */
+export function availableTransitions(
+  status: string,
+  role: string | null | undefined,
+): BoqTransition[] {
+  return BOQ_TRANSITIONS.filter(
+    (t) =>
+      t.from.includes(status as BoqVersionStatus) &&
+      canPerformTransition(t, role),
+  );
+}
+
+/** The transition that moves a version from `from` to `to`, if one exists. */
+export function findTransition(
+  from: string,
+  to: string,
+): BoqTransition | undefined {
+  return BOQ_TRANSITIONS.find(
+    (t) => t.to === to && t.from.includes(from as BoqVersionStatus),
+  );
+}
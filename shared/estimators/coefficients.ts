@@ -0,0 +1,460 @@
+// Consumption coefficients and wastage factors read by the estimator
+// engines. Admins publish them as numbered versions (the
+// estimator_coefficient_sets table) and a BOQ project can override single
+// values; estimates record the version and overrides they were computed
+// with, so publishing a new version never changes a past estimate.
+
+export const DEFAULT_COEFFICIENTS = {
+  // Brickwork
+  /** Traditional 9" × 4.5" × 3" brick (230 × 110 × 75 mm) without mortar. */
+  brickLengthMm: 230,
+  brickWidthMm: 110,
+  brickHeightMm: 75,
+  /** 1 bag cement (50 kg) = ~1.25 cu ft. */
+  cementBagCft: 1.25,
+  /** Wet mortar shrinks when mixed; dry materials are this much more by volume. */
+  mortarDryVolumeFactor: 1.33,
+  plasterThicknessMm: 12,
+  /** Sand parts per part of cement in plaster (1:4). */
+  plasterMortarRatio: 4,
+  /** Starting wastage of the wall estimator, on every counted item. */
+  wallWastagePercent: 5,
+
+  // Framed partitions
+  gypsumBoardSqft: 24, // 4 × 6 ft
+  plywoodSheetSqft: 32, // 8 × 4 ft
+  laminateSheetSqft: 32,
+  studSpacingFt: 2,
+  channelLengthFt: 10, // 3 m
+  screwsPerBoard: 40,
+  rockwoolBagSqft: 70,
+  jointTapeRollFt: 295, // 90 m
+  jointTapeFtPerSqft: 0.42,
+  jointCompoundKgPerSqft: 0.035,
+  jointCompoundBagKg: 20,
+
+  // Flooring
+  flooringStraightWastagePercent: 5,
+  flooringDiagonalWastagePercent: 12,
+  flooringHerringboneWastagePercent: 15,
+  skirtingWastagePercent: 5,
+
+  // False ceiling
+  ceilingFramingWastagePercent: 5,
+  ceilingBoardWastagePercent: 10,
+  ceilingTileWastagePercent: 5,
+
+  // Electrical
+  wireWastagePercent: 10,
+  conduitWastagePercent: 10,
+
+  // Painting: coverage per coat when the store material records none
+  primerSqftPerLtr: 120,
+  puttySqftPerKg: 25,
+  emulsionSqftPerLtr: 140,
+  luxuryEmulsionSqftPerLtr: 150,
+  distemperSqftPerLtr: 100,
+  ceilingWhiteSqftPerLtr: 120,
+
+  // Plumbing: starting values of the estimator's fitting ratios and wastage
+  supplyBranchFt: 5,
+  drainBranchFt: 4,
+  supplyElbowsPer10Ft: 1.5,
+  drainBendsPer10Ft: 0.5,
+  supplyPipeLengthFt: 10,
+  jointsPerSolventTin: 40,
+  plumbingWastagePercent: 5,
+};
+
+export type CoefficientKey = keyof typeof DEFAULT_COEFFICIENTS;
+
+export type Coefficients = Record<CoefficientKey, number>;
+
+/** Values that differ from the set they are layered on. */
+export type CoefficientOverrides = Partial<Coefficients>;
+
+/** Which coefficients an estimate was computed with. */
+export interface CoefficientStamp {
+  version: number;
+  overrides: CoefficientOverrides;
+}
+
+export interface CoefficientDefinition {
+  key: CoefficientKey;
+  label: string;
+  unit?: string;
+  group: string;
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+const group = (
+  name: string,
+  definitions: Omit<CoefficientDefinition, "group">[],
+): CoefficientDefinition[] => definitions.map((d) => ({ ...d, group: name }));
+
+export const COEFFICIENT_DEFINITIONS: CoefficientDefinition[] = [
+  ...group("Walls – brickwork and plaster", [
+    {
+      key: "brickLengthMm",
+      label: "Brick length",
+      unit: "mm",
+      min: 100,
+      max: 400,
+    },
+    {
+      key: "brickWidthMm",
+      label: "Brick width",
+      unit: "mm",
+      min: 50,
+      max: 250,
+    },
+    {
+      key: "brickHeightMm",
+      label: "Brick height",
+      unit: "mm",
+      min: 40,
+      max: 200,
+    },
+    {
+      key: "cementBagCft",
+      label: "Cement bag volume",
+      unit: "cft",
+      min: 0.5,
+      max: 2,
+    },
+    {
+      key: "mortarDryVolumeFactor",
+      label: "Dry volume of wet mortar",
+      unit: "×",
+      min: 1,
+      max: 1.6,
+    },
+    {
+      key: "plasterThicknessMm",
+      label: "Plaster thickness",
+      unit: "mm",
+      min: 6,
+      max: 30,
+    },
+    {
+      key: "plasterMortarRatio",
+      label: "Plaster sand per part cement",
+      min: 1,
+      max: 8,
+    },
+    {
+      key: "wallWastagePercent",
+      label: "Default wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+  ]),
+  ...group("Walls – framed partitions", [
+    {
+      key: "gypsumBoardSqft",
+      label: "Gypsum board",
+      unit: "sqft",
+      min: 8,
+      max: 64,
+    },
+    {
+      key: "plywoodSheetSqft",
+      label: "Plywood sheet",
+      unit: "sqft",
+      min: 8,
+      max: 64,
+    },
+    {
+      key: "laminateSheetSqft",
+      label: "Laminate sheet",
+      unit: "sqft",
+      min: 8,
+      max: 64,
+    },
+    { key: "studSpacingFt", label: "Stud spacing", unit: "ft", min: 1, max: 4 },
+    {
+      key: "channelLengthFt",
+      label: "Channel length",
+      unit: "ft",
+      min: 6,
+      max: 20,
+    },
+    {
+      key: "screwsPerBoard",
+      label: "Screws per board",
+      unit: "nos",
+      min: 10,
+      max: 100,
+      integer: true,
+    },
+    {
+      key: "rockwoolBagSqft",
+      label: "Rockwool bag cover",
+      unit: "sqft",
+      min: 20,
+      max: 200,
+    },
+    {
+      key: "jointTapeRollFt",
+      label: "Joint tape roll",
+      unit: "ft",
+      min: 50,
+      max: 500,
+    },
+    {
+      key: "jointTapeFtPerSqft",
+      label: "Joint tape per sqft of board",
+      unit: "ft",
+      min: 0.1,
+      max: 1,
+    },
+    {
+      key: "jointCompoundKgPerSqft",
+      label: "Jointing compound per sqft",
+      unit: "kg",
+      min: 0.01,
+      max: 0.2,
+    },
+    {
+      key: "jointCompoundBagKg",
+      label: "Jointing compound bag",
+      unit: "kg",
+      min: 5,
+      max: 50,
+    },
+  ]),
+  ...group("Flooring", [
+    {
+      key: "flooringStraightWastagePercent",
+      label: "Straight pattern wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+    {
+      key: "flooringDiagonalWastagePercent",
+      label: "Diagonal pattern wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+    {
+      key: "flooringHerringboneWastagePercent",
+      label: "Herringbone pattern wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+    {
+      key: "skirtingWastagePercent",
+      label: "Skirting wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+  ]),
+  ...group("False ceiling", [
+    {
+      key: "ceilingFramingWastagePercent",
+      label: "Framing wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+    {
+      key: "ceilingBoardWastagePercent",
+      label: "Board wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+    {
+      key: "ceilingTileWastagePercent",
+      label: "Grid tile wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+  ]),
+  ...group("Electrical", [
+    {
+      key: "wireWastagePercent",
+      label: "Wire and cable wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+    {
+      key: "conduitWastagePercent",
+      label: "Conduit wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+  ]),
+  ...group("Painting – coverage per coat", [
+    {
+      key: "primerSqftPerLtr",
+      label: "Primer",
+      unit: "sqft/ltr",
+      min: 20,
+      max: 400,
+    },
+    {
+      key: "puttySqftPerKg",
+      label: "Wall putty",
+      unit: "sqft/kg",
+      min: 5,
+      max: 100,
+    },
+    {
+      key: "emulsionSqftPerLtr",
+      label: "Emulsion",
+      unit: "sqft/ltr",
+      min: 20,
+      max: 400,
+    },
+    {
+      key: "luxuryEmulsionSqftPerLtr",
+      label: "Luxury emulsion",
+      unit: "sqft/ltr",
+      min: 20,
+      max: 400,
+    },
+    {
+      key: "distemperSqftPerLtr",
+      label: "Distemper",
+      unit: "sqft/ltr",
+      min: 20,
+      max: 400,
+    },
+    {
+      key: "ceilingWhiteSqftPerLtr",
+      label: "Ceiling white",
+      unit: "sqft/ltr",
+      min: 20,
+      max: 400,
+    },
+  ]),
+  ...group("Plumbing – starting values", [
+    {
+      key: "supplyBranchFt",
+      label: "Supply branch per fixture",
+      unit: "ft",
+      min: 0,
+      max: 30,
+    },
+    {
+      key: "drainBranchFt",
+      label: "Drain branch per fixture",
+      unit: "ft",
+      min: 0,
+      max: 30,
+    },
+    {
+      key: "supplyElbowsPer10Ft",
+      label: "Supply elbows per 10 ft",
+      min: 0,
+      max: 10,
+    },
+    {
+      key: "drainBendsPer10Ft",
+      label: "Drain bends per 10 ft",
+      min: 0,
+      max: 10,
+    },
+    {
+      key: "supplyPipeLengthFt",
+      label: "Supply pipe length",
+      unit: "ft",
+      min: 3,
+      max: 20,
+    },
+    {
+      key: "jointsPerSolventTin",
+      label: "Joints per solvent tin",
+      unit: "nos",
+      min: 5,
+      max: 200,
+      integer: true,
+    },
+    {
+      key: "plumbingWastagePercent",
+      label: "Default wastage",
+      unit: "%",
+      min: 0,
+      max: 50,
+    },
+  ]),
+];
+
+const DEFINITIONS_BY_KEY = new Map(
+  COEFFICIENT_DEFINITIONS.map((d) => [d.key as string, d]),
+);
+
+export function isCoefficientKey(key: string): key is CoefficientKey {
+  return DEFINITIONS_BY_KEY.has(key);
+}
+
+/**
+ * Validates coefficient values from an admin or a project, e.g.
+ * { screwsPerBoard: 36 }. Blank values are dropped, so an override can be
+ * cleared by sending it empty.
+ */
+export function parseCoefficientOverrides(
+  input: unknown,
+): { value: CoefficientOverrides } | { error: string } {
+  if (input === null || input === undefined) return { value: {} };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Coefficients must be an object of name → value" };
+  }
+
+  const value: CoefficientOverrides = {};
+  for (const [key, raw] of Object.entries(input)) {
+    if (!isCoefficientKey(key)) {
+      return { error: `Unknown coefficient: ${key}` };
+    }
+    if (raw === null || raw === undefined || raw === "") continue;
+    const def = DEFINITIONS_BY_KEY.get(key)!;
+    const n = Number(raw);
+    if (!isFinite(n) || n < def.min || n > def.max) {
+      return {
+        error: `${def.label} must be between ${def.min} and ${def.max}`,
+      };
+    }
+    if (def.integer && !Number.isInteger(n)) {
+      return { error: `${def.label} must be a whole number` };
+    }
+    value[key] = n;
+  }
+  return { value };
+}
+
+/**
+ * Reads stored coefficient values leniently: unknown keys and values that
+ * are not numbers are skipped instead of failing the estimate.
+ */
+export function readCoefficientOverrides(raw: unknown): CoefficientOverrides {
+  const value: CoefficientOverrides = {};
+  if (!raw || typeof raw !== "object") return value;
+  for (const [key, n] of Object.entries(raw)) {
+    if (isCoefficientKey(key) && typeof n === "number" && isFinite(n)) {
+      value[key] = n;
+    }
+  }
+  return value;
+}
+
+/** The defaults with each layer applied in turn; later layers win. */
+export function resolveCoefficients(
+  ...layers: (CoefficientOverrides | null | undefined)[]
+): Coefficients {
+  const values: Coefficients = { ...DEFAULT_COEFFICIENTS };
+  for (const layer of layers) {
+    if (layer) Object.assign(values, readCoefficientOverrides(layer));
+  }
+  return values;
+}
@@ -0,0 +1,382 @@
+import type { MaterialRequirement } from "./requirements";
+
+// Blinds takeoff, window by window. Sizes are in feet. Fabric blinds are
+// cut from rolls and packed across the roll width; slat blinds (vertical,
+// venetian) are sold by area with a minimum per blind.
+
+export const BLIND_TYPES = [
+  "roller",
+  "zebra",
+  "roman",
+  "vertical",
+  "venetian",
+] as const;
+
+export type BlindType = (typeof BLIND_TYPES)[number];
+
+export type BlindMount = "inside" | "outside";
+export type BlindControl = "manual" | "motorised";
+
+interface BlindTypeRule {
+  label: string;
+  /** Fabric roll widths stocked (ft); null for slat blinds sold by area. */
+  rollWidthsFt: number[] | null;
+  /** Fabric may be turned so the drop runs across the roll. */
+  railroad: boolean;
+  /** Fabric cut for a finished blind of the given size. */
+  cut: (widthFt: number, dropFt: number) => { width: number; length: number };
+  /** Item names for the mechanism and motor. */
+  mechanism: string;
+  motor: string;
+}
+
+export const BLIND_TYPE_RULES: Record<BlindType, BlindTypeRule> = {
+  roller: {
+    label: "Roller",
+    rollWidthsFt: [6.56, 8.2, 9.84], // 2, 2.5, 3 m
+    railroad: true,
+    // Roll-up allowance on the tube and the bottom bar pocket
+    cut: (w, d) => ({ width: w, length: d + 1 }),
+    mechanism: "Roller Blind Chain Control Kit",
+    motor: "Tubular Blind Motor",
+  },
+  zebra: {
+    label: "Zebra",
+    rollWidthsFt: [8.2, 9.84],
+    // The stripes must stay horizontal, so zebra fabric is never turned
+    railroad: false,
+    // A double layer loops round the tube
+    cut: (w, d) => ({ width: w, length: 2 * d + 0.5 }),
+    mechanism: "Zebra Blind Chain Control Kit",
+    motor: "Tubular Blind Motor",
+  },
+  roman: {
+    label: "Roman",
+    rollWidthsFt: [4.59, 9.19], // 1.4, 2.8 m
+    railroad: true,
+    // Side hems, header and bottom hem
+    cut: (w, d) => ({ width: w + 0.33, length: d + 1 }),
+    mechanism: "Roman Blind Cord Lock Mechanism",
+    motor: "Roman Blind Motor",
+  },
+  vertical: {
+    label: "Vertical",
+    rollWidthsFt: null,
+    railroad: false,
+    cut: (w, d) => ({ width: w, length: d }),
+    mechanism: "Vertical Blind Wand Control",
+    motor: "Vertical Blind Track Motor",
+  },
+  venetian: {
+    label: "Venetian",
+    rollWidthsFt: null,
+    railroad: false,
+    cut: (w, d) => ({ width: w, length: d }),
+    mechanism: "Venetian Blind Tilt Wand & Cord Lift",
+    motor: "Venetian Blind Motor",
+  },
+};
+
+export interface BlindWindow {
+  name: string;
+  widthFt: number;
+  heightFt: number;
+  mount: BlindMount;
+  type: BlindType;
+  control: BlindControl;
+  quantity: number;
+}
+
+/** Outside mounts overlap the opening on each side and above and below. */
+export const OUTSIDE_MOUNT_OVERLAP_FT = 0.25;
+/** Inside mounts are made narrower than the recess to clear the reveals. */
+export const INSIDE_MOUNT_CLEARANCE_FT = 0.04;
+export const SLAT_MIN_BILLABLE_SQFT = 10;
+export const BRACKET_SPACING_FT = 2.5;
+/** Channels on one multi-channel remote. */
+export const REMOTE_CHANNELS = 15;
+
+export interface BlindTakeoff {
+  name: string;
+  type: BlindType;
+  blindWidthFt: number;
+  dropFt: number;
+  /** Blinds made for this window across all quantities. */
+  blinds: number;
+  areaSqft: number;
+}
+
+export interface FabricPlan {
+  type: BlindType;
+  rollWidthFt: number;
+  runFt: number;
+  fabricSqft: number;
+  /** Pieces cut with the drop across the roll. */
+  railroaded: number;
+}
+
+export interface BlindsComputeResult {
+  windows: BlindTakeoff[];
+  fabric: FabricPlan[];
+  requiredMaterials: MaterialRequirement[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Finished blind size for a window opening. */
+export function blindSize(window: BlindWindow) {
+  if (window.mount === "outside") {
+    return {
+      widthFt: window.widthFt + 2 * OUTSIDE_MOUNT_OVERLAP_FT,
+      dropFt: window.heightFt + 2 * OUTSIDE_MOUNT_OVERLAP_FT,
+    };
+  }
+  return {
+    widthFt: Math.max(0, window.widthFt - INSIDE_MOUNT_CLEARANCE_FT),
+    dropFt: window.heightFt,
+  };
+}
+
+interface FabricPiece {
+  width: number;
+  length: number;
+}
+
+/**
+ * Pack fabric pieces onto a roll in shelves: each shelf runs the length of
+ * its longest piece and takes pieces side by side across the roll width.
+ */
+function packOnRoll(
+  pieces: FabricPiece[],
+  rollWidth: number,
+  railroad: boolean,
+) {
+  let railroaded = 0;
+  const oriented = pieces.map((p) => {
+    if (p.width <= rollWidth) return p;
+    railroaded++;
+    return { width: p.length, length: p.width };
+  });
+  if (!railroad && railroaded > 0) return null;
+  if (oriented.some((p) => p.width > rollWidth)) return null;
+
+  const shelves: { length: number; used: number }[] = [];
+  oriented
+    .slice()
+    .sort((a, b) => b.length - a.length || b.width - a.width)
+    .forEach((p) => {
+      const shelf = shelves.find((s) => s.used + p.width <= rollWidth);
+      if (shelf) shelf.used += p.width;
+      else shelves.push({ length: p.length, used: p.width });
+    });
+  const runFt = shelves.reduce((s, sh) => s + sh.length, 0);
+  return { runFt, railroaded };
+}
+
+/** Cheapest roll width (least fabric bought) that can cut every piece. */
+export function planFabric(
+  type: BlindType,
+  pieces: FabricPiece[],
+): FabricPlan | null {
+  const rule = BLIND_TYPE_RULES[type];
+  if (!rule.rollWidthsFt || pieces.length === 0) return null;
+  let best: FabricPlan | null = null;
+  for (const rollWidthFt of rule.rollWidthsFt) {
+    const packed = packOnRoll(pieces, rollWidthFt, rule.railroad);
+    if (!packed) continue;
+    const fabricSqft = packed.runFt * rollWidthFt;
+    if (!best || fabricSqft < best.fabricSqft) {
+      best = {
+        type,
+        rollWidthFt,
+        runFt: round2(packed.runFt),
+        fabricSqft: round2(fabricSqft),
+        railroaded: packed.railroaded,
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Fabric blinds wider than the widest roll (and too tall to turn) are
+ * made as several blinds side by side.
+ */
+const panelsFor = (type: BlindType, widthFt: number, dropFt: number) => {
+  const rule = BLIND_TYPE_RULES[type];
+  if (!rule.rollWidthsFt) return 1;
+  const maxRoll = rule.rollWidthsFt[rule.rollWidthsFt.length - 1];
+  const cut = rule.cut(widthFt, dropFt);
+  if (cut.width <= maxRoll) return 1;
+  if (rule.railroad && cut.length <= maxRoll) return 1;
+  return Math.ceil(cut.width / maxRoll);
+};
+
+export const computeBlindsRequired = (
+  windows: BlindWindow[],
+): BlindsComputeResult | null => {
+  const valid = windows.filter(
+    (w) => w.widthFt > 0 && w.heightFt > 0 && w.quantity > 0,
+  );
+  if (valid.length === 0) return null;
+
+  const takeoffs: BlindTakeoff[] = [];
+  const pieces: Partial<Record<BlindType, FabricPiece[]>> = {};
+  const slatSqft: Partial<Record<BlindType, number>> = {};
+  const trackFt: Partial<Record<BlindType, number>> = {};
+  const mechanisms: Partial<Record<BlindType, number>> = {};
+  const motors: Partial<Record<BlindType, number>> = {};
+  let brackets = 0;
+  let centreSupports = 0;
+
+  for (const w of valid) {
+    const rule = BLIND_TYPE_RULES[w.type];
+    const qty = Math.floor(w.quantity);
+    const size = blindSize(w);
+    const panels = panelsFor(w.type, size.widthFt, size.dropFt);
+    const panelWidth = size.widthFt / panels;
+    const blinds = panels * qty;
+
+    for (let i = 0; i < blinds; i++) {
+      if (rule.rollWidthsFt) {
+        (pieces[w.type] = pieces[w.type] || []).push(
+          rule.cut(panelWidth, size.dropFt),
+        );
+      } else {
+        slatSqft[w.type] =
+          (slatSqft[w.type] || 0) +
+          Math.max(SLAT_MIN_BILLABLE_SQFT, panelWidth * size.dropFt);
+      }
+    }
+
+    trackFt[w.type] = (trackFt[w.type] || 0) + size.widthFt * qty;
+    brackets += blinds * (Math.floor(panelWidth / BRACKET_SPACING_FT) + 2);
+    // Long roller tubes sag without an intermediate support
+    if ((w.type === "roller" || w.type === "zebra") && panelWidth > 6) {
+      centreSupports += blinds;
+    }
+    if (w.control === "motorised") {
+      motors[w.type] = (motors[w.type] || 0) + blinds;
+    } else {
+      mechanisms[w.type] = (mechanisms[w.type] || 0) + blinds;
+    }
+
+    takeoffs.push({
+      name: w.name,
+      type: w.type,
+      blindWidthFt: round2(size.widthFt),
+      dropFt: round2(size.dropFt),
+      blinds,
+      areaSqft: round2(size.widthFt * size.dropFt * qty),
+    });
+  }
+
+  const fabric = BLIND_TYPES.map((t) =>
+    pieces[t] ? planFabric(t, pieces[t]!) : null,
+  ).filter((p): p is FabricPlan => p !== null);
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  for (const type of BLIND_TYPES) {
+    const rule = BLIND_TYPE_RULES[type];
+    const plan = fabric.find((p) => p.type === type);
+    if (plan) {
+      push(
+        `fabric-${type}`,
+        `${rule.label} Blind Fabric`,
+        Math.ceil(plan.fabricSqft),
+        "sqft",
+        "Blinds",
+        [rule.label.toUpperCase(), "FABRIC"],
+        `${plan.runFt} ft run off a ${plan.rollWidthFt} ft roll${plan.railroaded ? `, ${plan.railroaded} piece(s) turned` : ""}`,
+      );
+    }
+    if (slatSqft[type]) {
+      push(
+        `blind-${type}`,
+        `${rule.label} Blind`,
+        Math.ceil(slatSqft[type]!),
+        "sqft",
+        "Blinds",
+        [rule.label.toUpperCase(), "BLIND"],
+        `Min ${SLAT_MIN_BILLABLE_SQFT} sqft per blind`,
+      );
+    }
+    if (trackFt[type]) {
+      push(
+        `track-${type}`,
+        type === "roller" || type === "zebra"
+          ? `${rule.label} Blind Tube & Bottom Bar`
+          : `${rule.label} Blind Headrail`,
+        Math.ceil(trackFt[type]!),
+        "rft",
+        "Tracks & Brackets",
+        [
+          rule.label.toUpperCase(),
+          type === "roller" || type === "zebra" ? "TUBE" : "HEADRAIL",
+        ],
+      );
+    }
+    push(
+      `mechanism-${type}`,
+      rule.mechanism,
+      mechanisms[type] || 0,
+      "set",
+      "Controls",
+      [rule.label.toUpperCase(), type === "roman" ? "CORD" : "CONTROL"],
+    );
+    push(
+      `motor-${type}`,
+      rule.motor,
+      motors[type] || 0,
+      "nos",
+      "Motorisation",
+      [rule.label.toUpperCase(), "MOTOR"],
+    );
+  }
+
+  push(
+    "brackets",
+    "Blind Mounting Bracket",
+    brackets,
+    "nos",
+    "Tracks & Brackets",
+    ["BLIND", "BRACKET"],
+    `Two per blind plus one every ${BRACKET_SPACING_FT} ft`,
+  );
+  push(
+    "centre-support",
+    "Blind Centre Support Bracket",
+    centreSupports,
+    "nos",
+    "Tracks & Brackets",
+    ["CENTRE", "BRACKET"],
+    "Roller/zebra blinds over 6 ft",
+  );
+
+  const totalMotors = BLIND_TYPES.reduce((s, t) => s + (motors[t] || 0), 0);
+  push(
+    "remote",
+    `${REMOTE_CHANNELS}-Channel Blind Remote`,
+    Math.ceil(totalMotors / REMOTE_CHANNELS),
+    "nos",
+    "Motorisation",
+    ["REMOTE"],
+    `${totalMotors} motor(s)`,
+  );
+
+  return { windows: takeoffs, fabric, requiredMaterials: req };
+};
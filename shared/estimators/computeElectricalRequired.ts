@@ -0,0 +1,555 @@
+import { DEFAULT_COEFFICIENTS, type Coefficients } from "./coefficients";
+import type { MaterialRequirement } from "./requirements";
+
+// Electrical takeoff from rooms and point counts. All lengths are in feet;
+// wiring is routed along the ceiling and dropped to each point.
+
+export const ELECTRICAL_POINT_TYPES = [
+  "light",
+  "fan",
+  "socket6A",
+  "socket16A",
+  "ac",
+  "data",
+] as const;
+
+export type ElectricalPointType = (typeof ELECTRICAL_POINT_TYPES)[number];
+
+export const ELECTRICAL_POINT_LABELS: Record<ElectricalPointType, string> = {
+  light: "Light",
+  fan: "Fan",
+  socket6A: "6A Socket",
+  socket16A: "16A Socket",
+  ac: "AC",
+  data: "Data",
+};
+
+/** Design load per point (W), following the usual IS 732 allowances. */
+export const POINT_LOAD_W: Record<ElectricalPointType, number> = {
+  light: 60,
+  fan: 60,
+  socket6A: 100,
+  socket16A: 1000,
+  ac: 2000,
+  data: 0,
+};
+
+/** Height of the switch/socket the wiring drops to; ceiling points drop to their switchboard. */
+export const POINT_MOUNT_HEIGHT_FT: Record<ElectricalPointType, number> = {
+  light: 4,
+  fan: 4,
+  socket6A: 1,
+  socket16A: 1,
+  ac: 7,
+  data: 1,
+};
+
+export const WIRE_COIL_LENGTH_FT = 295; // 90 m coil
+export const CONDUIT_PIECE_LENGTH_FT = 10; // 3 m length
+export const DIVERSITY_FACTOR = 0.7;
+/** Above this maximum demand the supply is taken as three-phase. */
+export const SINGLE_PHASE_LIMIT_W = 7000;
+/** Spare outgoing ways kept on the DB: this share of the circuits, at least two. */
+export const DB_SPARE_WAY_PERCENT = 20;
+
+const MODULAR_BOX_SIZES = [1, 2, 3, 4, 6, 8, 12, 16, 18];
+const SPN_DB_WAYS = [4, 6, 8, 12, 16];
+const TPN_DB_WAYS = [4, 6, 8, 12];
+const INCOMER_RATINGS_A = [32, 40, 63, 80, 100, 125];
+const RCCB_RATINGS_A = [25, 40, 63, 80, 100];
+
+export type CircuitKind = "lighting" | "smallPower" | "power" | "ac" | "data";
+
+interface CircuitRule {
+  label: string;
+  pointTypes: ElectricalPointType[];
+  maxPoints: number;
+  maxLoadW: number;
+  /** Phase/neutral conductor size in sq mm; null for data cabling. */
+  wireSize: number | null;
+  earthSize: number | null;
+  mcbA: number | null;
+  conduitMm: number;
+}
+
+export const CIRCUIT_RULES: Record<CircuitKind, CircuitRule> = {
+  lighting: {
+    label: "Lighting",
+    pointTypes: ["light", "fan"],
+    maxPoints: 10,
+    maxLoadW: 800,
+    wireSize: 1.5,
+    earthSize: 1.5,
+    mcbA: 10,
+    conduitMm: 20,
+  },
+  smallPower: {
+    label: "6A Power",
+    pointTypes: ["socket6A"],
+    maxPoints: 8,
+    maxLoadW: 2000,
+    wireSize: 2.5,
+    earthSize: 1.5,
+    mcbA: 16,
+    conduitMm: 20,
+  },
+  power: {
+    label: "16A Power",
+    pointTypes: ["socket16A"],
+    maxPoints: 2,
+    maxLoadW: 3000,
+    wireSize: 4,
+    earthSize: 2.5,
+    mcbA: 20,
+    conduitMm: 25,
+  },
+  ac: {
+    label: "AC",
+    pointTypes: ["ac"],
+    maxPoints: 1,
+    maxLoadW: 3000,
+    wireSize: 4,
+    earthSize: 2.5,
+    mcbA: 20,
+    conduitMm: 25,
+  },
+  data: {
+    label: "Data",
+    pointTypes: ["data"],
+    maxPoints: 1,
+    maxLoadW: 0,
+    wireSize: null,
+    earthSize: null,
+    mcbA: null,
+    conduitMm: 20,
+  },
+};
+
+const CIRCUIT_KINDS = Object.keys(CIRCUIT_RULES) as CircuitKind[];
+
+export interface ElectricalRoom {
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  /** Cable route from the distribution board to the room. */
+  distanceFromDb: number;
+  points: Record<ElectricalPointType, number>;
+}
+
+export interface ElectricalCircuit {
+  id: string;
+  kind: CircuitKind;
+  rooms: string[];
+  points: number;
+  loadW: number;
+  /** Conduit route: home runs to each room plus the drops to each point. */
+  routeFt: number;
+}
+
+export interface ElectricalDbSizing {
+  phase: "single" | "three";
+  connectedLoadW: number;
+  maxDemandW: number;
+  designCurrentA: number;
+  outgoingCircuits: number;
+  /** Ways per phase on the chosen board. */
+  ways: number;
+  incomerA: number;
+  rccbA: number;
+}
+
+export interface ElectricalComputeResult {
+  circuits: ElectricalCircuit[];
+  /** Total conductor length per wire size (sq mm), before wastage. */
+  wireLengthFt: Record<string, number>;
+  dataCableFt: number;
+  db: ElectricalDbSizing;
+  requiredMaterials: MaterialRequirement[];
+}
+
+export const emptyElectricalPoints = (): Record<
+  ElectricalPointType,
+  number
+> => ({
+  light: 0,
+  fan: 0,
+  socket6A: 0,
+  socket16A: 0,
+  ac: 0,
+  data: 0,
+});
+
+const nextSize = (sizes: number[], needed: number) =>
+  sizes.find((s) => s >= needed) ?? sizes[sizes.length - 1];
+
+const withWastage = (n: number, percent: number) => n * (1 + percent / 100);
+
+/** Per-point route inside a room: half the perimeter along the ceiling, then the drop. */
+const pointRouteFt = (room: ElectricalRoom, type: ElectricalPointType) =>
+  (room.length + room.width) / 2 +
+  Math.max(0.5, room.height - POINT_MOUNT_HEIGHT_FT[type]);
+
+/**
+ * Group points into final circuits room by room. A circuit keeps taking
+ * points, across rooms, until the next one would break its point or load
+ * limit. Every room a circuit serves adds its own home run from the DB.
+ */
+export function planElectricalCircuits(
+  rooms: ElectricalRoom[],
+): ElectricalCircuit[] {
+  const circuits: ElectricalCircuit[] = [];
+
+  for (const kind of CIRCUIT_KINDS) {
+    const rule = CIRCUIT_RULES[kind];
+    let open: ElectricalCircuit | null = null;
+
+    for (const room of rooms) {
+      for (const type of rule.pointTypes) {
+        const count = Math.max(0, Math.floor(room.points[type] || 0));
+        for (let i = 0; i < count; i++) {
+          const load = POINT_LOAD_W[type];
+          if (
+            !open ||
+            open.points + 1 > rule.maxPoints ||
+            (rule.maxLoadW > 0 && open.loadW + load > rule.maxLoadW)
+          ) {
+            open = {
+              id: "",
+              kind,
+              rooms: [],
+              points: 0,
+              loadW: 0,
+              routeFt: 0,
+            };
+            circuits.push(open);
+          }
+          if (!open.rooms.includes(room.name)) {
+            open.rooms.push(room.name);
+            open.routeFt += room.distanceFromDb + room.height;
+          }
+          open.points += 1;
+          open.loadW += load;
+          open.routeFt += pointRouteFt(room, type);
+        }
+      }
+    }
+  }
+
+  return circuits.map((c, i) => ({
+    ...c,
+    id: `C${i + 1}`,
+    routeFt: Math.round(c.routeFt * 100) / 100,
+  }));
+}
+
+export function sizeDistributionBoard(
+  circuits: ElectricalCircuit[],
+): ElectricalDbSizing {
+  const connectedLoadW = circuits.reduce((s, c) => s + c.loadW, 0);
+  const maxDemandW = connectedLoadW * DIVERSITY_FACTOR;
+  const outgoingCircuits = circuits.filter(
+    (c) => CIRCUIT_RULES[c.kind].mcbA !== null,
+  ).length;
+  const spare = Math.max(
+    2,
+    Math.ceil((outgoingCircuits * DB_SPARE_WAY_PERCENT) / 100),
+  );
+  const waysNeeded = outgoingCircuits + spare;
+
+  // Three-phase when the demand needs it or the circuits outgrow SPN boards
+  const phase =
+    maxDemandW > SINGLE_PHASE_LIMIT_W ||
+    waysNeeded > SPN_DB_WAYS[SPN_DB_WAYS.length - 1]
+      ? "three"
+      : "single";
+  const designCurrentA =
+    phase === "single"
+      ? maxDemandW / 230
+      : maxDemandW / (Math.sqrt(3) * 415 * 0.9);
+  const ways =
+    phase === "three"
+      ? nextSize(TPN_DB_WAYS, Math.ceil(waysNeeded / 3))
+      : nextSize(SPN_DB_WAYS, waysNeeded);
+  const incomerA = nextSize(INCOMER_RATINGS_A, designCurrentA * 1.25);
+
+  return {
+    phase,
+    connectedLoadW,
+    maxDemandW: Math.round(maxDemandW),
+    designCurrentA: Math.round(designCurrentA * 10) / 10,
+    outgoingCircuits,
+    ways,
+    incomerA,
+    rccbA: nextSize(RCCB_RATINGS_A, incomerA),
+  };
+}
+
+/** Split a run of modules into standard modular boxes, largest first. */
+const modularBoxes = (modules: number): number[] => {
+  const boxes: number[] = [];
+  let left = modules;
+  const largest = MODULAR_BOX_SIZES[MODULAR_BOX_SIZES.length - 1];
+  while (left > largest) {
+    boxes.push(largest);
+    left -= largest;
+  }
+  if (left > 0) boxes.push(nextSize(MODULAR_BOX_SIZES, left));
+  return boxes;
+};
+
+/** Modules in each wall box for one point, e.g. a 6A socket with its switch. */
+const POINT_BOX_MODULES: Partial<Record<ElectricalPointType, number>> = {
+  socket6A: 3,
+  socket16A: 3,
+  ac: 4,
+  data: 2,
+};
+
+export const computeElectricalRequired = (
+  rooms: ElectricalRoom[],
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): ElectricalComputeResult | null => {
+  const valid = rooms.filter(
+    (r) => r.length > 0 && r.width > 0 && r.height > 0,
+  );
+  const totals = emptyElectricalPoints();
+  for (const room of valid) {
+    for (const type of ELECTRICAL_POINT_TYPES) {
+      totals[type] += Math.max(0, Math.floor(room.points[type] || 0));
+    }
+  }
+  if (ELECTRICAL_POINT_TYPES.every((t) => totals[t] === 0)) return null;
+
+  const circuits = planElectricalCircuits(valid);
+  const db = sizeDistributionBoard(circuits);
+
+  // Conductors: phase + neutral of the circuit size, plus one earth
+  const wireLengthFt: Record<string, number> = {};
+  let dataCableFt = 0;
+  const conduitFt: Record<number, number> = {};
+  const mcbCount: Record<number, number> = {};
+  for (const circuit of circuits) {
+    const rule = CIRCUIT_RULES[circuit.kind];
+    conduitFt[rule.conduitMm] =
+      (conduitFt[rule.conduitMm] || 0) + circuit.routeFt;
+    if (rule.wireSize === null) {
+      dataCableFt += circuit.routeFt;
+      continue;
+    }
+    wireLengthFt[rule.wireSize] =
+      (wireLengthFt[rule.wireSize] || 0) + circuit.routeFt * 2;
+    if (rule.earthSize !== null) {
+      wireLengthFt[rule.earthSize] =
+        (wireLengthFt[rule.earthSize] || 0) + circuit.routeFt;
+    }
+    if (rule.mcbA !== null)
+      mcbCount[rule.mcbA] = (mcbCount[rule.mcbA] || 0) + 1;
+  }
+
+  // Switchboards: one per room for the light/fan switches and fan regulators
+  const boxCount: Record<number, number> = {};
+  const addBox = (modules: number) => {
+    boxCount[modules] = (boxCount[modules] || 0) + 1;
+  };
+  for (const room of valid) {
+    const switchModules =
+      Math.floor(room.points.light || 0) + 3 * Math.floor(room.points.fan || 0);
+    modularBoxes(switchModules).forEach(addBox);
+    for (const type of ELECTRICAL_POINT_TYPES) {
+      const modules = POINT_BOX_MODULES[type];
+      if (!modules) continue;
+      for (let i = 0; i < Math.floor(room.points[type] || 0); i++) {
+        addBox(modules);
+      }
+    }
+  }
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  Object.keys(wireLengthFt)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((size) => {
+      const ft = withWastage(wireLengthFt[size], c.wireWastagePercent);
+      push(
+        `wire-${size}`,
+        `FR Copper Wire ${size} sq mm`,
+        Math.ceil(ft / WIRE_COIL_LENGTH_FT),
+        "coil",
+        "Wiring",
+        ["WIRE", `${size}`],
+        `${Math.round(ft)} rft incl. ${c.wireWastagePercent}% wastage`,
+      );
+    });
+  if (dataCableFt > 0) {
+    const ft = withWastage(dataCableFt, c.wireWastagePercent);
+    push("cable-cat6", "CAT6 Data Cable", Math.ceil(ft), "rft", "Wiring", [
+      "CAT6",
+    ]);
+  }
+
+  Object.keys(conduitFt)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((mm) => {
+      const ft = withWastage(conduitFt[mm], c.conduitWastagePercent);
+      const pieces = Math.ceil(ft / CONDUIT_PIECE_LENGTH_FT);
+      push(
+        `conduit-${mm}`,
+        `PVC Conduit ${mm}mm`,
+        pieces,
+        "pcs",
+        "Conduit",
+        ["CONDUIT", `${mm}`],
+        `${Math.round(ft)} rft in ${CONDUIT_PIECE_LENGTH_FT} ft lengths`,
+      );
+      push(`coupler-${mm}`, `PVC Coupler ${mm}mm`, pieces, "pcs", "Conduit", [
+        "COUPLER",
+        `${mm}`,
+      ]);
+    });
+  const totalPoints = ELECTRICAL_POINT_TYPES.reduce((s, t) => s + totals[t], 0);
+  push(
+    "bends",
+    "PVC Bend",
+    totalPoints + 2 * circuits.reduce((s, c) => s + c.rooms.length, 0),
+    "pcs",
+    "Conduit",
+    ["BEND"],
+    "One per point and two per home run",
+  );
+
+  push(
+    "ceiling-box",
+    "Ceiling Junction Box",
+    totals.light,
+    "pcs",
+    "Boxes & Plates",
+    ["JUNCTION BOX"],
+  );
+  push("fan-box", "Fan Box with Hook", totals.fan, "pcs", "Boxes & Plates", [
+    "FAN BOX",
+  ]);
+  Object.keys(boxCount)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((modules) => {
+      push(
+        `box-${modules}m`,
+        `Modular Box ${modules}M`,
+        boxCount[modules],
+        "pcs",
+        "Boxes & Plates",
+        ["BOX", `${modules}M`],
+      );
+      push(
+        `plate-${modules}m`,
+        `Cover Plate ${modules}M`,
+        boxCount[modules],
+        "pcs",
+        "Boxes & Plates",
+        ["PLATE", `${modules}M`],
+      );
+    });
+
+  push(
+    "switch-6a",
+    "Switch 6A",
+    totals.light + totals.fan + totals.socket6A,
+    "pcs",
+    "Switches & Sockets",
+    ["SWITCH", "6A"],
+  );
+  push("regulator", "Fan Regulator", totals.fan, "pcs", "Switches & Sockets", [
+    "REGULATOR",
+  ]);
+  push("socket-6a", "Socket 6A", totals.socket6A, "pcs", "Switches & Sockets", [
+    "SOCKET",
+    "6A",
+  ]);
+  push(
+    "switch-16a",
+    "Switch 16A",
+    totals.socket16A,
+    "pcs",
+    "Switches & Sockets",
+    ["SWITCH", "16A"],
+  );
+  push(
+    "socket-16a",
+    "Socket 16A",
+    totals.socket16A + totals.ac,
+    "pcs",
+    "Switches & Sockets",
+    ["SOCKET", "16A"],
+  );
+  push(
+    "dp-switch",
+    "DP Switch 20A",
+    totals.ac,
+    "pcs",
+    "Switches & Sockets",
+    ["DP SWITCH"],
+    "AC isolator",
+  );
+  push("rj45", "RJ45 Jack CAT6", totals.data, "pcs", "Switches & Sockets", [
+    "RJ45",
+  ]);
+
+  Object.keys(mcbCount)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((amps) => {
+      push(
+        `mcb-${amps}a`,
+        `MCB ${amps}A SP`,
+        mcbCount[amps],
+        "pcs",
+        "Distribution",
+        ["MCB", `${amps}A`],
+      );
+    });
+  const tpn = db.phase === "three";
+  push(
+    "db",
+    `Distribution Board ${db.ways} Way ${tpn ? "TPN" : "SPN"}`,
+    1,
+    "nos",
+    "Distribution",
+    ["DISTRIBUTION BOARD", tpn ? "TPN" : "SPN"],
+    `${db.outgoingCircuits} circuits + spare, max demand ${db.maxDemandW} W`,
+  );
+  push(
+    "incomer",
+    `MCB ${db.incomerA}A ${tpn ? "FP" : "DP"} (Incomer)`,
+    1,
+    "pcs",
+    "Distribution",
+    ["MCB", `${db.incomerA}A`, tpn ? "FP" : "DP"],
+    `Design current ${db.designCurrentA} A`,
+  );
+  push(
+    "rccb",
+    `RCCB ${db.rccbA}A ${tpn ? "4P" : "2P"} 30mA`,
+    1,
+    "pcs",
+    "Distribution",
+    ["RCCB", `${db.rccbA}A`],
+  );
+
+  return { circuits, wireLengthFt, dataCableFt, db, requiredMaterials: req };
+};
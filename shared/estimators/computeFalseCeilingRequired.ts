@@ -0,0 +1,341 @@
+import { DEFAULT_COEFFICIENTS, type Coefficients } from "./coefficients";
+import type { MaterialRequirement } from "./requirements";
+
+// False-ceiling takeoff for the two systems we quote: a gypsum board
+// ceiling on a concealed GI grid, and an exposed grid with 600 × 600
+// mineral-fibre tiles. Dimensions are in feet; section lengths follow the
+// manufacturers' stock lengths.
+
+export type CeilingSystem = "gypsum" | "grid";
+
+export const CEILING_SYSTEM_LABELS: Record<CeilingSystem, string> = {
+  gypsum: "Gypsum board (concealed grid)",
+  grid: "Mineral fibre tiles (exposed grid)",
+};
+
+export interface CeilingArea {
+  name: string;
+  length: number;
+  width: number;
+}
+
+export type CeilingCutoutKind = "light" | "ac" | "other";
+
+export const CEILING_CUTOUT_KINDS: Record<
+  CeilingCutoutKind,
+  { label: string; extraHangers: number }
+> = {
+  light: { label: "Light fixture", extraHangers: 0 },
+  // Cassettes and grilles are trimmed and hung independently of the grid
+  ac: { label: "AC cassette / grille", extraHangers: 4 },
+  other: { label: "Other opening", extraHangers: 2 },
+};
+
+export interface CeilingCutout {
+  kind: CeilingCutoutKind;
+  count: number;
+  lengthFt: number;
+  widthFt: number;
+}
+
+export type CeilingDropKind = "cove" | "bulkhead";
+
+export interface CeilingDrop {
+  kind: CeilingDropKind;
+  lengthFt: number;
+  /** Vertical face of the drop. */
+  dropFt: number;
+  /** Horizontal soffit of a bulkhead; coves take a fixed lip. */
+  widthFt: number;
+}
+
+/** Horizontal return on a cove that hides the strip light. */
+export const COVE_LIP_FT = 0.5;
+
+// Gypsum concealed grid (1220 mm intermediate channels, 457 mm ceiling sections)
+export const INTERMEDIATE_CHANNEL_SPACING_FT = 4;
+export const CEILING_SECTION_SPACING_FT = 1.5;
+export const GYPSUM_HANGER_SPACING_FT = 4;
+export const CHANNEL_LENGTH_FT = 12; // 3660 mm
+export const PERIMETER_CHANNEL_LENGTH_FT = 10; // 3000 mm
+export const GYPSUM_BOARD_SQFT = 24; // 1200 × 1800 mm
+export const SCREWS_PER_BOARD = 30;
+export const JOINT_TAPE_ROLL_FT = 295; // 90 m
+export const JOINT_TAPE_FT_PER_SQFT = 0.42;
+export const JOINT_COMPOUND_KG_PER_SQFT = 0.035;
+export const JOINT_COMPOUND_BAG_KG = 20;
+
+// Exposed grid (1200 mm main tees, 600 × 600 mm module)
+export const MAIN_TEE_SPACING_FT = 4;
+export const MAIN_TEE_LENGTH_FT = 12; // 3600 mm
+export const WALL_ANGLE_LENGTH_FT = 10; // 3000 mm
+export const GRID_HANGER_SPACING_FT = 4;
+export const GRID_TILE_SQFT = 4;
+
+export interface FalseCeilingComputeResult {
+  grossArea: number;
+  cutoutArea: number;
+  netArea: number;
+  perimeterFt: number;
+  dropBoardArea: number;
+  hangers: number;
+  requiredMaterials: MaterialRequirement[];
+}
+
+const withWastage = (n: number, percent: number) => n * (1 + percent / 100);
+
+export const computeFalseCeilingRequired = (
+  areas: CeilingArea[],
+  system: CeilingSystem,
+  cutouts: CeilingCutout[],
+  drops: CeilingDrop[],
+  plenumFt: number,
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): FalseCeilingComputeResult | null => {
+  const pieces = (runFt: number, pieceFt: number) =>
+    Math.ceil(withWastage(runFt, c.ceilingFramingWastagePercent) / pieceFt);
+
+  const valid = areas.filter((a) => a.length > 0 && a.width > 0);
+  if (valid.length === 0) return null;
+
+  const grossArea = valid.reduce((s, a) => s + a.length * a.width, 0);
+  const perimeterFt = valid.reduce((s, a) => s + 2 * (a.length + a.width), 0);
+
+  let cutoutArea = 0;
+  let cutoutPerimeterFt = 0;
+  let cutoutHangers = 0;
+  for (const cutout of cutouts) {
+    const count = Math.max(0, Math.floor(cutout.count || 0));
+    const length = Math.max(0, cutout.lengthFt || 0);
+    const width = Math.max(0, cutout.widthFt || 0);
+    cutoutArea += count * length * width;
+    cutoutPerimeterFt += count * 2 * (length + width);
+    cutoutHangers += count * CEILING_CUTOUT_KINDS[cutout.kind].extraHangers;
+  }
+  cutoutArea = Math.min(cutoutArea, grossArea);
+  const netArea = grossArea - cutoutArea;
+
+  // Coves and bulkheads are always built in gypsum on their own framing:
+  // a channel along the top and bottom edge, verticals every 2 ft.
+  let dropBoardArea = 0;
+  let dropChannelFt = 0;
+  let dropSectionFt = 0;
+  for (const d of drops) {
+    const length = Math.max(0, d.lengthFt || 0);
+    const drop = Math.max(0, d.dropFt || 0);
+    if (length === 0 || drop === 0) continue;
+    const horizontal =
+      d.kind === "cove" ? COVE_LIP_FT : Math.max(0, d.widthFt || 0);
+    dropBoardArea += length * (drop + horizontal);
+    dropChannelFt += 2 * length;
+    dropSectionFt += (Math.ceil(length / 2) + 1) * (drop + horizontal);
+  }
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  let hangers: number;
+  let boardArea = dropBoardArea;
+
+  if (system === "gypsum") {
+    const intermediateRunFt = grossArea / INTERMEDIATE_CHANNEL_SPACING_FT;
+    // Cut-outs are trimmed with ceiling section around their edges
+    const sectionRunFt =
+      grossArea / CEILING_SECTION_SPACING_FT + cutoutPerimeterFt;
+    hangers =
+      Math.ceil(intermediateRunFt / GYPSUM_HANGER_SPACING_FT) + cutoutHangers;
+    boardArea += netArea;
+
+    push(
+      "perimeter-channel",
+      "GI Perimeter Channel 3000mm",
+      pieces(perimeterFt + dropChannelFt, PERIMETER_CHANNEL_LENGTH_FT),
+      "pcs",
+      "Framing",
+      ["PERIMETER", "CHANNEL"],
+      `${Math.round(perimeterFt)} ft perimeter${dropChannelFt ? ` + ${Math.round(dropChannelFt)} ft at drops` : ""}`,
+    );
+    push(
+      "intermediate-channel",
+      "GI Intermediate Channel 3660mm",
+      pieces(intermediateRunFt, CHANNEL_LENGTH_FT),
+      "pcs",
+      "Framing",
+      ["INTERMEDIATE", "CHANNEL"],
+      `At ${INTERMEDIATE_CHANNEL_SPACING_FT} ft c/c`,
+    );
+    push(
+      "ceiling-section",
+      "GI Ceiling Section 3660mm",
+      pieces(sectionRunFt + dropSectionFt, CHANNEL_LENGTH_FT),
+      "pcs",
+      "Framing",
+      ["CEILING SECTION"],
+      `At ${CEILING_SECTION_SPACING_FT} ft c/c, incl. cut-out trimmers`,
+    );
+    push(
+      "connecting-clip",
+      "Connecting Clip",
+      Math.ceil(
+        (grossArea /
+          (INTERMEDIATE_CHANNEL_SPACING_FT * CEILING_SECTION_SPACING_FT)) *
+          (1 + c.ceilingFramingWastagePercent / 100),
+      ),
+      "pcs",
+      "Framing",
+      ["CLIP"],
+      "One per channel/section crossing",
+    );
+  } else {
+    const mainTeeRunFt = grossArea / MAIN_TEE_SPACING_FT;
+    hangers = Math.ceil(mainTeeRunFt / GRID_HANGER_SPACING_FT) + cutoutHangers;
+    // Light panels and grilles drop into the grid in place of tiles
+    const tiles = Math.ceil(
+      withWastage(netArea, c.ceilingTileWastagePercent) / GRID_TILE_SQFT,
+    );
+    // One 1200 mm and one 600 mm cross tee per 4 × 2 ft bay
+    const crossTees = Math.ceil(
+      withWastage(grossArea / 8, c.ceilingFramingWastagePercent),
+    );
+
+    push(
+      "wall-angle",
+      "Wall Angle 3000mm",
+      pieces(perimeterFt, WALL_ANGLE_LENGTH_FT),
+      "pcs",
+      "Framing",
+      ["WALL ANGLE"],
+      `${Math.round(perimeterFt)} ft perimeter`,
+    );
+    push(
+      "main-tee",
+      "Main Tee 3600mm",
+      pieces(mainTeeRunFt, MAIN_TEE_LENGTH_FT),
+      "pcs",
+      "Framing",
+      ["MAIN TEE"],
+      `At ${MAIN_TEE_SPACING_FT} ft c/c`,
+    );
+    push("cross-tee-1200", "Cross Tee 1200mm", crossTees, "pcs", "Framing", [
+      "CROSS TEE",
+      "1200",
+    ]);
+    push("cross-tee-600", "Cross Tee 600mm", crossTees, "pcs", "Framing", [
+      "CROSS TEE",
+      "600",
+    ]);
+    push(
+      "grid-tile",
+      "Mineral Fibre Tile 600 × 600 mm",
+      tiles,
+      "pcs",
+      "Boards & Tiles",
+      ["MINERAL"],
+      `${Math.round(netArea)} sqft after cut-outs, ${c.ceilingTileWastagePercent}% wastage`,
+    );
+    if (dropBoardArea > 0) {
+      push(
+        "perimeter-channel",
+        "GI Perimeter Channel 3000mm",
+        pieces(dropChannelFt, PERIMETER_CHANNEL_LENGTH_FT),
+        "pcs",
+        "Framing",
+        ["PERIMETER", "CHANNEL"],
+        "Cove/bulkhead framing",
+      );
+      push(
+        "ceiling-section",
+        "GI Ceiling Section 3660mm",
+        pieces(dropSectionFt, CHANNEL_LENGTH_FT),
+        "pcs",
+        "Framing",
+        ["CEILING SECTION"],
+        "Cove/bulkhead framing",
+      );
+    }
+  }
+
+  push(
+    "hanger",
+    "GI Hanger",
+    hangers,
+    "pcs",
+    "Suspension",
+    ["HANGER"],
+    `${plenumFt} ft drop from soffit${cutoutHangers ? `, ${cutoutHangers} extra at cut-outs` : ""}`,
+  );
+  if (system === "gypsum") {
+    push("soffit-cleat", "Soffit Cleat", hangers, "pcs", "Suspension", [
+      "CLEAT",
+    ]);
+  }
+  push("anchor-fastener", "Anchor Fastener", hangers, "pcs", "Suspension", [
+    "ANCHOR",
+  ]);
+
+  if (boardArea > 0) {
+    const boards = Math.ceil(
+      withWastage(boardArea, c.ceilingBoardWastagePercent) / GYPSUM_BOARD_SQFT,
+    );
+    const tapeFt = boardArea * JOINT_TAPE_FT_PER_SQFT;
+    push(
+      "gypsum-board",
+      "Gypsum Board 12.5mm 1200 × 1800 mm",
+      boards,
+      "nos",
+      "Boards & Tiles",
+      ["GYPSUM", "BOARD"],
+      `${Math.round(boardArea)} sqft${system === "gypsum" && cutoutArea ? ` after ${Math.round(cutoutArea)} sqft cut-outs` : ""}, ${c.ceilingBoardWastagePercent}% wastage`,
+    );
+    push(
+      "drywall-screw",
+      "Drywall Screw 25mm",
+      boards * SCREWS_PER_BOARD,
+      "pcs",
+      "Boards & Tiles",
+      ["SCREW"],
+    );
+    push(
+      "joint-tape",
+      "Paper Joint Tape",
+      Math.ceil(tapeFt / JOINT_TAPE_ROLL_FT),
+      "roll",
+      "Jointing",
+      ["JOINT TAPE"],
+      `${Math.round(tapeFt)} rft`,
+    );
+    push(
+      "joint-compound",
+      "Jointing Compound",
+      Math.ceil(
+        (boardArea * JOINT_COMPOUND_KG_PER_SQFT) / JOINT_COMPOUND_BAG_KG,
+      ),
+      "bag",
+      "Jointing",
+      ["COMPOUND"],
+      `${JOINT_COMPOUND_BAG_KG} kg bags`,
+    );
+  }
+
+  return {
+    grossArea: Math.round(grossArea * 100) / 100,
+    cutoutArea: Math.round(cutoutArea * 100) / 100,
+    netArea: Math.round(netArea * 100) / 100,
+    perimeterFt: Math.round(perimeterFt * 100) / 100,
+    dropBoardArea: Math.round(dropBoardArea * 100) / 100,
+    hangers,
+    requiredMaterials: req,
+  };
+};
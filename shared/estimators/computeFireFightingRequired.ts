@@ -0,0 +1,473 @@
+import type { MaterialRequirement } from "./requirements";
+
+// Fire-fighting takeoff: a wet sprinkler grid per floor sized from the
+// pipe schedule, internal hydrants and hose reels on a wet riser, and
+// portable extinguishers. Dimensions are in feet; coverage and spacing
+// follow the NFPA 13 / IS 15105 limits for each hazard class.
+
+export type HazardClass = "light" | "ordinary" | "high";
+
+interface PipeScheduleStep {
+  mm: number;
+  /** Most sprinkler heads this size may feed. */
+  maxHeads: number;
+}
+
+interface HazardRule {
+  label: string;
+  /** Largest floor area one head may protect. */
+  coverageSqft: number;
+  /** Largest distance between heads on a branch and between branches. */
+  maxSpacingFt: number;
+  designDensityMmPerMin: number;
+  headKFactor: number;
+  /** Smallest size first. */
+  pipeSchedule: PipeScheduleStep[];
+  /** Floor area one installation control valve may serve. */
+  systemAreaSqft: number;
+  hydrantCoverSqft: number;
+  hoseReelCoverSqft: number;
+  extinguisherCoverSqft: number;
+  extinguisher: { item: string; keywords: string[] };
+  /** Class B (foam) extinguishers per main extinguisher. */
+  foamShare: number;
+}
+
+export const HAZARD_RULES: Record<HazardClass, HazardRule> = {
+  light: {
+    label: "Light hazard (offices, residences)",
+    coverageSqft: 225,
+    maxSpacingFt: 15,
+    designDensityMmPerMin: 2.25,
+    headKFactor: 80,
+    pipeSchedule: [
+      { mm: 25, maxHeads: 2 },
+      { mm: 32, maxHeads: 3 },
+      { mm: 40, maxHeads: 5 },
+      { mm: 50, maxHeads: 10 },
+      { mm: 65, maxHeads: 30 },
+      { mm: 80, maxHeads: 60 },
+      { mm: 100, maxHeads: 100 },
+      { mm: 150, maxHeads: Infinity },
+    ],
+    systemAreaSqft: 52000,
+    hydrantCoverSqft: 10750,
+    hoseReelCoverSqft: 8600,
+    extinguisherCoverSqft: 2150,
+    extinguisher: {
+      item: "Fire Extinguisher Water CO2 Type 9 L",
+      keywords: ["EXTINGUISHER", "WATER"],
+    },
+    foamShare: 0,
+  },
+  ordinary: {
+    label: "Ordinary hazard (retail, workshops, car parks)",
+    coverageSqft: 130,
+    maxSpacingFt: 15,
+    designDensityMmPerMin: 5,
+    headKFactor: 80,
+    pipeSchedule: [
+      { mm: 25, maxHeads: 2 },
+      { mm: 32, maxHeads: 3 },
+      { mm: 40, maxHeads: 5 },
+      { mm: 50, maxHeads: 10 },
+      { mm: 65, maxHeads: 20 },
+      { mm: 80, maxHeads: 40 },
+      { mm: 100, maxHeads: 100 },
+      { mm: 150, maxHeads: Infinity },
+    ],
+    systemAreaSqft: 52000,
+    hydrantCoverSqft: 10750,
+    hoseReelCoverSqft: 8600,
+    extinguisherCoverSqft: 1075,
+    extinguisher: {
+      item: "Fire Extinguisher ABC Dry Powder 6 kg",
+      keywords: ["EXTINGUISHER", "ABC"],
+    },
+    foamShare: 0,
+  },
+  high: {
+    label: "High hazard (stores, process plants)",
+    coverageSqft: 100,
+    maxSpacingFt: 12,
+    designDensityMmPerMin: 10,
+    headKFactor: 115,
+    pipeSchedule: [
+      { mm: 25, maxHeads: 1 },
+      { mm: 32, maxHeads: 2 },
+      { mm: 40, maxHeads: 5 },
+      { mm: 50, maxHeads: 8 },
+      { mm: 65, maxHeads: 15 },
+      { mm: 80, maxHeads: 27 },
+      { mm: 100, maxHeads: 55 },
+      { mm: 150, maxHeads: Infinity },
+    ],
+    systemAreaSqft: 40000,
+    hydrantCoverSqft: 6450,
+    hoseReelCoverSqft: 5400,
+    extinguisherCoverSqft: 540,
+    extinguisher: {
+      item: "Fire Extinguisher ABC Dry Powder 9 kg",
+      keywords: ["EXTINGUISHER", "ABC"],
+    },
+    foamShare: 0.5,
+  },
+};
+
+export const DROP_LENGTH_FT = 1.5; // 25 mm drop to a pendent head below the ceiling
+export const HANGER_SPACING_FT = 12;
+export const PIPE_WASTAGE_PERCENT = 5;
+export const MIN_EXTINGUISHERS_PER_FLOOR = 2;
+export const HOSES_PER_HYDRANT = 2; // 2 × 15 m lengths
+/** Wet risers above this height are 150 mm, below it 100 mm. */
+export const TALL_RISER_FT = 150; // 45 m
+
+export interface FireFloor {
+  name: string;
+  length: number;
+  width: number;
+  /** Pipe run from the riser to the near corner of the floor. */
+  distanceFromRiser: number;
+  /** Electrical, UPS and server rooms, each given a CO2 extinguisher. */
+  electricalRooms: number;
+}
+
+export interface FireFloorTakeoff {
+  name: string;
+  area: number;
+  heads: number;
+  branchLines: number;
+  headsPerBranch: number;
+  /** Actual distance between heads along a branch. */
+  headSpacingFt: number;
+  /** Actual distance between branches. */
+  branchSpacingFt: number;
+  feedMm: number;
+  hydrants: number;
+  hoseReels: number;
+  extinguishers: number;
+}
+
+export type PipeRole = "branch" | "main" | "drop";
+
+export interface SprinklerPipeRun {
+  mm: number;
+  /** Length in feet by what the pipe does. */
+  byRole: Record<PipeRole, number>;
+  lengthFt: number;
+}
+
+export interface FireFightingComputeResult {
+  floors: FireFloorTakeoff[];
+  area: number;
+  heads: number;
+  spareHeads: number;
+  /** Sprinkler pipe by nominal bore, before wastage. */
+  pipeFt: SprinklerPipeRun[];
+  riserMm: number;
+  requiredMaterials: MaterialRequirement[];
+}
+
+const withWastage = (n: number, percent: number) => n * (1 + percent / 100);
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export const pipeSizeFor = (rule: HazardRule, heads: number) =>
+  (
+    rule.pipeSchedule.find((s) => heads <= s.maxHeads) ||
+    rule.pipeSchedule[rule.pipeSchedule.length - 1]
+  ).mm;
+
+/** Spare heads kept on site, by the size of the installation. */
+export const spareHeadsFor = (heads: number) =>
+  heads === 0 ? 0 : heads < 300 ? 6 : heads <= 1000 ? 12 : 24;
+
+/**
+ * Heads on a rectangular grid: branch lines run along the longer side,
+ * and rows or columns are added until both spacing and coverage per head
+ * are within the hazard's limits.
+ */
+export function sprinklerLayout(
+  lengthFt: number,
+  widthFt: number,
+  rule: HazardRule,
+) {
+  const along = Math.max(lengthFt, widthFt);
+  const across = Math.min(lengthFt, widthFt);
+  let perBranch = Math.max(1, Math.ceil(along / rule.maxSpacingFt));
+  let branches = Math.max(1, Math.ceil(across / rule.maxSpacingFt));
+  while ((along / perBranch) * (across / branches) > rule.coverageSqft) {
+    if (along / perBranch >= across / branches) perBranch++;
+    else branches++;
+  }
+  return {
+    headsPerBranch: perBranch,
+    branchLines: branches,
+    heads: perBranch * branches,
+    headSpacingFt: along / perBranch,
+    branchSpacingFt: across / branches,
+  };
+}
+
+export const computeFireFightingRequired = (
+  floors: FireFloor[],
+  hazard: HazardClass,
+  floorHeightFt: number,
+  hydrantSystem: boolean,
+): FireFightingComputeResult | null => {
+  const valid = floors.filter((f) => f.length > 0 && f.width > 0);
+  if (valid.length === 0) return null;
+
+  const rule = HAZARD_RULES[hazard];
+  const pipes: Record<number, Record<PipeRole, number>> = {};
+  const addPipe = (role: PipeRole, mm: number, lengthFt: number) => {
+    if (!pipes[mm]) pipes[mm] = { branch: 0, main: 0, drop: 0 };
+    pipes[mm][role] += lengthFt;
+  };
+
+  let co2 = 0;
+  const takeoffs: FireFloorTakeoff[] = valid.map((floor) => {
+    const area = floor.length * floor.width;
+    const layout = sprinklerLayout(floor.length, floor.width, rule);
+    const { headsPerBranch, branchLines, headSpacingFt, branchSpacingFt } =
+      layout;
+
+    // Each branch is fed at one end: the pipe between heads carries every
+    // head beyond it, and the first head sits half a spacing off the main
+    for (let b = 0; b < branchLines; b++) {
+      for (let k = 1; k < headsPerBranch; k++) {
+        addPipe("branch", pipeSizeFor(rule, k), headSpacingFt);
+      }
+      addPipe("branch", pipeSizeFor(rule, headsPerBranch), headSpacingFt / 2);
+    }
+    // Cross main along the short side, fed from the riser end
+    for (let k = 1; k < branchLines; k++) {
+      addPipe("main", pipeSizeFor(rule, k * headsPerBranch), branchSpacingFt);
+    }
+    addPipe("main", pipeSizeFor(rule, layout.heads), branchSpacingFt / 2);
+    const feedMm = pipeSizeFor(rule, layout.heads);
+    addPipe("main", feedMm, Math.max(0, floor.distanceFromRiser || 0));
+    addPipe("drop", 25, layout.heads * DROP_LENGTH_FT);
+
+    co2 += Math.max(0, Math.floor(floor.electricalRooms || 0));
+    return {
+      name: floor.name,
+      area: Math.round(area),
+      heads: layout.heads,
+      branchLines,
+      headsPerBranch,
+      headSpacingFt: round1(headSpacingFt),
+      branchSpacingFt: round1(branchSpacingFt),
+      feedMm,
+      hydrants: hydrantSystem
+        ? Math.max(1, Math.ceil(area / rule.hydrantCoverSqft))
+        : 0,
+      hoseReels: hydrantSystem
+        ? Math.max(1, Math.ceil(area / rule.hoseReelCoverSqft))
+        : 0,
+      extinguishers: Math.max(
+        MIN_EXTINGUISHERS_PER_FLOOR,
+        Math.ceil(area / rule.extinguisherCoverSqft),
+      ),
+    };
+  });
+
+  const sum = (pick: (f: FireFloorTakeoff) => number) =>
+    takeoffs.reduce((s, f) => s + pick(f), 0);
+  const area = sum((f) => f.area);
+  const heads = sum((f) => f.heads);
+  const spareHeads = spareHeadsFor(heads);
+  const hydrants = sum((f) => f.hydrants);
+  const hoseReels = sum((f) => f.hoseReels);
+  const extinguishers = sum((f) => f.extinguishers);
+  const buildingHeightFt = Math.max(0, floorHeightFt) * takeoffs.length;
+
+  // The sprinkler riser carries the largest floor; only one floor is
+  // assumed to be operating at a time
+  const riserMm = Math.max(...takeoffs.map((f) => f.feedMm));
+  if (takeoffs.length > 1) addPipe("main", riserMm, buildingHeightFt);
+
+  const pipeFt = Object.keys(pipes)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map((mm) => {
+      const r = pipes[mm];
+      const byRole = {
+        branch: Math.round(r.branch),
+        main: Math.round(r.main),
+        drop: Math.round(r.drop),
+      };
+      return {
+        mm,
+        byRole,
+        lengthFt: Math.round(r.branch + r.main + r.drop),
+      };
+    });
+  const totalPipeFt = pipeFt.reduce((s, p) => s + p.lengthFt, 0);
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  // ============= SPRINKLERS =============
+  push(
+    "sprinkler-head",
+    `Sprinkler Head Pendent 68°C K${rule.headKFactor}`,
+    heads + spareHeads,
+    "nos",
+    "Sprinklers",
+    ["SPRINKLER"],
+    `${heads} heads at ${rule.coverageSqft} sqft / ${rule.maxSpacingFt} ft max, ${spareHeads} spare`,
+  );
+  for (const p of pipeFt) {
+    push(
+      `pipe-${p.mm}`,
+      `MS Pipe ERW Heavy ${p.mm}mm`,
+      Math.ceil(withWastage(p.lengthFt, PIPE_WASTAGE_PERCENT)),
+      "rft",
+      "Sprinkler Piping",
+      ["PIPE", `${p.mm}MM`],
+      `${p.lengthFt} ft + ${PIPE_WASTAGE_PERCENT}% wastage`,
+    );
+  }
+  push(
+    "sprinkler-tee",
+    "Reducing Tee for Sprinkler",
+    heads,
+    "nos",
+    "Sprinkler Piping",
+    ["TEE"],
+  );
+  push(
+    "pipe-hanger",
+    "Pipe Hanger with Anchor Fastener",
+    Math.ceil(totalPipeFt / HANGER_SPACING_FT),
+    "nos",
+    "Sprinkler Piping",
+    ["HANGER"],
+    `At ${HANGER_SPACING_FT} ft centres`,
+  );
+  push(
+    "zone-valve",
+    "Zone Control Valve with Flow Switch",
+    takeoffs.length,
+    "set",
+    "Sprinklers",
+    ["FLOW SWITCH"],
+    "One per floor",
+  );
+  push(
+    "installation-valve",
+    "Installation Control Valve (Alarm Valve) 150mm",
+    Math.max(1, Math.ceil(area / rule.systemAreaSqft)),
+    "set",
+    "Sprinklers",
+    ["ALARM VALVE"],
+  );
+
+  // ============= HYDRANTS AND HOSE REELS =============
+  if (hydrantSystem) {
+    const riserWetMm = buildingHeightFt > TALL_RISER_FT ? 150 : 100;
+    push(
+      "wet-riser",
+      `MS Pipe ERW Heavy ${riserWetMm}mm (Wet Riser)`,
+      Math.ceil(withWastage(buildingHeightFt, PIPE_WASTAGE_PERCENT)),
+      "rft",
+      "Hydrants",
+      ["PIPE", `${riserWetMm}MM`],
+      `${buildingHeightFt} ft riser`,
+    );
+    push(
+      "landing-valve",
+      "Landing Valve Single Headed 63mm",
+      hydrants,
+      "nos",
+      "Hydrants",
+      ["LANDING VALVE"],
+    );
+    push(
+      "hose",
+      "RRL Hose 63mm × 15 m",
+      hydrants * HOSES_PER_HYDRANT,
+      "nos",
+      "Hydrants",
+      ["HOSE", "RRL"],
+    );
+    push(
+      "branch-pipe",
+      "Branch Pipe with Nozzle",
+      hydrants,
+      "nos",
+      "Hydrants",
+      ["BRANCH PIPE"],
+    );
+    push("hose-box", "Hose Cabinet", hydrants, "nos", "Hydrants", [
+      "HOSE",
+      "CABINET",
+    ]);
+    push(
+      "hose-reel",
+      "Hose Reel Drum with 30 m × 19mm Hose",
+      hoseReels,
+      "nos",
+      "Hydrants",
+      ["HOSE REEL"],
+    );
+    push(
+      "fire-brigade-inlet",
+      `Fire Brigade Inlet ${riserWetMm === 150 ? "4-way" : "2-way"}`,
+      1,
+      "nos",
+      "Hydrants",
+      ["BRIGADE INLET"],
+    );
+  }
+
+  // ============= EXTINGUISHERS =============
+  push(
+    "extinguisher",
+    rule.extinguisher.item,
+    extinguishers,
+    "nos",
+    "Extinguishers",
+    rule.extinguisher.keywords,
+    `1 per ${rule.extinguisherCoverSqft} sqft, at least ${MIN_EXTINGUISHERS_PER_FLOOR} per floor`,
+  );
+  push(
+    "extinguisher-foam",
+    "Fire Extinguisher Mechanical Foam 9 L",
+    Math.ceil(extinguishers * rule.foamShare),
+    "nos",
+    "Extinguishers",
+    ["EXTINGUISHER", "FOAM"],
+  );
+  push(
+    "extinguisher-co2",
+    "Fire Extinguisher CO2 4.5 kg",
+    co2,
+    "nos",
+    "Extinguishers",
+    ["EXTINGUISHER", "CO2"],
+    "One per electrical / server room",
+  );
+
+  return {
+    floors: takeoffs,
+    area,
+    heads,
+    spareHeads,
+    pipeFt,
+    riserMm,
+    requiredMaterials: req,
+  };
+};
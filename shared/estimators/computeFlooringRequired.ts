@@ -0,0 +1,293 @@
+import {
+  DEFAULT_COEFFICIENTS,
+  type CoefficientKey,
+  type Coefficients,
+} from "./coefficients";
+import type { MaterialRequirement } from "./requirements";
+
+// Flooring takeoff from room outlines. Room dimensions are in feet, tile
+// sizes and joints in millimetres as they are sold.
+
+export type FlooringRoomShape = "rectangle" | "l-shape";
+
+export interface FlooringRoom {
+  name: string;
+  shape: FlooringRoomShape;
+  length: number;
+  width: number;
+  /** L-shapes: the rectangle cut out of one corner of length × width. */
+  cutoutLength: number;
+  cutoutWidth: number;
+  /** Total width of door openings, left out of the skirting. */
+  doorOpeningsFt: number;
+}
+
+export interface FlooringTileSize {
+  id: string;
+  label: string;
+  lengthMm: number;
+  widthMm: number;
+  thicknessMm: number;
+  tilesPerBox: number;
+}
+
+export const FLOORING_TILE_SIZES: FlooringTileSize[] = [
+  {
+    id: "300x300",
+    label: "300 × 300 mm",
+    lengthMm: 300,
+    widthMm: 300,
+    thicknessMm: 8,
+    tilesPerBox: 10,
+  },
+  {
+    id: "600x600",
+    label: "600 × 600 mm",
+    lengthMm: 600,
+    widthMm: 600,
+    thicknessMm: 9,
+    tilesPerBox: 4,
+  },
+  {
+    id: "800x800",
+    label: "800 × 800 mm",
+    lengthMm: 800,
+    widthMm: 800,
+    thicknessMm: 10,
+    tilesPerBox: 3,
+  },
+  {
+    id: "600x1200",
+    label: "600 × 1200 mm",
+    lengthMm: 1200,
+    widthMm: 600,
+    thicknessMm: 10,
+    tilesPerBox: 2,
+  },
+  {
+    id: "1200x1200",
+    label: "1200 × 1200 mm",
+    lengthMm: 1200,
+    widthMm: 1200,
+    thicknessMm: 10,
+    tilesPerBox: 2,
+  },
+  {
+    id: "plank-200x1200",
+    label: "200 × 1200 mm plank",
+    lengthMm: 1200,
+    widthMm: 200,
+    thicknessMm: 9,
+    tilesPerBox: 6,
+  },
+  {
+    id: "plank-150x900",
+    label: "150 × 900 mm plank",
+    lengthMm: 900,
+    widthMm: 150,
+    thicknessMm: 9,
+    tilesPerBox: 10,
+  },
+];
+
+export type FlooringPattern = "straight" | "diagonal" | "herringbone";
+
+export const FLOORING_PATTERNS: Record<
+  FlooringPattern,
+  { label: string; wastageCoefficient: CoefficientKey; planksOnly: boolean }
+> = {
+  straight: {
+    label: "Straight",
+    wastageCoefficient: "flooringStraightWastagePercent",
+    planksOnly: false,
+  },
+  diagonal: {
+    label: "Diagonal (45°)",
+    wastageCoefficient: "flooringDiagonalWastagePercent",
+    planksOnly: false,
+  },
+  herringbone: {
+    label: "Herringbone",
+    wastageCoefficient: "flooringHerringboneWastagePercent",
+    planksOnly: true,
+  },
+};
+
+export const SKIRTING_HEIGHT_MM = 100;
+/** Adhesive for a 3–6 mm notched-trowel bed; large formats need a thicker bed. */
+export const ADHESIVE_KG_PER_SQFT = 0.45;
+export const ADHESIVE_LARGE_FORMAT_KG_PER_SQFT = 0.55;
+export const ADHESIVE_BAG_KG = 20;
+export const GROUT_DENSITY_KG_PER_L = 1.6;
+export const GROUT_PACK_KG = 1;
+/** Cross spacers per tile, allowing for T-joints at the edges. */
+export const SPACERS_PER_TILE = 2;
+export const SPACER_PACK = 100;
+
+const SQFT_PER_SQM = 10.7639;
+const MM_PER_FT = 304.8;
+
+export interface FlooringRoomTakeoff {
+  name: string;
+  area: number;
+  perimeter: number;
+  skirtingFt: number;
+}
+
+export interface FlooringComputeResult {
+  rooms: FlooringRoomTakeoff[];
+  area: number;
+  skirtingFt: number;
+  wastagePercent: number;
+  tiles: number;
+  boxes: number;
+  skirtingRft: number;
+  adhesiveBags: number;
+  groutKg: number;
+  spacerPacks: number;
+  requiredMaterials: MaterialRequirement[];
+}
+
+export const isPlank = (tile: FlooringTileSize) =>
+  tile.lengthMm / tile.widthMm >= 3;
+
+/** Floor area and perimeter of one outline; an L keeps the perimeter of its bounding rectangle. */
+export function measureFlooringRoom(room: FlooringRoom): FlooringRoomTakeoff {
+  const length = Math.max(0, room.length || 0);
+  const width = Math.max(0, room.width || 0);
+  let area = length * width;
+  if (room.shape === "l-shape") {
+    const cutL = Math.min(length, Math.max(0, room.cutoutLength || 0));
+    const cutW = Math.min(width, Math.max(0, room.cutoutWidth || 0));
+    area -= cutL * cutW;
+  }
+  const perimeter = area > 0 ? 2 * (length + width) : 0;
+  return {
+    name: room.name,
+    area: Math.round(area * 100) / 100,
+    perimeter: Math.round(perimeter * 100) / 100,
+    skirtingFt: Math.max(0, perimeter - Math.max(0, room.doorOpeningsFt || 0)),
+  };
+}
+
+/** Grout (kg/m²) = (L + W) / (L × W) × joint width × joint depth × density. */
+const groutKgPerSqm = (tile: FlooringTileSize, jointMm: number) =>
+  ((tile.lengthMm + tile.widthMm) / (tile.lengthMm * tile.widthMm)) *
+  jointMm *
+  tile.thicknessMm *
+  GROUT_DENSITY_KG_PER_L;
+
+export const computeFlooringRequired = (
+  rooms: FlooringRoom[],
+  tile: FlooringTileSize,
+  pattern: FlooringPattern,
+  jointMm: number,
+  skirting: boolean,
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): FlooringComputeResult | null => {
+  const takeoffs = rooms.map(measureFlooringRoom).filter((r) => r.area > 0);
+  if (takeoffs.length === 0) return null;
+
+  const area = takeoffs.reduce((s, r) => s + r.area, 0);
+  const skirtingFt = skirting
+    ? takeoffs.reduce((s, r) => s + r.skirtingFt, 0)
+    : 0;
+  const wastagePercent = c[FLOORING_PATTERNS[pattern].wastageCoefficient];
+
+  const tileAreaSqft = (tile.lengthMm * tile.widthMm) / (MM_PER_FT * MM_PER_FT);
+  const tiles = Math.ceil((area * (1 + wastagePercent / 100)) / tileAreaSqft);
+  const boxes = Math.ceil(tiles / tile.tilesPerBox);
+
+  const skirtingRft = Math.ceil(
+    skirtingFt * (1 + c.skirtingWastagePercent / 100),
+  );
+  // Skirting is fixed with the same adhesive on a strip of its own height
+  const skirtingAreaSqft = (skirtingFt * SKIRTING_HEIGHT_MM) / MM_PER_FT;
+  const adhesiveRate =
+    Math.max(tile.lengthMm, tile.widthMm) >= 800
+      ? ADHESIVE_LARGE_FORMAT_KG_PER_SQFT
+      : ADHESIVE_KG_PER_SQFT;
+  const adhesiveKg = (area + skirtingAreaSqft) * adhesiveRate;
+  const adhesiveBags = Math.ceil(adhesiveKg / ADHESIVE_BAG_KG);
+  const groutKg = Math.ceil(
+    (area / SQFT_PER_SQM) * groutKgPerSqm(tile, Math.max(0, jointMm)),
+  );
+  const spacerPacks =
+    jointMm > 0 ? Math.ceil((tiles * SPACERS_PER_TILE) / SPACER_PACK) : 0;
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  const sizeKeyword = `${tile.widthMm}X${tile.lengthMm}`;
+  push(
+    "tiles",
+    `${isPlank(tile) ? "Floor Plank" : "Floor Tile"} ${tile.label}`,
+    boxes,
+    "box",
+    "Flooring",
+    [isPlank(tile) ? "PLANK" : "TILE", sizeKeyword],
+    `${tiles} nos (${tile.tilesPerBox}/box) for ${Math.round(area)} sqft, ${FLOORING_PATTERNS[pattern].label.toLowerCase()} with ${wastagePercent}% wastage`,
+  );
+  push(
+    "skirting",
+    `Skirting ${SKIRTING_HEIGHT_MM}mm`,
+    skirtingRft,
+    "rft",
+    "Flooring",
+    ["SKIRTING"],
+    `${Math.round(skirtingFt)} rft less door openings, ${c.skirtingWastagePercent}% wastage`,
+  );
+  push(
+    "adhesive",
+    "Tile Adhesive",
+    adhesiveBags,
+    "bag",
+    "Flooring",
+    ["ADHESIVE"],
+    `${Math.round(adhesiveKg)} kg in ${ADHESIVE_BAG_KG} kg bags`,
+  );
+  push(
+    "grout",
+    "Tile Grout",
+    Math.ceil(groutKg / GROUT_PACK_KG),
+    "kg",
+    "Flooring",
+    ["GROUT"],
+    `${jointMm} mm joints`,
+  );
+  push(
+    "spacers",
+    `Tile Spacer ${jointMm}mm`,
+    spacerPacks,
+    "pkt",
+    "Flooring",
+    ["SPACER"],
+    `${SPACER_PACK} per packet`,
+  );
+
+  return {
+    rooms: takeoffs,
+    area: Math.round(area * 100) / 100,
+    skirtingFt: Math.round(skirtingFt * 100) / 100,
+    wastagePercent,
+    tiles,
+    boxes,
+    skirtingRft,
+    adhesiveBags,
+    groutKg,
+    spacerPacks,
+    requiredMaterials: req,
+  };
+};
@@ -0,0 +1,224 @@
+import {
+  DEFAULT_COEFFICIENTS,
+  type CoefficientKey,
+  type Coefficients,
+} from "./coefficients";
+import { finishOpenings } from "./openings";
+import { requirementQuantity, type MaterialRequirement } from "./requirements";
+
+// Painting takeoff room by room. Walls are measured on the room perimeter
+// with doors and windows deducted by the finish rules (large openings add
+// their reveals back); ceilings on the floor area. Each surface
+// has its own system (primer, putty and finish coats), and every coat's
+// quantity is the area over the product's coverage, preferring the
+// coverage recorded on the chosen store material.
+
+export type PaintSurface = "walls" | "ceiling";
+
+export const PAINT_SURFACE_LABELS: Record<PaintSurface, string> = {
+  walls: "Walls",
+  ceiling: "Ceiling",
+};
+
+export type PaintProductId =
+  | "primer"
+  | "putty"
+  | "emulsion"
+  | "luxury-emulsion"
+  | "distemper"
+  | "ceiling-white";
+
+interface PaintProduct {
+  item: string;
+  unit: string;
+  keywords: string[];
+  /** Coverage per coat when the store material has none. */
+  coverageCoefficient: CoefficientKey;
+}
+
+export const PAINT_PRODUCTS: Record<PaintProductId, PaintProduct> = {
+  primer: {
+    item: "Interior Wall Primer",
+    unit: "ltr",
+    keywords: ["PRIMER"],
+    coverageCoefficient: "primerSqftPerLtr",
+  },
+  putty: {
+    item: "Wall Putty",
+    unit: "kg",
+    keywords: ["PUTTY"],
+    coverageCoefficient: "puttySqftPerKg",
+  },
+  emulsion: {
+    item: "Interior Emulsion",
+    unit: "ltr",
+    keywords: ["EMULSION"],
+    coverageCoefficient: "emulsionSqftPerLtr",
+  },
+  "luxury-emulsion": {
+    item: "Luxury Interior Emulsion",
+    unit: "ltr",
+    keywords: ["LUXURY", "EMULSION"],
+    coverageCoefficient: "luxuryEmulsionSqftPerLtr",
+  },
+  distemper: {
+    item: "Acrylic Distemper",
+    unit: "ltr",
+    keywords: ["DISTEMPER"],
+    coverageCoefficient: "distemperSqftPerLtr",
+  },
+  "ceiling-white": {
+    item: "Ceiling White",
+    unit: "ltr",
+    keywords: ["CEILING", "WHITE"],
+    coverageCoefficient: "ceilingWhiteSqftPerLtr",
+  },
+};
+
+export const FINISH_PAINTS: PaintProductId[] = [
+  "emulsion",
+  "luxury-emulsion",
+  "distemper",
+  "ceiling-white",
+];
+
+export interface PaintSystem {
+  primerCoats: number;
+  puttyCoats: number;
+  finish: PaintProductId;
+  finishCoats: number;
+}
+
+export interface PaintRoom {
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  doors: number;
+  windows: number;
+  ceiling: boolean;
+}
+
+export interface OpeningSize {
+  widthFt: number;
+  heightFt: number;
+}
+
+export interface PaintSurfaceTakeoff {
+  room: string;
+  surface: PaintSurface;
+  grossArea: number;
+  deductedArea: number;
+  /** Jambs, soffits and sills of large openings. */
+  addedArea: number;
+  netArea: number;
+}
+
+export interface PaintingComputeResult {
+  surfaces: PaintSurfaceTakeoff[];
+  areaBySurface: Record<PaintSurface, number>;
+  requiredMaterials: MaterialRequirement[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function surfaceLocation(room: string, surface: PaintSurface) {
+  return `${room} – ${PAINT_SURFACE_LABELS[surface]}`;
+}
+
+export const computePaintingRequired = (
+  rooms: PaintRoom[],
+  systems: Record<PaintSurface, PaintSystem>,
+  door: OpeningSize,
+  window: OpeningSize,
+  revealDepthFt = 0,
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): PaintingComputeResult | null => {
+  const surfaces: PaintSurfaceTakeoff[] = [];
+  for (const room of rooms) {
+    if (room.length <= 0 || room.width <= 0) continue;
+    if (room.height > 0) {
+      const walls = finishOpenings(
+        2 * (room.length + room.width) * room.height,
+        [
+          {
+            type: "door",
+            width: door.widthFt,
+            height: door.heightFt,
+            count: room.doors,
+          },
+          {
+            type: "window",
+            width: window.widthFt,
+            height: window.heightFt,
+            count: room.windows,
+          },
+        ],
+        1,
+        revealDepthFt,
+      );
+      surfaces.push({
+        room: room.name,
+        surface: "walls",
+        grossArea: walls.grossArea,
+        deductedArea: walls.deductedArea,
+        addedArea: walls.addedArea,
+        netArea: walls.netArea,
+      });
+    }
+    if (room.ceiling) {
+      const area = room.length * room.width;
+      surfaces.push({
+        room: room.name,
+        surface: "ceiling",
+        grossArea: round2(area),
+        deductedArea: 0,
+        addedArea: 0,
+        netArea: round2(area),
+      });
+    }
+  }
+  const painted = surfaces.filter((s) => s.netArea > 0);
+  if (painted.length === 0) return null;
+
+  const req: MaterialRequirement[] = [];
+  painted.forEach((s, i) => {
+    const system = systems[s.surface];
+    const location = surfaceLocation(s.room, s.surface);
+    const coat = (product: PaintProductId, coats: number) => {
+      if (coats <= 0) return;
+      const p = PAINT_PRODUCTS[product];
+      const line: MaterialRequirement = {
+        key: `${i}-${s.surface}-${product}`,
+        item: p.item,
+        quantity: 0,
+        unit: p.unit,
+        category: "Painting",
+        keywords: p.keywords,
+        description: `${s.netArea} sqft × ${coats} coat${coats > 1 ? "s" : ""}`,
+        location,
+        coverage: {
+          areaSqft: s.netArea * coats,
+          sqftPerUnit: c[p.coverageCoefficient],
+        },
+      };
+      line.quantity = requirementQuantity(line);
+      req.push(line);
+    };
+    coat("primer", system.primerCoats);
+    coat("putty", system.puttyCoats);
+    coat(system.finish, system.finishCoats);
+  });
+
+  const areaBySurface: Record<PaintSurface, number> = { walls: 0, ceiling: 0 };
+  for (const s of painted) areaBySurface[s.surface] += s.netArea;
+
+  return {
+    surfaces: painted,
+    areaBySurface: {
+      walls: round2(areaBySurface.walls),
+      ceiling: round2(areaBySurface.ceiling),
+    },
+    requiredMaterials: req,
+  };
+};
@@ -0,0 +1,511 @@
+import { DEFAULT_COEFFICIENTS, type Coefficients } from "./coefficients";
+import type { MaterialRequirement } from "./requirements";
+
+// Plumbing takeoff from fixtures per wet area. Each fixture carries water
+// supply and drainage fixture units (IS 2065 / IPC values for private
+// installations); pipes are sized on the units they carry, from the
+// fixture branch through the room run to the common riser and stack.
+// Fittings follow from pipe lengths and fixture counts through
+// FittingRatios, so the counts can be traced back to the inputs.
+
+export const FIXTURE_TYPES = [
+  "wc",
+  "basin",
+  "shower",
+  "bathtub",
+  "kitchenSink",
+  "washingMachine",
+] as const;
+
+export type FixtureType = (typeof FIXTURE_TYPES)[number];
+
+type TrapKind = "floor" | "bottle";
+
+interface FixtureRule {
+  label: string;
+  supplyFu: number;
+  drainFu: number;
+  /** Waste or soil branch from the fixture. */
+  drainMm: number;
+  /** Takes a hot water line when hot water is laid. */
+  hot: boolean;
+  trap: TrapKind | null;
+  /** Connected through an angle valve and connection pipe. */
+  angleValve: boolean;
+}
+
+export const FIXTURE_RULES: Record<FixtureType, FixtureRule> = {
+  wc: {
+    label: "WC",
+    supplyFu: 3,
+    drainFu: 4,
+    drainMm: 110,
+    hot: false,
+    trap: null,
+    angleValve: true,
+  },
+  basin: {
+    label: "Wash basin",
+    supplyFu: 1,
+    drainFu: 1,
+    drainMm: 40,
+    hot: true,
+    trap: "bottle",
+    angleValve: true,
+  },
+  shower: {
+    label: "Shower",
+    supplyFu: 2,
+    drainFu: 2,
+    drainMm: 75,
+    hot: true,
+    trap: "floor",
+    angleValve: false,
+  },
+  bathtub: {
+    label: "Bathtub",
+    supplyFu: 2,
+    drainFu: 2,
+    drainMm: 50,
+    hot: true,
+    trap: "floor",
+    angleValve: false,
+  },
+  kitchenSink: {
+    label: "Kitchen sink",
+    supplyFu: 2,
+    drainFu: 2,
+    drainMm: 50,
+    hot: true,
+    trap: "bottle",
+    angleValve: true,
+  },
+  washingMachine: {
+    label: "Washing machine",
+    supplyFu: 2,
+    drainFu: 3,
+    drainMm: 50,
+    hot: false,
+    trap: "floor",
+    angleValve: false,
+  },
+};
+
+interface SizeStep {
+  mm: number;
+  /** Most fixture units this size may carry. */
+  maxFu: number;
+}
+
+/** Cold water supply, smallest first. */
+export const SUPPLY_SIZES: SizeStep[] = [
+  { mm: 15, maxFu: 4 },
+  { mm: 20, maxFu: 10 },
+  { mm: 25, maxFu: 25 },
+  { mm: 32, maxFu: 50 },
+  { mm: 40, maxFu: 100 },
+  { mm: 50, maxFu: Infinity },
+];
+
+/** Horizontal drains and stacks, smallest first. */
+export const DRAIN_SIZES: SizeStep[] = [
+  { mm: 40, maxFu: 3 },
+  { mm: 50, maxFu: 6 },
+  { mm: 75, maxFu: 20 },
+  { mm: 110, maxFu: 160 },
+  { mm: 160, maxFu: Infinity },
+];
+
+/** Anything carrying WC soil is at least this size. */
+export const SOIL_MIN_MM = 110;
+
+/** Hot water share of a fixture's supply units. */
+export const HOT_FU_SHARE = 0.75;
+
+export type SupplyMaterial = "cpvc" | "ppr";
+
+export const SUPPLY_MATERIALS: Record<
+  SupplyMaterial,
+  { label: string; keyword: string }
+> = {
+  cpvc: { label: "CPVC SDR 11", keyword: "CPVC" },
+  ppr: { label: "PPR PN 16", keyword: "PPR" },
+};
+
+export interface FittingRatios {
+  /** Supply pipe from the room header to each fixture point. */
+  supplyBranchFt: number;
+  /** Waste or soil pipe from each fixture to the room drain. */
+  drainBranchFt: number;
+  supplyElbowsPer10Ft: number;
+  drainBendsPer10Ft: number;
+  /** Supply pipe length between couplers. */
+  supplyPipeLengthFt: number;
+  /** Solvent-cement joints one tin makes. */
+  jointsPerSolventTin: number;
+}
+
+/** The ratios an estimate starts with, from the coefficient set. */
+export const fittingRatios = (
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): FittingRatios => ({
+  supplyBranchFt: c.supplyBranchFt,
+  drainBranchFt: c.drainBranchFt,
+  supplyElbowsPer10Ft: c.supplyElbowsPer10Ft,
+  drainBendsPer10Ft: c.drainBendsPer10Ft,
+  supplyPipeLengthFt: c.supplyPipeLengthFt,
+  jointsPerSolventTin: c.jointsPerSolventTin,
+});
+
+export const DEFAULT_FITTING_RATIOS = fittingRatios();
+
+export interface WetArea {
+  name: string;
+  fixtures: Record<FixtureType, number>;
+  /** From the riser to the room header. */
+  supplyRunFt: number;
+  /** From the room to the stack. */
+  drainRunFt: number;
+}
+
+export interface PlumbingOptions {
+  supplyMaterial: SupplyMaterial;
+  hotWater: boolean;
+  riserFt: number;
+  stackFt: number;
+  ratios: FittingRatios;
+  wastagePercent: number;
+}
+
+export interface WetAreaTakeoff {
+  name: string;
+  fixtures: number;
+  supplyFu: number;
+  drainFu: number;
+  supplyMm: number;
+  hotMm: number | null;
+  drainMm: number;
+}
+
+export interface PlumbingPipeRun {
+  mm: number;
+  lengthFt: number;
+}
+
+export interface PlumbingComputeResult {
+  areas: WetAreaTakeoff[];
+  supplyFu: number;
+  drainFu: number;
+  riserMm: number;
+  stackMm: number;
+  supplyPipes: PlumbingPipeRun[];
+  drainPipes: PlumbingPipeRun[];
+  requiredMaterials: MaterialRequirement[];
+}
+
+export const emptyFixtures = (): Record<FixtureType, number> => ({
+  wc: 0,
+  basin: 0,
+  shower: 0,
+  bathtub: 0,
+  kitchenSink: 0,
+  washingMachine: 0,
+});
+
+export function sizeFor(sizes: SizeStep[], fu: number): number {
+  return (sizes.find((s) => fu <= s.maxFu) || sizes[sizes.length - 1]).mm;
+}
+
+const drainSizeFor = (fu: number, soil: boolean) =>
+  Math.max(sizeFor(DRAIN_SIZES, fu), soil ? SOIL_MIN_MM : 0);
+
+const addLength = (runs: Record<number, number>, mm: number, ft: number) => {
+  if (ft > 0) runs[mm] = (runs[mm] || 0) + ft;
+};
+
+const toRuns = (runs: Record<number, number>): PlumbingPipeRun[] =>
+  Object.keys(runs)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map((mm) => ({ mm, lengthFt: Math.round(runs[mm] * 10) / 10 }));
+
+export const computePlumbingRequired = (
+  wetAreas: WetArea[],
+  options: PlumbingOptions,
+): PlumbingComputeResult | null => {
+  const { ratios } = options;
+  const supplyFt: Record<number, number> = {};
+  const drainFt: Record<number, number> = {};
+  const supplyTees: Record<number, number> = {};
+  const drainYs: Record<number, number> = {};
+  const stopValves: Record<number, number> = {};
+  const fixtureTotals = emptyFixtures();
+  const areas: WetAreaTakeoff[] = [];
+  let anySoil = false;
+
+  for (const area of wetAreas) {
+    let supplyFu = 0;
+    let hotFu = 0;
+    let drainFu = 0;
+    let fixtures = 0;
+    let hotPoints = 0;
+    for (const type of FIXTURE_TYPES) {
+      const count = Math.max(0, Math.floor(area.fixtures[type] || 0));
+      if (count === 0) continue;
+      const rule = FIXTURE_RULES[type];
+      fixtures += count;
+      fixtureTotals[type] += count;
+      supplyFu += count * rule.supplyFu;
+      drainFu += count * rule.drainFu;
+      // Fixture branches: 15mm supply, own-size waste
+      addLength(supplyFt, 15, count * ratios.supplyBranchFt);
+      addLength(drainFt, rule.drainMm, count * ratios.drainBranchFt);
+      if (options.hotWater && rule.hot) {
+        hotFu += count * rule.supplyFu * HOT_FU_SHARE;
+        hotPoints += count;
+        addLength(supplyFt, 15, count * ratios.supplyBranchFt);
+      }
+    }
+    if (fixtures === 0) continue;
+
+    const soil = area.fixtures.wc > 0;
+    anySoil = anySoil || soil;
+    const supplyMm = sizeFor(SUPPLY_SIZES, supplyFu);
+    const hotMm = hotPoints > 0 ? sizeFor(SUPPLY_SIZES, hotFu) : null;
+    const drainMm = drainSizeFor(drainFu, soil);
+
+    addLength(supplyFt, supplyMm, area.supplyRunFt);
+    addLength(drainFt, drainMm, area.drainRunFt);
+    // One tee per fixture point off the room header, one Y per fixture
+    // branch into the room drain
+    supplyTees[supplyMm] = (supplyTees[supplyMm] || 0) + fixtures;
+    drainYs[drainMm] = (drainYs[drainMm] || 0) + fixtures;
+    stopValves[supplyMm] = (stopValves[supplyMm] || 0) + 1;
+    if (hotMm !== null) {
+      supplyTees[hotMm] = (supplyTees[hotMm] || 0) + hotPoints;
+      stopValves[hotMm] = (stopValves[hotMm] || 0) + 1;
+    }
+
+    areas.push({
+      name: area.name,
+      fixtures,
+      supplyFu,
+      drainFu,
+      supplyMm,
+      hotMm,
+      drainMm,
+    });
+  }
+  if (areas.length === 0) return null;
+
+  const supplyFu = areas.reduce((s, a) => s + a.supplyFu, 0);
+  const drainFu = areas.reduce((s, a) => s + a.drainFu, 0);
+  const riserMm = sizeFor(SUPPLY_SIZES, supplyFu);
+  const stackMm = drainSizeFor(drainFu, anySoil);
+  addLength(supplyFt, riserMm, options.riserFt);
+  addLength(drainFt, stackMm, options.stackFt);
+  // Each room's run tees off the riser and joins the stack
+  supplyTees[riserMm] = (supplyTees[riserMm] || 0) + areas.length;
+  drainYs[stackMm] = (drainYs[stackMm] || 0) + areas.length;
+
+  const wastage = 1 + options.wastagePercent / 100;
+  const supply = SUPPLY_MATERIALS[options.supplyMaterial];
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  const supplyPipes = toRuns(supplyFt);
+  let supplyJoints = 0;
+  for (const run of supplyPipes) {
+    const ft = Math.ceil(run.lengthFt * wastage);
+    const elbows = Math.ceil((run.lengthFt / 10) * ratios.supplyElbowsPer10Ft);
+    const couplers = Math.floor(run.lengthFt / ratios.supplyPipeLengthFt);
+    const tees = supplyTees[run.mm] || 0;
+    supplyJoints += 2 * elbows + 2 * couplers + 3 * tees;
+    push(
+      `supply-pipe-${run.mm}`,
+      `${supply.label} Pipe ${run.mm}mm`,
+      ft,
+      "rft",
+      "Water Supply",
+      [supply.keyword, "PIPE", `${run.mm}MM`],
+      `${run.lengthFt} ft laid with ${options.wastagePercent}% wastage`,
+    );
+    push(
+      `supply-elbow-${run.mm}`,
+      `${supply.keyword} Elbow ${run.mm}mm`,
+      elbows,
+      "nos",
+      "Water Supply",
+      [supply.keyword, "ELBOW", `${run.mm}MM`],
+      `${ratios.supplyElbowsPer10Ft} per 10 ft`,
+    );
+    push(
+      `supply-tee-${run.mm}`,
+      `${supply.keyword} Tee ${run.mm}mm`,
+      tees,
+      "nos",
+      "Water Supply",
+      [supply.keyword, "TEE", `${run.mm}MM`],
+    );
+    push(
+      `supply-coupler-${run.mm}`,
+      `${supply.keyword} Coupler ${run.mm}mm`,
+      couplers,
+      "nos",
+      "Water Supply",
+      [supply.keyword, "COUPLER", `${run.mm}MM`],
+      `one per ${ratios.supplyPipeLengthFt} ft length`,
+    );
+  }
+  if (options.supplyMaterial === "cpvc") {
+    push(
+      "solvent-cement",
+      "CPVC Solvent Cement 118 ml",
+      Math.ceil(supplyJoints / ratios.jointsPerSolventTin),
+      "nos",
+      "Water Supply",
+      ["SOLVENT", "CEMENT"],
+      `${supplyJoints} joints`,
+    );
+  }
+
+  const drainPipes = toRuns(drainFt);
+  for (const run of drainPipes) {
+    push(
+      `drain-pipe-${run.mm}`,
+      `SWR Pipe ${run.mm}mm`,
+      Math.ceil(run.lengthFt * wastage),
+      "rft",
+      "Drainage",
+      ["SWR", "PIPE", `${run.mm}MM`],
+      `${run.lengthFt} ft laid with ${options.wastagePercent}% wastage`,
+    );
+    push(
+      `drain-bend-${run.mm}`,
+      `SWR Bend 87.5° ${run.mm}mm`,
+      Math.ceil((run.lengthFt / 10) * ratios.drainBendsPer10Ft),
+      "nos",
+      "Drainage",
+      ["SWR", "BEND", `${run.mm}MM`],
+      `${ratios.drainBendsPer10Ft} per 10 ft`,
+    );
+    push(
+      `drain-y-${run.mm}`,
+      `SWR Single Y ${run.mm}mm`,
+      drainYs[run.mm] || 0,
+      "nos",
+      "Drainage",
+      ["SWR", "Y", `${run.mm}MM`],
+    );
+  }
+
+  Object.keys(stopValves)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((mm) =>
+      push(
+        `stop-valve-${mm}`,
+        `Concealed Stop Valve ${mm}mm`,
+        stopValves[mm],
+        "nos",
+        "Valves",
+        ["CONCEALED", "VALVE", `${mm}MM`],
+        "one per room supply",
+      ),
+    );
+  push(
+    "riser-valve",
+    `Ball Valve ${riserMm}mm`,
+    options.riserFt > 0 ? 1 : 0,
+    "nos",
+    "Valves",
+    ["BALL", "VALVE", `${riserMm}MM`],
+    "riser isolation",
+  );
+
+  const pointCount = (pick: (rule: FixtureRule) => boolean) =>
+    FIXTURE_TYPES.reduce(
+      (s, t) => (pick(FIXTURE_RULES[t]) ? s + fixtureTotals[t] : s),
+      0,
+    );
+  const coldAngle = pointCount((r) => r.angleValve);
+  const hotAngle = options.hotWater
+    ? pointCount((r) => r.angleValve && r.hot)
+    : 0;
+  push(
+    "angle-valve",
+    "Angle Valve 15mm",
+    coldAngle + hotAngle,
+    "nos",
+    "Valves",
+    ["ANGLE", "VALVE"],
+    hotAngle > 0 ? `${coldAngle} cold, ${hotAngle} hot` : undefined,
+  );
+  push(
+    "connection-pipe",
+    "Connection Pipe 18 inch",
+    coldAngle + hotAngle,
+    "nos",
+    "Valves",
+    ["CONNECTION", "PIPE"],
+  );
+  push(
+    "washing-machine-tap",
+    "Washing Machine Tap 15mm",
+    fixtureTotals.washingMachine,
+    "nos",
+    "Valves",
+    ["WASHING", "TAP"],
+  );
+  if (options.hotWater) {
+    push(
+      "diverter",
+      "Concealed Diverter",
+      fixtureTotals.shower + fixtureTotals.bathtub,
+      "nos",
+      "Valves",
+      ["DIVERTER"],
+    );
+  }
+
+  push(
+    "floor-trap",
+    "Floor Trap 110 × 75mm",
+    pointCount((r) => r.trap === "floor"),
+    "nos",
+    "Traps",
+    ["FLOOR", "TRAP"],
+  );
+  push(
+    "bottle-trap",
+    "Bottle Trap 32mm",
+    pointCount((r) => r.trap === "bottle"),
+    "nos",
+    "Traps",
+    ["BOTTLE", "TRAP"],
+  );
+
+  return {
+    areas,
+    supplyFu,
+    drainFu,
+    riserMm,
+    stackMm,
+    supplyPipes,
+    drainPipes,
+    requiredMaterials: req,
+  };
+};
@@ -0,0 +1,353 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeRequired,
+  computeWallSchedule,
+  wallLocation,
+  type ScheduledWall,
+  type WallInput,
+} from "./computeRequired";
+import type { WallOpening } from "./openings";
+
+// Quantities of the wall engine for each WallType, on 10 × 10 ft walls
+// without wastage unless a test says otherwise, so the expected counts can
+// be worked out by hand from the default coefficients.
+
+const MM_PER_FT = 304.8;
+
+const wall = (input: Partial<WallInput> = {}): WallInput => ({
+  wallType: "civil",
+  length: 10,
+  height: 10,
+  wastagePercent: 0,
+  ...input,
+});
+
+const scheduled = (input: Partial<ScheduledWall> = {}): ScheduledWall => ({
+  tag: "W1",
+  room: "Bedroom",
+  ...wall(input),
+  ...input,
+});
+
+const door = (width = 3, height = 7, count = 1): WallOpening => ({
+  type: "door",
+  width,
+  height,
+  count,
+});
+
+const quantities = (input: WallInput) => {
+  const result = computeRequired(input);
+  assert.ok(result);
+  return Object.fromEntries(
+    result.requiredMaterials.map((r) => [r.key, r.quantity]),
+  );
+};
+
+// Face area of one 230 × 75 mm brick with a 10 mm joint
+const BRICK_FACE_SQFT = (240 * 85) / (MM_PER_FT * MM_PER_FT);
+
+describe("computeRequired: civil walls", () => {
+  it("counts half-brick bricks on the wall face", () => {
+    const result = computeRequired(wall({ subOption: "4.5 inch" }));
+    assert.ok(result);
+    assert.equal(result.area, 100);
+    assert.equal(result.bricks, Math.ceil(100 / BRICK_FACE_SQFT));
+    assert.equal(result.lintels, 0);
+    const keys = result.requiredMaterials.map((r) => r.key);
+    assert.deepEqual(keys, ["bricks", "cement", "sand"]);
+  });
+
+  it("doubles the bricks of a one-brick wall and needs more mortar", () => {
+    const half = computeRequired(wall({ subOption: "4.5 inch" }));
+    const full = computeRequired(wall({ subOption: "9 inch" }));
+    assert.ok(half && full);
+    assert.equal(full.bricks, Math.ceil((2 * 100) / BRICK_FACE_SQFT));
+    assert.ok(full.mortarCft! > half.mortarCft!);
+    assert.ok(full.cementBags! >= half.cementBags!);
+  });
+
+  it("splits the mortar into cement and sand by the ratio", () => {
+    const lean = computeRequired(wall({ mortarRatio: 6 }));
+    const rich = computeRequired(wall({ mortarRatio: 3 }));
+    assert.ok(lean && rich);
+    assert.equal(lean.mortarCft, rich.mortarCft);
+    assert.ok(rich.cementBags! > lean.cementBags!);
+    assert.ok(rich.sandCft! < lean.sandCft!);
+  });
+
+  it("adds plaster cement and sand per face", () => {
+    const bare = quantities(wall());
+    const plastered = quantities(wall({ plasterFaces: 2 }));
+    assert.ok(plastered.cement > bare.cement);
+    assert.ok(plastered.sand > bare.sand);
+    assert.equal(plastered.bricks, bare.bricks);
+  });
+
+  it("deducts openings and their lintels from the brickwork", () => {
+    const result = computeRequired(wall({ openings: [door()] }));
+    assert.ok(result);
+    // 3 × 7 door plus a 4 ft × 6 in lintel bearing 6 in each side
+    assert.equal(result.deductedArea, 23);
+    assert.equal(result.area, 77);
+    assert.equal(result.lintels, 1);
+    assert.equal(result.lintelFt, 4);
+    assert.equal(result.bricks, Math.ceil((2 * 77) / BRICK_FACE_SQFT));
+    const lintel = result.requiredMaterials.find((r) => r.key === "lintel");
+    assert.equal(lintel?.quantity, 4);
+  });
+
+  it("ignores openings up to 0.1 m²", () => {
+    const result = computeRequired(
+      wall({ openings: [{ type: "duct", width: 1, height: 1, count: 4 }] }),
+    );
+    assert.ok(result);
+    assert.equal(result.deductedArea, 0);
+    assert.equal(result.area, 100);
+  });
+
+  it("stops at the wall area when the openings are larger", () => {
+    const result = computeRequired(wall({ openings: [door(12, 12)] }));
+    assert.ok(result);
+    assert.equal(result.deductedArea, 100);
+    assert.equal(result.area, 0);
+    assert.equal(result.bricks, 0);
+    const keys = result.requiredMaterials.map((r) => r.key);
+    assert.ok(!keys.includes("bricks"));
+  });
+
+  it("applies wastage to the counted items", () => {
+    const result = computeRequired(wall({ wastagePercent: 10 }));
+    assert.ok(result);
+    assert.equal(result.bricks, Math.ceil((2 * 100 * 1.1) / BRICK_FACE_SQFT));
+  });
+});
+
+describe("computeRequired: framed partitions", () => {
+  it("boards both faces of a gypsum partition on GI framing", () => {
+    assert.deepEqual(quantities(wall({ wallType: "gypsum" })), {
+      tracks: 2,
+      studs: 6,
+      "gypsum-board": 9, // 200 sqft / 24
+      screws: 360,
+      rockwool: 2,
+      "joint-tape": 1,
+      "joint-compound": 1,
+    });
+  });
+
+  it("doubles the boards of a double-layer partition", () => {
+    const q = quantities(wall({ wallType: "gypsum", subOption: "Double" }));
+    assert.equal(q["gypsum-board"], 17); // 400 sqft / 24
+    assert.equal(q.rockwool, 2);
+  });
+
+  it("frames an all-plywood partition in aluminium with laminate", () => {
+    const result = computeRequired(wall({ wallType: "plywood" }));
+    assert.ok(result);
+    assert.equal(result.plywoodSheets, 7); // 200 sqft / 32
+    assert.equal(result.laminateSheets, 7);
+    assert.equal(result.gypsumBoards, 0);
+    assert.equal(result.jointTapeRolls, 0);
+    const studs = result.requiredMaterials.find((r) => r.key === "studs");
+    assert.equal(studs?.item, "Aluminium Stud");
+  });
+
+  it("boards a gypsum-plywood partition with one of each", () => {
+    const result = computeRequired(wall({ wallType: "gypsum-plywood" }));
+    assert.ok(result);
+    assert.equal(result.gypsumBoards, 5); // 100 sqft / 24
+    assert.equal(result.plywoodSheets, 4); // 100 sqft / 32
+    const studs = result.requiredMaterials.find((r) => r.key === "studs");
+    assert.equal(studs?.item, "GI Stud");
+  });
+
+  it("frames around openings and deducts them from the boards", () => {
+    const result = computeRequired(
+      wall({ wallType: "gypsum", openings: [door()] }),
+    );
+    assert.ok(result);
+    assert.equal(result.deductedArea, 21);
+    assert.equal(result.solidArea, 79);
+    assert.equal(result.gypsumBoards, 7); // 158 sqft / 24
+    assert.equal(result.studs, 8); // two jamb studs
+    assert.equal(result.tracks, 3); // 20 ft plus the 3 ft head
+  });
+
+  it("has nothing to board when the openings are larger than the wall", () => {
+    const result = computeRequired(
+      wall({ wallType: "gypsum", openings: [door(12, 12)] }),
+    );
+    assert.ok(result);
+    assert.equal(result.area, 0);
+    assert.equal(result.solidArea, 0);
+    assert.equal(result.gypsumBoards, 0);
+    assert.equal(result.rockwoolBags, 0);
+  });
+});
+
+describe("computeRequired: glass partitions", () => {
+  it("glazes the band and boards the rest", () => {
+    const result = computeRequired(
+      wall({ wallType: "gypsum-glass", glassHeight: 4 }),
+    );
+    assert.ok(result);
+    assert.equal(result.glassArea, 40);
+    assert.equal(result.solidArea, 60);
+    assert.equal(result.gypsumBoards, 5); // 120 sqft / 24
+    assert.equal(result.glassSqft, 40);
+    assert.equal(result.glassChannels, 3); // 28 ft of channel
+  });
+
+  it("double glazes without doubling the boards", () => {
+    const result = computeRequired(
+      wall({ wallType: "plywood-glass", glassHeight: 4, subOption: "Double" }),
+    );
+    assert.ok(result);
+    assert.equal(result.glassSqft, 80);
+    assert.equal(result.glassChannels, 6);
+    assert.equal(result.plywoodSheets, 4); // 120 sqft / 32, single layer
+  });
+
+  it("takes openings from the solid part before the glass", () => {
+    const small = computeRequired(
+      wall({ wallType: "gypsum-glass", glassHeight: 4, openings: [door()] }),
+    );
+    assert.ok(small);
+    assert.equal(small.solidArea, 39);
+    assert.equal(small.glassArea, 40);
+
+    const tall = computeRequired(
+      wall({
+        wallType: "gypsum-glass",
+        glassHeight: 4,
+        openings: [door(10, 8)],
+      }),
+    );
+    assert.ok(tall);
+    assert.equal(tall.solidArea, 0);
+    assert.equal(tall.glassArea, 20);
+  });
+
+  it("limits the band to the wall height", () => {
+    const result = computeRequired(
+      wall({ wallType: "gypsum-glass", glassHeight: 15 }),
+    );
+    assert.ok(result);
+    assert.equal(result.glassArea, 100);
+    assert.equal(result.solidArea, 0);
+    assert.equal(result.gypsumBoards, 0);
+  });
+
+  it("ignores a glass height on a wall type without glass", () => {
+    const result = computeRequired(
+      wall({ wallType: "gypsum", glassHeight: 4 }),
+    );
+    assert.ok(result);
+    assert.equal(result.glassArea, 0);
+    assert.equal(result.solidArea, 100);
+  });
+});
+
+describe("computeRequired: dimensions", () => {
+  for (const [length, height] of [
+    [0, 10],
+    [10, 0],
+    [-10, 10],
+    [10, -5],
+  ]) {
+    it(`has nothing to compute for a ${length} × ${height} wall`, () => {
+      assert.equal(computeRequired(wall({ length, height })), null);
+      assert.equal(
+        computeRequired(wall({ wallType: "gypsum", length, height })),
+        null,
+      );
+    });
+  }
+
+  it("treats negative wastage and joints as zero", () => {
+    const result = computeRequired(
+      wall({ wastagePercent: -20, jointThicknessMm: -10 }),
+    );
+    assert.ok(result);
+    const faceSqft = (230 * 75) / (MM_PER_FT * MM_PER_FT);
+    assert.equal(result.bricks, Math.ceil((2 * 100) / faceSqft));
+  });
+});
+
+describe("computeWallSchedule", () => {
+  it("rolls quantities up by material with a breakdown per wall", () => {
+    const schedule = computeWallSchedule([
+      scheduled({ tag: "W1", wallType: "gypsum" }),
+      scheduled({ tag: "W2", wallType: "gypsum", length: 5 }),
+      scheduled({ tag: "W3", room: "Hall", wallType: "civil" }),
+    ]);
+    assert.ok(schedule);
+    assert.equal(schedule.walls.length, 3);
+    assert.equal(schedule.area, 250);
+
+    const boards = schedule.requiredMaterials.find(
+      (r) => r.item === "Gypsum Board 12.5mm",
+    );
+    assert.ok(boards);
+    assert.equal(boards.quantity, 9 + 5);
+    assert.deepEqual(boards.breakdown, [
+      { location: "Bedroom – W1", quantity: 9 },
+      { location: "Bedroom – W2", quantity: 5 },
+    ]);
+
+    const bricks = schedule.requiredMaterials.find((r) =>
+      r.key.endsWith("bricks"),
+    );
+    assert.equal(bricks?.location, "Hall – W3");
+    assert.equal(bricks?.breakdown, undefined);
+  });
+
+  it("totals each room", () => {
+    const schedule = computeWallSchedule([
+      scheduled({ tag: "W1", openings: [door()] }),
+      scheduled({ tag: "W2", wallType: "gypsum" }),
+      scheduled({ tag: "W3", room: "", wallType: "plywood" }),
+    ]);
+    assert.ok(schedule);
+    assert.deepEqual(schedule.rooms, [
+      {
+        room: "Bedroom",
+        walls: 2,
+        grossArea: 200,
+        deductedArea: 23,
+        area: 177,
+      },
+      {
+        room: "Unassigned",
+        walls: 1,
+        grossArea: 100,
+        deductedArea: 0,
+        area: 100,
+      },
+    ]);
+    assert.equal(schedule.deductedArea, 23);
+  });
+
+  it("skips walls without a size", () => {
+    const schedule = computeWallSchedule([
+      scheduled({ tag: "W1", length: 0 }),
+      scheduled({ tag: "W2", height: -3 }),
+      scheduled({ tag: "W3" }),
+    ]);
+    assert.ok(schedule);
+    assert.deepEqual(
+      schedule.walls.map((w) => w.tag),
+      ["W3"],
+    );
+    assert.equal(computeWallSchedule([scheduled({ length: 0 })]), null);
+    assert.equal(computeWallSchedule([]), null);
+  });
+
+  it("names a wall by room and tag", () => {
+    assert.equal(wallLocation({ room: "Kitchen", tag: "W2" }), "Kitchen – W2");
+    assert.equal(wallLocation({ room: "", tag: "W2" }), "W2");
+    assert.equal(wallLocation({ room: "", tag: "" }), "Wall");
+  });
+});
@@ -0,0 +1,505 @@
+import {
+  LINTEL_BEARING_FT,
+  finishOpenings,
+  masonryOpenings,
+  type WallOpening,
+} from "./openings";
+import { DEFAULT_COEFFICIENTS, type Coefficients } from "./coefficients";
+import { rollUpRequirements, type MaterialRequirement } from "./requirements";
+
+// The wall engine: quantities for every WallType from one set of formulas.
+// Lengths are in feet, joints in millimetres. Openings are deducted by the
+// rules in ./openings, so bricks, boards and plaster are all
+// measured on the net area. Brick sizes, board sizes and consumption rates
+// come from the coefficient set (./coefficients), defaulting to the
+// built-in values.
+
+export const WALL_TYPES = [
+  "civil",
+  "gypsum",
+  "plywood",
+  "gypsum-glass",
+  "plywood-glass",
+  "gypsum-plywood",
+] as const;
+
+export type WallType = (typeof WALL_TYPES)[number];
+
+export const DEFAULT_MORTAR_RATIO = 6; // 1 cement : 6 sand
+export const DEFAULT_JOINT_MM = 10;
+
+const MM_PER_FT = 304.8;
+
+export interface WallInput {
+  wallType: WallType;
+  subOption?: string | null;
+  length: number;
+  height: number;
+  /** Glass types: height of the glazed band; the rest is solid partition. */
+  glassHeight?: number;
+  /** Sand parts per part of cement, e.g. 6 for 1:6. */
+  mortarRatio?: number;
+  jointThicknessMm?: number;
+  /** Applied to every counted item (bricks, boards, sections, glass). */
+  wastagePercent?: number;
+  openings?: WallOpening[];
+  /** Civil: faces plastered, 0 to 2. */
+  plasterFaces?: number;
+}
+
+export interface ComputedMaterials {
+  /** Length × height before openings. */
+  grossArea: number;
+  deductedArea: number;
+  /** Net area the quantities are measured on. */
+  area: number;
+  solidArea: number;
+  glassArea: number;
+
+  // Civil
+  bricks?: number;
+  lintels?: number;
+  lintelFt?: number;
+  plasterSqft?: number;
+  mortarCft?: number;
+  cementBags?: number;
+  sandCft?: number;
+
+  // Framed partitions
+  gypsumBoards?: number;
+  plywoodSheets?: number;
+  laminateSheets?: number;
+  tracks?: number;
+  studs?: number;
+  screws?: number;
+  rockwoolBags?: number;
+  jointTapeRolls?: number;
+  jointCompoundBags?: number;
+
+  // Glazing
+  glassSqft?: number;
+  glassChannels?: number;
+
+  requiredMaterials: MaterialRequirement[];
+}
+
+export const isDoubleOption = (subOption?: string | null) =>
+  /double/i.test(subOption || "");
+
+const hasGlass = (wallType: WallType) =>
+  wallType === "gypsum-glass" || wallType === "plywood-glass";
+
+/** Board faces of a framed partition: [front, back]. */
+const PARTITION_FACES: Record<
+  Exclude<WallType, "civil">,
+  ["gypsum" | "plywood", "gypsum" | "plywood"]
+> = {
+  gypsum: ["gypsum", "gypsum"],
+  plywood: ["plywood", "plywood"],
+  "gypsum-plywood": ["gypsum", "plywood"],
+  "gypsum-glass": ["gypsum", "gypsum"],
+  "plywood-glass": ["plywood", "plywood"],
+};
+
+/** Unplastered thickness of a half-brick or one-brick wall. */
+export const brickWallThicknessFt = (
+  nineInch: boolean,
+  jointMm: number,
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+) => (nineInch ? 2 * c.brickWidthMm + jointMm : c.brickWidthMm) / MM_PER_FT;
+
+/** Brick count and mortar for a 4.5" (half-brick) or 9" (one-brick) wall. */
+export function computeBrickwork(
+  area: number,
+  nineInch: boolean,
+  jointMm: number,
+  mortarRatio: number,
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+) {
+  const length = c.brickLengthMm;
+  const width = c.brickWidthMm;
+  const height = c.brickHeightMm;
+  const faceSqft =
+    ((length + jointMm) * (height + jointMm)) / (MM_PER_FT * MM_PER_FT);
+  const thicknessFt = brickWallThicknessFt(nineInch, jointMm, c);
+  const brickCft =
+    (length * width * height) / (MM_PER_FT * MM_PER_FT * MM_PER_FT);
+
+  const bricks = (area / faceSqft) * (nineInch ? 2 : 1);
+  const wallCft = area * thicknessFt;
+  const mortarCft = Math.max(0, wallCft - bricks * brickCft);
+  const dryCft = mortarCft * c.mortarDryVolumeFactor;
+  const cementCft = dryCft / (1 + mortarRatio);
+
+  return {
+    bricks,
+    mortarCft,
+    cementBags: cementCft / c.cementBagCft,
+    sandCft: dryCft - cementCft,
+  };
+}
+
+export const computeRequired = (
+  input: WallInput,
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): ComputedMaterials | null => {
+  const length = Math.max(0, input.length || 0);
+  const height = Math.max(0, input.height || 0);
+  if (!input.wallType || length === 0 || height === 0) return null;
+
+  const wastage =
+    1 + Math.max(0, input.wastagePercent ?? c.wallWastagePercent) / 100;
+  const jointMm = Math.max(0, input.jointThicknessMm ?? DEFAULT_JOINT_MM);
+  const mortarRatio = Math.max(1, input.mortarRatio ?? DEFAULT_MORTAR_RATIO);
+  const double = isDoubleOption(input.subOption);
+  const grossArea = length * height;
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+  ) => {
+    if (quantity > 0) {
+      req.push({ key, item, quantity, unit, category, keywords, description });
+    }
+  };
+
+  // ============= CIVIL WALL =============
+  if (input.wallType === "civil") {
+    const nineInch = /9/.test(input.subOption || "9 inch");
+    const masonry = masonryOpenings(grossArea, input.openings);
+    const area = masonry.netArea;
+    const brickwork = computeBrickwork(area, nineInch, jointMm, mortarRatio, c);
+
+    // Plaster in CM 1:4 on the finish-rule area, reveals at the wall thickness
+    const faces = Math.min(2, Math.max(0, Math.round(input.plasterFaces || 0)));
+    const plaster = finishOpenings(
+      grossArea * faces,
+      input.openings,
+      faces,
+      brickWallThicknessFt(nineInch, jointMm, c),
+    );
+    const plasterDryCft =
+      ((plaster.netArea * c.plasterThicknessMm) / MM_PER_FT) *
+      c.mortarDryVolumeFactor;
+    const plasterCementCft = plasterDryCft / (1 + c.plasterMortarRatio);
+
+    const bricks = Math.ceil(brickwork.bricks * wastage);
+    const cementBags = Math.ceil(
+      (brickwork.cementBags + plasterCementCft / c.cementBagCft) * wastage,
+    );
+    const sandCft = Math.ceil(
+      (brickwork.sandCft + plasterDryCft - plasterCementCft) * wastage,
+    );
+    const cementFor = [
+      `CM 1:${mortarRatio}, ${brickwork.mortarCft.toFixed(1)} cft wet mortar`,
+    ];
+    if (plaster.netArea > 0) {
+      cementFor.push(
+        `CM 1:${c.plasterMortarRatio} plaster on ${Math.round(plaster.netArea)} sqft`,
+      );
+    }
+
+    push(
+      "bricks",
+      "Red Clay Brick",
+      bricks,
+      "nos",
+      "Civil",
+      ["BRICK"],
+      `${nineInch ? '9"' : '4.5"'} wall, ${jointMm} mm joints`,
+    );
+    push(
+      "cement",
+      "Cement OPC 53 Grade",
+      cementBags,
+      "bag",
+      "Civil",
+      ["CEMENT"],
+      cementFor.join("; "),
+    );
+    push("sand", "River Sand", sandCft, "cft", "Civil", ["SAND"]);
+    push(
+      "lintel",
+      "Precast RCC Lintel",
+      Math.ceil(masonry.lintelFt),
+      "rft",
+      "Civil",
+      ["LINTEL"],
+      `${masonry.lintelCount} nos, ${LINTEL_BEARING_FT * 12}" bearing each end`,
+    );
+
+    return {
+      grossArea: masonry.grossArea,
+      deductedArea: masonry.deductedArea,
+      area,
+      solidArea: area,
+      glassArea: 0,
+      bricks,
+      lintels: masonry.lintelCount,
+      lintelFt: masonry.lintelFt,
+      plasterSqft: plaster.netArea,
+      mortarCft: Math.round(brickwork.mortarCft * 100) / 100,
+      cementBags,
+      sandCft,
+      requiredMaterials: req,
+    };
+  }
+
+  // ============= FRAMED PARTITIONS =============
+  const glassHeight = hasGlass(input.wallType)
+    ? Math.min(height, Math.max(0, input.glassHeight || 0))
+    : 0;
+  // Openings come out of the solid part first, then the glazed band
+  const openings = masonryOpenings(grossArea, input.openings, false);
+  const glassGross = length * glassHeight;
+  const solidGross = grossArea - glassGross;
+  const solidArea = Math.max(0, solidGross - openings.deductedArea);
+  const glassArea = Math.max(
+    0,
+    glassGross - Math.max(0, openings.deductedArea - solidGross),
+  );
+  // Glass types glaze in single or double panes; the board is single layer
+  const layers = double && !hasGlass(input.wallType) ? 2 : 1;
+
+  let gypsumArea = 0;
+  let plywoodArea = 0;
+  for (const face of PARTITION_FACES[input.wallType]) {
+    if (face === "gypsum") gypsumArea += solidArea * layers;
+    else plywoodArea += solidArea * layers;
+  }
+
+  // GI framing for gypsum faces, aluminium for all-plywood partitions
+  const aluminium = gypsumArea === 0;
+  // Each opening adds a jamb stud either side and a head (and sill) track
+  const studCount =
+    Math.ceil(length / c.studSpacingFt) + 1 + 2 * openings.deductedCount;
+  const tracks = Math.ceil(
+    ((2 * length + openings.trimFt) / c.channelLengthFt) * wastage,
+  );
+  const studs = Math.ceil(
+    studCount * Math.ceil(height / c.channelLengthFt) * wastage,
+  );
+  const gypsumBoards = Math.ceil((gypsumArea / c.gypsumBoardSqft) * wastage);
+  const plywoodSheets = Math.ceil((plywoodArea / c.plywoodSheetSqft) * wastage);
+  const laminateSheets = Math.ceil(
+    (plywoodArea / c.laminateSheetSqft) * wastage,
+  );
+  const screws = (gypsumBoards + plywoodSheets) * c.screwsPerBoard;
+  const rockwoolBags = Math.ceil(solidArea / c.rockwoolBagSqft);
+  const jointTapeRolls = gypsumArea
+    ? Math.ceil((gypsumArea * c.jointTapeFtPerSqft) / c.jointTapeRollFt)
+    : 0;
+  const jointCompoundBags = gypsumArea
+    ? Math.ceil((gypsumArea * c.jointCompoundKgPerSqft) / c.jointCompoundBagKg)
+    : 0;
+
+  const glassSqft = glassArea
+    ? Math.ceil(glassArea * (double ? 2 : 1) * wastage)
+    : 0;
+  // Channels along the top and bottom of the glazed band and at both ends
+  const glassChannels = glassArea
+    ? Math.ceil(
+        (((2 * length + 2 * glassHeight) * (double ? 2 : 1)) /
+          c.channelLengthFt) *
+          wastage,
+      )
+    : 0;
+
+  const framing = aluminium ? "Aluminium" : "GI";
+  push(
+    "tracks",
+    `${framing} Floor/Ceiling Channel`,
+    tracks,
+    "pcs",
+    "Framing",
+    [framing.toUpperCase(), "CHANNEL"],
+    `${c.channelLengthFt} ft lengths`,
+  );
+  push(
+    "studs",
+    `${framing} Stud`,
+    studs,
+    "pcs",
+    "Framing",
+    [framing.toUpperCase(), "STUD"],
+    `${studCount} studs at ${c.studSpacingFt} ft c/c`,
+  );
+  push(
+    "gypsum-board",
+    "Gypsum Board 12.5mm",
+    gypsumBoards,
+    "nos",
+    "Boards",
+    ["GYPSUM", "BOARD"],
+    `${Math.round(gypsumArea)} sqft${layers > 1 ? ", double layer" : ""}`,
+  );
+  push(
+    "plywood",
+    "Plywood 12mm",
+    plywoodSheets,
+    "nos",
+    "Boards",
+    ["PLYWOOD"],
+    `${Math.round(plywoodArea)} sqft${layers > 1 ? ", double layer" : ""}`,
+  );
+  push("laminate", "Laminate 1mm", laminateSheets, "nos", "Boards", [
+    "LAMINATE",
+  ]);
+  push("screws", "Drywall Screw", screws, "pcs", "Boards", ["SCREW"]);
+  push(
+    "rockwool",
+    "Rockwool Insulation",
+    rockwoolBags,
+    "bag",
+    "Insulation",
+    ["ROCKWOOL"],
+    `${c.rockwoolBagSqft} sqft per bag`,
+  );
+  push("joint-tape", "Paper Joint Tape", jointTapeRolls, "roll", "Jointing", [
+    "JOINT TAPE",
+  ]);
+  push(
+    "joint-compound",
+    "Jointing Compound",
+    jointCompoundBags,
+    "bag",
+    "Jointing",
+    ["COMPOUND"],
+  );
+  push(
+    "glass",
+    "Toughened Glass 10mm",
+    glassSqft,
+    "sqft",
+    "Glazing",
+    ["GLASS"],
+    `${Math.round(glassArea)} sqft band${double ? ", double glazed" : ""}`,
+  );
+  push("glass-channel", "Glass Channel", glassChannels, "pcs", "Glazing", [
+    "GLASS",
+    "CHANNEL",
+  ]);
+
+  return {
+    grossArea: openings.grossArea,
+    deductedArea: openings.deductedArea,
+    area: openings.netArea,
+    solidArea,
+    glassArea,
+    gypsumBoards,
+    plywoodSheets,
+    laminateSheets,
+    tracks,
+    studs,
+    screws,
+    rockwoolBags,
+    jointTapeRolls,
+    jointCompoundBags,
+    glassSqft,
+    glassChannels,
+    requiredMaterials: req,
+  };
+};
+
+// ============= WALL SCHEDULE =============
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export interface ScheduledWall extends WallInput {
+  tag: string;
+  room: string;
+}
+
+export interface ScheduledWallResult {
+  tag: string;
+  room: string;
+  location: string;
+  wallType: WallType;
+  subOption?: string | null;
+  length: number;
+  height: number;
+  result: ComputedMaterials;
+}
+
+export interface RoomWallTotals {
+  room: string;
+  walls: number;
+  grossArea: number;
+  deductedArea: number;
+  area: number;
+}
+
+export interface WallScheduleResult {
+  walls: ScheduledWallResult[];
+  rooms: RoomWallTotals[];
+  grossArea: number;
+  deductedArea: number;
+  area: number;
+  /** Rolled up by material, broken down by wall location. */
+  requiredMaterials: MaterialRequirement[];
+}
+
+/** Cart location of a scheduled wall, e.g. "Bedroom 1 – W3". */
+export const wallLocation = (wall: { tag: string; room: string }) =>
+  [wall.room, wall.tag].filter(Boolean).join(" – ") || "Wall";
+
+/** Each wall computed on its own, with quantities rolled up by material. */
+export const computeWallSchedule = (
+  walls: ScheduledWall[],
+  c: Coefficients = DEFAULT_COEFFICIENTS,
+): WallScheduleResult | null => {
+  const computed: ScheduledWallResult[] = [];
+  const lines: MaterialRequirement[] = [];
+  for (const wall of walls) {
+    const result = computeRequired(wall, c);
+    if (!result) continue;
+    const location = wallLocation(wall);
+    computed.push({
+      tag: wall.tag,
+      room: wall.room,
+      location,
+      wallType: wall.wallType,
+      subOption: wall.subOption,
+      length: wall.length,
+      height: wall.height,
+      result,
+    });
+    for (const r of result.requiredMaterials) {
+      lines.push({ ...r, key: `${computed.length}-${r.key}`, location });
+    }
+  }
+  if (computed.length === 0) return null;
+
+  const rooms: RoomWallTotals[] = [];
+  for (const w of computed) {
+    const room = w.room || "Unassigned";
+    let totals = rooms.find((r) => r.room === room);
+    if (!totals) {
+      totals = { room, walls: 0, grossArea: 0, deductedArea: 0, area: 0 };
+      rooms.push(totals);
+    }
+    totals.walls += 1;
+    totals.grossArea = round2(totals.grossArea + w.result.grossArea);
+    totals.deductedArea = round2(totals.deductedArea + w.result.deductedArea);
+    totals.area = round2(totals.area + w.result.area);
+  }
+
+  const sum = (pick: (r: RoomWallTotals) => number) =>
+    round2(rooms.reduce((total, r) => total + pick(r), 0));
+  return {
+    walls: computed,
+    rooms,
+    grossArea: sum((r) => r.grossArea),
+    deductedArea: sum((r) => r.deductedArea),
+    area: sum((r) => r.area),
+    requiredMaterials: rollUpRequirements(lines),
+  };
+};
+
+export default computeRequired;
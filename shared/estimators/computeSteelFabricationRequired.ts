@@ -0,0 +1,378 @@
+import type { MaterialRequirement } from "./requirements";
+import {
+  SECTION_SHAPE_LABELS,
+  sectionWeight,
+  steelGrade,
+  steelSection,
+  type SteelMaterial,
+  type SteelSection,
+} from "./steelSections";
+
+// MS/SS fabrication takeoff from a member list. Steel is bought and
+// fabrication is charged by weight: each member's length (and width for
+// sheets) in feet is weighed from the section library, then welding
+// consumables, finish and base plates follow from the total.
+
+export const FT_TO_M = 0.3048;
+export const SQM_TO_SQFT = 10.7639;
+
+export interface SteelMember {
+  name: string;
+  sectionId: string;
+  lengthFt: number;
+  /** Sheets only. */
+  widthFt: number;
+  count: number;
+  /** Base plates under each piece, e.g. 1 for a post. */
+  basePlates: number;
+}
+
+export interface BasePlateSize {
+  id: string;
+  label: string;
+  sideMm: number;
+  thicknessMm: number;
+  anchor: string;
+}
+
+export const BASE_PLATE_SIZES: BasePlateSize[] = [
+  {
+    id: "150",
+    label: "150 × 150 × 8",
+    sideMm: 150,
+    thicknessMm: 8,
+    anchor: "M12",
+  },
+  {
+    id: "200",
+    label: "200 × 200 × 10",
+    sideMm: 200,
+    thicknessMm: 10,
+    anchor: "M16",
+  },
+  {
+    id: "250",
+    label: "250 × 250 × 12",
+    sideMm: 250,
+    thicknessMm: 12,
+    anchor: "M20",
+  },
+];
+
+export const ANCHORS_PER_BASE_PLATE = 4;
+
+interface MaterialRule {
+  prefix: string;
+  defaultGradeId: string;
+  /** Filler metal as a share of fabricated weight. */
+  fillerShare: number;
+  fabricationRatePerKg: number;
+  erectionRatePerKg: number;
+}
+
+export const STEEL_MATERIAL_RULES: Record<SteelMaterial, MaterialRule> = {
+  ms: {
+    prefix: "MS",
+    defaultGradeId: "e250",
+    fillerShare: 0.015,
+    fabricationRatePerKg: 30,
+    erectionRatePerKg: 12,
+  },
+  ss: {
+    prefix: "SS",
+    defaultGradeId: "ss304",
+    fillerShare: 0.01,
+    fabricationRatePerKg: 150,
+    erectionRatePerKg: 40,
+  },
+};
+
+// Consumables per kg of fabricated steel
+export const KG_PER_CUTTING_DISC = 25;
+export const KG_PER_GRINDING_DISC = 50;
+export const KG_PER_ARGON_CYLINDER = 150;
+
+// MS finish: one coat of primer and two of enamel
+export const PRIMER_SQFT_PER_LITRE = 110;
+export const ENAMEL_SQFT_PER_LITRE_PER_COAT = 130;
+export const ENAMEL_COATS = 2;
+export const THINNER_SHARE = 0.1;
+
+export interface SteelFabricationOptions {
+  material: SteelMaterial;
+  gradeId: string;
+  basePlateId: string;
+  fabricationRatePerKg: number;
+  erectionRatePerKg: number;
+  wastagePercent: number;
+}
+
+export interface SteelMemberTakeoff {
+  name: string;
+  section: SteelSection;
+  pieces: number;
+  /** Metres, or m² for sheets. */
+  quantity: number;
+  weightKg: number;
+  surfaceSqft: number;
+}
+
+export interface SteelSectionTotal {
+  section: SteelSection;
+  quantity: number;
+  weightKg: number;
+}
+
+export interface SteelFabricationComputeResult {
+  members: SteelMemberTakeoff[];
+  sections: SteelSectionTotal[];
+  sectionWeightKg: number;
+  basePlates: number;
+  basePlateWeightKg: number;
+  /** Finished weight the fabrication and erection charges apply to. */
+  totalWeightKg: number;
+  surfaceSqft: number;
+  fabricationCharge: number;
+  erectionCharge: number;
+  requiredMaterials: MaterialRequirement[];
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Metres (m² for sheets) of one piece. */
+const pieceQuantity = (section: SteelSection, member: SteelMember) =>
+  section.shape === "sheet"
+    ? member.lengthFt * FT_TO_M * member.widthFt * FT_TO_M
+    : member.lengthFt * FT_TO_M;
+
+export const computeSteelFabricationRequired = (
+  members: SteelMember[],
+  options: SteelFabricationOptions,
+): SteelFabricationComputeResult | null => {
+  const rule = STEEL_MATERIAL_RULES[options.material];
+  const grade = steelGrade(options.gradeId);
+  const plate =
+    BASE_PLATE_SIZES.find((p) => p.id === options.basePlateId) ||
+    BASE_PLATE_SIZES[0];
+
+  const takeoffs: SteelMemberTakeoff[] = [];
+  let basePlates = 0;
+  for (const m of members) {
+    const section = steelSection(m.sectionId);
+    const pieces = Math.max(0, Math.floor(m.count));
+    if (!section || pieces === 0) continue;
+    const quantity = pieceQuantity(section, m) * pieces;
+    if (quantity <= 0) continue;
+    takeoffs.push({
+      name: m.name,
+      section,
+      pieces,
+      quantity,
+      weightKg: quantity * sectionWeight(section, grade),
+      surfaceSqft: quantity * section.surfaceM2 * SQM_TO_SQFT,
+    });
+    basePlates += pieces * Math.max(0, Math.floor(m.basePlates));
+  }
+  if (takeoffs.length === 0) return null;
+
+  const bySection = new Map<string, SteelSectionTotal>();
+  for (const t of takeoffs) {
+    const total = bySection.get(t.section.id) || {
+      section: t.section,
+      quantity: 0,
+      weightKg: 0,
+    };
+    total.quantity += t.quantity;
+    total.weightKg += t.weightKg;
+    bySection.set(t.section.id, total);
+  }
+  const sections = Array.from(bySection.values());
+
+  const sectionWeightKg = takeoffs.reduce((s, t) => s + t.weightKg, 0);
+  const plateSideM = plate.sideMm / 1000;
+  const plateKg =
+    plateSideM * plateSideM * (plate.thicknessMm / 1000) * grade.densityKgM3;
+  const basePlateWeightKg = basePlates * plateKg;
+  const totalWeightKg = sectionWeightKg + basePlateWeightKg;
+  const surfaceSqft = takeoffs.reduce((s, t) => s + t.surfaceSqft, 0);
+  const wastage = 1 + options.wastagePercent / 100;
+
+  const req: MaterialRequirement[] = [];
+  const push = (
+    key: string,
+    item: string,
+    quantity: number,
+    unit: string,
+    category: string,
+    keywords: string[],
+    description?: string,
+    installRate?: number,
+  ) => {
+    if (quantity > 0) {
+      req.push({
+        key,
+        item,
+        quantity,
+        unit,
+        category,
+        keywords,
+        description,
+        installRate,
+      });
+    }
+  };
+
+  const { prefix } = rule;
+  for (const s of sections) {
+    const sheet = s.section.shape === "sheet";
+    push(
+      `section-${s.section.id}`,
+      `${prefix} ${SECTION_SHAPE_LABELS[s.section.shape]} ${s.section.size}`,
+      Math.ceil(s.weightKg * wastage),
+      "kg",
+      "Steel",
+      [prefix, s.section.shape.toUpperCase(), s.section.keyword],
+      `${grade.label}, ${round1(s.quantity)} ${sheet ? "m²" : "m"} with ${options.wastagePercent}% wastage`,
+    );
+  }
+
+  if (basePlates > 0) {
+    push(
+      "base-plate",
+      `${prefix} Base Plate ${plate.label}`,
+      basePlates,
+      "nos",
+      "Steel",
+      [prefix, "PLATE", `${plate.thicknessMm}MM`],
+      `${round1(basePlateWeightKg)} kg`,
+    );
+    push(
+      "anchor",
+      `Anchor Fastener ${plate.anchor}`,
+      basePlates * ANCHORS_PER_BASE_PLATE,
+      "nos",
+      "Fixing",
+      ["ANCHOR", plate.anchor],
+      `${ANCHORS_PER_BASE_PLATE} per base plate`,
+    );
+  }
+
+  const fillerKg = Math.ceil(totalWeightKg * rule.fillerShare);
+  if (options.material === "ms") {
+    push(
+      "electrode",
+      "Welding Electrode E6013 3.15mm",
+      fillerKg,
+      "kg",
+      "Welding",
+      ["ELECTRODE"],
+    );
+  } else {
+    const filler = grade.id === "ss316" ? "ER316L" : "ER308L";
+    push(
+      "filler-rod",
+      `TIG Filler Rod ${filler} 1.6mm`,
+      fillerKg,
+      "kg",
+      "Welding",
+      ["FILLER", filler],
+    );
+    push(
+      "argon",
+      "Argon Gas Cylinder",
+      Math.ceil(totalWeightKg / KG_PER_ARGON_CYLINDER),
+      "nos",
+      "Welding",
+      ["ARGON"],
+    );
+  }
+  push(
+    "cutting-disc",
+    "Cutting Disc 4 inch",
+    Math.ceil(totalWeightKg / KG_PER_CUTTING_DISC),
+    "nos",
+    "Welding",
+    ["CUTTING", "DISC"],
+  );
+  push(
+    "grinding-disc",
+    "Grinding Disc 4 inch",
+    Math.ceil(totalWeightKg / KG_PER_GRINDING_DISC),
+    "nos",
+    "Welding",
+    ["GRINDING", "DISC"],
+  );
+
+  const area = Math.ceil(surfaceSqft);
+  if (options.material === "ms") {
+    const primer = Math.ceil(area / PRIMER_SQFT_PER_LITRE);
+    const enamel = Math.ceil(
+      (area * ENAMEL_COATS) / ENAMEL_SQFT_PER_LITRE_PER_COAT,
+    );
+    push(
+      "primer",
+      "Red Oxide Primer",
+      primer,
+      "ltr",
+      "Finish",
+      ["PRIMER"],
+      `${area} sqft, 1 coat`,
+    );
+    push(
+      "enamel",
+      "Synthetic Enamel Paint",
+      enamel,
+      "ltr",
+      "Finish",
+      ["ENAMEL"],
+      `${area} sqft, ${ENAMEL_COATS} coats`,
+    );
+    push(
+      "thinner",
+      "Thinner",
+      Math.ceil((primer + enamel) * THINNER_SHARE),
+      "ltr",
+      "Finish",
+      ["THINNER"],
+    );
+  } else {
+    push("polishing", "Buffing and Polishing", area, "sqft", "Finish", [
+      "POLISH",
+    ]);
+  }
+
+  const weight = Math.ceil(totalWeightKg);
+  push(
+    "fabrication",
+    `${prefix} Fabrication`,
+    weight,
+    "kg",
+    "Labour",
+    [],
+    "Cutting, welding and grinding",
+    options.fabricationRatePerKg,
+  );
+  push(
+    "erection",
+    `${prefix} Erection`,
+    weight,
+    "kg",
+    "Labour",
+    [],
+    "Hoisting, alignment and fixing at site",
+    options.erectionRatePerKg,
+  );
+
+  return {
+    members: takeoffs,
+    sections,
+    sectionWeightKg,
+    basePlates,
+    basePlateWeightKg,
+    totalWeightKg,
+    surfaceSqft,
+    fabricationCharge: weight * options.fabricationRatePerKg,
+    erectionCharge: weight * options.erectionRatePerKg,
+    requiredMaterials: req,
+  };
+};
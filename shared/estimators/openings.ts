@@ -0,0 +1,144 @@
+// Deductions for doors, windows and ducts in wall takeoffs, following the
+// IS 1200 measurement rules. Masonry and finishes are measured differently:
+// small openings are ignored in both, but a finish only loses the larger
+// openings and gets their jambs, soffits and sills back as extra area.
+// Dimensions are in feet.
+
+export type OpeningType = "door" | "window" | "ventilator" | "duct";
+
+export const OPENING_TYPE_LABELS: Record<OpeningType, string> = {
+  door: "Door",
+  window: "Window",
+  ventilator: "Ventilator",
+  duct: "Duct",
+};
+
+export interface WallOpening {
+  type: OpeningType;
+  width: number;
+  height: number;
+  count: number;
+}
+
+const SQFT_PER_M2 = 10.764;
+
+/** Masonry: openings up to 0.1 m² each are not deducted (IS 1200 Part 3). */
+export const MASONRY_MIN_DEDUCTION_SQFT = 0.1 * SQFT_PER_M2;
+/** Finishes: openings up to 0.5 m² each are not deducted (IS 1200 Part 12/13). */
+export const FINISH_MIN_DEDUCTION_SQFT = 0.5 * SQFT_PER_M2;
+/** Finishes: above 3 m² both faces are deducted and the reveals are added. */
+export const FINISH_FULL_DEDUCTION_SQFT = 3 * SQFT_PER_M2;
+
+/** Openings wider than this get a lintel in masonry. */
+export const LINTEL_MIN_WIDTH_FT = 1.5;
+/** Lintel bearing on the wall at each end (150 mm). */
+export const LINTEL_BEARING_FT = 0.5;
+/** Lintel depth, deducted from the masonry with the opening. */
+export const LINTEL_DEPTH_FT = 0.5;
+
+export interface OpeningTakeoff {
+  grossArea: number;
+  /** Openings (and lintels) taken out of the gross area. */
+  deductedArea: number;
+  /** Jambs, soffits and sills added back to a finish. */
+  addedArea: number;
+  netArea: number;
+  /** Openings that were deducted, counted per piece. */
+  deductedCount: number;
+  /** Deducted openings' head (and sill) length, for framing around them. */
+  trimFt: number;
+  lintelCount: number;
+  lintelFt: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const hasSill = (type: OpeningType) => type !== "door";
+
+const validOpenings = (openings: WallOpening[] = []) =>
+  openings.filter((o) => o.width > 0 && o.height > 0 && o.count > 0);
+
+const takeoff = (
+  grossArea: number,
+  deducted: number,
+  added: number,
+  extra: Partial<OpeningTakeoff> = {},
+): OpeningTakeoff => {
+  const deductedArea = Math.min(grossArea, deducted);
+  return {
+    grossArea: round2(grossArea),
+    deductedArea: round2(deductedArea),
+    addedArea: round2(added),
+    netArea: round2(grossArea - deductedArea + added),
+    deductedCount: 0,
+    trimFt: 0,
+    lintelCount: 0,
+    lintelFt: 0,
+    ...extra,
+  };
+};
+
+/**
+ * Brickwork and board area: every opening over 0.1 m² is deducted in
+ * full. With `lintels`, openings wider than LINTEL_MIN_WIDTH_FT also get a
+ * lintel bearing into the wall, whose depth comes out of the masonry too.
+ */
+export function masonryOpenings(
+  grossArea: number,
+  openings: WallOpening[] | undefined,
+  lintels = true,
+): OpeningTakeoff {
+  let deducted = 0;
+  let deductedCount = 0;
+  let trimFt = 0;
+  let lintelCount = 0;
+  let lintelFt = 0;
+  for (const o of validOpenings(openings)) {
+    if (o.width * o.height <= MASONRY_MIN_DEDUCTION_SQFT) continue;
+    deducted += o.width * o.height * o.count;
+    deductedCount += o.count;
+    trimFt += o.width * (hasSill(o.type) ? 2 : 1) * o.count;
+    if (lintels && o.width > LINTEL_MIN_WIDTH_FT) {
+      const length = o.width + 2 * LINTEL_BEARING_FT;
+      deducted += length * LINTEL_DEPTH_FT * o.count;
+      lintelCount += o.count;
+      lintelFt += length * o.count;
+    }
+  }
+  return takeoff(grossArea, deducted, 0, {
+    deductedCount,
+    trimFt: round2(trimFt),
+    lintelCount,
+    lintelFt: round2(lintelFt),
+  });
+}
+
+/**
+ * Plaster and paint area over `faces` faces of the wall. Openings up to
+ * 0.5 m² are ignored; up to 3 m² they come off one face only and their
+ * reveals are not measured; larger openings come off every face and their
+ * jambs, soffit and sill are added at the wall's thickness.
+ */
+export function finishOpenings(
+  grossArea: number,
+  openings: WallOpening[] | undefined,
+  faces: number,
+  revealDepthFt: number,
+): OpeningTakeoff {
+  let deducted = 0;
+  let added = 0;
+  let deductedCount = 0;
+  for (const o of validOpenings(openings)) {
+    const area = o.width * o.height;
+    if (area <= FINISH_MIN_DEDUCTION_SQFT || faces <= 0) continue;
+    deductedCount += o.count;
+    if (area <= FINISH_FULL_DEDUCTION_SQFT) {
+      deducted += area * o.count;
+      continue;
+    }
+    deducted += area * faces * o.count;
+    const perimeter = 2 * o.height + o.width * (hasSill(o.type) ? 2 : 1);
+    added += perimeter * Math.max(0, revealDepthFt) * o.count;
+  }
+  return takeoff(grossArea, deducted, added, { deductedCount });
+}
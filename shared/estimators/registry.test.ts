@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveCoefficients } from "./coefficients";
+import { estimateRequirements } from "./registry";
+
+// Estimates read their wastage, coverage and starting ratios from the
+// coefficient set they run with, not from the engines' own literals.
+
+const line = (
+  type: string,
+  input: unknown,
+  key: string,
+  overrides: Parameters<typeof resolveCoefficients>[0] = {},
+) => {
+  const run = estimateRequirements(type, input, resolveCoefficients(overrides));
+  assert.ok("value" in run);
+  const found = run.value.find((r) => r.key === key);
+  assert.ok(found, `no ${key} line`);
+  return found;
+};
+
+describe("estimateRequirements with coefficients", () => {
+  it("takes the flooring pattern and skirting wastage from the set", () => {
+    const input = {
+      rooms: [{ length: 10, width: 10 }],
+      pattern: "diagonal",
+    };
+    assert.match(line("flooring", input, "tiles").description!, /12% wastage/);
+    const tiles = line("flooring", input, "tiles", {
+      flooringDiagonalWastagePercent: 20,
+    });
+    assert.match(tiles.description!, /20% wastage/);
+    const skirting = line("flooring", input, "skirting", {
+      skirtingWastagePercent: 10,
+    });
+    assert.equal(skirting.quantity, 44);
+  });
+
+  it("takes the paint coverage from the set", () => {
+    const input = {
+      rooms: [{ length: 10, width: 10, height: 10, ceiling: false }],
+    };
+    assert.equal(line("painting", input, "0-walls-primer").quantity, 3.5);
+    const primer = line("painting", input, "0-walls-primer", {
+      primerSqftPerLtr: 100,
+    });
+    assert.equal(primer.quantity, 4);
+  });
+
+  it("starts plumbing ratios and wastage from the set", () => {
+    const input = {
+      areas: [{ fixtures: { wc: 1 }, supplyRunFt: 0, drainRunFt: 0 }],
+      hotWater: false,
+    };
+    const overrides = { supplyBranchFt: 10, plumbingWastagePercent: 0 };
+    const pipe = line("plumbing", input, "supply-pipe-15", overrides);
+    assert.match(pipe.description!, /^10 ft laid with 0% wastage/);
+    const given = line(
+      "plumbing",
+      { ...input, ratios: { supplyBranchFt: 6 }, wastagePercent: 10 },
+      "supply-pipe-15",
+      overrides,
+    );
+    assert.match(given.description!, /^6 ft laid with 10% wastage/);
+  });
+});
@@ -0,0 +1,523 @@
+import { z } from "zod";
+import { convertQuantity, type UnitSystem } from "../units";
+import { DEFAULT_COEFFICIENTS, type Coefficients } from "./coefficients";
+import { BLIND_TYPES, computeBlindsRequired } from "./computeBlindsRequired";
+import {
+  ELECTRICAL_POINT_TYPES,
+  computeElectricalRequired,
+} from "./computeElectricalRequired";
+import { computeFalseCeilingRequired } from "./computeFalseCeilingRequired";
+import { computeFireFightingRequired } from "./computeFireFightingRequired";
+import {
+  FLOORING_TILE_SIZES,
+  computeFlooringRequired,
+} from "./computeFlooringRequired";
+import {
+  FINISH_PAINTS,
+  computePaintingRequired,
+  type PaintProductId,
+} from "./computePaintingRequired";
+import {
+  FIXTURE_TYPES,
+  computePlumbingRequired,
+  fittingRatios,
+} from "./computePlumbingRequired";
+import {
+  DEFAULT_JOINT_MM,
+  DEFAULT_MORTAR_RATIO,
+  WALL_TYPES,
+  computeWallSchedule,
+} from "./computeRequired";
+import {
+  BASE_PLATE_SIZES,
+  STEEL_MATERIAL_RULES,
+  computeSteelFabricationRequired,
+} from "./computeSteelFabricationRequired";
+import { requirementQuantity, type MaterialRequirement } from "./requirements";
+import { steelSection, type SteelMaterial } from "./steelSections";
+
+// The estimators behind POST /api/estimate/:type. Each type validates a
+// JSON body and runs the same engine the estimator pages use, so the
+// server can recompute an estimate and other systems can script one.
+// Inputs are in feet (millimetres for joints), as in the engines; the
+// quantities come back in the requested unit system.
+
+const feet = z.number().finite().nonnegative();
+const count = z.number().int().nonnegative();
+const percent = z.number().finite().min(0).max(100);
+const label = (fallback: string) =>
+  z.string().trim().max(120).default(fallback);
+const rows = <T extends z.ZodTypeAny>(row: T) => z.array(row).min(1).max(500);
+
+const wallSchema = z.object({
+  walls: rows(
+    z.object({
+      tag: label(""),
+      room: label(""),
+      wallType: z.enum(WALL_TYPES),
+      subOption: z.string().nullish(),
+      length: feet,
+      height: feet,
+      glassHeight: feet.optional(),
+      plasterFaces: z.number().int().min(0).max(2).default(0),
+      openings: z
+        .array(
+          z.object({
+            type: z.enum(["door", "window", "ventilator", "duct"]),
+            width: feet,
+            height: feet,
+            count: count.default(1),
+          }),
+        )
+        .default([]),
+    }),
+  ),
+  mortarRatio: z.number().positive().max(20).default(DEFAULT_MORTAR_RATIO),
+  jointMm: z.number().min(0).max(25).default(DEFAULT_JOINT_MM),
+  /** Defaults to the coefficient set's wall wastage. */
+  wastagePercent: percent.optional(),
+});
+
+const flooringSchema = z.object({
+  rooms: rows(
+    z.object({
+      name: label("Room"),
+      shape: z.enum(["rectangle", "l-shape"]).default("rectangle"),
+      length: feet,
+      width: feet,
+      cutoutLength: feet.default(0),
+      cutoutWidth: feet.default(0),
+      doorOpeningsFt: feet.default(0),
+    }),
+  ),
+  tileId: z
+    .string()
+    .refine((id) => FLOORING_TILE_SIZES.some((t) => t.id === id), {
+      message: "Unknown tile size",
+    })
+    .default(FLOORING_TILE_SIZES[1].id),
+  pattern: z.enum(["straight", "diagonal", "herringbone"]).default("straight"),
+  jointMm: z.number().min(0).max(25).default(2),
+  skirting: z.boolean().default(true),
+});
+
+const falseCeilingSchema = z.object({
+  system: z.enum(["gypsum", "grid"]).default("gypsum"),
+  plenumFt: feet.default(2),
+  areas: rows(z.object({ name: label("Room"), length: feet, width: feet })),
+  cutouts: z
+    .array(
+      z.object({
+        kind: z.enum(["light", "ac", "other"]),
+        count: count.default(1),
+        lengthFt: feet,
+        widthFt: feet,
+      }),
+    )
+    .default([]),
+  drops: z
+    .array(
+      z.object({
+        kind: z.enum(["cove", "bulkhead"]),
+        lengthFt: feet,
+        dropFt: feet,
+        widthFt: feet.default(0),
+      }),
+    )
+    .default([]),
+});
+
+const blindsSchema = z.object({
+  windows: rows(
+    z.object({
+      name: label("Window"),
+      widthFt: feet,
+      heightFt: feet,
+      mount: z.enum(["inside", "outside"]).default("inside"),
+      type: z.enum(BLIND_TYPES).default("roller"),
+      control: z.enum(["manual", "motorised"]).default("manual"),
+      quantity: count.default(1),
+    }),
+  ),
+});
+
+const pointCounts = <K extends string>(keys: readonly K[]) =>
+  z.object(
+    Object.fromEntries(keys.map((k) => [k, count.default(0)])) as Record<
+      K,
+      z.ZodDefault<typeof count>
+    >,
+  );
+
+const electricalSchema = z.object({
+  rooms: rows(
+    z.object({
+      name: label("Room"),
+      length: feet,
+      width: feet,
+      height: feet.default(10),
+      distanceFromDb: feet.default(0),
+      points: pointCounts(ELECTRICAL_POINT_TYPES),
+    }),
+  ),
+});
+
+const paintSystem = (defaults: {
+  primerCoats: number;
+  puttyCoats: number;
+  finish: PaintProductId;
+  finishCoats: number;
+}) =>
+  z
+    .object({
+      primerCoats: z.number().int().min(0).max(5).default(defaults.primerCoats),
+      puttyCoats: z.number().int().min(0).max(5).default(defaults.puttyCoats),
+      finish: z
+        .enum(FINISH_PAINTS as [PaintProductId, ...PaintProductId[]])
+        .default(defaults.finish),
+      finishCoats: z.number().int().min(0).max(5).default(defaults.finishCoats),
+    })
+    .default({});
+
+const opening = (widthFt: number, heightFt: number) =>
+  z
+    .object({
+      widthFt: feet.default(widthFt),
+      heightFt: feet.default(heightFt),
+    })
+    .default({});
+
+const paintingSchema = z.object({
+  rooms: rows(
+    z.object({
+      name: label("Room"),
+      length: feet,
+      width: feet,
+      height: feet,
+      doors: count.default(0),
+      windows: count.default(0),
+      ceiling: z.boolean().default(true),
+    }),
+  ),
+  systems: z
+    .object({
+      walls: paintSystem({
+        primerCoats: 1,
+        puttyCoats: 2,
+        finish: "emulsion",
+        finishCoats: 2,
+      }),
+      ceiling: paintSystem({
+        primerCoats: 1,
+        puttyCoats: 1,
+        finish: "ceiling-white",
+        finishCoats: 2,
+      }),
+    })
+    .default({}),
+  door: opening(3, 7),
+  window: opening(4, 4),
+  revealDepthFt: feet.default(0.75),
+});
+
+const plumbingSchema = z.object({
+  areas: rows(
+    z.object({
+      name: label("Bathroom"),
+      fixtures: pointCounts(FIXTURE_TYPES),
+      supplyRunFt: feet.default(0),
+      drainRunFt: feet.default(0),
+    }),
+  ),
+  supplyMaterial: z.enum(["cpvc", "ppr"]).default("cpvc"),
+  hotWater: z.boolean().default(true),
+  riserFt: feet.default(0),
+  stackFt: feet.default(0),
+  /** Ratios left out come from the coefficient set. */
+  ratios: z
+    .object({
+      supplyBranchFt: feet.optional(),
+      drainBranchFt: feet.optional(),
+      supplyElbowsPer10Ft: feet.optional(),
+      drainBendsPer10Ft: feet.optional(),
+      supplyPipeLengthFt: z.number().positive().optional(),
+      jointsPerSolventTin: z.number().positive().optional(),
+    })
+    .default({}),
+  /** Defaults to the coefficient set's plumbing wastage. */
+  wastagePercent: percent.optional(),
+});
+
+const fireFightingSchema = z.object({
+  floors: rows(
+    z.object({
+      name: label("Floor"),
+      length: feet,
+      width: feet,
+      distanceFromRiser: feet.default(0),
+      electricalRooms: count.default(0),
+    }),
+  ),
+  hazard: z.enum(["light", "ordinary", "high"]).default("light"),
+  floorHeightFt: feet.default(10),
+  hydrantSystem: z.boolean().default(true),
+});
+
+const steelSchema = (material: SteelMaterial) =>
+  z.object({
+    members: rows(
+      z.object({
+        name: label("M1"),
+        sectionId: z.string().refine((id) => !!steelSection(id), {
+          message: "Unknown steel section",
+        }),
+        lengthFt: feet,
+        widthFt: feet.default(0),
+        count: count.default(1),
+        basePlates: count.default(0),
+      }),
+    ),
+    gradeId: z.string().default(STEEL_MATERIAL_RULES[material].defaultGradeId),
+    basePlateId: z.string().default(BASE_PLATE_SIZES[1].id),
+    fabricationRatePerKg: z
+      .number()
+      .nonnegative()
+      .default(STEEL_MATERIAL_RULES[material].fabricationRatePerKg),
+    erectionRatePerKg: z
+      .number()
+      .nonnegative()
+      .default(STEEL_MATERIAL_RULES[material].erectionRatePerKg),
+    wastagePercent: percent.default(5),
+  });
+
+/** What an engine returns: its takeoff plus the requirement lines. */
+type EngineResult = { requiredMaterials: MaterialRequirement[] } | null;
+
+interface EstimateType {
+  /** The estimator (BOQ `estimator` column) this type stands in for. */
+  estimator: string;
+  /** Validates the body and runs the engine on it. */
+  run: (
+    input: unknown,
+    coefficients: Coefficients,
+  ) => { value: EngineResult } | { error: string };
+}
+
+const formatIssue = (issue: z.ZodIssue) =>
+  issue.path.length > 0
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+
+const estimateType = <S extends z.ZodTypeAny>(t: {
+  estimator: string;
+  schema: S;
+  run: (input: z.infer<S>, coefficients: Coefficients) => EngineResult;
+}): EstimateType => ({
+  estimator: t.estimator,
+  run: (input, coefficients) => {
+    const parsed = t.schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      return {
+        error: parsed.error.issues.slice(0, 5).map(formatIssue).join("; "),
+      };
+    }
+    return { value: t.run(parsed.data, coefficients) };
+  },
+});
+
+const steelType = (material: SteelMaterial, estimator: string) =>
+  estimateType({
+    estimator,
+    schema: steelSchema(material),
+    run: ({ members, ...options }) =>
+      computeSteelFabricationRequired(members, { material, ...options }),
+  });
+
+export const ESTIMATE_TYPES: Record<string, EstimateType> = {
+  wall: estimateType({
+    estimator: "civilwall",
+    schema: wallSchema,
+    run: ({ walls, mortarRatio, jointMm, wastagePercent }, coefficients) =>
+      computeWallSchedule(
+        walls.map((w) => ({
+          ...w,
+          mortarRatio,
+          jointThicknessMm: jointMm,
+          wastagePercent,
+        })),
+        coefficients,
+      ),
+  }),
+  flooring: estimateType({
+    estimator: "flooring",
+    schema: flooringSchema,
+    run: ({ rooms, tileId, pattern, jointMm, skirting }, coefficients) =>
+      computeFlooringRequired(
+        rooms,
+        FLOORING_TILE_SIZES.find((t) => t.id === tileId)!,
+        pattern,
+        jointMm,
+        skirting,
+        coefficients,
+      ),
+  }),
+  "false-ceiling": estimateType({
+    estimator: "falseceiling",
+    schema: falseCeilingSchema,
+    run: ({ areas, system, cutouts, drops, plenumFt }, coefficients) =>
+      computeFalseCeilingRequired(
+        areas,
+        system,
+        cutouts,
+        drops,
+        plenumFt,
+        coefficients,
+      ),
+  }),
+  blinds: estimateType({
+    estimator: "blinds",
+    schema: blindsSchema,
+    run: ({ windows }) => computeBlindsRequired(windows),
+  }),
+  electrical: estimateType({
+    estimator: "electrical",
+    schema: electricalSchema,
+    run: ({ rooms }, coefficients) =>
+      computeElectricalRequired(rooms, coefficients),
+  }),
+  painting: estimateType({
+    estimator: "painting",
+    schema: paintingSchema,
+    run: ({ rooms, systems, door, window, revealDepthFt }, coefficients) =>
+      computePaintingRequired(
+        rooms,
+        systems,
+        door,
+        window,
+        revealDepthFt,
+        coefficients,
+      ),
+  }),
+  plumbing: estimateType({
+    estimator: "plumbing",
+    schema: plumbingSchema,
+    run: ({ areas, ratios, wastagePercent, ...options }, coefficients) =>
+      computePlumbingRequired(areas, {
+        ...options,
+        ratios: { ...fittingRatios(coefficients), ...ratios },
+        wastagePercent: wastagePercent ?? coefficients.plumbingWastagePercent,
+      }),
+  }),
+  "fire-fighting": estimateType({
+    estimator: "firefighting",
+    schema: fireFightingSchema,
+    run: ({ floors, hazard, floorHeightFt, hydrantSystem }) =>
+      computeFireFightingRequired(floors, hazard, floorHeightFt, hydrantSystem),
+  }),
+  "ms-work": steelType("ms", "mswork"),
+  "ss-work": steelType("ss", "sswork"),
+};
+
+export interface EstimateQuantity {
+  key: string;
+  item: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  description?: string;
+  location?: string;
+  breakdown?: { location: string; quantity: number }[];
+}
+
+export interface EstimateResult {
+  type: string;
+  estimator: string;
+  unitSystem: UnitSystem;
+  quantities: EstimateQuantity[];
+  /** The engine's own takeoff (rooms, runs, totals), in feet. */
+  takeoff: Record<string, unknown>;
+}
+
+const inSystem = (quantity: number, unit: string, system: UnitSystem) =>
+  convertQuantity(quantity, unit, system).quantity;
+
+/** Requirement lines as API quantities, coatings at their default coverage. */
+export function toEstimateQuantities(
+  requirements: MaterialRequirement[],
+  system: UnitSystem,
+): EstimateQuantity[] {
+  return requirements.map((r) => {
+    const { quantity, unit } = convertQuantity(
+      requirementQuantity(r),
+      r.unit,
+      system,
+    );
+    return {
+      key: r.key,
+      item: r.item,
+      quantity,
+      unit,
+      category: r.category,
+      description: r.description,
+      location: r.location,
+      breakdown: r.breakdown?.map((b) => ({
+        location: b.location,
+        quantity: inSystem(b.quantity, r.unit, system),
+      })),
+    };
+  });
+}
+
+export function isEstimateType(type: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ESTIMATE_TYPES, type);
+}
+
+/**
+ * Validates `input` for an estimate type and runs its engine with the
+ * given coefficients. An input the engine has nothing to measure in (no
+ * row with a size) is an error too.
+ */
+function runEngine(
+  type: string,
+  input: unknown,
+  coefficients: Coefficients,
+): { value: NonNullable<EngineResult> } | { error: string } {
+  if (!isEstimateType(type)) return { error: `Unknown estimate type: ${type}` };
+  const run = ESTIMATE_TYPES[type].run(input, coefficients);
+  if ("error" in run) return run;
+  if (!run.value) return { error: "Nothing to estimate: every row is empty" };
+  return { value: run.value };
+}
+
+/** The engine's requirement lines, in feet, before any unit conversion. */
+export function estimateRequirements(
+  type: string,
+  input: unknown,
+  coefficients: Coefficients = DEFAULT_COEFFICIENTS,
+): { value: MaterialRequirement[] } | { error: string } {
+  const run = runEngine(type, input, coefficients);
+  if ("error" in run) return run;
+  return { value: run.value.requiredMaterials };
+}
+
+/** runEngine's result as the API returns it, in `system`. */
+export function runEstimate(
+  type: string,
+  input: unknown,
+  system: UnitSystem,
+  coefficients: Coefficients = DEFAULT_COEFFICIENTS,
+): { value: EstimateResult } | { error: string } {
+  const run = runEngine(type, input, coefficients);
+  if ("error" in run) return run;
+
+  const { requiredMaterials, ...takeoff } = run.value;
+  return {
+    value: {
+      type,
+      estimator: ESTIMATE_TYPES[type].estimator,
+      unitSystem: system,
+      quantities: toEstimateQuantities(requiredMaterials, system),
+      takeoff,
+    },
+  };
+}
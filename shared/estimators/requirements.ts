@@ -0,0 +1,121 @@
+// Estimators compute what a job needs as requirement lines. The client
+// matches the store's materials against them for rates and shops before
+// they go into the Step 9 cart; POST /api/estimate/:type returns them as is.
+
+export interface MaterialRequirement {
+  /** Stable id within one estimate, e.g. "wire-1.5". */
+  key: string;
+  /** BOQ item name. */
+  item: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  /** How the quantity was derived, shown under the item. */
+  description?: string;
+  /**
+   * Words that must all appear in a store material's name, product or
+   * category for it to be offered for this line.
+   */
+  keywords: string[];
+  /** Starting install rate per unit, for lines that are labour rather than supply. */
+  installRate?: number;
+  /** Cart location when it differs from the estimate's, e.g. one room's walls. */
+  location?: string;
+  /**
+   * For coatings: the quantity is the area divided by the chosen
+   * material's coverage (attributes.coverage, sqft per unit per coat),
+   * falling back to sqftPerUnit.
+   */
+  coverage?: { areaSqft: number; sqftPerUnit: number };
+  /**
+   * Rolled-up lines: how much each location takes. The cart gets one line
+   * per location, sharing the quantity in proportion.
+   */
+  breakdown?: { location: string; quantity: number }[];
+}
+
+/** The part of a store material the quantity maths looks at. */
+export interface CoverageSource {
+  attributes?: { coverage?: unknown } | null;
+}
+
+/** Area one unit of a material covers per coat, when the store records it. */
+export function materialCoverage(
+  material?: CoverageSource | null,
+): number | null {
+  const coverage = Number(material?.attributes?.coverage);
+  return coverage > 0 ? coverage : null;
+}
+
+/** A requirement's quantity when supplied by the given material. */
+export function requirementQuantity(
+  requirement: MaterialRequirement,
+  material?: CoverageSource | null,
+): number {
+  const { coverage } = requirement;
+  if (!coverage) return requirement.quantity;
+  const perUnit = materialCoverage(material) || coverage.sqftPerUnit;
+  // Coatings are bought by the half litre / half kg
+  return Math.ceil((coverage.areaSqft / perUnit) * 2) / 2;
+}
+
+/**
+ * Merges lines for the same item and unit, e.g. from every wall in a
+ * schedule, keeping each line's location in the breakdown.
+ */
+export function rollUpRequirements(
+  lines: MaterialRequirement[],
+): MaterialRequirement[] {
+  const merged = new Map<string, MaterialRequirement>();
+  for (const line of lines) {
+    const id = `${line.item}||${line.unit}`;
+    const part = { location: line.location || "", quantity: line.quantity };
+    const existing = merged.get(id);
+    if (!existing) {
+      merged.set(id, {
+        ...line,
+        location: undefined,
+        coverage: line.coverage && { ...line.coverage },
+        breakdown: [part],
+      });
+      continue;
+    }
+    existing.quantity += line.quantity;
+    if (existing.coverage && line.coverage) {
+      existing.coverage.areaSqft += line.coverage.areaSqft;
+    }
+    if (existing.description !== line.description) {
+      existing.description = undefined;
+    }
+    const same = existing.breakdown!.find((b) => b.location === part.location);
+    if (same) same.quantity += part.quantity;
+    else existing.breakdown!.push(part);
+  }
+  return Array.from(merged.values()).map((r) => {
+    if (r.breakdown!.length > 1) return r;
+    return {
+      ...r,
+      location: r.breakdown![0].location || undefined,
+      breakdown: undefined,
+    };
+  });
+}
+
+/**
+ * A line's quantity per cart location: shared across the breakdown in
+ * proportion, or all of it at the line's own location.
+ */
+export function splitByLocation(
+  requirement: MaterialRequirement,
+  quantity: number,
+): { location?: string; quantity: number }[] {
+  const parts = (requirement.breakdown || []).filter((b) => b.quantity > 0);
+  const total = parts.reduce((sum, b) => sum + b.quantity, 0);
+  if (parts.length === 0 || total <= 0) {
+    return [{ location: requirement.location, quantity }];
+  }
+  return parts.map((b) => ({
+    location: b.location,
+    quantity: Math.round(((quantity * b.quantity) / total) * 100) / 100,
+  }));
+}
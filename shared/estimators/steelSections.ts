@@ -0,0 +1,229 @@
+// Steel section library for fabrication estimates. Weights are the
+// nominal IS 808 / IS 1161 / IS 4923 values for mild steel; other grades
+// scale them by density, since stainless sections are rolled and drawn to
+// the same sizes.
+
+export type SteelMaterial = "ms" | "ss";
+
+export type SectionShape =
+  "pipe" | "box" | "angle" | "channel" | "flat" | "sheet";
+
+export const SECTION_SHAPE_LABELS: Record<SectionShape, string> = {
+  pipe: "Pipe / Tube",
+  box: "Box Section",
+  angle: "Angle",
+  channel: "Channel",
+  flat: "Flat",
+  sheet: "Sheet / Plate",
+};
+
+export const MS_DENSITY_KG_M3 = 7850;
+
+export interface SteelGrade {
+  id: string;
+  material: SteelMaterial;
+  label: string;
+  densityKgM3: number;
+}
+
+export const STEEL_GRADES: SteelGrade[] = [
+  {
+    id: "e250",
+    material: "ms",
+    label: "IS 2062 E250",
+    densityKgM3: MS_DENSITY_KG_M3,
+  },
+  {
+    id: "e350",
+    material: "ms",
+    label: "IS 2062 E350",
+    densityKgM3: MS_DENSITY_KG_M3,
+  },
+  { id: "ss202", material: "ss", label: "SS 202", densityKgM3: 7800 },
+  { id: "ss304", material: "ss", label: "SS 304", densityKgM3: 7930 },
+  { id: "ss316", material: "ss", label: "SS 316", densityKgM3: 7980 },
+];
+
+export interface SteelSection {
+  id: string;
+  shape: SectionShape;
+  /** Size as written on drawings, e.g. "50 × 50 × 6". */
+  size: string;
+  /** kg per metre, or per m² for sheets, at mild steel density. */
+  weight: number;
+  /** Painted surface per metre, or per m² for sheets (both faces). */
+  surfaceM2: number;
+  materials: SteelMaterial[];
+  /** Size word a store material name must contain, e.g. "50X50". */
+  keyword: string;
+}
+
+const BOTH: SteelMaterial[] = ["ms", "ss"];
+
+const pipe = (
+  nb: string,
+  odMm: number,
+  wallMm: number,
+  weight: number,
+  materials: SteelMaterial[],
+): SteelSection => ({
+  id: `pipe-${odMm}x${wallMm}`,
+  shape: "pipe",
+  size: nb ? `${nb} NB (${odMm} OD × ${wallMm})` : `${odMm} OD × ${wallMm}`,
+  weight,
+  surfaceM2: (Math.PI * odMm) / 1000,
+  materials,
+  keyword: nb ? `${nb}NB` : `${odMm}`,
+});
+
+const box = (
+  aMm: number,
+  bMm: number,
+  wallMm: number,
+  weight: number,
+  materials: SteelMaterial[],
+): SteelSection => ({
+  id: `box-${aMm}x${bMm}x${wallMm}`,
+  shape: "box",
+  size: `${aMm} × ${bMm} × ${wallMm}`,
+  weight,
+  surfaceM2: (2 * (aMm + bMm)) / 1000,
+  materials,
+  keyword: `${aMm}X${bMm}`,
+});
+
+const angle = (legMm: number, tMm: number, weight: number): SteelSection => ({
+  id: `angle-${legMm}x${tMm}`,
+  shape: "angle",
+  size: `${legMm} × ${legMm} × ${tMm}`,
+  weight,
+  surfaceM2: (4 * legMm) / 1000,
+  materials: BOTH,
+  keyword: `${legMm}X${legMm}`,
+});
+
+const channel = (
+  depthMm: number,
+  flangeMm: number,
+  weight: number,
+): SteelSection => ({
+  id: `channel-${depthMm}`,
+  shape: "channel",
+  size: `ISMC ${depthMm} (${depthMm} × ${flangeMm})`,
+  weight,
+  surfaceM2: (2 * depthMm + 4 * flangeMm) / 1000,
+  materials: ["ms"],
+  keyword: `${depthMm}`,
+});
+
+const flat = (widthMm: number, tMm: number): SteelSection => ({
+  id: `flat-${widthMm}x${tMm}`,
+  shape: "flat",
+  size: `${widthMm} × ${tMm}`,
+  weight: Math.round(widthMm * tMm * MS_DENSITY_KG_M3 * 1e-4) / 100,
+  surfaceM2: (2 * (widthMm + tMm)) / 1000,
+  materials: BOTH,
+  keyword: `${widthMm}X${tMm}`,
+});
+
+const sheet = (tMm: number, materials: SteelMaterial[]): SteelSection => ({
+  id: `sheet-${tMm}`,
+  shape: "sheet",
+  size: `${tMm} mm`,
+  weight: Math.round(tMm * MS_DENSITY_KG_M3 * 0.1) / 100,
+  surfaceM2: 2,
+  materials,
+  keyword: `${tMm}MM`,
+});
+
+export const STEEL_SECTIONS: SteelSection[] = [
+  // IS 1239 medium pipes
+  pipe("15", 21.3, 2.6, 1.22, ["ms"]),
+  pipe("20", 26.9, 2.6, 1.58, ["ms"]),
+  pipe("25", 33.7, 3.2, 2.44, ["ms"]),
+  pipe("32", 42.4, 3.2, 3.14, ["ms"]),
+  pipe("40", 48.3, 3.2, 3.61, ["ms"]),
+  pipe("50", 60.3, 3.6, 5.1, ["ms"]),
+  pipe("65", 76.1, 3.6, 6.51, ["ms"]),
+  pipe("80", 88.9, 4.0, 8.47, ["ms"]),
+  pipe("100", 114.3, 4.5, 12.1, ["ms"]),
+  // Railing tubes
+  pipe("", 25.4, 1.2, 0.72, ["ss"]),
+  pipe("", 38.1, 1.5, 1.35, ["ss"]),
+  pipe("", 50.8, 1.5, 1.82, ["ss"]),
+  pipe("", 50.8, 2.0, 2.41, BOTH),
+  // IS 4923 hollow sections
+  box(25, 25, 1.2, 0.9, ["ss"]),
+  box(25, 25, 2.0, 1.36, ["ms"]),
+  box(40, 40, 1.5, 1.81, ["ss"]),
+  box(40, 40, 2.6, 2.93, ["ms"]),
+  box(50, 25, 1.2, 1.37, ["ss"]),
+  box(50, 50, 3.2, 4.52, BOTH),
+  box(60, 40, 2.6, 3.74, ["ms"]),
+  box(72, 72, 3.2, 6.71, ["ms"]),
+  box(80, 40, 3.2, 5.5, ["ms"]),
+  box(100, 50, 3.2, 7.01, ["ms"]),
+  // IS 808 equal angles
+  angle(25, 3, 1.1),
+  angle(35, 5, 2.6),
+  angle(40, 5, 3.0),
+  angle(50, 5, 3.8),
+  angle(50, 6, 4.5),
+  angle(65, 6, 5.8),
+  angle(75, 6, 6.8),
+  angle(75, 8, 8.9),
+  angle(90, 8, 10.8),
+  angle(100, 10, 14.9),
+  // IS 808 medium weight channels
+  channel(75, 40, 7.14),
+  channel(100, 50, 9.56),
+  channel(125, 65, 13.1),
+  channel(150, 75, 16.8),
+  channel(200, 75, 22.3),
+  channel(250, 80, 30.6),
+  // Flats
+  flat(25, 3),
+  flat(25, 5),
+  flat(40, 5),
+  flat(40, 6),
+  flat(50, 6),
+  flat(50, 8),
+  flat(65, 8),
+  flat(75, 10),
+  // Sheets and plates
+  sheet(1.0, BOTH),
+  sheet(1.2, BOTH),
+  sheet(1.6, BOTH),
+  sheet(2.0, BOTH),
+  sheet(3.0, BOTH),
+  sheet(5.0, ["ms"]),
+  sheet(6.0, ["ms"]),
+  sheet(8.0, ["ms"]),
+  sheet(10.0, ["ms"]),
+  sheet(12.0, ["ms"]),
+];
+
+export function steelGrade(id: string): SteelGrade {
+  return STEEL_GRADES.find((g) => g.id === id) || STEEL_GRADES[0];
+}
+
+export function steelSection(id: string): SteelSection | undefined {
+  return STEEL_SECTIONS.find((s) => s.id === id);
+}
+
+export function sectionsFor(
+  material: SteelMaterial,
+  shape?: SectionShape,
+): SteelSection[] {
+  return STEEL_SECTIONS.filter(
+    (s) => s.materials.includes(material) && (!shape || s.shape === shape),
+  );
+}
+
+/** kg/m (kg/m² for sheets) of a section in the given grade. */
+export function sectionWeight(
+  section: SteelSection,
+  grade: SteelGrade,
+): number {
+  return (section.weight * grade.densityKgM3) / MS_DENSITY_KG_M3;
+}
@@ -0,0 +1,366 @@
+// GST (Indian goods and services tax) engine shared by the API, CreateBoq
+// and the BOQ exports. Rates come from the admin-maintained gst_rates table.
+
+export const TAX_CODE_TYPES = ["hsn", "sac"] as const;
+
+export type TaxCodeType = (typeof TAX_CODE_TYPES)[number];
+
+/** Intra-state supplies pay CGST + SGST; inter-state supplies pay IGST. */
+export type SupplyType = "intra" | "inter";
+
+export interface GstRate {
+  id?: number;
+  code_type: TaxCodeType;
+  /** HSN/SAC digits; matches every code that starts with it. */
+  code_prefix: string;
+  rate: number;
+  description?: string | null;
+}
+
+/** How one BOQ line is taxed, before amounts are known. */
+export interface LineTaxInfo {
+  codeType: TaxCodeType | null;
+  codeValue: string | null;
+  /** GST % from the rate table; null when the code is missing or unknown. */
+  rate: number | null;
+  supplyType: SupplyType;
+  supplierState: string | null;
+}
+
+export interface LineTax {
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  tax: number;
+}
+
+export interface GstSummaryRow extends LineTax {
+  rate: number;
+  supplyType: SupplyType;
+}
+
+export interface GstSummary extends LineTax {
+  /** One row per rate and supply type, ordered by rate. */
+  rows: GstSummaryRow[];
+  /** Value of lines with no GST rate, included in `taxable` untaxed. */
+  unrated: number;
+  unratedLines: number;
+  total: number;
+}
+
+export function isTaxCodeType(value: unknown): value is TaxCodeType {
+  return TAX_CODE_TYPES.includes(value as TaxCodeType);
+}
+
+/** HSN/SAC codes are numeric; drop spaces, dots and other separators. */
+export function normalizeTaxCode(value: unknown): string {
+  return String(value ?? "").replace(/\D/g, "");
+}
+
+/** Longest matching prefix wins, so "7214" overrides a generic "72". */
+export function findGstRate(
+  rates: GstRate[],
+  codeType: TaxCodeType | null,
+  codeValue: string | null,
+): GstRate | null {
+  const code = normalizeTaxCode(codeValue);
+  if (!codeType || !code) return null;
+
+  let best: GstRate | null = null;
+  for (const r of rates) {
+    const prefix = normalizeTaxCode(r.code_prefix);
+    if (r.code_type !== codeType || !prefix || !code.startsWith(prefix)) {
+      continue;
+    }
+    if (!best || prefix.length > normalizeTaxCode(best.code_prefix).length) {
+      best = r;
+    }
+  }
+  return best;
+}
+
+interface IndianState {
+  code: string;
+  name: string;
+  abbr: string[];
+  aliases?: string[];
+}
+
+// GST state codes, with older names and a few metro cities people type instead
+// of the state
+const INDIAN_STATES: IndianState[] = [
+  {
+    code: "01",
+    name: "Jammu and Kashmir",
+    abbr: ["JK"],
+    aliases: ["srinagar", "jammu"],
+  },
+  { code: "02", name: "Himachal Pradesh", abbr: ["HP"], aliases: ["shimla"] },
+  {
+    code: "03",
+    name: "Punjab",
+    abbr: ["PB"],
+    aliases: ["ludhiana", "amritsar"],
+  },
+  { code: "04", name: "Chandigarh", abbr: ["CH"] },
+  {
+    code: "05",
+    name: "Uttarakhand",
+    abbr: ["UK", "UT"],
+    aliases: ["uttaranchal", "dehradun"],
+  },
+  {
+    code: "06",
+    name: "Haryana",
+    abbr: ["HR"],
+    aliases: ["gurugram", "gurgaon", "faridabad"],
+  },
+  {
+    code: "07",
+    name: "Delhi",
+    abbr: ["DL"],
+    aliases: ["new delhi", "nct of delhi"],
+  },
+  {
+    code: "08",
+    name: "Rajasthan",
+    abbr: ["RJ"],
+    aliases: ["jaipur", "udaipur", "jodhpur"],
+  },
+  {
+    code: "09",
+    name: "Uttar Pradesh",
+    abbr: ["UP"],
+    aliases: ["noida", "greater noida", "lucknow", "ghaziabad"],
+  },
+  { code: "10", name: "Bihar", abbr: ["BR"], aliases: ["patna"] },
+  { code: "11", name: "Sikkim", abbr: ["SK"], aliases: ["gangtok"] },
+  { code: "12", name: "Arunachal Pradesh", abbr: ["AR"] },
+  { code: "13", name: "Nagaland", abbr: ["NL"] },
+  { code: "14", name: "Manipur", abbr: ["MN"] },
+  { code: "15", name: "Mizoram", abbr: ["MZ"] },
+  { code: "16", name: "Tripura", abbr: ["TR"] },
+  { code: "17", name: "Meghalaya", abbr: ["ML"], aliases: ["shillong"] },
+  { code: "18", name: "Assam", abbr: ["AS"], aliases: ["guwahati"] },
+  {
+    code: "19",
+    name: "West Bengal",
+    abbr: ["WB"],
+    aliases: ["kolkata", "calcutta"],
+  },
+  { code: "20", name: "Jharkhand", abbr: ["JH"], aliases: ["ranchi"] },
+  {
+    code: "21",
+    name: "Odisha",
+    abbr: ["OD", "OR"],
+    aliases: ["orissa", "bhubaneswar"],
+  },
+  { code: "22", name: "Chhattisgarh", abbr: ["CG", "CT"], aliases: ["raipur"] },
+  {
+    code: "23",
+    name: "Madhya Pradesh",
+    abbr: ["MP"],
+    aliases: ["bhopal", "indore"],
+  },
+  {
+    code: "24",
+    name: "Gujarat",
+    abbr: ["GJ"],
+    aliases: ["ahmedabad", "surat", "vadodara"],
+  },
+  {
+    code: "26",
+    name: "Dadra and Nagar Haveli and Daman and Diu",
+    abbr: ["DN", "DD"],
+    aliases: ["daman", "silvassa"],
+  },
+  {
+    code: "27",
+    name: "Maharashtra",
+    abbr: ["MH"],
+    aliases: ["mumbai", "bombay", "pune", "nagpur", "thane"],
+  },
+  {
+    code: "29",
+    name: "Karnataka",
+    abbr: ["KA"],
+    aliases: ["bengaluru", "bangalore", "mysuru", "mysore"],
+  },
+  { code: "30", name: "Goa", abbr: ["GA"], aliases: ["panaji"] },
+  { code: "31", name: "Lakshadweep", abbr: ["LD"] },
+  {
+    code: "32",
+    name: "Kerala",
+    abbr: ["KL"],
+    aliases: ["kochi", "cochin", "thiruvananthapuram", "trivandrum"],
+  },
+  {
+    code: "33",
+    name: "Tamil Nadu",
+    abbr: ["TN"],
+    aliases: ["tamilnadu", "chennai", "madras", "coimbatore", "madurai"],
+  },
+  { code: "34", name: "Puducherry", abbr: ["PY"], aliases: ["pondicherry"] },
+  {
+    code: "35",
+    name: "Andaman and Nicobar Islands",
+    abbr: ["AN"],
+    aliases: ["port blair"],
+  },
+  {
+    code: "36",
+    name: "Telangana",
+    abbr: ["TS", "TG"],
+    aliases: ["hyderabad", "secunderabad"],
+  },
+  {
+    code: "37",
+    name: "Andhra Pradesh",
+    abbr: ["AP"],
+    aliases: ["visakhapatnam", "vijayawada", "amaravati"],
+  },
+  { code: "38", name: "Ladakh", abbr: ["LA"], aliases: ["leh"] },
+];
+
+const normalizePlace = (value: string) =>
+  ` ${value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()} `;
+
+/**
+ * Best-effort state lookup from free text such as a shop's state column or a
+ * project location ("Whitefield, Bengaluru"). Returns the state name, or null
+ * when nothing recognisable is found.
+ */
+export function resolveIndianState(
+  value: string | null | undefined,
+): string | null {
+  const text = (value || "").trim();
+  if (!text) return null;
+  const normalized = normalizePlace(text);
+
+  // Longer names first so "West Bengal" is not read as some shorter match
+  const byName = [...INDIAN_STATES].sort(
+    (a, b) => b.name.length - a.name.length,
+  );
+  for (const s of byName) {
+    if (normalized.includes(normalizePlace(s.name))) return s.name;
+  }
+  for (const s of INDIAN_STATES) {
+    if ((s.aliases || []).some((a) => normalized.includes(normalizePlace(a)))) {
+      return s.name;
+    }
+  }
+
+  // Abbreviations and GST state codes double as English words/numbers, so
+  // only trust them as the whole value or its last comma-separated part
+  const last = text.split(",").pop()!.trim().toUpperCase();
+  for (const s of INDIAN_STATES) {
+    if (s.abbr.includes(last) || s.code === last.padStart(2, "0")) {
+      return s.name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Inter-state only when both states are known and differ; lines with an
+ * unknown supplier or site state fall back to CGST + SGST.
+ */
+export function determineSupplyType(
+  supplierState: string | null,
+  projectState: string | null,
+): SupplyType {
+  if (!supplierState || !projectState) return "intra";
+  return supplierState === projectState ? "intra" : "inter";
+}
+
+const round2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+/** Tax on one line; CGST and SGST are each half the rate, rounded per line. */
+export function computeLineTax(taxable: number, info: LineTaxInfo): LineTax {
+  const amount = Number.isFinite(taxable) ? taxable : 0;
+  if (info.rate === null || info.rate <= 0) {
+    return { taxable: amount, cgst: 0, sgst: 0, igst: 0, tax: 0 };
+  }
+  if (info.supplyType === "inter") {
+    const igst = round2((amount * info.rate) / 100);
+    return { taxable: amount, cgst: 0, sgst: 0, igst, tax: igst };
+  }
+  const half = round2((amount * info.rate) / 200);
+  return { taxable: amount, cgst: half, sgst: half, igst: 0, tax: half * 2 };
+}
+
+export function summarizeGst(
+  lines: { taxable: number; info: LineTaxInfo }[],
+): GstSummary {
+  const byKey = new Map<string, GstSummaryRow>();
+  const summary: GstSummary = {
+    rows: [],
+    taxable: 0,
+    cgst: 0,
+    sgst: 0,
+    igst: 0,
+    tax: 0,
+    unrated: 0,
+    unratedLines: 0,
+    total: 0,
+  };
+
+  for (const line of lines) {
+    const t = computeLineTax(line.taxable, line.info);
+    summary.taxable += t.taxable;
+    summary.cgst += t.cgst;
+    summary.sgst += t.sgst;
+    summary.igst += t.igst;
+    summary.tax += t.tax;
+
+    if (line.info.rate === null) {
+      summary.unrated += t.taxable;
+      summary.unratedLines += 1;
+      continue;
+    }
+
+    const key = `${line.info.rate}|${line.info.supplyType}`;
+    if (!byKey.has(key)) {
+      byKey.set(key, {
+        rate: line.info.rate,
+        supplyType: line.info.supplyType,
+        taxable: 0,
+        cgst: 0,
+        sgst: 0,
+        igst: 0,
+        tax: 0,
+      });
+    }
+    const row = byKey.get(key)!;
+    row.taxable += t.taxable;
+    row.cgst += t.cgst;
+    row.sgst += t.sgst;
+    row.igst += t.igst;
+    row.tax += t.tax;
+  }
+
+  // Per-line amounts are already rounded; this only trims float drift
+  for (const t of [summary, ...Array.from(byKey.values())]) {
+    t.taxable = round2(t.taxable);
+    t.cgst = round2(t.cgst);
+    t.sgst = round2(t.sgst);
+    t.igst = round2(t.igst);
+    t.tax = round2(t.tax);
+  }
+  summary.unrated = round2(summary.unrated);
+  summary.rows = Array.from(byKey.values()).sort(
+    (a, b) => a.rate - b.rate || a.supplyType.localeCompare(b.supplyType),
+  );
+  summary.total = summary.taxable + summary.tax;
+  return summary;
+}
+
+/** "CGST+SGST" / "IGST" for labels in the grid and exports. */
+export function supplyTypeLabel(type: SupplyType): string {
+  return type === "inter" ? "IGST" : "CGST+SGST";
+}
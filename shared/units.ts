@@ -0,0 +1,144 @@
+// Unit systems for estimates and BOQs. Estimator engines work in feet; a
+// project can ask for metric instead, in which case inputs, quantities and
+// rates are converted at the edges (estimator forms, cart lines, exports)
+// so the amount of every line stays the same.
+
+export type UnitSystem = "imperial" | "metric";
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "imperial";
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  imperial: "Imperial (ft, sqft, cft)",
+  metric: "Metric (m, sqm, cum)",
+};
+
+export function parseUnitSystem(value: unknown): UnitSystem {
+  return value === "metric" ? "metric" : DEFAULT_UNIT_SYSTEM;
+}
+
+interface UnitPair {
+  imperial: string;
+  metric: string;
+  /** Metric units per imperial unit. */
+  factor: number;
+  imperialAliases: string[];
+  metricAliases: string[];
+  /**
+   * Whether imperial projects convert the metric unit back. Cable by the
+   * metre and bores in millimetres are trade units either way.
+   */
+  toImperial: boolean;
+}
+
+const UNIT_PAIRS: UnitPair[] = [
+  {
+    imperial: "ft",
+    metric: "m",
+    factor: 0.3048,
+    imperialAliases: ["ft", "feet", "foot"],
+    metricAliases: ["m", "mtr", "meter", "metre"],
+    toImperial: false,
+  },
+  {
+    imperial: "rft",
+    metric: "rm",
+    factor: 0.3048,
+    imperialAliases: ["rft", "runningft", "rf"],
+    metricAliases: ["rm", "rmt", "runningm"],
+    toImperial: true,
+  },
+  {
+    imperial: "sqft",
+    metric: "sqm",
+    factor: 0.09290304,
+    imperialAliases: ["sqft", "sft", "ft2", "sqfeet"],
+    metricAliases: ["sqm", "m2", "sqmt", "sqmtr"],
+    toImperial: true,
+  },
+  {
+    imperial: "cft",
+    metric: "cum",
+    factor: 0.028316846592,
+    imperialAliases: ["cft", "cuft", "ft3"],
+    metricAliases: ["cum", "m3", "cumt", "cbm"],
+    toImperial: true,
+  },
+  {
+    imperial: "in",
+    metric: "mm",
+    factor: 25.4,
+    imperialAliases: ["in", "inch", "inches"],
+    metricAliases: ["mm"],
+    toImperial: false,
+  },
+];
+
+const normalizeUnit = (unit: string) =>
+  unit.toLowerCase().replace("²", "2").replace("³", "3").replace(/[\s.]/g, "");
+
+/**
+ * The unit to show `unit` in under `system`, and what to multiply a
+ * quantity by to get there. Units with no counterpart (nos, kg, ltr) and
+ * units already in the system come back unchanged with a factor of 1.
+ * Imperial projects only convert running, area and volume units back.
+ */
+export function unitInSystem(
+  unit: string,
+  system: UnitSystem,
+): { unit: string; factor: number } {
+  const key = normalizeUnit(unit || "");
+  for (const pair of UNIT_PAIRS) {
+    if (system === "metric" && pair.imperialAliases.includes(key)) {
+      return { unit: pair.metric, factor: pair.factor };
+    }
+    if (
+      system === "imperial" &&
+      pair.toImperial &&
+      pair.metricAliases.includes(key)
+    ) {
+      return { unit: pair.imperial, factor: 1 / pair.factor };
+    }
+  }
+  return { unit, factor: 1 };
+}
+
+const round = (n: number, places: number) => {
+  const p = Math.pow(10, places);
+  return Math.round(n * p) / p;
+};
+
+/** A quantity in `unit` expressed in `system`. */
+export function convertQuantity(
+  quantity: number,
+  unit: string,
+  system: UnitSystem,
+): { quantity: number; unit: string } {
+  const target = unitInSystem(unit, system);
+  if (target.factor === 1) return { quantity, unit: target.unit };
+  return { quantity: round(quantity * target.factor, 3), unit: target.unit };
+}
+
+/**
+ * A priced line in `system`: the quantity is converted and the rates are
+ * per the new unit. Both are rounded for entry (3 and 2 places), so
+ * qty × rate can be off the original amount by a few paise; exports keep
+ * the original amounts instead (see localizeBoqRows).
+ */
+export function convertRatedLine<
+  T extends {
+    unit: string;
+    qty: number;
+    supplyRate: number;
+    installRate: number;
+  },
+>(line: T, system: UnitSystem): T {
+  const target = unitInSystem(line.unit, system);
+  if (target.factor === 1) return line;
+  return {
+    ...line,
+    unit: target.unit,
+    qty: round(line.qty * target.factor, 3),
+    supplyRate: round(line.supplyRate / target.factor, 2),
+    installRate: round(line.installRate / target.factor, 2),
+  };
+}